@@ -5,24 +5,36 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { useAuth } from "@/hooks/use-auth";
 import LoginPage from "@/pages/auth/login";
+import ChangePinPage from "@/pages/auth/change-pin";
 import DashboardPage from "@/pages/dashboards/dashboard";
 import FamilyFormPage from "@/pages/family/family-form";
 import StaffManagementPage from "@/pages/management/staff-management";
+import RoleManagementPage from "@/pages/management/role-management";
+import AuditLogPage from "@/pages/management/audit-log";
+import ApiTokensPage from "@/pages/management/api-tokens";
+import FamilyDuplicatesPage from "@/pages/management/family-duplicates";
+import DeletedFamiliesPage from "@/pages/management/deleted-families";
+import AddressReportPage from "@/pages/management/address-report";
+import CustomFieldsPage from "@/pages/management/custom-fields";
+import TagsPage from "@/pages/management/tags";
+import OfficersPage from "@/pages/management/officers";
 import NewsManagementPage from "@/pages/management/news-management";
 import EventListPage from "@/pages/events/event-list";
 import EventDetailPage from "@/pages/events/event-detail";
 import EventFormPage from "@/pages/events/event-form";
 import PublicAnnouncementPage from "@/pages/public/public-announcement";
+import BusinessDirectoryPage from "@/pages/public/business-directory";
 import DepartmentManagementPage from "@/pages/management/department-management";
 import TeamManagementPage from "@/pages/management/team-management";
 import TeamDashboardPage from "@/pages/dashboards/team-dashboard";
 import FamilyTeamDashboardPage from "@/pages/dashboards/family-team-dashboard";
 import DonationListPage from "@/pages/donations/donation-list";
 import CsvUploadPage from "@/pages/management/csv-upload";
+import VCardImportPage from "@/pages/management/vcard-import";
 import NotFound from "@/pages/public/not-found";
 
 function Router() {
-  const { isAuthenticated, isLoading } = useAuth();
+  const { isAuthenticated, isLoading, mustChangePin } = useAuth();
 
   if (isLoading) {
     return (
@@ -40,15 +52,28 @@ function Router() {
       <Switch>
         {/* Public routes (no authentication required) */}
         <Route path="/announcement/:id" component={PublicAnnouncementPage} />
+        <Route path="/directory" component={BusinessDirectoryPage} />
         
         {!isAuthenticated ? (
           <Route path="/" component={LoginPage} />
+        ) : mustChangePin ? (
+          // Nothing else is reachable until a temporary PIN has been replaced
+          <Route component={ChangePinPage} />
         ) : (
           <>
             <Route path="/" component={DashboardPage} />
             <Route path="/family/new" component={() => <FamilyFormPage mode="create" />} />
             <Route path="/family/:id/edit" component={({ params }) => <FamilyFormPage mode="edit" familyId={params.id} />} />
             <Route path="/staff-management" component={StaffManagementPage} />
+            <Route path="/roles" component={RoleManagementPage} />
+            <Route path="/audit-log" component={AuditLogPage} />
+            <Route path="/api-tokens" component={ApiTokensPage} />
+            <Route path="/family-duplicates" component={FamilyDuplicatesPage} />
+            <Route path="/deleted-families" component={DeletedFamiliesPage} />
+            <Route path="/address-report" component={AddressReportPage} />
+            <Route path="/custom-fields" component={CustomFieldsPage} />
+            <Route path="/tags" component={TagsPage} />
+            <Route path="/officers" component={OfficersPage} />
             <Route path="/news-management" component={NewsManagementPage} />
             <Route path="/events" component={EventListPage} />
             <Route path="/events/new" component={() => <EventFormPage mode="create" />} />
@@ -60,6 +85,7 @@ function Router() {
             <Route path="/family-dashboard" component={FamilyTeamDashboardPage} />
             <Route path="/donations" component={DonationListPage} />
             <Route path="/csv-upload" component={CsvUploadPage} />
+            <Route path="/vcard-import" component={VCardImportPage} />
           </>
         )}
         <Route component={NotFound} />
@@ -0,0 +1,143 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Monitor, LogOut } from 'lucide-react';
+import type { StaffSessionInfo } from '@server/schema';
+
+interface ActiveSessionsProps {
+  // When set, lists another staff member's sessions (requires staff.manage)
+  staffId?: string;
+}
+
+export function ActiveSessions({ staffId }: ActiveSessionsProps = {}) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const baseUrl = staffId ? `/api/staff/manage/${staffId}/sessions` : '/api/auth/sessions';
+
+  const { data: sessions = [], isLoading } = useQuery<StaffSessionInfo[]>({
+    queryKey: [baseUrl],
+    queryFn: async () => {
+      const response = await apiRequest('GET', baseUrl);
+      return await response.json();
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (session: StaffSessionInfo) => {
+      await apiRequest('DELETE', `/api/auth/sessions/${session.id}`);
+      return session;
+    },
+    onSuccess: (session) => {
+      if (session.current) {
+        // Revoking the current session signs you out
+        localStorage.removeItem('currentUser');
+        window.location.href = '/';
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: [baseUrl] });
+      toast({ title: "Session revoked", description: "That device has been signed out." });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to revoke session.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeAllMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('DELETE', baseUrl);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [baseUrl] });
+      toast({
+        title: "Sessions revoked",
+        description: staffId ? "All sessions for this staff member were signed out." : "All other devices were signed out.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to revoke sessions.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatDate = (value: Date | string | null) =>
+    value
+      ? new Date(value).toLocaleDateString('en-US', {
+          month: 'short',
+          day: 'numeric',
+          hour: '2-digit',
+          minute: '2-digit'
+        })
+      : 'Unknown';
+
+  const revocableCount = sessions.filter(s => !s.current).length;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <div className="w-5 h-5 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+        <span className="ml-2 text-gray-600 text-sm">Loading sessions...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {sessions.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-2">No active sessions.</p>
+      ) : (
+        sessions.map((session) => (
+          <div key={session.id} className="flex items-start justify-between p-2 border rounded-lg text-xs">
+            <div className="flex items-start gap-2 min-w-0 flex-1">
+              <Monitor className="w-4 h-4 text-gray-400 flex-shrink-0 mt-0.5" />
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-mono">{session.ipAddress || 'Unknown IP'}</span>
+                  {session.current && <Badge variant="secondary" className="text-[10px]">This device</Badge>}
+                </div>
+                <div className="text-gray-500 truncate" title={session.userAgent || undefined}>
+                  {session.userAgent || 'Unknown device'}
+                </div>
+                <div className="text-gray-400">
+                  Signed in {formatDate(session.createdAt)} · Last active {formatDate(session.lastSeenAt)}
+                </div>
+              </div>
+            </div>
+            {!staffId && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-xs text-red-600 hover:bg-red-50"
+                onClick={() => revokeMutation.mutate(session)}
+                disabled={revokeMutation.isPending}
+              >
+                <LogOut className="w-3 h-3 mr-1" />
+                {session.current ? 'Sign out' : 'Revoke'}
+              </Button>
+            )}
+          </div>
+        ))
+      )}
+
+      {revocableCount > 0 && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full text-xs text-red-600 border-red-200 hover:bg-red-50"
+          onClick={() => revokeAllMutation.mutate()}
+          disabled={revokeAllMutation.isPending}
+        >
+          {staffId ? 'Sign out all sessions' : 'Sign out all other devices'}
+        </Button>
+      )}
+    </div>
+  );
+}
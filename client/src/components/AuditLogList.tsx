@@ -0,0 +1,110 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Badge } from '@/components/ui/badge';
+import type { AuditChanges, AuditLogEntryWithStaff } from '@server/schema';
+
+export interface AuditLogFilters {
+  entityType?: string;
+  entityId?: string;
+  staffId?: string;
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+interface AuditLogListProps {
+  filters: AuditLogFilters;
+  showEntity?: boolean;
+}
+
+const ACTION_STYLES: Record<string, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// Field-by-field before/after table, shared with the family history
+export function AuditChangesTable({ changes }: { changes: AuditChanges }) {
+  return (
+    <table className="w-full mt-2 text-xs table-fixed">
+      <thead>
+        <tr className="text-left text-gray-400">
+          <th className="w-1/4 font-normal">Field</th>
+          <th className="font-normal">Before</th>
+          <th className="font-normal">After</th>
+        </tr>
+      </thead>
+      <tbody>
+        {Object.entries(changes).map(([field, change]) => (
+          <tr key={field} className="align-top border-t border-gray-100">
+            <td className="py-1 pr-2 font-medium text-gray-700 break-words">{field}</td>
+            <td className="py-1 pr-2 text-red-700 break-words">{formatValue(change.before)}</td>
+            <td className="py-1 text-green-700 break-words">{formatValue(change.after)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export function AuditLogList({ filters, showEntity = true }: AuditLogListProps) {
+  const params = new URLSearchParams(
+    Object.entries(filters).filter((entry): entry is [string, string] => !!entry[1])
+  ).toString();
+  const url = params ? `/api/audit-log?${params}` : '/api/audit-log';
+
+  const { data: entries = [], isLoading } = useQuery<AuditLogEntryWithStaff[]>({
+    queryKey: [url],
+    queryFn: async () => {
+      const response = await apiRequest('GET', url);
+      return await response.json();
+    },
+  });
+
+  if (isLoading) {
+    return <div className="text-center py-8 text-gray-500">Loading...</div>;
+  }
+
+  if (entries.length === 0) {
+    return <div className="text-center py-8 text-gray-500">No changes recorded.</div>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {entries.map((entry) => {
+        const changes = Object.entries(entry.changes || {});
+        return (
+          <div key={entry.id} className="border rounded-lg p-3 bg-white">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <Badge className={ACTION_STYLES[entry.action] || ''}>{entry.action}</Badge>
+                {showEntity && (
+                  <span className="text-sm font-medium text-gray-700">
+                    {entry.entityType} <span className="text-gray-400 font-mono text-xs">{entry.entityId}</span>
+                  </span>
+                )}
+              </div>
+              <div className="text-xs text-gray-500">
+                {entry.staff ? `${entry.staff.fullName} (${entry.staff.nickName})` : 'Unknown staff'}
+                {' · '}
+                {new Date(entry.createdAt).toLocaleDateString('en-US', {
+                  month: 'short',
+                  day: 'numeric',
+                  year: 'numeric',
+                  hour: '2-digit',
+                  minute: '2-digit'
+                })}
+              </div>
+            </div>
+            {changes.length > 0 && <AuditChangesTable changes={entry.changes} />}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
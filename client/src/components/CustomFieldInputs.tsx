@@ -0,0 +1,144 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { CustomField, CustomFieldTarget, CustomFieldType, CustomFieldValue, CustomFieldValues } from '@server/schema';
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  date: 'Date',
+  select: 'Select',
+  multiSelect: 'Multi-select',
+  boolean: 'Yes / No',
+};
+
+// Admin-defined custom fields, optionally only those for families or for members
+export function useCustomFields(target?: CustomFieldTarget) {
+  const query = useQuery<CustomField[]>({
+    queryKey: ['/api/custom-fields'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/custom-fields');
+      return response.json();
+    },
+  });
+  const fields = query.data ?? [];
+  return { ...query, data: target ? fields.filter(field => field.target === target) : fields };
+}
+
+interface CustomFieldInputsProps {
+  fields: CustomField[];
+  values: CustomFieldValues | null | undefined;
+  onChange: (values: CustomFieldValues) => void;
+  idPrefix: string; // keeps input ids unique when several members are on the page
+}
+
+// One input per custom field; empty values are removed rather than stored
+export function CustomFieldInputs({ fields, values, onChange, idPrefix }: CustomFieldInputsProps) {
+  if (fields.length === 0) return null;
+
+  const current = values ?? {};
+  const setValue = (fieldId: string, value: CustomFieldValue | undefined) => {
+    const { [fieldId]: _, ...rest } = current;
+    const isEmpty = value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+    onChange(isEmpty ? rest : { ...rest, [fieldId]: value });
+  };
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      {fields.map((field) => {
+        const id = `${idPrefix}-custom-${field.id}`;
+        const value = current[field.id];
+        const label = (
+          <Label htmlFor={id}>
+            {field.name}
+            {field.required && <span className="text-red-500 ml-0.5">*</span>}
+          </Label>
+        );
+
+        switch (field.type) {
+          case 'boolean':
+            return (
+              <label key={field.id} className="flex items-center gap-2 text-sm cursor-pointer sm:mt-6">
+                <Checkbox
+                  id={id}
+                  checked={value === true}
+                  onCheckedChange={(checked) => setValue(field.id, checked === true)}
+                  data-testid={`checkbox-custom-${field.id}`}
+                />
+                {field.name}
+              </label>
+            );
+          case 'select':
+            return (
+              <div key={field.id} className="space-y-1">
+                {label}
+                <Select
+                  value={typeof value === 'string' ? value : ''}
+                  onValueChange={(option) => setValue(field.id, option)}
+                >
+                  <SelectTrigger id={id} data-testid={`select-custom-${field.id}`}>
+                    <SelectValue placeholder="Select..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {field.options.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {option}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            );
+          case 'multiSelect': {
+            const selected = Array.isArray(value) ? value : [];
+            return (
+              <div key={field.id} className="space-y-1">
+                {label}
+                <div className="flex flex-wrap gap-3 border rounded-md p-2">
+                  {field.options.map((option) => (
+                    <label key={option} className="flex items-center gap-1.5 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={selected.includes(option)}
+                        onCheckedChange={(checked) =>
+                          setValue(field.id, checked === true
+                            ? field.options.filter(o => o === option || selected.includes(o))
+                            : selected.filter(o => o !== option))
+                        }
+                      />
+                      {option}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            );
+          }
+          default:
+            return (
+              <div key={field.id} className="space-y-1">
+                {label}
+                <Input
+                  id={id}
+                  type={field.type === 'number' ? 'number' : field.type === 'date' ? 'date' : 'text'}
+                  value={value === undefined ? '' : String(value)}
+                  onChange={(e) => {
+                    const text = e.target.value;
+                    setValue(field.id, field.type === 'number' && text !== '' ? Number(text) : text);
+                  }}
+                  data-testid={`input-custom-${field.id}`}
+                />
+              </div>
+            );
+        }
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { AuditChangesTable } from '@/components/AuditLogList';
+import type { FamilyVersionSummary } from '@server/schema';
+import { RotateCcw } from 'lucide-react';
+
+interface FamilyHistoryProps {
+  familyId: string;
+}
+
+// Saved versions of a family, newest first; admins can restore any earlier one
+export function FamilyHistory({ familyId }: FamilyHistoryProps) {
+  const { hasPermission } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [restoreTarget, setRestoreTarget] = useState<FamilyVersionSummary | null>(null);
+
+  const canRestore = hasPermission('families.restore');
+
+  const { data: versions = [], isLoading } = useQuery<FamilyVersionSummary[]>({
+    queryKey: ['/api/families', familyId, 'versions'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/families/${familyId}/versions`);
+      return await response.json();
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (versionId: string) => {
+      const response = await apiRequest('POST', `/api/families/${familyId}/versions/${versionId}/restore`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['families'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/families', familyId, 'versions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/families', familyId, 'status-history'] });
+      toast({
+        title: 'Family restored',
+        description: `Restored to version ${restoreTarget?.version}.`,
+      });
+      setRestoreTarget(null);
+    },
+    onError: () => {
+      toast({
+        title: 'Error',
+        description: 'Failed to restore this version.',
+        variant: 'destructive',
+      });
+      setRestoreTarget(null);
+    },
+  });
+
+  if (isLoading) {
+    return <div className="text-center py-8 text-gray-500">Loading...</div>;
+  }
+
+  if (versions.length === 0) {
+    return <div className="text-center py-8 text-gray-500">No versions saved yet.</div>;
+  }
+
+  const latestVersion = versions[0].version;
+
+  return (
+    <div className="space-y-3">
+      {versions.map((version) => {
+        const changeCount = Object.keys(version.changes).length;
+        return (
+          <div key={version.id} className="border rounded-lg p-3 bg-white">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <Badge variant="outline">v{version.version}</Badge>
+                {version.version === latestVersion && (
+                  <Badge className="bg-green-100 text-green-800">current</Badge>
+                )}
+                {version.restoredFromVersion && (
+                  <span className="text-xs text-gray-500">restored from v{version.restoredFromVersion}</span>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="text-xs text-gray-500">
+                  {version.staff ? `${version.staff.fullName} (${version.staff.nickName})` : 'Before history was kept'}
+                  {' · '}
+                  {new Date(version.createdAt).toLocaleDateString('en-US', {
+                    month: 'short',
+                    day: 'numeric',
+                    year: 'numeric',
+                    hour: '2-digit',
+                    minute: '2-digit'
+                  })}
+                </div>
+                {canRestore && version.version !== latestVersion && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setRestoreTarget(version)}
+                    data-testid={`button-restore-version-${version.version}`}
+                  >
+                    <RotateCcw className="w-3 h-3 mr-1" />
+                    Restore
+                  </Button>
+                )}
+              </div>
+            </div>
+            {changeCount > 0 ? (
+              <AuditChangesTable changes={version.changes} />
+            ) : (
+              <p className="mt-2 text-xs text-gray-400">
+                {version.version === versions[versions.length - 1].version ? 'Earliest saved version' : 'No field changes'}
+              </p>
+            )}
+          </div>
+        );
+      })}
+
+      <AlertDialog open={!!restoreTarget} onOpenChange={(open) => !open && setRestoreTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore Version {restoreTarget?.version}</AlertDialogTitle>
+            <AlertDialogDescription>
+              The family and its members will be set back to how they were in version {restoreTarget?.version}.
+              The restore is saved as a new version, so it can be undone. Unsaved changes in this form will be lost.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => restoreTarget && restoreMutation.mutate(restoreTarget.id)}
+              disabled={restoreMutation.isPending}
+            >
+              {restoreMutation.isPending ? 'Restoring...' : 'Restore'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -4,11 +4,15 @@ import { Upload, X } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 
 interface FamilyImageUploaderProps {
-  onUploadComplete: (imageUrl: string) => void;
+  // The server stores display and thumbnail renditions rather than the file as uploaded
+  onUploadComplete: (imageUrl: string, thumbnailUrl: string) => void;
   currentImage?: string;
+  currentThumbnail?: string;
+  // Set when uploading an existing family's picture so the server can restrict who sees it
+  familyId?: string;
 }
 
-export function FamilyImageUploader({ onUploadComplete, currentImage }: FamilyImageUploaderProps) {
+export function FamilyImageUploader({ onUploadComplete, currentImage, currentThumbnail, familyId }: FamilyImageUploaderProps) {
   const [isUploading, setIsUploading] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
@@ -70,6 +74,7 @@ export function FamilyImageUploader({ onUploadComplete, currentImage }: FamilyIm
       if (!imageURL) {
         throw new Error('No valid image URL returned from upload');
       }
+      const thumbnailURL = uploadResult.thumbnailPath || imageURL;
 
       // Process the uploaded image for family use
       const processResponse = await fetch('/api/family-images', {
@@ -80,6 +85,8 @@ export function FamilyImageUploader({ onUploadComplete, currentImage }: FamilyIm
         credentials: 'include',
         body: JSON.stringify({
           imageURL: imageURL,
+          thumbnailURL,
+          familyId,
         }),
       });
 
@@ -95,7 +102,7 @@ export function FamilyImageUploader({ onUploadComplete, currentImage }: FamilyIm
       const finalImagePath = processData.objectPath || imageURL;
 
       // Call completion handler with the final image URL
-      onUploadComplete(finalImagePath);
+      onUploadComplete(finalImagePath, thumbnailURL);
 
       toast({
         title: "Success",
@@ -133,7 +140,7 @@ export function FamilyImageUploader({ onUploadComplete, currentImage }: FamilyIm
       {currentImage && (
         <div className="relative">
           <img
-            src={currentImage}
+            src={currentThumbnail || currentImage}
             alt="Family preview"
             className="w-32 h-32 object-cover rounded-lg border"
           />
@@ -0,0 +1,274 @@
+import { useState, useRef } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import type { FamilyPhoto, FamilyPhotoUpdate } from '@server/schema';
+import { Upload, Star, Edit, Trash2, ImageIcon } from 'lucide-react';
+
+const MAX_PHOTO_SIZE = 5 * 1024 * 1024; // 5MB, as on the server
+
+// A family's photos, primary first
+export function useFamilyPhotos(familyId: string) {
+  const query = useQuery<FamilyPhoto[]>({
+    queryKey: ['/api/families', familyId, 'photos'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/families/${familyId}/photos`);
+      return response.json();
+    },
+  });
+  return { ...query, data: query.data ?? [] };
+}
+
+// Photo gallery for the family form: upload with a caption, change captions, pick the primary photo
+export function FamilyPhotoGallery({ familyId }: { familyId: string }) {
+  const { hasPermission } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const canEdit = hasPermission('families.update');
+
+  const [newCaption, setNewCaption] = useState('');
+  const [editingPhoto, setEditingPhoto] = useState<FamilyPhoto | null>(null);
+  const [editingCaption, setEditingCaption] = useState('');
+  const [viewingPhoto, setViewingPhoto] = useState<FamilyPhoto | null>(null);
+
+  const { data: photos, isLoading } = useFamilyPhotos(familyId);
+
+  // Family lists show the primary photo. The family form's own query is left alone, since refetching
+  // it would reset the form and lose unsaved edits.
+  const invalidatePhotos = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/families', familyId, 'photos'] });
+    queryClient.invalidateQueries({ queryKey: ['families'], predicate: (query) => query.queryKey[1] !== familyId });
+  };
+
+  const handleMutationError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update photos.",
+      variant: "destructive",
+    });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append('file', file);
+      if (newCaption.trim()) {
+        formData.append('caption', newCaption.trim());
+      }
+      return await apiRequest('POST', `/api/families/${familyId}/photos`, formData);
+    },
+    onSuccess: () => {
+      invalidatePhotos();
+      setNewCaption('');
+      toast({ title: "Success", description: "Photo uploaded successfully." });
+    },
+    onError: handleMutationError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: FamilyPhotoUpdate }) => {
+      return await apiRequest('PUT', `/api/families/${familyId}/photos/${id}`, updates);
+    },
+    onSuccess: () => {
+      invalidatePhotos();
+      setEditingPhoto(null);
+    },
+    onError: handleMutationError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest('DELETE', `/api/families/${familyId}/photos/${id}`);
+    },
+    onSuccess: () => {
+      invalidatePhotos();
+      toast({ title: "Success", description: "Photo deleted successfully." });
+    },
+    onError: handleMutationError,
+  });
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      toast({
+        title: "Invalid file type",
+        description: "Please select an image file (JPG, PNG, GIF, WebP)",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (file.size > MAX_PHOTO_SIZE) {
+      toast({
+        title: "File too large",
+        description: "File size must be less than 5MB",
+        variant: "destructive",
+      });
+      return;
+    }
+    uploadMutation.mutate(file);
+  };
+
+  const handleEditCaption = (photo: FamilyPhoto) => {
+    setEditingPhoto(photo);
+    setEditingCaption(photo.caption ?? '');
+  };
+
+  return (
+    <div className="space-y-4 w-full" data-testid="family-photo-gallery">
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading photos...</p>
+      ) : photos.length === 0 ? (
+        <div className="border-2 border-dashed border-muted-foreground/25 rounded-lg p-6 text-center">
+          <ImageIcon className="w-8 h-8 mx-auto mb-2 text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">No photos yet</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {photos.map((photo) => (
+            <div key={photo.id} className="border rounded-lg overflow-hidden bg-white">
+              <button type="button" className="block w-full" onClick={() => setViewingPhoto(photo)}>
+                <img
+                  src={photo.thumbnailPath}
+                  alt={photo.caption || 'Family photo'}
+                  className="w-full h-32 object-cover"
+                  loading="lazy"
+                />
+              </button>
+              <div className="p-2 space-y-2">
+                <div className="flex items-start justify-between gap-1">
+                  <p className="text-xs text-gray-700 break-words min-w-0">
+                    {photo.caption || <span className="text-gray-400">No caption</span>}
+                  </p>
+                  {photo.isPrimary && (
+                    <Badge variant="secondary" className="bg-yellow-100 text-yellow-800 text-xs flex-shrink-0">
+                      <Star className="w-3 h-3 mr-1" />
+                      Primary
+                    </Badge>
+                  )}
+                </div>
+                {canEdit && (
+                  <div className="flex items-center gap-1">
+                    {!photo.isPrimary && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        className="h-7 px-2 text-xs"
+                        onClick={() => updateMutation.mutate({ id: photo.id, updates: { isPrimary: true } })}
+                        disabled={updateMutation.isPending}
+                        title="Use as the family picture"
+                      >
+                        <Star className="w-3 h-3 mr-1" />
+                        Primary
+                      </Button>
+                    )}
+                    <Button type="button" variant="ghost" size="sm" className="h-7 px-2" onClick={() => handleEditCaption(photo)} title="Edit caption">
+                      <Edit className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-red-600 hover:bg-red-50"
+                      onClick={() => deleteMutation.mutate(photo.id)}
+                      disabled={deleteMutation.isPending}
+                      title="Delete photo"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canEdit && (
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Input
+            value={newCaption}
+            onChange={(e) => setNewCaption(e.target.value)}
+            placeholder="Caption (optional)"
+            maxLength={255}
+            data-testid="input-photo-caption"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploadMutation.isPending}
+            className="sm:flex-shrink-0"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            {uploadMutation.isPending ? 'Uploading...' : 'Upload Photo'}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            onChange={handleFileSelect}
+            className="hidden"
+          />
+        </div>
+      )}
+      <p className="text-xs text-muted-foreground">
+        JPG, PNG, GIF or WebP up to 5MB. Location and other camera data are removed on upload.
+      </p>
+
+      {/* Caption Dialog */}
+      <Dialog open={!!editingPhoto} onOpenChange={(open) => !open && setEditingPhoto(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Edit Caption</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={editingCaption}
+            onChange={(e) => setEditingCaption(e.target.value)}
+            placeholder="Caption"
+            maxLength={255}
+          />
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setEditingPhoto(null)}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              onClick={() => editingPhoto && updateMutation.mutate({ id: editingPhoto.id, updates: { caption: editingCaption.trim() || null } })}
+              disabled={updateMutation.isPending}
+            >
+              {updateMutation.isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Photo Dialog */}
+      <Dialog open={!!viewingPhoto} onOpenChange={(open) => !open && setViewingPhoto(null)}>
+        <DialogContent className="sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{viewingPhoto?.caption || 'Family photo'}</DialogTitle>
+          </DialogHeader>
+          {viewingPhoto && (
+            <img
+              src={viewingPhoto.displayPath}
+              alt={viewingPhoto.caption || 'Family photo'}
+              className="w-full max-h-[70vh] object-contain rounded"
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Search, Users, Phone, MapPin } from 'lucide-react';
+import type { FamilyTextSearchField, FamilyTextSearchMatch, FamilyTextSearchResult } from '@server/schema';
 
 interface Family {
   id: string;
@@ -15,6 +16,7 @@ interface Family {
   city: string;
   state: string;
   memberStatus: string;
+  match?: FamilyTextSearchMatch;
 }
 
 interface FamilySearchPopupProps {
@@ -23,6 +25,29 @@ interface FamilySearchPopupProps {
   onFamilySelect: (family: { id: string; familyName: string }) => void;
 }
 
+const MATCH_FIELD_LABELS: Record<FamilyTextSearchField, string> = {
+  familyName: 'Family name',
+  koreanName: 'Korean name',
+  englishName: 'English name',
+  phoneNumber: 'Phone',
+  email: 'Email',
+  biz: 'Biz',
+  bizTitle: 'Biz title',
+  bizCategory: 'Biz category',
+  bizName: 'Biz name',
+  bizIntro: 'Biz intro',
+};
+
+function HighlightedMatch({ match }: { match: FamilyTextSearchMatch }) {
+  return (
+    <span>
+      {match.value.slice(0, match.start)}
+      <mark className="bg-yellow-200 text-foreground rounded-sm px-0.5">{match.value.slice(match.start, match.end)}</mark>
+      {match.value.slice(match.end)}
+    </span>
+  );
+}
+
 export function FamilySearchPopup({ open, onOpenChange, onFamilySelect }: FamilySearchPopupProps) {
   const [searchTerm, setSearchTerm] = useState('');
 
@@ -30,22 +55,23 @@ export function FamilySearchPopup({ open, onOpenChange, onFamilySelect }: Family
   const { data: families = [], isLoading } = useQuery({
     queryKey: ['families-search', searchTerm],
     queryFn: async () => {
-      const response = await fetch(`/api/families?name=${encodeURIComponent(searchTerm)}`);
+      const response = await fetch(`/api/families/text-search?q=${encodeURIComponent(searchTerm.trim())}`);
       if (!response.ok) {
         throw new Error('Failed to fetch families');
       }
-      const data = await response.json();
-      return data.map((family: any) => ({
+      const data: FamilyTextSearchResult[] = await response.json();
+      return data.map(({ family, matches }) => ({
         id: family.id,
         familyName: family.familyName,
         phoneNumber: family.phoneNumber,
         address: family.address,
         city: family.city,
         state: family.state,
-        memberStatus: family.memberStatus
+        memberStatus: family.memberStatus,
+        match: matches[0]
       })) as Family[];
     },
-    enabled: open && searchTerm.length >= 1
+    enabled: open && searchTerm.trim().length >= 1
   });
 
   const handleFamilySelect = (family: Family) => {
@@ -75,12 +101,12 @@ export function FamilySearchPopup({ open, onOpenChange, onFamilySelect }: Family
 
         <div className="space-y-4">
           <div>
-            <Label htmlFor="search">Family Name</Label>
+            <Label htmlFor="search">Search</Label>
             <div className="relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
               <Input
                 id="search"
-                placeholder="Type to search families..."
+                placeholder="Name, phone, email, business or initials (e.g. ㄱㅁㅅ)..."
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="pl-10"
@@ -117,7 +143,9 @@ export function FamilySearchPopup({ open, onOpenChange, onFamilySelect }: Family
                       <div className="flex-1">
                         <div className="flex items-center gap-2 mb-2">
                           <Users className="w-4 h-4 text-muted-foreground" />
-                          <h3 className="font-semibold">{family.familyName}</h3>
+                          <h3 className="font-semibold">
+                            {family.match?.field === 'familyName' ? <HighlightedMatch match={family.match} /> : family.familyName}
+                          </h3>
                           <span className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded-full ${
                             family.memberStatus === 'member'
                               ? 'bg-green-100 text-green-700'
@@ -130,6 +158,13 @@ export function FamilySearchPopup({ open, onOpenChange, onFamilySelect }: Family
                         </div>
 
                         <div className="space-y-1 text-sm text-muted-foreground">
+                          {family.match && family.match.field !== 'familyName' && (
+                            <div className="text-xs">
+                              <span className="font-medium">{MATCH_FIELD_LABELS[family.match.field]}:</span>{' '}
+                              <HighlightedMatch match={family.match} />
+                            </div>
+                          )}
+
                           {family.phoneNumber && (
                             <div className="flex items-center gap-1">
                               <Phone className="w-3 h-3" />
@@ -0,0 +1,63 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Badge } from '@/components/ui/badge';
+import { MEMBER_STATUS_OPTIONS } from '@/types/family';
+import type { FamilyStatusChangeWithStaff } from '@server/schema';
+import { ArrowRight } from 'lucide-react';
+
+interface FamilyStatusTimelineProps {
+  familyId: string;
+}
+
+function getStatusLabel(status: string): string {
+  return MEMBER_STATUS_OPTIONS.find(option => option.value === status)?.label || status;
+}
+
+// Every move between visit, member and inactive, oldest first
+export function FamilyStatusTimeline({ familyId }: FamilyStatusTimelineProps) {
+  const { data: changes = [], isLoading } = useQuery<FamilyStatusChangeWithStaff[]>({
+    queryKey: ['/api/families', familyId, 'status-history'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/families/${familyId}/status-history`);
+      return await response.json();
+    },
+  });
+
+  if (isLoading) {
+    return <div className="text-sm text-gray-500">Loading...</div>;
+  }
+
+  if (changes.length === 0) {
+    return <div className="text-sm text-gray-500">No status changes recorded yet.</div>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2 space-y-3">
+      {changes.map((change) => (
+        <li key={change.id} className="ml-4">
+          <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-primary border-2 border-white" />
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            {change.fromStatus && (
+              <>
+                <Badge variant="outline">{getStatusLabel(change.fromStatus)}</Badge>
+                <ArrowRight className="w-3 h-3 text-gray-400" />
+              </>
+            )}
+            <Badge>{getStatusLabel(change.toStatus)}</Badge>
+            <span className="text-xs text-gray-500">
+              {new Date(change.changedAt).toLocaleDateString('en-US', {
+                month: 'short',
+                day: 'numeric',
+                year: 'numeric',
+              })}
+              {change.staff && ` · ${change.staff.fullName} (${change.staff.nickName})`}
+            </span>
+          </div>
+          {change.reason && (
+            <p className="mt-1 text-xs text-gray-600">{change.reason}</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,121 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Tag as TagIcon } from 'lucide-react';
+import type { Tag, TagWithCount } from '@server/schema';
+
+export const TAG_COLORS = [
+  '#ef4444', '#f97316', '#eab308', '#22c55e', '#14b8a6',
+  '#3b82f6', '#6366f1', '#a855f7', '#ec4899', '#6b7280',
+];
+
+// All tags with how many active families have each, optionally counted within a department or teams
+export function useTags(scope?: { departmentId?: string; teamIds?: string[] }) {
+  const params = new URLSearchParams();
+  if (scope?.teamIds && scope.teamIds.length > 0) {
+    params.set('teamIds', scope.teamIds.join(','));
+  } else if (scope?.departmentId) {
+    params.set('departmentId', scope.departmentId);
+  }
+  const query = useQuery<TagWithCount[]>({
+    queryKey: ['/api/tags', params.toString()],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/tags?${params.toString()}`);
+      return response.json();
+    },
+  });
+  return { ...query, data: query.data ?? [] };
+}
+
+export function TagBadge({ tag, count, className = '' }: { tag: Pick<Tag, 'name' | 'color'>; count?: number; className?: string }) {
+  return (
+    <span
+      className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium text-white whitespace-nowrap ${className}`}
+      style={{ backgroundColor: tag.color }}
+    >
+      {tag.name}
+      {count !== undefined && <span className="opacity-80">{count}</span>}
+    </span>
+  );
+}
+
+// A family's tags, with a picker to change them for staff who can edit families
+export function FamilyTags({ familyId, tagIds }: { familyId: string; tagIds: string[] }) {
+  const { hasPermission } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: tags } = useTags();
+
+  const updateMutation = useMutation({
+    mutationFn: async (newTagIds: string[]) => {
+      return await apiRequest('PUT', `/api/families/${familyId}/tags`, { tagIds: newTagIds });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['families'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tags'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update tags.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const familyTags = tags.filter(tag => tagIds.includes(tag.id));
+  const canEdit = hasPermission('families.update');
+
+  const toggleTag = (tagId: string, checked: boolean) => {
+    updateMutation.mutate(checked ? [...tagIds, tagId] : tagIds.filter(id => id !== tagId));
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      {familyTags.map(tag => (
+        <TagBadge key={tag.id} tag={tag} />
+      ))}
+      {familyTags.length === 0 && !canEdit && (
+        <span className="text-sm text-gray-500">No tags</span>
+      )}
+      {canEdit && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={(e) => e.stopPropagation()}
+              data-testid={`button-edit-tags-${familyId}`}
+            >
+              <TagIcon className="w-3 h-3 mr-1" />
+              {familyTags.length === 0 ? 'Add tags' : 'Edit'}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-56 p-2" align="start" onClick={(e) => e.stopPropagation()}>
+            {tags.length === 0 ? (
+              <p className="text-sm text-gray-500 p-1">No tags have been created yet.</p>
+            ) : (
+              <div className="space-y-1 max-h-64 overflow-y-auto">
+                {tags.map(tag => (
+                  <label key={tag.id} className="flex items-center gap-2 rounded px-1 py-1 hover:bg-gray-50 cursor-pointer">
+                    <Checkbox
+                      checked={tagIds.includes(tag.id)}
+                      onCheckedChange={(checked) => toggleTag(tag.id, checked === true)}
+                      disabled={updateMutation.isPending}
+                    />
+                    <TagBadge tag={tag} />
+                  </label>
+                ))}
+              </div>
+            )}
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  );
+}
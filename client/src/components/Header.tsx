@@ -4,7 +4,7 @@ import { useAuth } from '@/hooks/use-auth';
 import { Button } from '@/components/ui/button';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { RefreshButton } from '@/components/RefreshButton';
-import { Bell, LogOut, Menu, Users, Settings, Globe, Calendar, FolderOpen, UserCheck, DollarSign, Upload } from 'lucide-react';
+import { Bell, LogOut, Menu, Users, Settings, Globe, Calendar, FolderOpen, UserCheck, DollarSign, Upload, Shield, History, KeyRound, Copy, Trash2, MapPin, ListPlus, Tags, Award, Contact } from 'lucide-react';
 import styles from './Header.module.css';
 
 interface AnnouncementWithStaff {
@@ -40,7 +40,7 @@ export function Header({
   onAnnouncementDropdownChange
 }: HeaderProps) {
   const [, setLocation] = useLocation();
-  const { user, logout } = useAuth();
+  const { user, logout, hasPermission } = useAuth();
 
   const handleAnnouncementClick = () => {
     if (footerAnnouncements.length === 1) {
@@ -76,43 +76,121 @@ export function Header({
 
   ];
 
+  // Each admin item is shown only to staff whose role grants its permission
   const adminMenuItems = [
         {
       label: '지회(카드뷰)',
       path: '/family-dashboard',
       icon: Users,
       className: 'text-cyan-700 hover:text-primary-foreground/80',
-      testId: 'button-family-dashboard'
+      testId: 'button-family-dashboard',
+      permission: 'departments.manage' as const
     },
     {
       label: 'Staff',
       path: '/staff-management',
       icon: Settings,
       className: 'text-blue-700 hover:text-primary-foreground/80',
-      testId: 'button-staff-management'
+      testId: 'button-staff-management',
+      permission: 'staff.manage' as const
+    },
+    {
+      label: 'Roles',
+      path: '/roles',
+      icon: Shield,
+      className: 'text-red-700 hover:text-primary-foreground/80',
+      testId: 'button-roles',
+      permission: 'roles.manage' as const
+    },
+    {
+      label: 'Audit Log',
+      path: '/audit-log',
+      icon: History,
+      className: 'text-gray-700 hover:text-primary-foreground/80',
+      testId: 'button-audit-log',
+      permission: 'audit.view' as const
+    },
+    {
+      label: 'API Tokens',
+      path: '/api-tokens',
+      icon: KeyRound,
+      className: 'text-amber-700 hover:text-primary-foreground/80',
+      testId: 'button-api-tokens',
+      permission: 'apiTokens.manage' as const
+    },
+    {
+      label: 'Duplicates',
+      path: '/family-duplicates',
+      icon: Copy,
+      className: 'text-orange-700 hover:text-primary-foreground/80',
+      testId: 'button-family-duplicates',
+      permission: 'families.merge' as const
+    },
+    {
+      label: 'Recently Deleted',
+      path: '/deleted-families',
+      icon: Trash2,
+      className: 'text-red-700 hover:text-primary-foreground/80',
+      testId: 'button-deleted-families',
+      permission: 'families.archive' as const
+    },
+    {
+      label: 'Address Report',
+      path: '/address-report',
+      icon: MapPin,
+      className: 'text-amber-700 hover:text-primary-foreground/80',
+      testId: 'button-address-report',
+      permission: 'families.addressReport' as const
+    },
+    {
+      label: 'Custom Fields',
+      path: '/custom-fields',
+      icon: ListPlus,
+      className: 'text-teal-700 hover:text-primary-foreground/80',
+      testId: 'button-custom-fields',
+      permission: 'customFields.manage' as const
+    },
+    {
+      label: 'Tags',
+      path: '/tags',
+      icon: Tags,
+      className: 'text-pink-700 hover:text-primary-foreground/80',
+      testId: 'button-tags',
+      permission: 'tags.manage' as const
+    },
+    {
+      label: 'Officers',
+      path: '/officers',
+      icon: Award,
+      className: 'text-blue-700 hover:text-primary-foreground/80',
+      testId: 'button-officers',
+      permission: 'departments.manage' as const
     },
     {
       label: 'Teams',
       path: '/teams',
       icon: UserCheck,
       className: 'text-indigo-700 hover:text-primary-foreground/80',
-      testId: 'button-teams'
+      testId: 'button-teams',
+      permission: 'teams.manage' as const
     },
     {
       label: 'News',
       path: '/news-management',
       icon: Globe,
       className: 'text-green-700 hover:text-primary-foreground/80',
-      testId: 'button-news-management'
+      testId: 'button-news-management',
+      permission: 'announcements.manage' as const
     },
     {
       label: 'Events',
       path: '/events',
       icon: Calendar,
       className: 'text-purple-700 hover:text-primary-foreground/80',
-      testId: 'button-events'
+      testId: 'button-events',
+      permission: 'events.manage' as const
     }
-  ];
+  ].filter(item => hasPermission(item.permission));
 
   return (
     <nav className={styles.nav}>
@@ -219,8 +297,8 @@ export function Header({
               })}
             </div>
 
-            {/* Admin-only menu items */}
-            {user?.group === 'ADM' && (
+            {/* Admin menu items */}
+            {adminMenuItems.length > 0 && (
               <div className="flex space-x-2">
                 {adminMenuItems.map((item) => {
                   const IconComponent = item.icon;
@@ -241,8 +319,8 @@ export function Header({
               </div>
             )}
 
-            {/* CSV Upload for ADM and MGM */}
-            {(user?.group === 'ADM' || user?.group === 'MGM') && (
+            {/* CSV Upload */}
+            {hasPermission('families.import') && (
               <Button
                 variant="secondary"
                 size="sm"
@@ -255,6 +333,20 @@ export function Header({
               </Button>
             )}
 
+            {/* vCard Import */}
+            {hasPermission('families.import') && (
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => setLocation('/vcard-import')}
+                data-testid="button-vcard-import"
+                className="text-pink-700 hover:text-primary-foreground/80"
+                title="Import vCard"
+              >
+                <Contact className="w-4 h-4" /> Import vCard
+              </Button>
+            )}
+
             <span className={styles.userName} data-testid="text-current-user">
               {user?.group === 'ADM' ? user?.group : `${user?.fullName} (${user?.group})`}
             </span>
@@ -297,8 +389,8 @@ export function Header({
                   );
                 })}
 
-                {/* Admin-only menu items for mobile */}
-                {user?.group === 'ADM' && (
+                {/* Admin menu items for mobile */}
+                {adminMenuItems.length > 0 && (
                   <>
                     <DropdownMenuSeparator />
                     {adminMenuItems.map((item) => {
@@ -310,21 +402,21 @@ export function Header({
                         </DropdownMenuItem>
                       );
                     })}
-                    <DropdownMenuItem onClick={() => setLocation('/teams')}>
-                      <UserCheck className="w-4 h-4 mr-2" />
-                      Teams
-                    </DropdownMenuItem>
                   </>
                 )}
 
-                {/* CSV Upload for ADM and MGM - Mobile */}
-                {(user?.group === 'ADM' || user?.group === 'MGM') && (
+                {/* CSV Upload - Mobile */}
+                {hasPermission('families.import') && (
                   <>
                     <DropdownMenuSeparator />
                     <DropdownMenuItem onClick={() => setLocation('/csv-upload')}>
                       <Upload className="w-4 h-4 mr-2" />
                       Upload CSV
                     </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setLocation('/vcard-import')}>
+                      <Contact className="w-4 h-4 mr-2" />
+                      Import vCard
+                    </DropdownMenuItem>
                   </>
                 )}
 
@@ -0,0 +1,431 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { POSITION_OPTIONS } from '@/types/family';
+import { formatDateForInput } from '@/utils/date-utils';
+import {
+  insertMemberPositionSchema,
+  LEADERSHIP_POSITION_SCOPES,
+  type Department,
+  type LeadershipPosition,
+  type MemberPositionWithDetails,
+  type Team,
+} from '@server/schema';
+import { getPositionError, isCurrentPosition } from '@server/positions';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { Award, Plus, Edit, Trash2, CalendarX } from 'lucide-react';
+
+type PositionFormData = z.input<typeof insertMemberPositionSchema>;
+
+export function getPositionLabel(position: LeadershipPosition): string {
+  return POSITION_OPTIONS.find(option => option.value === position)?.label ?? position;
+}
+
+// Where the term is held: the chapter (team) or the federation (department)
+export function getPositionScopeName(term: MemberPositionWithDetails): string {
+  return term.team?.name ?? term.department?.name ?? '';
+}
+
+// Position terms, e.g. a member's history or the current officers of a department and its chapters
+export function usePositions(filters: { memberId?: string; familyIds?: string[]; teamIds?: string[]; departmentId?: string; current?: boolean }, enabled = true) {
+  const params = new URLSearchParams();
+  if (filters.memberId) params.set('memberId', filters.memberId);
+  if (filters.familyIds && filters.familyIds.length > 0) params.set('familyIds', filters.familyIds.join(','));
+  if (filters.teamIds && filters.teamIds.length > 0) params.set('teamIds', filters.teamIds.join(','));
+  if (filters.departmentId) params.set('departmentId', filters.departmentId);
+  if (filters.current !== undefined) params.set('current', String(filters.current));
+  const query = useQuery<MemberPositionWithDetails[]>({
+    queryKey: ['/api/positions', params.toString()],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/positions?${params.toString()}`);
+      return response.json();
+    },
+    enabled,
+  });
+  return { ...query, data: query.data ?? [] };
+}
+
+// A member's position terms, newest first, with appointing and ending terms for staff who manage positions
+export function MemberPositionHistory({ memberId, memberName }: { memberId: string; memberName: string }) {
+  const { hasPermission } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const canManage = hasPermission('positions.manage');
+  const today = formatDateForInput(new Date());
+
+  const [showDialog, setShowDialog] = useState(false);
+  const [editingTerm, setEditingTerm] = useState<MemberPositionWithDetails | null>(null);
+
+  const { data: terms, isLoading } = usePositions({ memberId });
+
+  const { data: departments = [] } = useQuery<Department[]>({
+    queryKey: ['/api/departments'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/departments');
+      return response.json();
+    },
+    enabled: canManage && showDialog,
+  });
+
+  const { data: teams = [] } = useQuery<Team[]>({
+    queryKey: ['/api/teams'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/teams');
+      return response.json();
+    },
+    enabled: canManage && showDialog,
+  });
+
+  const emptyTerm = (): PositionFormData => ({
+    memberId,
+    position: 'chapterPresident',
+    teamId: null,
+    departmentId: null,
+    startDate: today,
+    endDate: null,
+    appointedBy: '',
+    notes: '',
+  });
+
+  const form = useForm<PositionFormData>({
+    resolver: zodResolver(insertMemberPositionSchema),
+    defaultValues: emptyTerm(),
+  });
+
+  const handleMutationError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to save position.",
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: PositionFormData) => {
+      if (editingTerm) {
+        const { memberId: _memberId, ...updates } = data;
+        return await apiRequest('PUT', `/api/positions/${editingTerm.id}`, updates);
+      }
+      return await apiRequest('POST', '/api/positions', data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/positions'] });
+      toast({
+        title: "Success",
+        description: editingTerm ? "Position updated successfully." : "Position added successfully.",
+      });
+      handleCloseDialog();
+    },
+    onError: handleMutationError,
+  });
+
+  const endTermMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest('PUT', `/api/positions/${id}`, { endDate: today });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/positions'] });
+      toast({ title: "Success", description: "Term ended." });
+    },
+    onError: handleMutationError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest('DELETE', `/api/positions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/positions'] });
+      toast({ title: "Success", description: "Position deleted successfully." });
+    },
+    onError: handleMutationError,
+  });
+
+  const handleAddTerm = () => {
+    setEditingTerm(null);
+    form.reset(emptyTerm());
+    setShowDialog(true);
+  };
+
+  const handleEditTerm = (term: MemberPositionWithDetails) => {
+    setEditingTerm(term);
+    form.reset({
+      memberId,
+      position: term.position,
+      teamId: term.teamId,
+      departmentId: term.departmentId,
+      startDate: term.startDate,
+      endDate: term.endDate,
+      appointedBy: term.appointedBy ?? '',
+      notes: term.notes ?? '',
+    });
+    setShowDialog(true);
+  };
+
+  const handleCloseDialog = () => {
+    setShowDialog(false);
+    setEditingTerm(null);
+    form.reset(emptyTerm());
+  };
+
+  const handleSubmit = (data: PositionFormData) => {
+    const positionError = getPositionError(data);
+    if (positionError) {
+      const scopeField = LEADERSHIP_POSITION_SCOPES[data.position] === 'team' ? 'teamId' : 'departmentId';
+      form.setError(data[scopeField] ? 'endDate' : scopeField, { message: positionError });
+      return;
+    }
+    saveMutation.mutate(data);
+  };
+
+  const scope = LEADERSHIP_POSITION_SCOPES[form.watch('position')];
+
+  return (
+    <div className="space-y-2" data-testid={`position-history-${memberId}`}>
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-gray-700 flex items-center">
+          <Award className="w-4 h-4 mr-1" />
+          Leadership Positions
+        </h4>
+        {canManage && (
+          <Button type="button" variant="outline" size="sm" className="h-7 text-xs" onClick={handleAddTerm}>
+            <Plus className="w-3 h-3 mr-1" />
+            Add Position
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading positions...</p>
+      ) : terms.length === 0 ? (
+        <p className="text-sm text-gray-500">No positions held.</p>
+      ) : (
+        <div className="space-y-2">
+          {terms.map((term) => {
+            const isCurrent = isCurrentPosition(term, today);
+            return (
+              <div key={term.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-2 border border-gray-200 rounded-md">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="font-medium">{getPositionLabel(term.position)}</span>
+                    <span className="text-gray-600">{getPositionScopeName(term)}</span>
+                    {isCurrent && <Badge variant="secondary" className="bg-green-100 text-green-800 text-xs">Current</Badge>}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {term.startDate} – {term.endDate ?? 'present'}
+                    {term.appointedBy && ` · Appointed by ${term.appointedBy}`}
+                  </div>
+                  {term.notes && <div className="text-xs text-gray-500 mt-0.5">{term.notes}</div>}
+                </div>
+                {canManage && (
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    {!term.endDate && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        className="h-7 text-xs"
+                        onClick={() => endTermMutation.mutate(term.id)}
+                        disabled={endTermMutation.isPending}
+                        title={`End ${memberName}'s term today`}
+                      >
+                        <CalendarX className="w-3 h-3 mr-1" />
+                        End term
+                      </Button>
+                    )}
+                    <Button type="button" variant="ghost" size="sm" className="h-7 px-2" onClick={() => handleEditTerm(term)}>
+                      <Edit className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-red-600 hover:bg-red-50"
+                      onClick={() => deleteMutation.mutate(term.id)}
+                      disabled={deleteMutation.isPending}
+                      title="Delete a term recorded by mistake"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Add/Edit Dialog */}
+      <Dialog open={showDialog} onOpenChange={(open) => !open && handleCloseDialog()}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {editingTerm ? 'Edit Position' : 'Add Position'} – {memberName}
+            </DialogTitle>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form
+              onSubmit={(e) => {
+                // The dialog can sit inside the family form; keep its submit from reaching that form
+                e.stopPropagation();
+                form.handleSubmit(handleSubmit)(e);
+              }}
+              className="space-y-4"
+            >
+              <FormField
+                control={form.control}
+                name="position"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Position</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {POSITION_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {scope === 'team' ? (
+                <FormField
+                  control={form.control}
+                  name="teamId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Chapter (team)</FormLabel>
+                      <Select value={field.value ?? ''} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select a team" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {teams.map((team) => (
+                            <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ) : (
+                <FormField
+                  control={form.control}
+                  name="departmentId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Federation (department)</FormLabel>
+                      <Select value={field.value ?? ''} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select a department" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {departments.map((department) => (
+                            <SelectItem key={department.id} value={department.id}>{department.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="startDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Start Date</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="endDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>End Date</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} value={field.value ?? ''} onChange={(e) => field.onChange(e.target.value || null)} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="appointedBy"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Appointed By</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Federation president" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes</FormLabel>
+                    <FormControl>
+                      <Textarea rows={2} {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={handleCloseDialog}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending}>
+                  {saveMutation.isPending
+                    ? 'Saving...'
+                    : editingTerm ? 'Update' : 'Add'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
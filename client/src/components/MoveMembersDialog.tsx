@@ -0,0 +1,231 @@
+import { useState, useEffect } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { FamilySearchPopup } from '@/components/FamilySearchPopup';
+import {
+  FAMILY_RELATIONSHIPS,
+  type FamilyRelationship,
+  type FamilyWithMembers,
+  type MoveFamilyMembers,
+  type MoveFamilyMembersResult,
+} from '@server/schema';
+import { ArrowRightLeft, Search } from 'lucide-react';
+
+const RELATIONSHIP_LABELS: Record<FamilyRelationship, string> = {
+  husband: '남편',
+  wife: '아내',
+  child: '자녀',
+  other: '기타',
+};
+
+interface MoveMembersDialogProps {
+  family: FamilyWithMembers;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onMoved: (result: MoveFamilyMembersResult) => void;
+}
+
+// Split a household, or combine it with another: the selected members move with their attendance
+export function MoveMembersDialog({ family, open, onOpenChange, onMoved }: MoveMembersDialogProps) {
+  const { hasPermission } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<Record<string, FamilyRelationship>>({});
+  const [destination, setDestination] = useState<'existing' | 'new'>('existing');
+  const [targetFamily, setTargetFamily] = useState<{ id: string; familyName: string } | null>(null);
+  const [showFamilySearch, setShowFamilySearch] = useState(false);
+
+  const canCreate = hasPermission('families.create');
+
+  useEffect(() => {
+    if (!open) {
+      setSelected({});
+      setDestination('existing');
+      setTargetFamily(null);
+    }
+  }, [open]);
+
+  const moveMutation = useMutation({
+    mutationFn: async () => {
+      const body: MoveFamilyMembers = {
+        members: Object.entries(selected).map(([memberId, relationship]) => ({ memberId, relationship })),
+        ...(destination === 'new' ? { newFamily: {} } : { targetFamilyId: targetFamily?.id }),
+      };
+      const response = await apiRequest('POST', `/api/families/${family.id}/move-members`, body);
+      return (await response.json()) as MoveFamilyMembersResult;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['families'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/families'] });
+      toast({
+        title: 'Members moved',
+        description: result.sourceArchived
+          ? `Moved to ${result.target.familyName}. ${family.familyName} had no members left and was moved to Recently Deleted.`
+          : `Moved to ${result.target.familyName}.`,
+      });
+      onOpenChange(false);
+      onMoved(result);
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to move members.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const toggleMember = (memberId: string, relationship: string, checked: boolean) => {
+    setSelected(current => {
+      const { [memberId]: _, ...rest } = current;
+      return checked ? { ...current, [memberId]: relationship as FamilyRelationship } : rest;
+    });
+  };
+
+  const selectedCount = Object.keys(selected).length;
+  const emptiesFamily = selectedCount > 0 && selectedCount === family.members.length;
+  const canMove = selectedCount > 0 && (destination === 'new' ? canCreate : !!targetFamily);
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-lg" data-testid="dialog-move-members">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <ArrowRightLeft className="w-5 h-5" />
+              Move Members
+            </DialogTitle>
+            <DialogDescription>
+              Moved members keep their attendance and positions. Unsaved changes on this page are discarded.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Members</Label>
+              {family.members.map((member) => (
+                <div key={member.id} className="flex items-center justify-between gap-2">
+                  <label className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={member.id in selected}
+                      onCheckedChange={(checked) => toggleMember(member.id, member.relationship, checked === true)}
+                      data-testid={`checkbox-move-member-${member.id}`}
+                    />
+                    {member.koreanName || member.englishName}
+                    <span className="text-xs text-gray-500">
+                      ({RELATIONSHIP_LABELS[member.relationship as FamilyRelationship] ?? member.relationship})
+                    </span>
+                  </label>
+                  {member.id in selected && (
+                    <Select
+                      value={selected[member.id]}
+                      onValueChange={(value) => setSelected(current => ({ ...current, [member.id]: value as FamilyRelationship }))}
+                    >
+                      <SelectTrigger className="w-28 h-8" data-testid={`select-move-relationship-${member.id}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {FAMILY_RELATIONSHIPS.map((relationship) => (
+                          <SelectItem key={relationship} value={relationship}>
+                            {RELATIONSHIP_LABELS[relationship]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Move to</Label>
+              <RadioGroup value={destination} onValueChange={(value) => setDestination(value as 'existing' | 'new')}>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="existing" id="move-to-existing" />
+                  <Label htmlFor="move-to-existing" className="font-normal">Another family</Label>
+                  {destination === 'existing' && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setShowFamilySearch(true)}
+                      data-testid="button-move-target-search"
+                    >
+                      <Search className="w-3 h-3 mr-1" />
+                      {targetFamily ? targetFamily.familyName : 'Search'}
+                    </Button>
+                  )}
+                </div>
+                {canCreate && (
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="new" id="move-to-new" />
+                    <Label htmlFor="move-to-new" className="font-normal">
+                      A new family (same address and team)
+                    </Label>
+                  </div>
+                )}
+              </RadioGroup>
+            </div>
+
+            {emptiesFamily && (
+              <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md p-2">
+                No members will be left in {family.familyName}, so it will be moved to Recently Deleted.
+              </p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              onClick={() => moveMutation.mutate()}
+              disabled={!canMove || moveMutation.isPending}
+              data-testid="button-move-members-confirm"
+            >
+              {moveMutation.isPending ? 'Moving...' : 'Move'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <FamilySearchPopup
+        open={showFamilySearch}
+        onOpenChange={setShowFamilySearch}
+        onFamilySelect={(selectedFamily) => {
+          if (selectedFamily.id === family.id) {
+            toast({
+              title: 'Error',
+              description: 'Members are already in this family.',
+              variant: 'destructive',
+            });
+            return;
+          }
+          setTargetFamily(selectedFamily);
+        }}
+      />
+    </>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { apiRequest } from '@/lib/queryClient';
+import { VCARD_VERSIONS, type VCardExport, type VCardVersion } from '@server/schema';
+import { Contact } from 'lucide-react';
+
+type VCardSource =
+  | { familyId: string }
+  | { familyIds: string[] }
+  | { teamId: string };
+
+type VCardExportMenuProps = VCardSource & {
+  fileName: string;
+  className?: string;
+  disabled?: boolean;
+};
+
+const VERSION_LABELS: Record<VCardVersion, string> = {
+  '3.0': 'vCard 3.0 (most phones)',
+  '4.0': 'vCard 4.0',
+};
+
+async function requestVCards(source: VCardSource, version: VCardVersion): Promise<Response> {
+  if ('familyId' in source) {
+    return apiRequest('GET', `/api/families/${source.familyId}/vcard?version=${version}`);
+  }
+  if ('teamId' in source) {
+    return apiRequest('GET', `/api/teams/${source.teamId}/vcard?version=${version}`);
+  }
+  const body: VCardExport = { familyIds: source.familyIds, version };
+  return apiRequest('POST', '/api/families/vcard', body);
+}
+
+// Downloads contacts for one family, a selection of families or a whole team as a .vcf file
+export function VCardExportMenu({ fileName, className, disabled, ...source }: VCardExportMenuProps) {
+  const { toast } = useToast();
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (version: VCardVersion) => {
+    setExporting(true);
+    try {
+      const response = await requestVCards(source, version);
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${fileName}.vcf`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      window.URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to export contacts.",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          size="sm"
+          variant="outline"
+          className={className}
+          disabled={disabled || exporting}
+          onClick={(e) => e.stopPropagation()}
+          title="Export contacts"
+          data-testid="button-export-vcard"
+        >
+          <Contact className="w-4 h-4 mr-1" />
+          {exporting ? 'Exporting...' : 'vCard'}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+        {VCARD_VERSIONS.map((version) => (
+          <DropdownMenuItem key={version} onClick={() => handleExport(version)}>
+            {VERSION_LABELS[version]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { apiRequest } from '@/lib/queryClient';
+import { useAuth } from '@/hooks/use-auth';
+import { useTags, TagBadge } from '@/components/FamilyTags';
+import { VCardExportMenu } from '@/components/VCardExportMenu';
+import type { BulkFamilyTags, BulkFamilyTagsResult } from '@server/schema';
+import { Tag as TagIcon, X } from 'lucide-react';
+
+interface BulkTagBarProps {
+  selectedFamilyIds: string[];
+  visibleFamilyIds: string[];
+  onSelectionChange: (familyIds: string[]) => void;
+  onClose: () => void;
+}
+
+// Adds or removes one tag on every family selected on the dashboard, or exports their contacts
+export function BulkTagBar({ selectedFamilyIds, visibleFamilyIds, onSelectionChange, onClose }: BulkTagBarProps) {
+  const { hasPermission } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: tags } = useTags();
+  const [tagId, setTagId] = useState('');
+
+  const bulkMutation = useMutation({
+    mutationFn: async (action: BulkFamilyTags['action']) => {
+      const body: BulkFamilyTags = { familyIds: selectedFamilyIds, tagId, action };
+      const response = await apiRequest('POST', '/api/families/tags/bulk', body);
+      return { action, result: await response.json() as BulkFamilyTagsResult };
+    },
+    onSuccess: ({ action, result }) => {
+      queryClient.invalidateQueries({ queryKey: ['families'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tags'] });
+      const tagName = tags.find(tag => tag.id === tagId)?.name;
+      toast({
+        title: "Success",
+        description: action === 'add'
+          ? `Tagged ${result.updated} ${result.updated === 1 ? 'family' : 'families'} with "${tagName}".`
+          : `Removed "${tagName}" from ${result.updated} ${result.updated === 1 ? 'family' : 'families'}.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update tags.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const allVisibleSelected = visibleFamilyIds.length > 0 && visibleFamilyIds.every(id => selectedFamilyIds.includes(id));
+  const canApply = selectedFamilyIds.length > 0 && !!tagId && !bulkMutation.isPending;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b bg-blue-50/60" data-testid="bulk-tag-bar">
+      <span className="text-sm font-medium">{selectedFamilyIds.length} selected</span>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8"
+        onClick={() => onSelectionChange(allVisibleSelected ? [] : visibleFamilyIds)}
+      >
+        {allVisibleSelected ? 'Clear selection' : `Select all (${visibleFamilyIds.length})`}
+      </Button>
+
+      <div className="flex items-center gap-2 ml-auto">
+        <VCardExportMenu familyIds={selectedFamilyIds} fileName="families" className="h-8" disabled={selectedFamilyIds.length === 0} />
+        {hasPermission('families.update') && (
+          <>
+            <Select value={tagId} onValueChange={setTagId}>
+              <SelectTrigger className="h-8 w-44" data-testid="select-bulk-tag">
+                <SelectValue placeholder={tags.length === 0 ? 'No tags yet' : 'Choose a tag...'} />
+              </SelectTrigger>
+              <SelectContent>
+                {tags.map((tag) => (
+                  <SelectItem key={tag.id} value={tag.id}>
+                    <TagBadge tag={tag} />
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" className="h-8" disabled={!canApply} onClick={() => bulkMutation.mutate('add')}>
+              <TagIcon className="w-3 h-3 mr-1" />
+              Add
+            </Button>
+            <Button size="sm" variant="outline" className="h-8" disabled={!canApply} onClick={() => bulkMutation.mutate('remove')}>
+              Remove
+            </Button>
+          </>
+        )}
+        <Button size="sm" variant="ghost" className="h-8 px-2" onClick={onClose} title="Done selecting">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
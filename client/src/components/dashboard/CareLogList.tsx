@@ -37,7 +37,7 @@ const CARE_LOG_STATUSES = [
 
 
 export function CareLogList({ familyId }: CareLogListProps) {
-  const { user } = useAuth();
+  const { user, hasPermission } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   
@@ -169,7 +169,7 @@ export function CareLogList({ familyId }: CareLogListProps) {
   };
 
   const canEditOrDelete = (log: CareLogWithStaff) => {
-    return user?.group === 'ADM' || log.staffId === user?.id;
+    return hasPermission('careLogs.manageAll') || log.staffId === user?.id;
   };
 
   const generateMergedText = () => {
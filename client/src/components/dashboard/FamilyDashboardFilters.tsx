@@ -8,9 +8,15 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { apiRequest } from '@/lib/queryClient';
 import { Department, Team } from '@server/schema';
 import { SearchFilters } from '@/types/family';
+import { useCustomFields } from '@/components/CustomFieldInputs';
+import { useTags, TagBadge } from '@/components/FamilyTags';
+import { isFilterableCustomField } from '@server/customFields';
 import { ChevronDown, ChevronUp, X } from 'lucide-react';
 import styles from '../../pages/dashboards/dashboard.module.css';
 
+// Select items can't have an empty value, so "no filter" needs its own
+const ANY_VALUE = '__any__';
+
 interface FamilyDashboardFiltersProps {
   filters: SearchFilters;
   onFiltersChange: (filters: SearchFilters) => void;
@@ -48,6 +54,13 @@ export function FamilyDashboardFilters({
     },
   });
 
+  const { data: customFields } = useCustomFields();
+  const filterableCustomFields = customFields.filter(isFilterableCustomField);
+
+  // Counts are for the selected department or teams
+  const { data: tags } = useTags({ departmentId: filters.departmentId, teamIds: filters.teamIds });
+  const selectedTagIds = filters.tagIds ?? [];
+
   // Get teams filtered by selected department
   const getAvailableTeams = () => {
     if (!filters.departmentId) return [];
@@ -68,9 +81,37 @@ export function FamilyDashboardFilters({
       });
     }
 
+    tags.filter(tag => selectedTagIds.includes(tag.id)).forEach(tag => {
+      activeFilters.push({ label: 'Tag', value: tag.name });
+    });
+    Object.entries(filters.customFields ?? {}).forEach(([fieldId, value]) => {
+      const field = customFields.find(f => f.id === fieldId);
+      if (field) {
+        const label = field.type === 'boolean' ? (value === 'true' ? 'Yes' : 'No') : value;
+        activeFilters.push({ label: field.name, value: `${field.name}: ${label}` });
+      }
+    });
+
     return activeFilters;
   };
 
+  const handleTagToggle = (tagId: string) => {
+    onFiltersChange({
+      ...filters,
+      tagIds: selectedTagIds.includes(tagId)
+        ? selectedTagIds.filter(id => id !== tagId)
+        : [...selectedTagIds, tagId]
+    });
+  };
+
+  const handleCustomFieldChange = (fieldId: string, value: string) => {
+    const { [fieldId]: _, ...rest } = filters.customFields ?? {};
+    onFiltersChange({
+      ...filters,
+      customFields: value === ANY_VALUE ? rest : { ...rest, [fieldId]: value }
+    });
+  };
+
   const handleDepartmentChange = (value: string) => {
     onFiltersChange({
       ...filters,
@@ -193,6 +234,85 @@ export function FamilyDashboardFilters({
                 )}
               </div>
             )}
+
+            {/* Tag Filter - with how many families in the department or teams have each tag */}
+            {filters.departmentId && tags.length > 0 && (
+              <div className="mt-2">
+                <div className="flex items-center justify-between mb-1">
+                  <Label className="text-xs text-muted-foreground">Tags</Label>
+                  {selectedTagIds.length > 1 && (
+                    <div className="flex rounded-md border border-input overflow-hidden text-xs" data-testid="toggle-tag-match">
+                      {(['any', 'all'] as const).map((mode) => (
+                        <button
+                          key={mode}
+                          type="button"
+                          onClick={() => onFiltersChange({ ...filters, tagMatch: mode })}
+                          className={`px-2 py-0.5 ${
+                            (filters.tagMatch ?? 'any') === mode
+                              ? 'bg-primary text-primary-foreground'
+                              : 'bg-background text-foreground hover:bg-accent'
+                          }`}
+                        >
+                          {mode === 'any' ? 'Any (OR)' : 'All (AND)'}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {tags.map((tag) => {
+                    const isSelected = selectedTagIds.includes(tag.id);
+                    return (
+                      <button
+                        key={tag.id}
+                        type="button"
+                        onClick={() => handleTagToggle(tag.id)}
+                        className={`rounded-full transition-opacity ${isSelected ? 'ring-2 ring-offset-1 ring-gray-900' : 'opacity-60 hover:opacity-100'}`}
+                        data-testid={`button-filter-tag-${tag.id}`}
+                      >
+                        <TagBadge tag={tag} count={tag.familyCount} />
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {/* Custom Field Filters - choice and yes/no fields only */}
+            {filters.departmentId && filterableCustomFields.length > 0 && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2 mt-2">
+                {filterableCustomFields.map((field) => (
+                  <div key={field.id} className="space-y-1">
+                    <Label htmlFor={`filter-custom-${field.id}`} className="text-xs text-muted-foreground">
+                      {field.name}{field.target === 'member' ? ' (any member)' : ''}
+                    </Label>
+                    <Select
+                      value={filters.customFields?.[field.id] ?? ANY_VALUE}
+                      onValueChange={(value) => handleCustomFieldChange(field.id, value)}
+                    >
+                      <SelectTrigger id={`filter-custom-${field.id}`} data-testid={`select-filter-custom-${field.id}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ANY_VALUE}>Any</SelectItem>
+                        {field.type === 'boolean' ? (
+                          <>
+                            <SelectItem value="true">Yes</SelectItem>
+                            <SelectItem value="false">No</SelectItem>
+                          </>
+                        ) : (
+                          field.options.map((option) => (
+                            <SelectItem key={option} value={option}>
+                              {option}
+                            </SelectItem>
+                          ))
+                        )}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
 
           {/* Filter Actions */}
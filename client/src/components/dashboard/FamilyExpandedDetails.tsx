@@ -2,12 +2,18 @@ import { useLocation } from 'wouter';
 import { useToast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { FamilyWithMembers } from '@server/schema';
-import { COURSE_OPTIONS } from '@/types/family';
+import { FamilyWithMembers, type MemberPositionWithDetails } from '@server/schema';
 import { getGradeGroupFirstChar } from '@/utils/grade-utils';
-import { Users, Search, Edit, Copy, Phone, MessageSquare, MapPin, X, GraduationCap, Info, Briefcase, FileText } from 'lucide-react';
+import { Users, Search, Edit, Copy, Phone, MessageSquare, MapPin, X, GraduationCap, Info, Briefcase, FileText, Lock, ListPlus } from 'lucide-react';
 import styles from '../../pages/dashboards/dashboard.module.css';
 import { CareLogList } from './CareLogList';
+import { FamilyNotes } from './FamilyNotes';
+import { useCustomFields } from '@/components/CustomFieldInputs';
+import { FamilyTags } from '@/components/FamilyTags';
+import { getPositionLabel, getPositionScopeName } from '@/components/MemberPositions';
+import { useFamilyPhotos } from '@/components/FamilyPhotoGallery';
+import { VCardExportMenu } from '@/components/VCardExportMenu';
+import { formatCustomFieldValue } from '@server/customFields';
 
 interface FamilyExpandedDetailsProps {
   family: FamilyWithMembers;
@@ -16,7 +22,7 @@ interface FamilyExpandedDetailsProps {
   expandedGradeGroups: Set<string>;
   onToggleGradeGroup: (childId: string) => void;
   getStatusBorderClassName: (status: string) => string;
-  getPrimaryCourses: (family: FamilyWithMembers) => { person: string; personName: string; courses: string[]; } | null;
+  positions: MemberPositionWithDetails[]; // current positions held by the family's members
   useCareLogsData: (familyId: string) => { data?: any[] };
 }
 
@@ -27,11 +33,13 @@ export function FamilyExpandedDetails({
   expandedGradeGroups,
   onToggleGradeGroup,
   getStatusBorderClassName,
-  getPrimaryCourses,
+  positions,
   useCareLogsData
 }: FamilyExpandedDetailsProps) {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const { data: customFields } = useCustomFields();
+  const { data: photos } = useFamilyPhotos(family.id);
 
   // Component to display care log section title with count
   const CareLogSectionTitle = ({ familyId }: { familyId: string }) => {
@@ -70,7 +78,7 @@ export function FamilyExpandedDetails({
             }}
           >
             <img
-              src={family.familyPicture}
+              src={family.familyPictureThumbnail || family.familyPicture}
               alt={`${family.familyName} family`}
               className={`w-32 h-32 object-cover rounded-lg border-4 ${getStatusBorderClassName(family.memberStatus)} shadow-lg`}
               onError={(e) => {
@@ -286,27 +294,22 @@ export function FamilyExpandedDetails({
     );
   };
 
-  const renderCoursesInfo = () => {
-    const coursesInfo = getPrimaryCourses(family);
-
-    if (!coursesInfo || coursesInfo.courses.length === 0) return null;
-
+  const renderPositionsInfo = () => {
     return (
-      <div className="flex flex-wrap gap-2">
-        {coursesInfo.courses.map((courseValue, index) => {
-          const courseOption = COURSE_OPTIONS.find(opt => opt.value === courseValue);
-          const courseLabel = courseOption ? courseOption.label : courseValue;
-
-          return (
+      <div className="space-y-2">
+        {positions.map((term) => (
+          <div key={term.id} className="flex flex-wrap items-center gap-2 text-sm">
             <Badge
-              key={`${courseValue}-${index}`}
               variant="default"
               className="bg-blue-100 text-blue-800 border-blue-200 hover:bg-blue-200"
             >
-              {courseLabel}
+              {getPositionLabel(term.position)}
             </Badge>
-          );
-        })}
+            <span className="font-medium">{term.member.koreanName || term.member.englishName}</span>
+            <span className="text-gray-600">{getPositionScopeName(term)}</span>
+            <span className="text-xs text-gray-500">since {term.startDate}</span>
+          </div>
+        ))}
       </div>
     );
   };
@@ -354,6 +357,47 @@ export function FamilyExpandedDetails({
     );
   };
 
+  // Filled-in custom fields of the family, then of each member by name
+  const getCustomFieldGroups = () => {
+    const groups = [
+      { key: family.id, label: 'Family', values: family.customFieldValues, target: 'family' },
+      ...family.members.map(member => ({
+        key: member.id,
+        label: member.koreanName || member.englishName || '',
+        values: member.customFieldValues,
+        target: 'member',
+      })),
+    ];
+    return groups
+      .map(group => ({
+        ...group,
+        items: customFields
+          .filter(field => field.target === group.target)
+          .map(field => ({ field, text: formatCustomFieldValue(field, group.values?.[field.id]) }))
+          .filter(item => item.text),
+      }))
+      .filter(group => group.items.length > 0);
+  };
+
+  const renderCustomFieldsInfo = (groups: ReturnType<typeof getCustomFieldGroups>) => (
+    <div className="space-y-3">
+      {groups.map(group => (
+        <div key={group.key}>
+          <span className="text-xs font-medium text-gray-500 uppercase tracking-wide">{group.label}</span>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-3 gap-y-1 mt-1">
+            {group.items.map(({ field, text }) => (
+              <p key={field.id} className="text-sm text-gray-900">
+                <span className="text-gray-500">{field.name}:</span> {text}
+              </p>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+
+  const customFieldGroups = getCustomFieldGroups();
+
   return (
     <div className={`${styles.expandedContent} px-6 py-4`} style={{position: 'relative'}}>
       {/* Full-width desktop layout without tabs */}
@@ -395,6 +439,31 @@ export function FamilyExpandedDetails({
               </div>
             </div>
 
+            {/* Photo gallery */}
+            {photos.length > 1 && (
+              <div className="flex flex-wrap gap-2 justify-center lg:justify-start max-w-56" data-testid={`photo-gallery-${family.id}`}>
+                {photos.map((photo) => (
+                  <button
+                    key={photo.id}
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onImageClick(photo.displayPath, photo.caption || `${family.familyName} family`);
+                    }}
+                    title={photo.caption ?? undefined}
+                    className="hover:opacity-80 transition-opacity"
+                  >
+                    <img
+                      src={photo.thumbnailPath}
+                      alt={photo.caption || `${family.familyName} family`}
+                      className={`w-12 h-12 object-cover rounded-md border-2 ${photo.isPrimary ? 'border-primary' : 'border-gray-200'}`}
+                      loading="lazy"
+                    />
+                  </button>
+                ))}
+              </div>
+            )}
+
             {/* Family name and status below picture */}
             <div className="text-center lg:text-left">
               <div className="flex items-center gap-2">
@@ -411,8 +480,12 @@ export function FamilyExpandedDetails({
                 >
                   <Edit className="w-4 h-4 mr-1" />Edit
                 </Button>
+                <VCardExportMenu familyId={family.id} fileName={family.familyName} className="h-8" />
               </div>
             </div>
+
+            {/* Tags */}
+            <FamilyTags familyId={family.id} tagIds={family.tagIds ?? []} />
           </div>
         </div>
 
@@ -442,16 +515,36 @@ export function FamilyExpandedDetails({
               </div>
             )}
 
-            {/* Courses Information Section */}
-            {getPrimaryCourses(family)?.courses && getPrimaryCourses(family)?.courses.length > 0 && (
+            {/* Leadership Positions Section */}
+            {positions.length > 0 && (
               <div className="bg-blue-50 rounded-xl p-6 shadow-sm border border-blue-200">
                 <h3 className="text-lg font-semibold text-gray-800 mb-4 flex items-center">
                   <GraduationCap className="w-5 h-5 mr-2 text-blue-600" />
                   KCBMC Information
                 </h3>
-                {renderCoursesInfo()}
+                {renderPositionsInfo()}
               </div>
             )}
+
+            {/* Custom Fields Section */}
+            {customFieldGroups.length > 0 && (
+              <div className="bg-teal-50 rounded-xl p-6 shadow-sm border border-teal-200">
+                <h3 className="text-lg font-semibold text-gray-800 mb-4 flex items-center">
+                  <ListPlus className="w-5 h-5 mr-2 text-teal-600" />
+                  Additional Information
+                </h3>
+                {renderCustomFieldsInfo(customFieldGroups)}
+              </div>
+            )}
+          </div>
+
+          {/* Confidential Family Notes Section */}
+          <div className="bg-gray-50 rounded-xl p-6 shadow-sm border border-gray-200">
+            <h3 className="text-lg font-semibold text-gray-800 mb-4 flex items-center">
+              <Lock className="w-5 h-5 mr-2 text-gray-600" />
+              Family Notes
+            </h3>
+            <FamilyNotes familyId={family.id} />
           </div>
 
           {/* Other Information Section with Care Log */}
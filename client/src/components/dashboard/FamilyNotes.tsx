@@ -0,0 +1,181 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Lock, Eye, EyeOff, History } from 'lucide-react';
+import type { FamilyNoteAccessLogWithDetails } from '@server/schema';
+
+interface FamilyNotesProps {
+  familyId: string;
+}
+
+// Confidential family notes are never part of the family payload.
+// They're fetched on demand after a PIN check, and the server logs every reveal.
+export function FamilyNotes({ familyId }: FamilyNotesProps) {
+  const { hasPermission } = useAuth();
+  const { toast } = useToast();
+  const [notes, setNotes] = useState<string | null>(null);
+  const [isRevealing, setIsRevealing] = useState(false);
+  const [showPinDialog, setShowPinDialog] = useState(false);
+  const [pin, setPin] = useState('');
+  const [showAccessLogs, setShowAccessLogs] = useState(false);
+
+  const canAudit = hasPermission('familyNotes.audit');
+
+  const { data: accessLogs = [] } = useQuery<FamilyNoteAccessLogWithDetails[]>({
+    queryKey: [`/api/families/${familyId}/notes/access-logs`],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/families/${familyId}/notes/access-logs`);
+      return await response.json();
+    },
+    enabled: canAudit && showAccessLogs,
+  });
+
+  const revealNotes = async () => {
+    setIsRevealing(true);
+    try {
+      const response = await apiRequest('GET', `/api/families/${familyId}/notes`);
+      const data = await response.json();
+      setNotes(data.familyNotes);
+    } catch (error: any) {
+      if (error.message?.startsWith('403')) {
+        // No active unlock for this session - ask for the PIN first
+        setShowPinDialog(true);
+      } else {
+        toast({
+          title: "Error",
+          description: "Failed to load family notes.",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setIsRevealing(false);
+    }
+  };
+
+  const handleVerifyPin = async () => {
+    try {
+      const response = await apiRequest('POST', '/api/auth/verify-pin', { pin });
+      const result = await response.json();
+      if (!result.success) {
+        toast({
+          title: "Invalid PIN",
+          description: "Please try again.",
+          variant: "destructive",
+        });
+        return;
+      }
+      setShowPinDialog(false);
+      setPin('');
+      await revealNotes();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message?.startsWith('429')
+          ? "Too many failed attempts. Please try again later."
+          : "Failed to verify PIN.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {notes === null ? (
+        <div className="flex items-center justify-between text-sm text-gray-500">
+          <span className="flex items-center">
+            <Lock className="w-4 h-4 mr-2" />
+            Family notes are confidential.
+          </span>
+          <Button variant="outline" size="sm" onClick={revealNotes} disabled={isRevealing}>
+            <Eye className="w-4 h-4 mr-1" />
+            {isRevealing ? 'Loading...' : 'Show'}
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <div className="flex justify-end">
+            <Button variant="ghost" size="sm" onClick={() => setNotes(null)}>
+              <EyeOff className="w-4 h-4 mr-1" />
+              Hide
+            </Button>
+          </div>
+          <p className="text-sm text-gray-700 whitespace-pre-wrap">
+            {notes || <span className="italic text-gray-400">No notes.</span>}
+          </p>
+        </div>
+      )}
+
+      {canAudit && (
+        <div className="pt-2 border-t border-gray-200">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-xs text-gray-500 px-0"
+            onClick={() => setShowAccessLogs(!showAccessLogs)}
+          >
+            <History className="w-3 h-3 mr-1" />
+            {showAccessLogs ? 'Hide access history' : 'Who viewed these notes'}
+          </Button>
+          {showAccessLogs && (
+            accessLogs.length === 0 ? (
+              <p className="text-xs text-gray-400">No one has viewed these notes yet.</p>
+            ) : (
+              <ul className="text-xs text-gray-600 space-y-1 max-h-32 overflow-y-auto">
+                {accessLogs.map((log) => (
+                  <li key={log.id} className="flex justify-between">
+                    <span>{log.staff.fullName} ({log.staff.nickName})</span>
+                    <span className="text-gray-400">
+                      {new Date(log.accessedAt).toLocaleDateString('en-US', {
+                        month: 'short',
+                        day: 'numeric',
+                        year: 'numeric',
+                        hour: '2-digit',
+                        minute: '2-digit'
+                      })}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )
+          )}
+        </div>
+      )}
+
+      <Dialog open={showPinDialog} onOpenChange={(open) => { setShowPinDialog(open); setPin(''); }}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Enter your PIN</DialogTitle>
+            <DialogDescription>
+              Family notes are strictly confidential. Your access will be recorded.
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            type="password"
+            inputMode="numeric"
+            maxLength={4}
+            value={pin}
+            onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && pin.length === 4) handleVerifyPin();
+            }}
+            placeholder="4-digit PIN"
+            autoFocus
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowPinDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleVerifyPin} disabled={pin.length !== 4}>
+              Unlock
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { FamilyWithMembers } from '@server/schema';
+import { FamilyWithMembers, UpcomingCelebration } from '@server/schema';
 import { SearchFilters } from '@/types/family';
 
 interface PrintUtilsProps {
@@ -281,7 +281,7 @@ export class FamilyPrintUtils {
           <div class="header">
             <div>
               ${family.familyPicture ? `
-                <img src="${family.familyPicture}" alt="${family.familyName} family" class="family-picture" />
+                <img src="${family.familyPictureThumbnail || family.familyPicture}" alt="${family.familyName} family" class="family-picture" />
               ` : `
                 <div class="dummy-picture">
                   👨‍👩‍👧‍👦
@@ -408,6 +408,154 @@ export class FamilyPrintUtils {
     }).join('');
   }
 
+  /**
+   * Print a month of birthdays and wedding anniversaries, grouped by team
+   */
+  static printMonthlyCelebrations(celebrations: UpcomingCelebration[], year: number, month: number) {
+    const monthLabel = new Date(year, month - 1, 1).toLocaleDateString('en-US', { year: 'numeric', month: 'long' });
+
+    const teams = new Map<string, UpcomingCelebration[]>();
+    for (const celebration of celebrations) {
+      const teamName = celebration.teamName || 'Unassigned';
+      teams.set(teamName, [...(teams.get(teamName) || []), celebration]);
+    }
+    const teamSections = Array.from(teams.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([teamName, teamCelebrations]) => `
+        <div class="team-section">
+          <div class="team-name">${teamName} (${teamCelebrations.length})</div>
+          <table class="results-table">
+            <thead>
+              <tr>
+                <th style="width: 12%;">Date</th>
+                <th style="width: 14%;">Type</th>
+                <th style="width: 22%;">Family Name</th>
+                <th style="width: 22%;">Name</th>
+                <th style="width: 10%;">Years</th>
+                <th style="width: 20%;">Phone</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${this.generateCelebrationTableRows(teamCelebrations)}
+            </tbody>
+          </table>
+        </div>
+      `).join('');
+
+    const printContent = `
+      <html>
+        <head>
+          <title>Birthdays & Anniversaries - ${monthLabel}</title>
+          <style>
+            body {
+              font-family: Arial, sans-serif;
+              margin: 20px;
+              font-size: 12px;
+              line-height: 1.4;
+            }
+            .header {
+              border-bottom: 2px solid #333;
+              padding-bottom: 15px;
+              margin-bottom: 25px;
+            }
+            .title {
+              font-size: 22px;
+              font-weight: bold;
+              margin-bottom: 10px;
+              color: #2c3e50;
+            }
+            .search-info {
+              color: #666;
+              margin-bottom: 5px;
+              font-size: 11px;
+            }
+            .team-section {
+              margin-bottom: 25px;
+              page-break-inside: avoid;
+            }
+            .team-name {
+              font-size: 14px;
+              font-weight: bold;
+              color: #2c3e50;
+              border-bottom: 1px solid #dee2e6;
+              padding-bottom: 5px;
+            }
+            .results-table {
+              width: 100%;
+              border-collapse: collapse;
+              margin-top: 10px;
+              font-size: 10px;
+            }
+            .results-table th {
+              background: #f8f9fa;
+              padding: 8px;
+              border: 1px solid #dee2e6;
+              font-weight: bold;
+              text-align: left;
+              color: #495057;
+            }
+            .results-table td {
+              padding: 6px 8px;
+              border: 1px solid #dee2e6;
+              vertical-align: top;
+            }
+            .results-table tr:nth-child(even) {
+              background: #f8f9fa;
+            }
+            .family-name {
+              font-weight: bold;
+              color: #2c3e50;
+            }
+            .footer {
+              margin-top: 30px;
+              padding-top: 15px;
+              border-top: 1px solid #dee2e6;
+              font-size: 10px;
+              color: #6c757d;
+              text-align: center;
+            }
+            @media print {
+              body { margin: 0; }
+              .results-table { font-size: 9px; }
+              .header { page-break-after: avoid; }
+            }
+          </style>
+        </head>
+        <body>
+          <div class="header">
+            <div class="title">Birthdays & Anniversaries - ${monthLabel}</div>
+            <div class="search-info">Total: ${celebrations.length} dates in ${teams.size} team(s)</div>
+            <div class="search-info">Generated: ${new Date().toLocaleDateString()} at ${new Date().toLocaleTimeString()}</div>
+          </div>
+
+          ${teamSections || '<div class="search-info">No birthdays or anniversaries this month.</div>'}
+
+          <div class="footer">
+            Generated by Family Management System • ${celebrations.length} dates listed
+          </div>
+        </body>
+      </html>
+    `;
+
+    this.openPrintWindow(printContent);
+  }
+
+  /**
+   * Generate table rows for a team's birthdays and anniversaries
+   */
+  private static generateCelebrationTableRows(celebrations: UpcomingCelebration[]): string {
+    return celebrations.map(celebration => `
+        <tr>
+          <td>${celebration.date.slice(5)}</td>
+          <td>${celebration.type === 'birthday' ? '생일 (Birthday)' : '결혼기념일 (Anniversary)'}</td>
+          <td><span class="family-name">${celebration.familyName}</span></td>
+          <td>${celebration.memberName || '-'}</td>
+          <td>${celebration.years}</td>
+          <td>${celebration.phoneNumber || '-'}</td>
+        </tr>
+      `).join('');
+  }
+
   /**
    * Get filter description for print header
    */
@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import type { UpcomingCelebration } from '@server/schema';
+import { FamilyPrintUtils } from './FamilyPrintUtils';
+import { Cake, Heart, Printer, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface UpcomingCelebrationsProps {
+  teamIds: string[]; // empty for the staff member's own teams
+}
+
+const DAY_OPTIONS = [7, 14, 30];
+
+async function fetchCelebrations(teamIds: string[], days: number, from?: string): Promise<UpcomingCelebration[]> {
+  const queryParams = new URLSearchParams({ days: String(days) });
+  if (from) queryParams.set('from', from);
+  if (teamIds.length > 0) queryParams.set('teamIds', teamIds.join(','));
+  const response = await apiRequest('GET', `/api/celebrations/upcoming?${queryParams.toString()}`);
+  return response.json();
+}
+
+function formatDaysUntil(daysUntil: number): string {
+  if (daysUntil === 0) return '오늘';
+  if (daysUntil === 1) return '내일';
+  return `${daysUntil}일 후`;
+}
+
+// Birthdays and wedding anniversaries coming up in the selected teams, with a printable month list
+export function UpcomingCelebrations({ teamIds }: UpcomingCelebrationsProps) {
+  const { toast } = useToast();
+  const [days, setDays] = useState(14);
+  const [expanded, setExpanded] = useState(true);
+  const [isPrinting, setIsPrinting] = useState(false);
+
+  const { data: celebrations = [], isLoading } = useQuery<UpcomingCelebration[]>({
+    queryKey: ['/api/celebrations/upcoming', teamIds, days],
+    queryFn: () => fetchCelebrations(teamIds, days),
+  });
+
+  const handlePrintMonth = async () => {
+    const now = new Date();
+    const year = now.getFullYear();
+    const month = now.getMonth() + 1;
+    const daysInMonth = new Date(year, month, 0).getDate();
+    const from = `${year}-${String(month).padStart(2, '0')}-01`;
+
+    setIsPrinting(true);
+    try {
+      const monthCelebrations = await fetchCelebrations(teamIds, daysInMonth, from);
+      FamilyPrintUtils.printMonthlyCelebrations(monthCelebrations, year, month);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load this month's dates.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPrinting(false);
+    }
+  };
+
+  return (
+    <Card className="mb-4">
+      <CardHeader className="p-4 pb-2">
+        <div className="flex items-center justify-between gap-2">
+          <button
+            type="button"
+            onClick={() => setExpanded(!expanded)}
+            className="flex items-center gap-2 font-semibold text-gray-900"
+          >
+            <Cake className="w-4 h-4 text-primary" />
+            생일 · 결혼기념일 ({celebrations.length})
+            {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+          </button>
+          <div className="flex items-center gap-2">
+            <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+              <SelectTrigger className="h-8 w-24" data-testid="select-celebration-days">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DAY_OPTIONS.map((option) => (
+                  <SelectItem key={option} value={String(option)}>
+                    {option}일
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handlePrintMonth}
+              disabled={isPrinting}
+              data-testid="button-print-celebrations"
+            >
+              <Printer className="w-4 h-4 mr-1" />
+              이번 달
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      {expanded && (
+        <CardContent className="p-4 pt-2">
+          {isLoading ? (
+            <div className="text-sm text-gray-500">Loading...</div>
+          ) : celebrations.length === 0 ? (
+            <div className="text-sm text-gray-500">{days}일 안에 생일이나 결혼기념일이 없습니다.</div>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {celebrations.map((celebration) => (
+                <li
+                  key={`${celebration.type}-${celebration.familyId}-${celebration.memberId ?? ''}`}
+                  className="flex flex-wrap items-center gap-2 py-2 text-sm"
+                >
+                  {celebration.type === 'birthday' ? (
+                    <Cake className="w-4 h-4 text-pink-500" />
+                  ) : (
+                    <Heart className="w-4 h-4 text-red-500" />
+                  )}
+                  <span className="font-medium text-gray-900">
+                    {celebration.type === 'birthday' ? celebration.memberName : celebration.familyName}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {celebration.type === 'birthday'
+                      ? `${celebration.familyName} · ${celebration.years}세 생일`
+                      : `결혼 ${celebration.years}주년`}
+                  </span>
+                  <Badge variant={celebration.daysUntil === 0 ? 'default' : 'outline'} className="text-[10px]">
+                    {celebration.date.slice(5)} · {formatDaysUntil(celebration.daysUntil)}
+                  </Badge>
+                  {celebration.teamName && (
+                    <span className="text-xs text-gray-400">{celebration.teamName}</span>
+                  )}
+                  {celebration.phoneNumber && (
+                    <a href={`tel:${celebration.phoneNumber}`} className="ml-auto text-xs text-primary">
+                      {celebration.phoneNumber}
+                    </a>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -1,6 +1,8 @@
 export { FamilyDashboardFilters } from './FamilyDashboardFilters';
 export { FamilyExpandedDetails } from './FamilyExpandedDetails';
+export { BulkTagBar } from './BulkTagBar';
 export { CareLogList } from './CareLogList';
 export { FamilyPrintUtils, FamilyPrintComponent } from './FamilyPrintUtils';
+export { UpcomingCelebrations } from './UpcomingCelebrations';
 export { AnnouncementManager, useFooterAnnouncements, getAnnouncementBadgeVariant } from './AnnouncementManager';
 export type { AnnouncementWithStaff } from './AnnouncementManager';
\ No newline at end of file
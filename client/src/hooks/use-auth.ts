@@ -1,6 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useEffect } from 'react';
 import { apiRequest } from '@/lib/queryClient';
+import type { Permission } from '@server/schema';
 
 interface AuthUser {
   id: string;
@@ -8,6 +9,8 @@ interface AuthUser {
   nickName: string;
   group: string;
   email?: string;
+  mustChangePin?: boolean; // signed in with a temporary PIN
+  permissions?: Permission[];
 }
 
 interface LoginCredentials {
@@ -119,11 +122,15 @@ export function useAuth() {
     }
   };
 
+  const hasPermission = (permission: Permission) => !!user?.permissions?.includes(permission);
+
   return {
     user,
     isLoading,
     isAuthenticated: !!user,
-    canAddDelete: user?.group === 'ADM' || user?.group === 'MGM',
+    mustChangePin: !!user?.mustChangePin,
+    canAddDelete: hasPermission('families.create'),
+    hasPermission,
     login: loginMutation.mutateAsync,
     logout: logoutMutation.mutateAsync,
     updateUser,
@@ -0,0 +1,186 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent } from "@/components/ui/card";
+import { KeyRound } from "lucide-react";
+import styles from "./login.module.css";
+import { apiRequest } from '@/lib/queryClient';
+
+// Validation errors come back as "400: {"message": ...}"
+function getErrorMessage(error: any): string {
+  const match = typeof error?.message === 'string' ? error.message.match(/^\d{3}:\s*([\s\S]*)$/) : null;
+  if (!match) return "Failed to change PIN. Please try again.";
+  try {
+    return JSON.parse(match[1]).message || match[1];
+  } catch {
+    return match[1];
+  }
+}
+
+// Shown instead of every other page while the staff member is signed in with a temporary PIN
+export default function ChangePinPage() {
+  const [currentPin, setCurrentPin] = useState("");
+  const [newPin, setNewPin] = useState("");
+  const [confirmPin, setConfirmPin] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { user, updateUser, logout } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (currentPin.length !== 4 || newPin.length !== 4) {
+      toast({
+        title: "Invalid PIN",
+        description: "PIN must be 4 digits.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (newPin !== confirmPin) {
+      toast({
+        title: "PINs don't match",
+        description: "Please enter the same new PIN twice.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await apiRequest('POST', '/api/auth/change-pin', { currentPin, newPin });
+
+      // Keep the remembered login in step with the new PIN
+      const savedCredentials = localStorage.getItem('lastLoginCredentials');
+      if (savedCredentials) {
+        try {
+          const credentials = JSON.parse(savedCredentials);
+          if (credentials.memberId === user?.id) {
+            localStorage.setItem('lastLoginCredentials', JSON.stringify({ ...credentials, pin: newPin }));
+          }
+        } catch {
+          localStorage.removeItem('lastLoginCredentials');
+        }
+      }
+
+      updateUser({ mustChangePin: false });
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/me'] });
+      toast({
+        title: "PIN changed",
+        description: "Your new PIN is ready to use.",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.background}>
+        <Card className={styles.card}>
+          <CardContent className={styles.cardContent}>
+            <div className={styles.header}>
+              <KeyRound className="w-12 h-12 mx-auto mb-4 text-green-700" />
+              <h1 className={styles.title}>Set Your PIN</h1>
+              <p className={styles.subtitle}>
+                {user?.nickName}, you signed in with a temporary PIN. Choose your own PIN to continue.
+              </p>
+            </div>
+
+            <form onSubmit={handleSubmit} className={styles.form}>
+              <div className={styles.field}>
+                <Label htmlFor="current-pin" className={styles.label}>
+                  Temporary PIN
+                </Label>
+                <Input
+                  id="current-pin"
+                  type="password"
+                  inputMode="numeric"
+                  pattern="[0-9]*"
+                  maxLength={4}
+                  autoComplete="current-password"
+                  value={currentPin}
+                  onChange={(e) => setCurrentPin(e.target.value.replace(/\D/g, ""))}
+                  placeholder="••••"
+                  className={styles.pinInput}
+                  data-testid="input-current-pin"
+                />
+              </div>
+
+              <div className={styles.field}>
+                <Label htmlFor="new-pin" className={styles.label}>
+                  New PIN
+                </Label>
+                <Input
+                  id="new-pin"
+                  type="password"
+                  inputMode="numeric"
+                  pattern="[0-9]*"
+                  maxLength={4}
+                  autoComplete="new-password"
+                  value={newPin}
+                  onChange={(e) => setNewPin(e.target.value.replace(/\D/g, ""))}
+                  placeholder="••••"
+                  className={styles.pinInput}
+                  data-testid="input-new-pin"
+                />
+                <p className="text-xs text-gray-500">
+                  Avoid easy PINs like 1234, 0000 or 1212, and don't reuse your previous PIN.
+                </p>
+              </div>
+
+              <div className={styles.field}>
+                <Label htmlFor="confirm-pin" className={styles.label}>
+                  Confirm New PIN
+                </Label>
+                <Input
+                  id="confirm-pin"
+                  type="password"
+                  inputMode="numeric"
+                  pattern="[0-9]*"
+                  maxLength={4}
+                  autoComplete="new-password"
+                  value={confirmPin}
+                  onChange={(e) => setConfirmPin(e.target.value.replace(/\D/g, ""))}
+                  placeholder="••••"
+                  className={styles.pinInput}
+                  data-testid="input-confirm-pin"
+                />
+              </div>
+
+              <Button
+                type="submit"
+                className={styles.submitButton}
+                disabled={isSubmitting}
+                data-testid="button-change-pin"
+              >
+                {isSubmitting ? "Saving..." : "Set PIN"}
+              </Button>
+
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => logout()}
+                className="text-gray-500"
+              >
+                Sign Out
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -31,6 +31,18 @@ interface PublicAnnouncement {
 }
 
 
+// Lockout responses come back as "429: {...retryAfter...}"
+function getLockedUntil(error: any): Date | null {
+  const match = typeof error?.message === 'string' ? error.message.match(/^429:\s*([\s\S]*)$/) : null;
+  if (!match) return null;
+  try {
+    const body = JSON.parse(match[1]);
+    return body.retryAfter ? new Date(body.retryAfter) : null;
+  } catch {
+    return null;
+  }
+}
+
 export default function LoginPage() {
   const [selectedStaff, setSelectedStaff] = useState("");
   const [pin, setPin] = useState("");
@@ -130,9 +142,12 @@ export default function LoginPage() {
         description: "You have successfully logged in.",
       });
     } catch (error: any) {
+      const lockedUntil = getLockedUntil(error);
       toast({
-        title: "Login Failed",
-        description: error.message || "Invalid credentials. Please try again.",
+        title: lockedUntil ? "Too Many Attempts" : "Login Failed",
+        description: lockedUntil
+          ? `Too many failed attempts. You can try again at ${lockedUntil.toLocaleTimeString()}.`
+          : error.message || "Invalid credentials. Please try again.",
         variant: "destructive",
       });
     }
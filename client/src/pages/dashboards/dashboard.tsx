@@ -6,6 +6,7 @@ import { useToast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
@@ -16,15 +17,19 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { SundayDatePicker } from '@/components/sunday-date-picker';
 import { apiRequest } from '@/lib/queryClient';
 
-import { FamilyWithMembers, Department, Team } from '@server/schema';
-import { SearchFilters, MEMBER_STATUS_OPTIONS, COURSE_OPTIONS } from '@/types/family';
+import { FamilyWithMembers, Department, Team, FAMILY_SEARCH_MAX_LIMIT, type FamilySearchResult, type MemberPositionWithDetails } from '@server/schema';
+import { SearchFilters, MEMBER_STATUS_OPTIONS } from '@/types/family';
+import { matchFamilyText } from '@server/familyTextSearch';
 import { formatDateForInput, getPreviousSunday } from '@/utils/date-utils';
 import { getGradeGroupFirstChar } from '@/utils/grade-utils';
 import { Users, Search, Plus, Edit, Copy, LogOut, ChevronDown, ChevronUp, Phone, MessageSquare, MapPin, Printer, X, Home, Check, Settings, Globe, AlertCircle, Menu, Bell, ExternalLink, User, Calendar, Save, GraduationCap, Info, FolderOpen, UserCheck } from 'lucide-react';
 import styles from './dashboard.module.css';
 import { RefreshButton } from '@/components/RefreshButton';
 import { Header } from '@/components/Header';
-import { FamilyDashboardFilters, FamilyExpandedDetails, FamilyPrintUtils, AnnouncementManager, useFooterAnnouncements, getAnnouncementBadgeVariant } from '@/components/dashboard';
+import { ActiveSessions } from '@/components/ActiveSessions';
+import { useTags, TagBadge } from '@/components/FamilyTags';
+import { usePositions } from '@/components/MemberPositions';
+import { FamilyDashboardFilters, FamilyExpandedDetails, BulkTagBar, FamilyPrintUtils, UpcomingCelebrations, AnnouncementManager, useFooterAnnouncements, getAnnouncementBadgeVariant } from '@/components/dashboard';
 import type { AnnouncementWithStaff } from '@/components/dashboard';
 
 // Helper function to get default date range (recent 12 months, Sunday-only)
@@ -47,7 +52,7 @@ function getDefaultDateRange() {
 
 export default function DashboardPage() {
   const [, setLocation] = useLocation();
-  const { user, logout, updateUser } = useAuth();
+  const { user, logout, updateUser, hasPermission } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -111,88 +116,49 @@ export default function DashboardPage() {
   const [familyNotesText, setFamilyNotesText] = useState('');
   const [expandedGradeGroups, setExpandedGradeGroups] = useState<Set<string>>(new Set());
   const [nameFilter, setNameFilter] = useState('');
+  const [selectedFamilyIds, setSelectedFamilyIds] = useState<string[] | null>(null); // null when not selecting
+  const { data: tags } = useTags();
 
   const { data: families = [], isLoading } = useQuery<FamilyWithMembers[]>({
-    queryKey: ['families', filters, teams],
+    queryKey: ['families', filters],
     queryFn: async () => {
-      console.log('Family query running with:', { filters, teamsCount: teams.length });
-      
-      // If specific teams are selected, fetch families for each team and combine (OR condition)
-      if (filters.teamIds && filters.teamIds.length > 0) {
-        const familyPromises = filters.teamIds.map(async (teamId) => {
-          const queryParams = new URLSearchParams();
-          queryParams.append('teamId', teamId);
-          // Backend now handles sorting by displayOrder then familyName
-          
-          const url = `/api/families?${queryParams.toString()}`;
-          const response = await apiRequest('GET', url);
-          return response.json();
-        });
-        
-        const familyArrays = await Promise.all(familyPromises);
-        const allFamilies = familyArrays.flat();
-        
-        // Remove duplicates by family ID (in case a family appears in multiple teams)
-        const uniqueFamilies = allFamilies.filter((family, index, arr) =>
-          arr.findIndex(f => f.id === family.id) === index
-        );
-
-        // Sort by displayOrder first, then familyName
-        uniqueFamilies.sort((a, b) => {
-          const orderA = a.displayOrder || 0;
-          const orderB = b.displayOrder || 0;
-          if (orderA !== orderB) {
-            return orderA - orderB;
-          }
-          return a.familyName.localeCompare(b.familyName);
-        });
-        
-        return uniqueFamilies;
+      // Selected teams, or the whole department when none are selected
+      const queryParams = new URLSearchParams({ limit: String(FAMILY_SEARCH_MAX_LIMIT) });
+      if (filters.teamIds.length > 0) {
+        queryParams.set('teamIds', filters.teamIds.join(','));
       } else {
-        // If no specific teams selected, get all teams in the department and fetch all their families
-        // Filter teams by department directly in the query
-        const availableTeams = teams.filter(team => team.departmentId === filters.departmentId);
-        console.log('Available teams for department:', { departmentId: filters.departmentId, availableTeams });
-        
-        if (availableTeams.length === 0) {
-          console.log('No teams found in department');
-          return []; // No teams in this department
-        }
-        
-        const familyPromises = availableTeams.map(async (team) => {
-          const queryParams = new URLSearchParams();
-          queryParams.append('teamId', team.id);
-          // Backend now handles sorting by displayOrder then familyName
-          
-          const url = `/api/families?${queryParams.toString()}`;
-          const response = await apiRequest('GET', url);
-          return response.json();
-        });
-        
-        const familyArrays = await Promise.all(familyPromises);
-        const allFamilies = familyArrays.flat();
-        
-        // Remove duplicates by family ID
-        const uniqueFamilies = allFamilies.filter((family, index, arr) =>
-          arr.findIndex(f => f.id === family.id) === index
-        );
+        queryParams.set('departmentId', filters.departmentId);
+      }
+      if (filters.customFields && Object.keys(filters.customFields).length > 0) {
+        queryParams.set('customFields', JSON.stringify(filters.customFields));
+      }
+      if (filters.tagIds && filters.tagIds.length > 0) {
+        queryParams.set('tagIds', filters.tagIds.join(','));
+        queryParams.set('tagMatch', filters.tagMatch ?? 'any');
+      }
 
-        // Sort by displayOrder first, then familyName
-        uniqueFamilies.sort((a, b) => {
-          const orderA = a.displayOrder || 0;
-          const orderB = b.displayOrder || 0;
-          if (orderA !== orderB) {
-            return orderA - orderB;
-          }
-          return a.familyName.localeCompare(b.familyName);
-        });
-        
-        return uniqueFamilies;
+      // Backend sorts by displayOrder then familyName; keep fetching until every page is in
+      const allFamilies: FamilyWithMembers[] = [];
+      let offset: number | null = 0;
+      while (offset !== null) {
+        queryParams.set('offset', String(offset));
+        const response = await apiRequest('GET', `/api/families/search?${queryParams.toString()}`);
+        const page: FamilySearchResult = await response.json();
+        allFamilies.push(...(page.families as FamilyWithMembers[]));
+        offset = page.nextOffset;
       }
+
+      return allFamilies;
     },
-    enabled: hasSearched && !!filters.departmentId && teams.length > 0, // Only run if department is selected and teams data is loaded
+    enabled: hasSearched && !!filters.departmentId, // Only run if department is selected
   });
 
+  // Officers of the department and its chapters, shown on their families' cards
+  const { data: currentPositions } = usePositions(
+    { departmentId: filters.departmentId, current: true },
+    hasSearched && !!filters.departmentId
+  );
+
   // Query for footer announcements
   const { data: footerAnnouncements = [] } = useFooterAnnouncements();
 
@@ -205,12 +171,6 @@ export default function DashboardPage() {
     return () => clearInterval(timer);
   }, []);
 
-  // Helper function to mask text with asterisks - show max 10 asterisks for any note
-  const maskText = (text: string) => {
-    if (!text) return '';
-    return '*'.repeat(Math.min(text.length, 10));
-  };
-
   // Function to handle showing family notes protection modal
   const handleViewFamilyNotes = () => {
     if (!hasAgreedToFamilyNotesProtection) {
@@ -272,13 +232,22 @@ export default function DashboardPage() {
       });
       
       setShowEditProfileModal(false);
-    } catch (error) {
+    } catch (error: any) {
       console.error('Profile update failed:', error);
+      // PIN rule violations come back as "400: {"message": ...}"
+      let validationMessage: string | undefined;
+      if (error.message.startsWith('400:')) {
+        try {
+          validationMessage = JSON.parse(error.message.slice(4)).message;
+        } catch {
+          validationMessage = undefined;
+        }
+      }
       toast({
         title: "Error",
         description: error.message.includes('401') ? 
           "Please log in again to update your profile." : 
-          "Failed to update profile. Please try again.",
+          validationMessage || "Failed to update profile. Please try again.",
         variant: "destructive",
       });
       
@@ -396,11 +365,9 @@ export default function DashboardPage() {
   const getGroupedFamilies = () => {
     if (!families || families.length === 0) return [];
 
-    // Apply name filter first
+    // Apply name filter first (same matching as the family text search: members, phones, biz, initials)
     const filteredFamilies = nameFilter.trim()
-      ? families.filter(family =>
-          family.familyName.toLowerCase().includes(nameFilter.toLowerCase())
-        )
+      ? families.filter(family => matchFamilyText(family, nameFilter) !== null)
       : families;
 
     // If showing all teams in department or multiple teams, group by team
@@ -468,34 +435,8 @@ export default function DashboardPage() {
     return count;
   };
 
-  const getPrimaryCourses = (family: FamilyWithMembers) => {
-    const husband = family.members.find(m => m.relationship === 'husband');
-    const wife = family.members.find(m => m.relationship === 'wife');
-    
-    // Check husband first (if he has a name)
-    if (husband && (husband.koreanName || husband.englishName)) {
-      return {
-        person: 'husband',
-        personName: husband.koreanName || husband.englishName || '남편',
-        courses: husband.courses || []
-      };
-    }
-    
-    // If no husband or husband has no name, use wife
-    if (wife) {
-      return {
-        person: 'wife',
-        personName: wife.koreanName || wife.englishName || '아내',
-        courses: wife.courses || []
-      };
-    }
-    
-    return null;
-  };
-
-  const getCourseCount = (family: FamilyWithMembers) => {
-    const coursesInfo = getPrimaryCourses(family);
-    return coursesInfo ? coursesInfo.courses.length : 0;
+  const getFamilyPositions = (family: FamilyWithMembers): MemberPositionWithDetails[] => {
+    return currentPositions.filter(term => term.family.id === family.id);
   };
 
   // Hook to get care logs data for each family
@@ -715,7 +656,7 @@ export default function DashboardPage() {
           <div class="header">
             <div>
               ${family.familyPicture ? `
-                <img src="${family.familyPicture}" alt="${family.familyName} family" class="family-picture" />
+                <img src="${family.familyPictureThumbnail || family.familyPicture}" alt="${family.familyName} family" class="family-picture" />
               ` : `
                 <div class="dummy-picture">
                   👤
@@ -823,6 +764,9 @@ export default function DashboardPage() {
           hasSearched={hasSearched}
         />
 
+        {/* Upcoming Birthdays and Anniversaries */}
+        <UpcomingCelebrations teamIds={filters.teamIds} />
+
         {/* Results Section */}
         <Card className={styles.resultsCard}>
           {hasSearched && (
@@ -831,7 +775,7 @@ export default function DashboardPage() {
                 <Search className="w-4 h-4 text-muted-foreground" />
                 <Input
                   type="text"
-                  placeholder="이름 검색"
+                  placeholder="이름, 전화, 비즈니스, 초성 검색"
                   value={nameFilter}
                   onChange={(e) => setNameFilter(e.target.value)}
                   className="flex-1 h-9"
@@ -846,10 +790,31 @@ export default function DashboardPage() {
                     <X className="w-4 h-4" />
                   </Button>
                 )}
+                {!selectedFamilyIds && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setSelectedFamilyIds([])}
+                    className="h-9"
+                    data-testid="button-select-families"
+                  >
+                    <Check className="w-4 h-4 mr-1" />
+                    Select
+                  </Button>
+                )}
               </div>
             </CardHeader>
           )}
 
+          {hasSearched && selectedFamilyIds && (
+            <BulkTagBar
+              selectedFamilyIds={selectedFamilyIds}
+              visibleFamilyIds={getGroupedFamilies().flatMap(group => group.families.map(family => family.id))}
+              onSelectionChange={setSelectedFamilyIds}
+              onClose={() => setSelectedFamilyIds(null)}
+            />
+          )}
+
           {!hasSearched ? (
             <CardContent className={styles.emptyState}>
               <div className={styles.emptyContent}>
@@ -872,7 +837,7 @@ export default function DashboardPage() {
                 </h3>
                 <p className="text-muted-foreground">
                   {nameFilter.trim()
-                    ? `No families found with names containing "${nameFilter}". Try a different search term.`
+                    ? `No families found matching "${nameFilter}". Try a name, phone number, business or initials like ㄱㅁㅅ.`
                     : filters.teamIds.length > 0
                       ? 'No families found in the selected teams. Try selecting different teams or clear team selection to see all families in the department.'
                       : 'No families found in this department.'
@@ -904,10 +869,21 @@ export default function DashboardPage() {
                     className={styles.familyContent}
                   >
                     <div className={styles.familyInfo} onClick={() => toggleFamilyExpanded(family.id)}>
+                      {selectedFamilyIds && (
+                        <Checkbox
+                          checked={selectedFamilyIds.includes(family.id)}
+                          onClick={(e) => e.stopPropagation()}
+                          onCheckedChange={(checked) => setSelectedFamilyIds(checked === true
+                            ? [...selectedFamilyIds, family.id]
+                            : selectedFamilyIds.filter(id => id !== family.id))}
+                          className="mr-2 self-center"
+                          data-testid={`checkbox-select-family-${family.id}`}
+                        />
+                      )}
                       <div className={styles.familyAvatar}>
                         {family.familyPicture ? (
                           <img 
-                            src={family.familyPicture} 
+                            src={family.familyPictureThumbnail || family.familyPicture} 
                             alt={`${family.familyName} family`}
                             className="w-12 h-12 object-cover rounded-full border-2 border-border"
                             onError={(e) => {
@@ -950,16 +926,22 @@ export default function DashboardPage() {
                                 </Badge>
                               )}
 
-                              {!expandedFamilies.has(family.id) && getCourseCount(family) > 0 && (
+                              {!expandedFamilies.has(family.id) && getFamilyPositions(family).length > 0 && (
                                 <div className="relative">
                                   <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
                                     <GraduationCap className="w-3 h-3" />
                                   </Badge>
                                   <div className="absolute -top-1 -right-1 h-4 w-4 border border-blue-200 text-blue-700 text-xs rounded-full flex items-center justify-center font-medium bg-white">
-                                    {getCourseCount(family) > 9 ? '9+' : getCourseCount(family)}
+                                    {getFamilyPositions(family).length > 9 ? '9+' : getFamilyPositions(family).length}
                                   </div>
                                 </div>
                               )}
+
+                              {!expandedFamilies.has(family.id) && tags
+                                .filter(tag => family.tagIds?.includes(tag.id))
+                                .map(tag => (
+                                  <TagBadge key={tag.id} tag={tag} />
+                                ))}
                               
                             
                             </div>
@@ -991,7 +973,7 @@ export default function DashboardPage() {
                         expandedGradeGroups={expandedGradeGroups}
                         onToggleGradeGroup={toggleGradeGroup}
                         getStatusBorderClassName={getStatusBorderClassName}
-                        getPrimaryCourses={getPrimaryCourses}
+                        positions={getFamilyPositions(family)}
                         useCareLogsData={useCareLogsData}
                       />
                     )}
@@ -1182,9 +1164,10 @@ export default function DashboardPage() {
               </Button>
             </div>
 
-            {/* Last Login Info */}
-            <div className="text-xs text-gray-500 text-center pt-2 border-t">
-              Session started: {new Date().toLocaleString()}
+            {/* Active Sessions */}
+            <div className="pt-2 border-t">
+              <h4 className="text-sm font-medium text-gray-700 mb-2">Active Sessions</h4>
+              <ActiveSessions />
             </div>
           </div>
         </DialogContent>
@@ -12,6 +12,7 @@ import { Users, UserCheck, ChevronDown, ChevronUp, Move, Home, User, ArrowUp, Ar
 import { useLocation } from "wouter";
 import type { FamilyWithMembers, Department, Team } from '@server/schema';
 import { Header } from '@/components/Header';
+import { VCardExportMenu } from '@/components/VCardExportMenu';
 
 interface DepartmentWithTeams extends Department {
   teams: TeamWithFamilies[];
@@ -27,6 +28,7 @@ interface DraggableFamily {
   teamId?: string;
   memberStatus: string;
   familyPicture?: string | null;
+  familyPictureThumbnail?: string | null;
   displayOrder?: number | null;
   members: Array<{
     id: string;
@@ -381,6 +383,7 @@ export default function FamilyTeamDashboard() {
                                 <Badge variant="secondary" className="text-xs">
                                   {team.families.length} families
                                 </Badge>
+                                <VCardExportMenu teamId={team.id} fileName={team.name} className="h-6 px-2 text-xs" disabled={team.families.length === 0} />
                               </div>
                             </CardTitle>
                             {team.description && (
@@ -515,7 +518,7 @@ function DraggableFamilyCard({
       <div className={`flex-shrink-0 ${compact ? 'w-6 h-6' : 'w-10 h-10'} bg-primary/10 rounded-full flex items-center justify-center`}>
         {family.familyPicture ? (
           <img
-            src={family.familyPicture}
+            src={family.familyPictureThumbnail || family.familyPicture}
             alt={`${family.familyName} family`}
             className={`${compact ? 'w-6 h-6' : 'w-10 h-10'} object-cover rounded-full`}
           />
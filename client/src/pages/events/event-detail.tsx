@@ -21,7 +21,7 @@ export default function EventDetailPage({ eventId: propEventId }: EventDetailPag
   const params = useParams();
   const eventId = propEventId || params.id;
   const [location, navigate] = useLocation();
-  const { user, logout } = useAuth();
+  const { user, logout, hasPermission } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [expandedFamilies, setExpandedFamilies] = useState<Set<string>>(new Set());
@@ -285,8 +285,7 @@ export default function EventDetailPage({ eventId: propEventId }: EventDetailPag
     });
   };
 
-  const isAdmin = user?.group === 'ADM' || user?.group === 'MGM';
-  const canEditAttendance = isAdmin  // Only admins and managers can edit attendance
+  const isAdmin = hasPermission('events.manage');
 
   if (isLoading) {
     return (
@@ -728,11 +727,13 @@ export default function EventDetailPage({ eventId: propEventId }: EventDetailPag
                               </div>
                               
                               <div className="flex items-center space-x-1 sm:space-x-2 flex-shrink-0">
-                                <div className="hidden sm:block">
+                                {/* Read-only rows show the status badge on mobile too */}
+                                <div className={record.canEdit ? "hidden sm:block" : ""}>
                                   {getStatusBadge(record.attendanceStatus)}
                                 </div>
                                 
-                                {canEditAttendance && (
+                                {/* Editable for attendance.update or the family's team staff */}
+                                {record.canEdit && (
                                   <div className="flex items-center space-x-1">
                                     <Button
                                       size="sm"
@@ -24,7 +24,7 @@ export default function EventFormPage({ mode, eventId: propEventId }: EventFormP
   const params = useParams();
   const eventId = propEventId || params.id;
   const [location, navigate] = useLocation();
-  const { user, logout } = useAuth();
+  const { user, logout, hasPermission } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   
@@ -193,7 +193,7 @@ export default function EventFormPage({ mode, eventId: propEventId }: EventFormP
     }
   };
 
-  const isAdmin = user?.group === 'ADM' || user?.group === 'MGM';
+  const isAdmin = hasPermission('events.manage');
 
   if (!isAdmin) {
     return (
@@ -15,7 +15,7 @@ interface EventListPageProps {}
 
 export default function EventListPage({}: EventListPageProps) {
   const [location, navigate] = useLocation();
-  const { user, logout } = useAuth();
+  const { user, logout, hasPermission } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [activeOnly, setActiveOnly] = useState(true);
@@ -94,8 +94,8 @@ export default function EventListPage({}: EventListPageProps) {
     });
   };
 
-  const isAdmin = user?.group === 'ADM' || user?.group === 'MGM';
-  const canAddEvent = user?.group === 'ADM';
+  const isAdmin = hasPermission('events.manage');
+  const canAddEvent = hasPermission('events.manage');
 
   if (isLoading) {
     return (
@@ -8,7 +8,6 @@ import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
@@ -40,7 +39,8 @@ import {
 } from "@/components/ui/form";
 import { SundayDatePicker } from "@/components/sunday-date-picker";
 import { apiRequest } from "@/lib/queryClient";
-import { FamilyWithMembers } from "@shared/schema";
+import { FamilyWithMembers, type PostalCodeLookup } from "@shared/schema";
+import type { CustomField, FamilyMember } from "@server/schema";
 import { formatPhoneNumber } from "@/utils/phone-format";
 import {
   getGradeGroup,
@@ -52,7 +52,6 @@ import { formatDateForInput, getPreviousSunday } from "@/utils/date-utils";
 import {
   MEMBER_STATUS_OPTIONS,
   STATE_OPTIONS,
-  COURSE_OPTIONS,
   GRADE_LEVEL_OPTIONS,
 } from "@/types/family";
 import {
@@ -66,9 +65,24 @@ import {
   MapPin,
   Copy,
   Printer,
+  History,
+  ArrowRightLeft,
 } from "lucide-react";
 import styles from "./family-form.module.css";
 import { FamilyImageUploader } from "@/components/FamilyImageUploader";
+import { FamilyPhotoGallery } from "@/components/FamilyPhotoGallery";
+import { FamilyHistory } from "@/components/FamilyHistory";
+import { FamilyStatusTimeline } from "@/components/FamilyStatusTimeline";
+import { MoveMembersDialog } from "@/components/MoveMembersDialog";
+import { MemberPositionHistory } from "@/components/MemberPositions";
+import { CustomFieldInputs, useCustomFields } from "@/components/CustomFieldInputs";
+import {
+  normalizeAddressParts,
+  normalizeCity,
+  normalizePostalCode,
+  normalizeStreet,
+} from "@server/addressNormalization";
+import { customFieldValuesSchema } from "@server/customFields";
 
 interface FamilyFormPageProps {
   mode: "create" | "edit";
@@ -78,7 +92,9 @@ interface FamilyFormPageProps {
 const familyFormSchema = z
   .object({
     visitedDate: z.string().min(1, "Visited date is required"),
-    memberStatus: z.enum(["visit", "member", "pending"]),
+    memberStatus: z.enum(["visit", "member", "pending", "inactive"]),
+    statusChangeReason: z.string().optional(),
+    weddingDate: z.string().optional(),
     phoneNumber: z.string().optional(),
     email: z.string().email().optional().or(z.literal("")),
     address: z.string().optional(),
@@ -87,35 +103,43 @@ const familyFormSchema = z
     zipCode: z.string().optional(),
     familyNotes: z.string().optional(),
     familyPicture: z.string().optional(),
+    familyPictureThumbnail: z.string().optional(),
     supportTeamMember: z.string().optional(),
     biz: z.string().optional(),
     bizTitle: z.string().optional(),
     bizCategory: z.string().optional(),
     bizName: z.string().optional(),
     bizIntro: z.string().optional(),
+    directoryOptIn: z.boolean(),
+    directoryPhotoConsent: z.boolean(),
+    customFieldValues: z.record(z.any()),
     husband: z.object({
+      id: z.string().optional(), // kept on save so positions and attendance stay with the member
       koreanName: z.string().optional(),
       englishName: z.string().optional(),
       birthDate: z.string().optional(),
       phoneNumber: z.string().optional(),
       email: z.string().email().optional().or(z.literal("")),
-      courses: z.array(z.string()),
+      customFieldValues: z.record(z.any()),
     }),
     wife: z.object({
+      id: z.string().optional(),
       koreanName: z.string().optional(),
       englishName: z.string().optional(),
       birthDate: z.string().optional(),
       phoneNumber: z.string().optional(),
       email: z.string().email().optional().or(z.literal("")),
-      courses: z.array(z.string()),
+      customFieldValues: z.record(z.any()),
     }),
     children: z.array(
       z.object({
+        id: z.string().optional(),
         koreanName: z.string().optional(),
         englishName: z.string().optional(),
         birthDate: z.string().optional(),
         gradeLevel: z.string().optional(),
         school: z.string().optional(),
+        customFieldValues: z.record(z.any()),
       })
     ),
   })
@@ -138,6 +162,12 @@ const familyFormSchema = z
 
 type FormData = z.infer<typeof familyFormSchema>;
 
+type CustomFieldValuesPath =
+  | "customFieldValues"
+  | "husband.customFieldValues"
+  | "wife.customFieldValues"
+  | `children.${number}.customFieldValues`;
+
 const isValidDatePart = (year: string, month: string, day: string): boolean => {
   if (year.length === 4) {
     const yearNum = parseInt(year);
@@ -226,7 +256,8 @@ export default function FamilyFormPage({
   familyId,
 }: FamilyFormPageProps) {
   const [, setLocation] = useLocation();
-  const { user, canAddDelete } = useAuth();
+  const { canAddDelete, hasPermission } = useAuth();
+  const showHistoryTab = mode === "edit" && !!familyId && (hasPermission("families.update") || hasPermission("families.restore"));
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -238,6 +269,7 @@ export default function FamilyFormPage({
 
   const [picturePreview, setPicturePreview] = useState<string | null>(null);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [showMoveMembersDialog, setShowMoveMembersDialog] = useState(false);
   const [activeChildTab, setActiveChildTab] = useState("child-0");
   const [activeTab, setActiveTab] = useState("husband");
 
@@ -249,6 +281,8 @@ export default function FamilyFormPage({
           ? formatDateForInput(getPreviousSunday(new Date()))
           : "",
       memberStatus: "visit",
+      statusChangeReason: "",
+      weddingDate: "",
       phoneNumber: "",
       email: "",
       address: "",
@@ -257,19 +291,23 @@ export default function FamilyFormPage({
       zipCode: "",
       familyNotes: "",
       familyPicture: "",
+      familyPictureThumbnail: "",
       supportTeamMember: "",
       biz: "",
       bizTitle: "",
       bizCategory: "",
       bizName: "",
       bizIntro: "",
+      directoryOptIn: false,
+      directoryPhotoConsent: false,
+      customFieldValues: {},
       husband: {
         koreanName: "",
         englishName: "",
         birthDate: "",
         phoneNumber: "",
         email: "",
-        courses: [],
+        customFieldValues: {},
       },
       wife: {
         koreanName: "",
@@ -277,7 +315,7 @@ export default function FamilyFormPage({
         birthDate: "",
         phoneNumber: "",
         email: "",
-        courses: [],
+        customFieldValues: {},
       },
       children: [
         {
@@ -286,6 +324,7 @@ export default function FamilyFormPage({
           birthDate: "",
           gradeLevel: "",
           school: "",
+          customFieldValues: {},
         },
       ],
     },
@@ -300,27 +339,86 @@ export default function FamilyFormPage({
     enabled: mode === "edit" && !!familyId,
   });
 
+  const { data: familyCustomFields } = useCustomFields("family");
+  const { data: memberCustomFields } = useCustomFields("member");
+
+  const renderCustomFieldInputs = (name: CustomFieldValuesPath, fields: CustomField[]) =>
+    fields.length > 0 && (
+      <FormField
+        control={form.control}
+        name={name}
+        render={({ field }) => (
+          <FormItem>
+            <CustomFieldInputs
+              fields={fields}
+              values={field.value}
+              onChange={field.onChange}
+              idPrefix={name.replace(/\./g, "-")}
+            />
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    );
+
+  // Positions belong to a saved member, so new members get them after the family is saved
+  const renderPositionHistory = (relationship: "husband" | "wife") => {
+    const member = family?.members.find((m: FamilyMember) => m.relationship === relationship);
+    if (mode !== "edit" || !member) {
+      return (
+        <p className="text-sm text-gray-500">
+          Save the family first to record leadership positions.
+        </p>
+      );
+    }
+    return (
+      <MemberPositionHistory
+        memberId={member.id}
+        memberName={member.koreanName || member.englishName}
+      />
+    );
+  };
+
   const saveMutation = useMutation({
     mutationFn: async (data: FormData) => {
+      const normalizedAddress = normalizeAddressParts({
+        address: data.address || "",
+        city: data.city || "",
+        state: data.state || "",
+        zipCode: data.zipCode || "",
+      });
       const familyData = {
         familyName: autoGeneratedValues.familyName,
-        fullAddress: autoGeneratedValues.fullAddress,
+        fullAddress: generateFullAddress(
+          normalizedAddress.address,
+          normalizedAddress.city,
+          normalizedAddress.state,
+          normalizedAddress.zipCode
+        ),
         visitedDate: data.visitedDate,
         memberStatus: data.memberStatus,
+        weddingDate: data.weddingDate || null,
         phoneNumber: data.phoneNumber,
         email: data.email || undefined,
-        address: data.address,
-        city: data.city,
-        state: data.state,
-        zipCode: data.zipCode,
+        address: normalizedAddress.address,
+        city: normalizedAddress.city,
+        state: normalizedAddress.state,
+        zipCode: normalizedAddress.zipCode,
         familyNotes: data.familyNotes || undefined,
-        familyPicture: data.familyPicture || undefined,
+        // An existing family's photo gallery saves its picture itself
+        ...(mode === "create" && {
+          familyPicture: data.familyPicture || undefined,
+          familyPictureThumbnail: data.familyPictureThumbnail || undefined,
+        }),
         supportTeamMember: data.supportTeamMember || undefined,
         biz: data.biz || undefined,
         bizTitle: data.bizTitle || undefined,
         bizCategory: data.bizCategory || undefined,
         bizName: data.bizName || undefined,
         bizIntro: data.bizIntro || undefined,
+        directoryOptIn: data.directoryOptIn,
+        directoryPhotoConsent: data.directoryOptIn && data.directoryPhotoConsent,
+        customFieldValues: data.customFieldValues,
       };
 
       const members = [
@@ -347,7 +445,6 @@ export default function FamilyFormPage({
             autoGeneratedValues.gradeGroups[data.children.indexOf(child)] ||
             undefined,
           school: child.school || undefined,
-          courses: [],
           phoneNumber: undefined,
           email: undefined,
         })),
@@ -361,6 +458,7 @@ export default function FamilyFormPage({
       } else {
         return await apiRequest("PUT", `/api/families/${familyId}`, {
           ...familyData,
+          statusChangeReason: data.statusChangeReason || undefined,
           members,
         });
       }
@@ -369,6 +467,7 @@ export default function FamilyFormPage({
       // Invalidate all family-related queries
       queryClient.invalidateQueries({ queryKey: ["families"] });
       queryClient.refetchQueries({ queryKey: ["families"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/families", familyId] });
       toast({
         title: "Success",
         description:
@@ -387,6 +486,40 @@ export default function FamilyFormPage({
     },
   });
 
+  // City and state for the entered ZIP, offered when they differ from what's in the form
+  const normalizedZipCode = normalizePostalCode(form.watch("zipCode") || "");
+  const { data: postalCodeLookup } = useQuery<PostalCodeLookup | null>({
+    queryKey: ["/api/postal-codes", normalizedZipCode],
+    queryFn: async () => {
+      try {
+        const response = await apiRequest("GET", `/api/postal-codes/${encodeURIComponent(normalizedZipCode)}`);
+        return await response.json();
+      } catch {
+        return null;
+      }
+    },
+    enabled: /^\d{5}(-\d{4})?$|^[A-Z]\d[A-Z] \d[A-Z]\d$/.test(normalizedZipCode),
+    staleTime: Infinity,
+  });
+  const postalCodeSuggestion =
+    postalCodeLookup &&
+    (postalCodeLookup.state !== form.watch("state") ||
+      (!!postalCodeLookup.city &&
+        postalCodeLookup.city.toLowerCase() !== (form.watch("city") || "").trim().toLowerCase()))
+      ? postalCodeLookup
+      : null;
+
+  const applyPostalCodeSuggestion = () => {
+    if (!postalCodeSuggestion) return;
+    form.setValue("state", postalCodeSuggestion.state);
+    if (postalCodeSuggestion.city) {
+      form.setValue("city", postalCodeSuggestion.city);
+    }
+  };
+
+  // A reason can be given when the status is being changed
+  const statusChanged = mode === "edit" && !!family && form.watch("memberStatus") !== family.memberStatus;
+
   // Load family data for edit mode
   useEffect(() => {
     if (mode === "edit" && family) {
@@ -399,6 +532,8 @@ export default function FamilyFormPage({
           family.visitedDate ||
           formatDateForInput(getPreviousSunday(new Date())),
         memberStatus: family.memberStatus as any,
+        statusChangeReason: "",
+        weddingDate: family.weddingDate || "",
         phoneNumber: family.phoneNumber,
         email: family.email || "",
         address: family.address,
@@ -407,40 +542,48 @@ export default function FamilyFormPage({
         zipCode: family.zipCode,
         familyNotes: family.familyNotes || "",
         familyPicture: family.familyPicture || "",
+        familyPictureThumbnail: family.familyPictureThumbnail || "",
         supportTeamMember: family.supportTeamMember || "",
         biz: family.biz || "",
         bizTitle: family.bizTitle || "",
         bizCategory: family.bizCategory || "",
         bizName: family.bizName || "",
         bizIntro: family.bizIntro || "",
+        directoryOptIn: family.directoryOptIn,
+        directoryPhotoConsent: family.directoryPhotoConsent,
+        customFieldValues: family.customFieldValues || {},
         husband: husband
           ? {
+              id: husband.id,
               koreanName: husband.koreanName,
               englishName: husband.englishName,
               birthDate: husband.birthDate || "",
               phoneNumber: husband.phoneNumber || "",
               email: husband.email || "",
-              courses: husband.courses || [],
+              customFieldValues: husband.customFieldValues || {},
             }
           : form.getValues("husband"),
         wife: wife
           ? {
+              id: wife.id,
               koreanName: wife.koreanName,
               englishName: wife.englishName,
               birthDate: wife.birthDate || "",
               phoneNumber: wife.phoneNumber || "",
               email: wife.email || "",
-              courses: wife.courses || [],
+              customFieldValues: wife.customFieldValues || {},
             }
           : form.getValues("wife"),
         children:
           children.length > 0
             ? children.map((child) => ({
+                id: child.id,
                 koreanName: child.koreanName,
                 englishName: child.englishName,
                 birthDate: child.birthDate || "",
                 gradeLevel: child.gradeLevel || "",
                 school: child.school || "",
+                customFieldValues: child.customFieldValues || {},
               }))
             : form.getValues("children"),
       });
@@ -491,6 +634,7 @@ export default function FamilyFormPage({
         birthDate: "",
         gradeLevel: "",
         school: "",
+        customFieldValues: {},
       },
     ]);
     // Switch to the new child tab
@@ -523,52 +667,50 @@ export default function FamilyFormPage({
     form.setValue(fieldName as any, formatted);
   };
 
-  // Helper function to determine who should have courses (husband priority)
-  const getCoursesPrimaryPerson = () => {
-    const husbandKoreanName = form.watch("husband.koreanName");
-    const husbandEnglishName = form.watch("husband.englishName");
-
-    // If husband has any name (Korean or English), use husband
-    if (husbandKoreanName || husbandEnglishName) {
-      return "husband";
-    }
-
-    // Otherwise, use wife
-    return "wife";
-  };
-
-  // Function to handle course changes for the primary person
-  const handleCourseChange = (courseValue: string, checked: boolean) => {
-    const primaryPerson = getCoursesPrimaryPerson();
-    const currentCourses = form.getValues(`${primaryPerson}.courses`) || [];
-
-    if (checked) {
-      form.setValue(`${primaryPerson}.courses`, [
-        ...currentCourses,
-        courseValue,
-      ]);
-    } else {
-      form.setValue(
-        `${primaryPerson}.courses`,
-        currentCourses.filter((c) => c !== courseValue)
-      );
-    }
-
-    // Clear courses from the other person
-    const otherPerson = primaryPerson === "husband" ? "wife" : "husband";
-    form.setValue(`${otherPerson}.courses`, []);
-  };
-
-  const handleImageUpload = (imageUrl: string) => {
+  const handleImageUpload = (imageUrl: string, thumbnailUrl: string) => {
     form.setValue("familyPicture", imageUrl);
-    setPicturePreview(imageUrl);
+    form.setValue("familyPictureThumbnail", thumbnailUrl);
+    setPicturePreview(thumbnailUrl);
   };
 
   const handleRemoveImage = () => {
     form.setValue("familyPicture", "");
+    form.setValue("familyPictureThumbnail", "");
     setPicturePreview(null);
   };
 
+  // Same rules the server applies; members without a name are placeholders, so nothing is required of them
+  const validateCustomFields = (data: FormData): boolean => {
+    let valid = true;
+    const check = (
+      name: CustomFieldValuesPath,
+      fields: CustomField[],
+      values: unknown,
+      named: boolean
+    ) => {
+      const result = customFieldValuesSchema(
+        named ? fields : fields.map((field) => ({ ...field, required: false })),
+        name === "customFieldValues" ? "family" : "member"
+      ).safeParse(values);
+      if (!result.success) {
+        form.setError(name, {
+          message: result.error.issues.map((issue) => issue.message).join(", "),
+        });
+        valid = false;
+      }
+    };
+    const hasName = (member: { koreanName?: string; englishName?: string }) =>
+      !!(member.koreanName?.trim() || member.englishName?.trim());
+
+    check("customFieldValues", familyCustomFields, data.customFieldValues, true);
+    check("husband.customFieldValues", memberCustomFields, data.husband.customFieldValues, hasName(data.husband));
+    check("wife.customFieldValues", memberCustomFields, data.wife.customFieldValues, hasName(data.wife));
+    data.children.forEach((child, index) => {
+      check(`children.${index}.customFieldValues`, memberCustomFields, child.customFieldValues, hasName(child));
+    });
+    return valid;
+  };
+
   const onSubmit = (data: FormData) => {
     // Check permissions before attempting to save
     if (mode === "create" && !canAddDelete) {
@@ -581,6 +723,15 @@ export default function FamilyFormPage({
       return;
     }
 
+    if (!validateCustomFields(data)) {
+      toast({
+        title: "Error",
+        description: "Please check the custom fields.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     saveMutation.mutate(data);
   };
 
@@ -850,6 +1001,10 @@ export default function FamilyFormPage({
                     <div class="checkbox ${formData.memberStatus === "pending" ? "checked" : ""}"></div>
                     <span>미정 (Pending)</span>
                   </div>
+                  <div class="checkbox-field">
+                    <div class="checkbox ${formData.memberStatus === "inactive" ? "checked" : ""}"></div>
+                    <span>미활동 (Inactive)</span>
+                  </div>
                 </div>
               </div>
             </div>
@@ -1085,7 +1240,7 @@ export default function FamilyFormPage({
               {/* Fixed Tabs Header */}
               <div className="sticky top-0 z-40 bg-white border-b shadow-sm mb-4">
                 <div className="max-w-4xl mx-auto px-4 py-2">
-                  <TabsList className="grid w-full grid-cols-6 gap-1 h-12 sm:h-auto py-2 bg-gray-100 rounded-lg border shadow-sm">
+                  <TabsList className={`grid w-full ${showHistoryTab ? "grid-cols-7" : "grid-cols-6"} gap-1 h-12 sm:h-auto py-2 bg-gray-100 rounded-lg border shadow-sm`}>
                     <TabsTrigger
                       className="text-xs font-medium px-1 rounded-md bg-white/50 hover:bg-white border-0 data-[state=active]:bg-blue-500 data-[state=active]:text-white data-[state=active]:shadow-md transition-all"
                       value="husband"
@@ -1122,6 +1277,14 @@ export default function FamilyFormPage({
                     >
                       지회
                     </TabsTrigger>
+                    {showHistoryTab && (
+                      <TabsTrigger
+                        className="text-xs font-medium px-1 rounded-md bg-white/50 hover:bg-white border-0 data-[state=active]:bg-blue-500 data-[state=active]:text-white data-[state=active]:shadow-md transition-all"
+                        value="history"
+                      >
+                        기록
+                      </TabsTrigger>
+                    )}
                   </TabsList>
                 </div>
               </div>
@@ -1130,7 +1293,23 @@ export default function FamilyFormPage({
                 <Card>
                   <CardContent className={styles.sectionContent}>
                     <div className={styles.grid}>
-                      <div></div>
+                      <FormField
+                        control={form.control}
+                        name="weddingDate"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>결혼기념일</FormLabel>
+                            <FormControl>
+                              <Input
+                                {...field}
+                                type="date"
+                                data-testid="input-wedding-date"
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
 
                       <FormField
                         control={form.control}
@@ -1162,48 +1341,43 @@ export default function FamilyFormPage({
                           </FormItem>
                         )}
                       />
-                    </div>
-                  </CardContent>
 
-                  <CardContent>
-                    {" "}
-                    <div className={styles.fullWidth}>
-                      <div>
-                        <FormLabel></FormLabel>
-                        <div className={styles.checkboxGrid}>
-                          {COURSE_OPTIONS.map((course) => {
-                            const primaryPerson = getCoursesPrimaryPerson();
-                            const currentCourses =
-                              form.watch(`${primaryPerson}.courses`) || [];
-
-                            return (
-                              <div
-                                key={course.value}
-                                className="flex items-center space-x-2"
-                              >
-                                <Checkbox
-                                  id={`course-${course.value}`}
-                                  checked={currentCourses.includes(
-                                    course.value
-                                  )}
-                                  onCheckedChange={(checked) => {
-                                    handleCourseChange(course.value, !!checked);
-                                  }}
-                                  data-testid={`checkbox-course-${course.value}`}
+                      {statusChanged && (
+                        <FormField
+                          control={form.control}
+                          name="statusChangeReason"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Reason for status change</FormLabel>
+                              <FormControl>
+                                <Input
+                                  {...field}
+                                  placeholder="Optional"
+                                  data-testid="input-status-change-reason"
                                 />
-                                <Label
-                                  htmlFor={`course-${course.value}`}
-                                  className="text-sm"
-                                >
-                                  {course.label}
-                                </Label>
-                              </div>
-                            );
-                          })}
-                        </div>
-                      </div>
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      )}
                     </div>
                   </CardContent>
+
+                  {mode === "edit" && familyId && (
+                    <CardContent>
+                      <FormLabel>Status History</FormLabel>
+                      <div className="mt-3">
+                        <FamilyStatusTimeline familyId={familyId} />
+                      </div>
+                    </CardContent>
+                  )}
+
+                  {familyCustomFields.length > 0 && (
+                    <CardContent>
+                      {renderCustomFieldInputs("customFieldValues", familyCustomFields)}
+                    </CardContent>
+                  )}
                 </Card>
               </TabsContent>
 
@@ -1217,38 +1391,43 @@ export default function FamilyFormPage({
                     </h2>
                   </CardHeader>
                   <CardContent className={styles.sectionContent}>
-                    <div className="flex justify-center">
-                      <FormField
-                        control={form.control}
-                        name="familyPicture"
-                        render={() => (
-                          <FormItem>
-                            <FormLabel>Picture</FormLabel>
-                            <FormControl>
-                              <div className="space-y-4">
-                                <FamilyImageUploader
-                                  currentImage={picturePreview || undefined}
-                                  onUploadComplete={handleImageUpload}
-                                />
-
-                                {picturePreview && (
-                                  <Button
-                                    type="button"
-                                    variant="destructive"
-                                    size="sm"
-                                    onClick={handleRemoveImage}
-                                  >
-                                    <X className="w-4 h-4 mr-2" />
-                                    Remove Picture
-                                  </Button>
-                                )}
-                              </div>
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    </div>
+                    {mode === "edit" && familyId ? (
+                      <FamilyPhotoGallery familyId={familyId} />
+                    ) : (
+                      <div className="flex justify-center">
+                        <FormField
+                          control={form.control}
+                          name="familyPicture"
+                          render={() => (
+                            <FormItem>
+                              <FormLabel>Picture</FormLabel>
+                              <FormControl>
+                                <div className="space-y-4">
+                                  <FamilyImageUploader
+                                    currentImage={picturePreview || undefined}
+                                    onUploadComplete={handleImageUpload}
+                                    familyId={familyId}
+                                  />
+
+                                  {picturePreview && (
+                                    <Button
+                                      type="button"
+                                      variant="destructive"
+                                      size="sm"
+                                      onClick={handleRemoveImage}
+                                    >
+                                      <X className="w-4 h-4 mr-2" />
+                                      Remove Picture
+                                    </Button>
+                                  )}
+                                </div>
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
               </TabsContent>
@@ -1329,6 +1508,16 @@ export default function FamilyFormPage({
                       </div>
                     </div>
                   </CardContent>
+
+                  {memberCustomFields.length > 0 && (
+                    <CardContent>
+                      {renderCustomFieldInputs("husband.customFieldValues", memberCustomFields)}
+                    </CardContent>
+                  )}
+
+                  <CardContent>
+                    {renderPositionHistory("husband")}
+                  </CardContent>
                 </Card>
               </TabsContent>
 
@@ -1404,6 +1593,16 @@ export default function FamilyFormPage({
                       </div>
                     </div>
                   </CardContent>
+
+                  {memberCustomFields.length > 0 && (
+                    <CardContent>
+                      {renderCustomFieldInputs("wife.customFieldValues", memberCustomFields)}
+                    </CardContent>
+                  )}
+
+                  <CardContent>
+                    {renderPositionHistory("wife")}
+                  </CardContent>
                 </Card>
               </TabsContent>
 
@@ -1542,6 +1741,7 @@ export default function FamilyFormPage({
                                 </div>
                               </div>
                             </div>
+                            {renderCustomFieldInputs(`children.${index}.customFieldValues`, memberCustomFields)}
                           </div>
                         </TabsContent>
                       ))}
@@ -1642,6 +1842,48 @@ export default function FamilyFormPage({
                           )}
                         />
                       </div>
+
+                      {/* Public business directory consent */}
+                      <div className={`${styles.fullWidth} space-y-2`}>
+                        <FormField
+                          control={form.control}
+                          name="directoryOptIn"
+                          render={({ field }) => (
+                            <FormItem className="flex items-center space-x-2 space-y-0">
+                              <FormControl>
+                                <Checkbox
+                                  checked={field.value}
+                                  onCheckedChange={(checked) => field.onChange(!!checked)}
+                                  data-testid="checkbox-directory-opt-in"
+                                />
+                              </FormControl>
+                              <FormLabel className="text-sm font-normal">
+                                공개 비즈니스 디렉토리에 게시 (비즈니스 정보만 공개)
+                              </FormLabel>
+                            </FormItem>
+                          )}
+                        />
+                        {form.watch("directoryOptIn") && (
+                          <FormField
+                            control={form.control}
+                            name="directoryPhotoConsent"
+                            render={({ field }) => (
+                              <FormItem className="flex items-center space-x-2 space-y-0">
+                                <FormControl>
+                                  <Checkbox
+                                    checked={field.value}
+                                    onCheckedChange={(checked) => field.onChange(!!checked)}
+                                    data-testid="checkbox-directory-photo-consent"
+                                  />
+                                </FormControl>
+                                <FormLabel className="text-sm font-normal">
+                                  디렉토리에 가족 사진 표시
+                                </FormLabel>
+                              </FormItem>
+                            )}
+                          />
+                        )}
+                      </div>
                     </div>
                   </CardContent>
                 </Card>
@@ -1761,6 +2003,10 @@ export default function FamilyFormPage({
                                 <Input
                                   {...field}
                                   placeholder="주소"
+                                  onBlur={() => {
+                                    field.onBlur();
+                                    form.setValue("address", normalizeStreet(field.value || ""));
+                                  }}
                                   data-testid="input-address"
                                 />
                               </FormControl>
@@ -1779,6 +2025,10 @@ export default function FamilyFormPage({
                               <Input
                                 {...field}
                                 placeholder="City"
+                                onBlur={() => {
+                                  field.onBlur();
+                                  form.setValue("city", normalizeCity(field.value || ""));
+                                }}
                                 data-testid="input-city"
                               />
                             </FormControl>
@@ -1826,12 +2076,33 @@ export default function FamilyFormPage({
                               <Input
                                 {...field}
                                 placeholder="zip코드"
-                                type="number"
-                                pattern="[0-9]*"
-                                maxLength={5}
+                                type="text"
+                                maxLength={10}
+                                onBlur={() => {
+                                  field.onBlur();
+                                  form.setValue("zipCode", normalizePostalCode(field.value || ""));
+                                }}
                                 data-testid="input-zip-code"
                               />
                             </FormControl>
+                            {postalCodeSuggestion && (
+                              <div className="flex items-center gap-2 text-xs text-amber-700">
+                                <span>
+                                  {postalCodeSuggestion.postalCode}:{" "}
+                                  {[postalCodeSuggestion.city, postalCodeSuggestion.state].filter(Boolean).join(", ")}
+                                </span>
+                                <Button
+                                  type="button"
+                                  variant="outline"
+                                  size="sm"
+                                  className="h-6 px-2 text-xs"
+                                  onClick={applyPostalCodeSuggestion}
+                                  data-testid="button-apply-postal-code"
+                                >
+                                  적용
+                                </Button>
+                              </div>
+                            )}
                             <FormMessage />
                           </FormItem>
                         )}
@@ -1840,11 +2111,26 @@ export default function FamilyFormPage({
                   </CardContent>
                 </Card>
               </TabsContent>
+              {showHistoryTab && (
+                <TabsContent value="history">
+                  <Card>
+                    <CardHeader>
+                      <h2 className={styles.sectionTitle}>
+                        <History className="w-5 h-5 mr-2 text-primary" />
+                        Change History
+                      </h2>
+                    </CardHeader>
+                    <CardContent className={styles.sectionContent}>
+                      <FamilyHistory familyId={familyId} />
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+              )}
             </Tabs>
 
             {/* Form Actions */}
             <div className={styles.actions}>
-              {mode === "edit" && user?.group === "ADM" && (
+              {mode === "edit" && hasPermission("families.delete") && (
                 <Button
                   type="button"
                   variant="destructive"
@@ -1857,6 +2143,18 @@ export default function FamilyFormPage({
                 </Button>
               )}
 
+              {mode === "edit" && family && family.members.length > 0 && hasPermission("families.update") && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setShowMoveMembersDialog(true)}
+                  data-testid="button-move-members"
+                >
+                  <ArrowRightLeft className="w-4 h-4 mr-2" />
+                  Move Members
+                </Button>
+              )}
+
               <Button
                 type="button"
                 variant="secondary"
@@ -1887,15 +2185,29 @@ export default function FamilyFormPage({
         </Form>
       </div>
 
+      {family && (
+        <MoveMembersDialog
+          family={family}
+          open={showMoveMembersDialog}
+          onOpenChange={setShowMoveMembersDialog}
+          onMoved={(result) => {
+            // An emptied family is archived, so carry on editing the family the members went to
+            if (result.sourceArchived) {
+              setLocation(`/family/${result.target.id}/edit`);
+            }
+          }}
+        />
+      )}
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent data-testid="dialog-delete-family">
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Family</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete this family? This action cannot be
-              undone and will permanently remove all family information and
-              member records.
+              Are you sure you want to delete this family? It will be moved to
+              Recently Deleted, where an admin can restore it. Its care logs,
+              donations and attendance are kept until it is permanently deleted.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
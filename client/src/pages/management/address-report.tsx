@@ -0,0 +1,136 @@
+import { useQuery } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { useAuth } from '@/hooks/use-auth';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { apiRequest } from '@/lib/queryClient';
+import type { AddressMismatch, AddressMismatchIssue } from '@server/schema';
+import { MapPin, ArrowLeft, Edit } from 'lucide-react';
+import { Header } from '@/components/Header';
+
+const ISSUE_LABELS: Record<AddressMismatchIssue, string> = {
+  state: 'State',
+  city: 'City',
+  invalidZip: 'Invalid ZIP',
+};
+
+export default function AddressReportPage() {
+  const [, setLocation] = useLocation();
+  const { hasPermission } = useAuth();
+
+  // Check if user can see the address report
+  if (!hasPermission('families.addressReport')) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-red-600 text-6xl mb-4">🔒</div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Access Denied</h1>
+          <p className="text-gray-600 mb-4">You don't have permission to view the address report.</p>
+          <Button onClick={() => setLocation('/')} variant="outline">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Home
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const { data: mismatches = [], isLoading } = useQuery<AddressMismatch[]>({
+    queryKey: ['/api/reports/address-mismatches'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/reports/address-mismatches');
+      return await response.json();
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <div className="pt-20 py-8">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+          {/* Header */}
+          <div className="mb-6 sm:mb-8">
+            <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 flex items-center">
+              <MapPin className="w-6 h-6 sm:w-8 sm:h-8 mr-2 sm:mr-3 text-primary" />
+              Address Report
+            </h1>
+            <p className="text-sm sm:text-base text-gray-600 mt-1">
+              Families whose city or state doesn't match their ZIP code
+            </p>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <MapPin className="w-5 h-5 mr-2" />
+                Mismatched Addresses ({mismatches.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="flex items-center justify-center py-8">
+                  <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+                  <span className="ml-3 text-gray-600">Checking addresses...</span>
+                </div>
+              ) : mismatches.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  <MapPin className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+                  <p>Every address matches its ZIP code.</p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {mismatches.map(({ family, issues, expectedCity, expectedState }) => (
+                    <div
+                      key={family.id}
+                      className="flex flex-col sm:flex-row sm:items-start justify-between p-4 border border-gray-200 rounded-lg hover:bg-gray-50 space-y-3 sm:space-y-0"
+                    >
+                      <div className="min-w-0 flex-1">
+                        <h3 className="font-semibold text-gray-900 text-sm sm:text-base">
+                          {family.familyName}
+                          {family.familyCode && (
+                            <span className="ml-2 text-xs font-mono text-gray-400">{family.familyCode}</span>
+                          )}
+                        </h3>
+                        <div className="text-xs text-gray-600 mb-1">
+                          {[family.address, family.city, family.state, family.zipCode].filter(Boolean).join(', ')}
+                        </div>
+                        <div className="flex flex-wrap items-center gap-1 text-xs text-gray-600">
+                          {issues.map((issue) => (
+                            <Badge key={issue} variant="outline" className="text-[10px] text-red-700 border-red-200">
+                              {ISSUE_LABELS[issue]}
+                            </Badge>
+                          ))}
+                          {expectedState && (
+                            <span className="ml-1">
+                              ZIP {family.zipCode} is in{' '}
+                              <span className="font-medium">
+                                {[expectedCity, expectedState].filter(Boolean).join(', ')}
+                              </span>
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-2 sm:flex-shrink-0 sm:ml-4">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setLocation(`/family/${family.id}/edit`)}
+                          className="flex-1 sm:flex-none text-xs sm:text-sm"
+                        >
+                          <Edit className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                          Edit
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
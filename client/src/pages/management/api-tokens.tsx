@@ -0,0 +1,413 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { apiRequest } from '@/lib/queryClient';
+import { formatDateForInput } from '@/utils/date-utils';
+import { insertApiTokenSchema, API_TOKEN_SCOPES, API_TOKEN_SCOPE_KEYS, type ApiTokenInfo } from '@server/schema';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { KeyRound, Plus, Trash2, ArrowLeft, Copy } from 'lucide-react';
+import { Header } from '@/components/Header';
+
+// The date input yields a string; the server turns it into a date
+const tokenFormSchema = insertApiTokenSchema.extend({
+  expiresAt: z.string().min(1, "Expiry date is required"),
+});
+
+type TokenFormData = z.infer<typeof tokenFormSchema>;
+
+const DEFAULT_EXPIRY_DAYS = 90;
+
+function getDefaultExpiry(): string {
+  const date = new Date();
+  date.setDate(date.getDate() + DEFAULT_EXPIRY_DAYS);
+  return formatDateForInput(date);
+}
+
+function getTokenStatus(token: ApiTokenInfo): { label: string; className: string } {
+  if (token.revokedAt) {
+    return { label: 'Revoked', className: 'text-red-600 border-red-200' };
+  }
+  if (new Date(token.expiresAt) <= new Date()) {
+    return { label: 'Expired', className: 'text-gray-500 border-gray-300' };
+  }
+  return { label: 'Active', className: 'text-green-700 border-green-200 bg-green-50' };
+}
+
+function formatDate(date: Date | string | null): string {
+  if (!date) return 'Never';
+  return new Date(date).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+export default function ApiTokensPage() {
+  const [, setLocation] = useLocation();
+  const { hasPermission } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [showDialog, setShowDialog] = useState(false);
+  const [tokenToRevoke, setTokenToRevoke] = useState<ApiTokenInfo | null>(null);
+  const [createdToken, setCreatedToken] = useState<{ name: string; token: string } | null>(null);
+
+  // Check if user can manage API tokens
+  if (!hasPermission('apiTokens.manage')) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-red-600 text-6xl mb-4">🔒</div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Access Denied</h1>
+          <p className="text-gray-600 mb-4">You don't have permission to manage API tokens.</p>
+          <Button onClick={() => setLocation('/')} variant="outline">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Home
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const form = useForm<TokenFormData>({
+    resolver: zodResolver(tokenFormSchema),
+    defaultValues: {
+      name: '',
+      scopes: [],
+      expiresAt: getDefaultExpiry(),
+    },
+  });
+
+  const { data: tokens = [], isLoading } = useQuery<ApiTokenInfo[]>({
+    queryKey: ['/api/api-tokens'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/api-tokens');
+      return await response.json();
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: TokenFormData) => {
+      const response = await apiRequest('POST', '/api/api-tokens', data);
+      return await response.json();
+    },
+    onSuccess: (newToken: ApiTokenInfo & { token: string }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/api-tokens'] });
+      handleCloseDialog();
+      setCreatedToken({ name: newToken.name, token: newToken.token });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create API token.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest('DELETE', `/api/api-tokens/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/api-tokens'] });
+      toast({
+        title: "Success",
+        description: "API token revoked.",
+      });
+      setTokenToRevoke(null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to revoke API token.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAddToken = () => {
+    form.reset({
+      name: '',
+      scopes: [],
+      expiresAt: getDefaultExpiry(),
+    });
+    setShowDialog(true);
+  };
+
+  const handleCloseDialog = () => {
+    setShowDialog(false);
+    form.reset();
+  };
+
+  const handleCopyToken = async () => {
+    if (!createdToken) return;
+    try {
+      await navigator.clipboard.writeText(createdToken.token);
+      toast({
+        title: "Copied",
+        description: "API token copied to clipboard.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to copy. Please select and copy the token manually.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <div className="pt-20 py-8">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+          {/* Header */}
+          <div className="mb-6 sm:mb-8">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between space-y-4 sm:space-y-0">
+              <div>
+                <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 flex items-center">
+                  <KeyRound className="w-6 h-6 sm:w-8 sm:h-8 mr-2 sm:mr-3 text-primary" />
+                  API Tokens
+                </h1>
+                <p className="text-sm sm:text-base text-gray-600 mt-1">
+                  Read-only access for integrations, sent as <span className="font-mono">Authorization: Bearer &lt;token&gt;</span>
+                </p>
+              </div>
+              <Button
+                onClick={handleAddToken}
+                className="bg-primary hover:bg-primary/90 w-full sm:w-auto"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Create Token
+              </Button>
+            </div>
+          </div>
+
+          {/* Token List */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <KeyRound className="w-5 h-5 mr-2" />
+                Tokens ({tokens.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="flex items-center justify-center py-8">
+                  <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+                  <span className="ml-3 text-gray-600">Loading tokens...</span>
+                </div>
+              ) : tokens.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  <KeyRound className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+                  <p>No API tokens yet.</p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {tokens.map((token) => {
+                    const status = getTokenStatus(token);
+                    return (
+                      <div
+                        key={token.id}
+                        className="flex flex-col sm:flex-row sm:items-start justify-between p-4 border border-gray-200 rounded-lg hover:bg-gray-50 space-y-3 sm:space-y-0"
+                      >
+                        <div className="min-w-0 flex-1">
+                          <div className="flex flex-wrap items-center gap-2 mb-1">
+                            <h3 className="font-semibold text-gray-900 text-sm sm:text-base">
+                              {token.name}
+                            </h3>
+                            <Badge variant="secondary" className="text-xs font-mono">
+                              {token.tokenPrefix}…
+                            </Badge>
+                            <Badge variant="outline" className={`text-xs ${status.className}`}>
+                              {status.label}
+                            </Badge>
+                          </div>
+                          <div className="flex flex-wrap gap-1 mb-2">
+                            {token.scopes.map((scope) => (
+                              <Badge
+                                key={scope}
+                                variant="outline"
+                                className="text-[10px] font-mono"
+                                title={API_TOKEN_SCOPES[scope]}
+                              >
+                                {scope}
+                              </Badge>
+                            ))}
+                          </div>
+                          <div className="text-xs text-gray-600 space-x-4">
+                            <span>Expires: <span className="font-medium">{formatDate(token.expiresAt)}</span></span>
+                            <span>Last used: <span className="font-medium">{formatDate(token.lastUsedAt)}</span></span>
+                            {token.createdByStaff && (
+                              <span>Created by: <span className="font-medium">{token.createdByStaff.nickName}</span></span>
+                            )}
+                          </div>
+                        </div>
+                        {!token.revokedAt && (
+                          <div className="flex items-center space-x-2 sm:flex-shrink-0 sm:ml-4">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setTokenToRevoke(token)}
+                              className="flex-1 sm:flex-none text-xs sm:text-sm text-red-600 border-red-200 hover:bg-red-50"
+                            >
+                              <Trash2 className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                              Revoke
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Create Dialog */}
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Create API Token</DialogTitle>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => createMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Website member directory" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="scopes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Scopes</FormLabel>
+                    <div className="space-y-2 border rounded-lg p-3">
+                      {API_TOKEN_SCOPE_KEYS.map((scope) => (
+                        <label key={scope} className="flex items-start gap-2 text-sm cursor-pointer">
+                          <Checkbox
+                            checked={field.value.includes(scope)}
+                            onCheckedChange={(checked) =>
+                              field.onChange(checked === true
+                                ? API_TOKEN_SCOPE_KEYS.filter(key => key === scope || field.value.includes(key))
+                                : field.value.filter(key => key !== scope))
+                            }
+                            className="mt-0.5"
+                          />
+                          <span>
+                            <span className="font-mono text-xs">{scope}</span>
+                            <span className="block text-xs text-gray-500">{API_TOKEN_SCOPES[scope]}</span>
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="expiresAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Expires</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={handleCloseDialog}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={createMutation.isPending}>
+                  {createMutation.isPending ? 'Creating...' : 'Create'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Created Token Dialog (the token is never shown again) */}
+      <Dialog open={!!createdToken} onOpenChange={(open) => !open && setCreatedToken(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Token Created</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-gray-600">
+            Copy the token for <span className="font-semibold">{createdToken?.name}</span> now.
+            It will not be shown again.
+          </p>
+          <div className="font-mono text-xs break-all p-3 bg-gray-50 border rounded-lg select-all">
+            {createdToken?.token}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={handleCopyToken}>
+              <Copy className="w-4 h-4 mr-2" />
+              Copy
+            </Button>
+            <Button onClick={() => setCreatedToken(null)}>
+              Done
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Revoke Confirmation Dialog */}
+      <Dialog open={!!tokenToRevoke} onOpenChange={(open) => !open && setTokenToRevoke(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Revoke API Token</DialogTitle>
+          </DialogHeader>
+          <p className="text-gray-600 text-sm sm:text-base">
+            Integrations using <span className="font-semibold">{tokenToRevoke?.name}</span> will stop
+            working immediately. This can't be undone.
+          </p>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTokenToRevoke(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => tokenToRevoke && revokeMutation.mutate(tokenToRevoke.id)}
+              disabled={revokeMutation.isPending}
+            >
+              {revokeMutation.isPending ? 'Revoking...' : 'Revoke'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
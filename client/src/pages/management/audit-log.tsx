@@ -0,0 +1,172 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { useAuth } from '@/hooks/use-auth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { apiRequest } from '@/lib/queryClient';
+import { AUDIT_ENTITY_TYPES } from '@server/schema';
+import { History, ArrowLeft } from 'lucide-react';
+import { Header } from '@/components/Header';
+import { AuditLogList, type AuditLogFilters } from '@/components/AuditLogList';
+
+interface StaffOption {
+  id: string;
+  fullName: string;
+  nickName: string;
+}
+
+export default function AuditLogPage() {
+  const [, setLocation] = useLocation();
+  const { hasPermission } = useAuth();
+
+  const [filters, setFilters] = useState<AuditLogFilters>({
+    entityType: '',
+    entityId: '',
+    staffId: '',
+    dateFrom: '',
+    dateTo: '',
+  });
+
+  const { data: allStaff = [] } = useQuery<StaffOption[]>({
+    queryKey: ['/api/staff'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/staff');
+      return response.json();
+    },
+  });
+
+  // Check if user can view the audit log
+  if (!hasPermission('audit.view')) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-red-600 text-6xl mb-4">🔒</div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Access Denied</h1>
+          <p className="text-gray-600 mb-4">You don't have permission to view the audit log.</p>
+          <Button onClick={() => setLocation('/')} variant="outline">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Home
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const handleFilterChange = (key: keyof AuditLogFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <div className="pt-20 py-8">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+          {/* Header */}
+          <div className="mb-6 sm:mb-8">
+            <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 flex items-center">
+              <History className="w-6 h-6 sm:w-8 sm:h-8 mr-2 sm:mr-3 text-primary" />
+              Audit Log
+            </h1>
+            <p className="text-sm sm:text-base text-gray-600 mt-1">
+              Who changed what, and when
+            </p>
+          </div>
+
+          {/* Filters */}
+          <Card className="mb-6">
+            <CardContent className="pt-6">
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+                <div>
+                  <Label htmlFor="entityType">Entity</Label>
+                  <Select
+                    value={filters.entityType || "all"}
+                    onValueChange={(value) => handleFilterChange('entityType', value === "all" ? "" : value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="All entities" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All entities</SelectItem>
+                      {AUDIT_ENTITY_TYPES.map(entityType => (
+                        <SelectItem key={entityType} value={entityType}>
+                          {entityType}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label htmlFor="entityId">Entity ID</Label>
+                  <Input
+                    id="entityId"
+                    placeholder="Any"
+                    value={filters.entityId}
+                    onChange={(e) => handleFilterChange('entityId', e.target.value.trim())}
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="staffId">Staff</Label>
+                  <Select
+                    value={filters.staffId || "all"}
+                    onValueChange={(value) => handleFilterChange('staffId', value === "all" ? "" : value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="All staff" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All staff</SelectItem>
+                      {allStaff.map(staffMember => (
+                        <SelectItem key={staffMember.id} value={staffMember.id}>
+                          {staffMember.fullName} ({staffMember.nickName})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label htmlFor="dateFrom">From Date</Label>
+                  <Input
+                    id="dateFrom"
+                    type="date"
+                    value={filters.dateFrom}
+                    onChange={(e) => handleFilterChange('dateFrom', e.target.value)}
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="dateTo">To Date</Label>
+                  <Input
+                    id="dateTo"
+                    type="date"
+                    value={filters.dateTo}
+                    onChange={(e) => handleFilterChange('dateTo', e.target.value)}
+                  />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <History className="w-5 h-5 mr-2" />
+                Changes
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <AuditLogList filters={filters} />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
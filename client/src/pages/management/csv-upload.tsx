@@ -9,6 +9,7 @@ import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { apiRequest } from '@/lib/queryClient';
 import { Header } from '@/components/Header';
+import { useCustomFields } from '@/components/CustomFieldInputs';
 import { Upload, Download, FileText, AlertCircle, CheckCircle2, ArrowLeft } from 'lucide-react';
 
 interface UploadResult {
@@ -26,13 +27,14 @@ interface UploadResult {
 
 export default function CsvUploadPage() {
   const [, setLocation] = useLocation();
-  const { user } = useAuth();
+  const { hasPermission } = useAuth();
   const { toast } = useToast();
   const [file, setFile] = useState<File | null>(null);
   const [uploading, setUploading] = useState(false);
   const [result, setResult] = useState<UploadResult | null>(null);
+  const { data: customFields } = useCustomFields();
 
-  if (user?.group !== 'ADM' && user?.group !== 'MGM') {
+  if (!hasPermission('families.import')) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
         <Header />
@@ -40,7 +42,7 @@ export default function CsvUploadPage() {
           <Alert variant="destructive">
             <AlertCircle className="h-4 w-4" />
             <AlertDescription>
-              Admin or Management access required to upload CSV files.
+              You don't have permission to upload CSV files.
             </AlertDescription>
           </Alert>
         </div>
@@ -117,10 +119,13 @@ export default function CsvUploadPage() {
   };
 
   const handleDownloadSample = () => {
-    const csvContent = `Department,Team,Korean Name,English Name,Phone,Email,Address,Business Name,Business Title
-남부 연합회,Plano-y 지회,김철수,Kim Chulsoo,2145551234,kim@example.com,"123 Main St, Frisco, TX 75034",ABC Company,CEO
-남부 연합회,Plano-y 지회,이영희,Lee Younghee,4695555678,lee@example.com,"456 Oak Ave, Plano, TX 75023",XYZ Corp,Marketing Director
-남부 연합회,캐롤톤 지회,박민수,Park Minsoo,9725559012,park@example.com,"789 Elm Blvd, McKinney, TX 75069",Tech Solutions,Senior Engineer`;
+    // Custom field columns are left empty in the sample rows
+    const customColumns = customFields.map(field => `,"${field.name.replace(/"/g, '""')}"`).join('');
+    const emptyCustomCells = ','.repeat(customFields.length);
+    const csvContent = `Department,Team,Korean Name,English Name,Phone,Email,Address,Business Name,Business Title${customColumns}
+남부 연합회,Plano-y 지회,김철수,Kim Chulsoo,2145551234,kim@example.com,"123 Main St, Frisco, TX 75034",ABC Company,CEO${emptyCustomCells}
+남부 연합회,Plano-y 지회,이영희,Lee Younghee,4695555678,lee@example.com,"456 Oak Ave, Plano, TX 75023",XYZ Corp,Marketing Director${emptyCustomCells}
+남부 연합회,캐롤톤 지회,박민수,Park Minsoo,9725559012,park@example.com,"789 Elm Blvd, McKinney, TX 75069",Tech Solutions,Senior Engineer${emptyCustomCells}`;
 
     const blob = new Blob([csvContent], { type: 'text/csv' });
     const url = window.URL.createObjectURL(blob);
@@ -181,6 +186,24 @@ export default function CsvUploadPage() {
               </ol>
             </div>
 
+            {customFields.length > 0 && (
+              <div className="bg-teal-50 p-4 rounded-lg">
+                <h3 className="font-semibold mb-2">Custom Field Columns (optional, after Business Title):</h3>
+                <p className="text-sm mb-2">
+                  Name each column after its field. Separate multi-select values with ";" and use yes/no for yes/no fields.
+                  Family fields are set on the family; member fields on the person in the row.
+                </p>
+                <ul className="list-disc list-inside space-y-1 text-sm">
+                  {customFields.map(field => (
+                    <li key={field.id}>
+                      <strong>{field.name}</strong> ({field.target === 'family' ? 'family' : 'member'}
+                      {field.options.length > 0 ? `: ${field.options.join(', ')}` : ''})
+                      {field.required && <span className="text-red-500"> *required</span>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
 
 
             <Button
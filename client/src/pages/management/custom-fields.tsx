@@ -0,0 +1,432 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { apiRequest } from '@/lib/queryClient';
+import { insertCustomFieldSchema, CUSTOM_FIELD_TYPES, CUSTOM_FIELD_TARGETS, type CustomField } from '@server/schema';
+import { useCustomFields, CUSTOM_FIELD_TYPE_LABELS } from '@/components/CustomFieldInputs';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { ListPlus, Plus, Edit, Trash2, ArrowLeft } from 'lucide-react';
+import { Header } from '@/components/Header';
+
+// Options are typed one per line
+const fieldFormSchema = insertCustomFieldSchema.extend({
+  options: z.string(),
+  displayOrder: z.coerce.number().int().min(0),
+});
+
+type FieldFormData = z.infer<typeof fieldFormSchema>;
+
+const TARGET_LABELS: Record<CustomField['target'], string> = {
+  family: 'Family',
+  member: 'Member',
+};
+
+const EMPTY_FIELD: FieldFormData = {
+  name: '',
+  type: 'text',
+  target: 'family',
+  options: '',
+  required: false,
+  displayOrder: 0,
+};
+
+export default function CustomFieldsPage() {
+  const [, setLocation] = useLocation();
+  const { hasPermission } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [showDialog, setShowDialog] = useState(false);
+  const [editingField, setEditingField] = useState<CustomField | null>(null);
+  const [fieldToDelete, setFieldToDelete] = useState<CustomField | null>(null);
+
+  // Check if user can manage custom fields
+  if (!hasPermission('customFields.manage')) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-red-600 text-6xl mb-4">🔒</div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Access Denied</h1>
+          <p className="text-gray-600 mb-4">You don't have permission to manage custom fields.</p>
+          <Button onClick={() => setLocation('/')} variant="outline">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Home
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const form = useForm<FieldFormData>({
+    resolver: zodResolver(fieldFormSchema),
+    defaultValues: EMPTY_FIELD,
+  });
+
+  const { data: fields, isLoading } = useCustomFields();
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: FieldFormData) => {
+      const options = data.options.split('\n').map(option => option.trim()).filter(Boolean);
+      if (editingField) {
+        // The type and target shape the stored values, so they can't be changed
+        const { type, target, ...updateData } = data;
+        return await apiRequest('PUT', `/api/custom-fields/${editingField.id}`, { ...updateData, options });
+      }
+      return await apiRequest('POST', '/api/custom-fields', { ...data, options });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/custom-fields'] });
+      toast({
+        title: "Success",
+        description: editingField ? "Custom field updated successfully." : "Custom field created successfully.",
+      });
+      handleCloseDialog();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save custom field.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest('DELETE', `/api/custom-fields/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/custom-fields'] });
+      toast({
+        title: "Success",
+        description: "Custom field deleted successfully.",
+      });
+      setFieldToDelete(null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete custom field.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAddField = () => {
+    setEditingField(null);
+    form.reset(EMPTY_FIELD);
+    setShowDialog(true);
+  };
+
+  const handleEditField = (field: CustomField) => {
+    setEditingField(field);
+    form.reset({
+      name: field.name,
+      type: field.type,
+      target: field.target,
+      options: field.options.join('\n'),
+      required: field.required,
+      displayOrder: field.displayOrder,
+    });
+    setShowDialog(true);
+  };
+
+  const handleCloseDialog = () => {
+    setShowDialog(false);
+    setEditingField(null);
+    form.reset(EMPTY_FIELD);
+  };
+
+  const selectedType = form.watch('type');
+  const hasOptions = selectedType === 'select' || selectedType === 'multiSelect';
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <div className="pt-20 py-8">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+          {/* Header */}
+          <div className="mb-6 sm:mb-8">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between space-y-4 sm:space-y-0">
+              <div>
+                <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 flex items-center">
+                  <ListPlus className="w-6 h-6 sm:w-8 sm:h-8 mr-2 sm:mr-3 text-primary" />
+                  Custom Fields
+                </h1>
+                <p className="text-sm sm:text-base text-gray-600 mt-1">
+                  Extra details to keep for families and members, shown on the family form, dashboard and CSV import
+                </p>
+              </div>
+              <Button
+                onClick={handleAddField}
+                className="bg-primary hover:bg-primary/90 w-full sm:w-auto"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Field
+              </Button>
+            </div>
+          </div>
+
+          {/* Field List */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <ListPlus className="w-5 h-5 mr-2" />
+                Fields ({fields.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="flex items-center justify-center py-8">
+                  <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+                  <span className="ml-3 text-gray-600">Loading custom fields...</span>
+                </div>
+              ) : fields.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  <ListPlus className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+                  <p>No custom fields yet.</p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {fields.map((field) => (
+                    <div
+                      key={field.id}
+                      className="flex flex-col sm:flex-row sm:items-start justify-between p-4 border border-gray-200 rounded-lg hover:bg-gray-50 space-y-3 sm:space-y-0"
+                    >
+                      <div className="min-w-0 flex-1">
+                        <div className="flex flex-wrap items-center gap-2 mb-1">
+                          <h3 className="font-semibold text-gray-900 text-sm sm:text-base">
+                            {field.name}
+                          </h3>
+                          <Badge variant="secondary" className="text-xs">
+                            {TARGET_LABELS[field.target]}
+                          </Badge>
+                          <Badge variant="outline" className="text-xs">
+                            {CUSTOM_FIELD_TYPE_LABELS[field.type]}
+                          </Badge>
+                          {field.required && (
+                            <Badge variant="outline" className="text-xs text-red-700 border-red-200">
+                              Required
+                            </Badge>
+                          )}
+                        </div>
+                        {field.options.length > 0 && (
+                          <div className="flex flex-wrap gap-1">
+                            {field.options.map((option) => (
+                              <Badge key={option} variant="outline" className="text-[10px]">
+                                {option}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-2 sm:flex-shrink-0 sm:ml-4">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleEditField(field)}
+                          className="flex-1 sm:flex-none text-xs sm:text-sm"
+                        >
+                          <Edit className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                          Edit
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setFieldToDelete(field)}
+                          className="flex-1 sm:flex-none text-xs sm:text-sm text-red-600 border-red-200 hover:bg-red-50"
+                        >
+                          <Trash2 className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                          Delete
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Add/Edit Dialog */}
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editingField ? 'Edit Custom Field' : 'Add Custom Field'}
+            </DialogTitle>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Home church" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="target"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>For</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange} disabled={!!editingField}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {CUSTOM_FIELD_TARGETS.map((target) => (
+                            <SelectItem key={target} value={target}>
+                              {TARGET_LABELS[target]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="type"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Type</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange} disabled={!!editingField}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {CUSTOM_FIELD_TYPES.map((type) => (
+                            <SelectItem key={type} value={type}>
+                              {CUSTOM_FIELD_TYPE_LABELS[type]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {hasOptions && (
+                <FormField
+                  control={form.control}
+                  name="options"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Options (one per line)</FormLabel>
+                      <FormControl>
+                        <Textarea rows={4} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="displayOrder"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Order</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="required"
+                  render={({ field }) => (
+                    <FormItem className="flex items-end">
+                      <label className="flex items-center gap-2 text-sm cursor-pointer pb-2">
+                        <Checkbox
+                          checked={field.value}
+                          onCheckedChange={(checked) => field.onChange(checked === true)}
+                        />
+                        Required
+                      </label>
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={handleCloseDialog}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending}>
+                  {saveMutation.isPending
+                    ? 'Saving...'
+                    : editingField ? 'Update' : 'Create'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={!!fieldToDelete} onOpenChange={(open) => !open && setFieldToDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Custom Field</DialogTitle>
+          </DialogHeader>
+          <p className="text-gray-600 text-sm sm:text-base">
+            <span className="font-semibold">{fieldToDelete?.name}</span> will no longer be shown or
+            filled in. Values already entered stop being shown.
+          </p>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFieldToDelete(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => fieldToDelete && deleteMutation.mutate(fieldToDelete.id)}
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending ? 'Deleting...' : 'Delete'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
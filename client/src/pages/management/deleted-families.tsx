@@ -0,0 +1,240 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { apiRequest } from '@/lib/queryClient';
+import type { DeletedFamily } from '@server/schema';
+import { Trash2, ArrowLeft, RotateCcw } from 'lucide-react';
+import { Header } from '@/components/Header';
+
+type DeletedFamilyInfo = Omit<DeletedFamily, 'familyNotes'>;
+
+function formatDate(date: Date | string | null): string {
+  if (!date) return '—';
+  return new Date(date).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export default function DeletedFamiliesPage() {
+  const [, setLocation] = useLocation();
+  const { hasPermission } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [familyToPurge, setFamilyToPurge] = useState<DeletedFamilyInfo | null>(null);
+  const [confirmFamilyName, setConfirmFamilyName] = useState('');
+
+  // Check if user can manage deleted families
+  if (!hasPermission('families.archive')) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-red-600 text-6xl mb-4">🔒</div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Access Denied</h1>
+          <p className="text-gray-600 mb-4">You don't have permission to manage deleted families.</p>
+          <Button onClick={() => setLocation('/')} variant="outline">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Home
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const { data: deletedFamilies = [], isLoading } = useQuery<DeletedFamilyInfo[]>({
+    queryKey: ['/api/families/deleted'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/families/deleted');
+      return await response.json();
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (family: DeletedFamilyInfo) => {
+      return await apiRequest('POST', `/api/families/deleted/${family.id}/restore`);
+    },
+    onSuccess: (_, family) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/families/deleted'] });
+      queryClient.invalidateQueries({ queryKey: ['families'] });
+      toast({
+        title: "Success",
+        description: `${family.familyName} restored.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to restore family.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (family: DeletedFamilyInfo) => {
+      return await apiRequest('DELETE', `/api/families/deleted/${family.id}`, { confirmFamilyName });
+    },
+    onSuccess: (_, family) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/families/deleted'] });
+      toast({
+        title: "Success",
+        description: `${family.familyName} permanently deleted.`,
+      });
+      handleClosePurgeDialog();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to permanently delete family.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenPurgeDialog = (family: DeletedFamilyInfo) => {
+    setFamilyToPurge(family);
+    setConfirmFamilyName('');
+  };
+
+  const handleClosePurgeDialog = () => {
+    setFamilyToPurge(null);
+    setConfirmFamilyName('');
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <div className="pt-20 py-8">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+          {/* Header */}
+          <div className="mb-6 sm:mb-8">
+            <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 flex items-center">
+              <Trash2 className="w-6 h-6 sm:w-8 sm:h-8 mr-2 sm:mr-3 text-primary" />
+              Recently Deleted
+            </h1>
+            <p className="text-sm sm:text-base text-gray-600 mt-1">
+              Deleted families keep their care logs, donations and attendance until permanently deleted
+            </p>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Trash2 className="w-5 h-5 mr-2" />
+                Deleted Families ({deletedFamilies.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="flex items-center justify-center py-8">
+                  <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+                  <span className="ml-3 text-gray-600">Loading deleted families...</span>
+                </div>
+              ) : deletedFamilies.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  <Trash2 className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+                  <p>No deleted families.</p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {deletedFamilies.map((family) => (
+                    <div
+                      key={family.id}
+                      className="flex flex-col sm:flex-row sm:items-start justify-between p-4 border border-gray-200 rounded-lg hover:bg-gray-50 space-y-3 sm:space-y-0"
+                    >
+                      <div className="min-w-0 flex-1">
+                        <h3 className="font-semibold text-gray-900 text-sm sm:text-base">
+                          {family.familyName}
+                          {family.familyCode && (
+                            <span className="ml-2 text-xs font-mono text-gray-400">{family.familyCode}</span>
+                          )}
+                        </h3>
+                        <div className="text-xs text-gray-600 mb-1">
+                          {family.members.map(member => member.koreanName || member.englishName).filter(Boolean).join(', ') || 'No members'}
+                        </div>
+                        <div className="text-xs text-gray-600 space-x-4">
+                          <span>Deleted: <span className="font-medium">{formatDate(family.deletedAt)}</span></span>
+                          {family.deletedByStaff && (
+                            <span>By: <span className="font-medium">{family.deletedByStaff.nickName}</span></span>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-2 sm:flex-shrink-0 sm:ml-4">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => restoreMutation.mutate(family)}
+                          disabled={restoreMutation.isPending}
+                          className="flex-1 sm:flex-none text-xs sm:text-sm"
+                        >
+                          <RotateCcw className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                          Restore
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleOpenPurgeDialog(family)}
+                          className="flex-1 sm:flex-none text-xs sm:text-sm text-red-600 border-red-200 hover:bg-red-50"
+                        >
+                          <Trash2 className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                          Delete Permanently
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Purge Confirmation Dialog */}
+      <Dialog open={!!familyToPurge} onOpenChange={(open) => !open && handleClosePurgeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Permanently</DialogTitle>
+          </DialogHeader>
+          <p className="text-gray-600 text-sm sm:text-base">
+            This removes <span className="font-semibold">{familyToPurge?.familyName}</span> with all
+            its members, care logs, donations and event attendance. This can't be undone.
+          </p>
+          <div className="space-y-2">
+            <Label htmlFor="confirmFamilyName">Type the family name to confirm</Label>
+            <Input
+              id="confirmFamilyName"
+              value={confirmFamilyName}
+              onChange={(e) => setConfirmFamilyName(e.target.value)}
+              placeholder={familyToPurge?.familyName}
+              autoComplete="off"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={handleClosePurgeDialog}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => familyToPurge && purgeMutation.mutate(familyToPurge)}
+              disabled={confirmFamilyName.trim() !== familyToPurge?.familyName || purgeMutation.isPending}
+            >
+              {purgeMutation.isPending ? 'Deleting...' : 'Delete Permanently'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -176,6 +176,7 @@ interface QuickFamilyMemberFormData {
   memberType: 'husband' | 'wife';
   teamId: string;
   familyPicture?: string;
+  familyPictureThumbnail?: string;
 }
 
 export default function DepartmentTeamManagement() {
@@ -223,6 +224,7 @@ export default function DepartmentTeamManagement() {
     memberType: "husband",
     teamId: "",
     familyPicture: "",
+    familyPictureThumbnail: "",
   });
 
   // Drag and drop state
@@ -576,6 +578,7 @@ export default function DepartmentTeamManagement() {
       memberType: "husband",
       teamId: "",
       familyPicture: "",
+      familyPictureThumbnail: "",
     });
   };
 
@@ -1016,10 +1019,11 @@ export default function DepartmentTeamManagement() {
                       <Label>Family Picture (Optional)</Label>
                       <div className="mt-2">
                         <FamilyImageUploader
-                          onUploadComplete={(imageUrl) => {
-                            setQuickFamilyFormData({ ...quickFamilyFormData, familyPicture: imageUrl });
+                          onUploadComplete={(imageUrl, thumbnailUrl) => {
+                            setQuickFamilyFormData({ ...quickFamilyFormData, familyPicture: imageUrl, familyPictureThumbnail: thumbnailUrl });
                           }}
                           currentImage={quickFamilyFormData.familyPicture}
+                          currentThumbnail={quickFamilyFormData.familyPictureThumbnail}
                         />
                       </div>
                       {quickFamilyFormData.familyPicture && (
@@ -0,0 +1,336 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { apiRequest } from '@/lib/queryClient';
+import {
+  FAMILY_MERGE_FIELDS,
+  type FamilyDuplicateMatch,
+  type FamilyDuplicateReason,
+  type FamilyMergeField,
+} from '@server/schema';
+import { Copy, ArrowLeft, ArrowLeftRight, GitMerge } from 'lucide-react';
+import { Header } from '@/components/Header';
+
+type MatchedFamily = FamilyDuplicateMatch['family'];
+
+interface TeamOption {
+  id: string;
+  name: string;
+}
+
+const REASON_LABELS: Record<FamilyDuplicateReason['type'], string> = {
+  phone: 'Phone',
+  email: 'Email',
+  koreanName: 'Korean name',
+  englishName: 'English name',
+};
+
+const FIELD_LABELS: Record<FamilyMergeField, string> = {
+  familyName: 'Family name',
+  visitedDate: 'Visited date',
+  registrationDate: 'Registration date',
+  weddingDate: 'Wedding date',
+  memberStatus: 'Member status',
+  phoneNumber: 'Phone',
+  email: 'Email',
+  address: 'Address',
+  city: 'City',
+  state: 'State',
+  zipCode: 'Zip code',
+  fullAddress: 'Full address',
+  familyPicture: 'Picture',
+  lifeGroup: 'Life group',
+  supportTeamMember: 'Support team member',
+  biz: 'Biz',
+  bizTitle: 'Biz title',
+  bizCategory: 'Biz category',
+  bizName: 'Biz name',
+  bizIntro: 'Biz intro',
+  teamId: 'Team',
+};
+
+function formatMembers(family: MatchedFamily): string {
+  return family.members
+    .map(member => member.koreanName || member.englishName)
+    .filter(Boolean)
+    .join(', ');
+}
+
+export default function FamilyDuplicatesPage() {
+  const [, setLocation] = useLocation();
+  const { hasPermission } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [mergeTarget, setMergeTarget] = useState<{ survivor: MatchedFamily; duplicate: MatchedFamily } | null>(null);
+  const [fieldsFromDuplicate, setFieldsFromDuplicate] = useState<FamilyMergeField[]>([]);
+
+  // Check if user can merge families
+  if (!hasPermission('families.merge')) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-red-600 text-6xl mb-4">🔒</div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Access Denied</h1>
+          <p className="text-gray-600 mb-4">You don't have permission to merge families.</p>
+          <Button onClick={() => setLocation('/')} variant="outline">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Home
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const { data: matches = [], isLoading } = useQuery<FamilyDuplicateMatch[]>({
+    queryKey: ['/api/families/duplicates'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/families/duplicates');
+      return await response.json();
+    },
+  });
+
+  const { data: teams = [] } = useQuery<TeamOption[]>({
+    queryKey: ['/api/teams'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/teams');
+      return await response.json();
+    },
+    enabled: hasPermission('teams.manage'),
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async () => {
+      if (!mergeTarget) return;
+      const response = await apiRequest('POST', `/api/families/${mergeTarget.survivor.id}/merge`, {
+        duplicateId: mergeTarget.duplicate.id,
+        fieldsFromDuplicate,
+      });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/families/duplicates'] });
+      queryClient.invalidateQueries({ queryKey: ['families'] });
+      toast({
+        title: "Success",
+        description: `Merged into ${mergeTarget?.survivor.familyName}.`,
+      });
+      handleCloseDialog();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to merge families.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatValue = (field: FamilyMergeField, family: MatchedFamily): string => {
+    const value = family[field];
+    if (value === null || value === undefined || value === '') return '—';
+    if (field === 'teamId') {
+      return teams.find(team => team.id === value)?.name || String(value);
+    }
+    return String(value);
+  };
+
+  const handleOpenMerge = (match: FamilyDuplicateMatch) => {
+    setMergeTarget({ survivor: match.family, duplicate: match.duplicate });
+    setFieldsFromDuplicate([]);
+  };
+
+  const handleSwap = () => {
+    if (!mergeTarget) return;
+    setMergeTarget({ survivor: mergeTarget.duplicate, duplicate: mergeTarget.survivor });
+    setFieldsFromDuplicate([]);
+  };
+
+  const handleCloseDialog = () => {
+    setMergeTarget(null);
+    setFieldsFromDuplicate([]);
+  };
+
+  const pickField = (field: FamilyMergeField, fromDuplicate: boolean) => {
+    setFieldsFromDuplicate(prev =>
+      fromDuplicate ? Array.from(new Set([...prev, field])) : prev.filter(f => f !== field)
+    );
+  };
+
+  const differingFields = mergeTarget
+    ? FAMILY_MERGE_FIELDS.filter(field =>
+        formatValue(field, mergeTarget.survivor) !== formatValue(field, mergeTarget.duplicate))
+    : [];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <div className="pt-20 py-8">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+          {/* Header */}
+          <div className="mb-6 sm:mb-8">
+            <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 flex items-center">
+              <Copy className="w-6 h-6 sm:w-8 sm:h-8 mr-2 sm:mr-3 text-primary" />
+              Duplicate Families
+            </h1>
+            <p className="text-sm sm:text-base text-gray-600 mt-1">
+              Families sharing a phone number, email or member name
+            </p>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Copy className="w-5 h-5 mr-2" />
+                Likely Duplicates ({matches.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="flex items-center justify-center py-8">
+                  <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+                  <span className="ml-3 text-gray-600">Looking for duplicates...</span>
+                </div>
+              ) : matches.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  <Copy className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+                  <p>No likely duplicates found.</p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {matches.map((match) => (
+                    <div
+                      key={`${match.family.id}-${match.duplicate.id}`}
+                      className="flex flex-col sm:flex-row sm:items-start justify-between p-4 border border-gray-200 rounded-lg hover:bg-gray-50 space-y-3 sm:space-y-0"
+                    >
+                      <div className="min-w-0 flex-1">
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mb-2">
+                          {[match.family, match.duplicate].map((family) => (
+                            <div key={family.id}>
+                              <h3 className="font-semibold text-gray-900 text-sm sm:text-base">
+                                {family.familyName}
+                                {family.familyCode && (
+                                  <span className="ml-2 text-xs font-mono text-gray-400">{family.familyCode}</span>
+                                )}
+                              </h3>
+                              <div className="text-xs text-gray-600">
+                                {family.phoneNumber || '—'} · {formatMembers(family) || 'No members'}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                        <div className="flex flex-wrap gap-1">
+                          {match.reasons.map((reason) => (
+                            <Badge key={`${reason.type}:${reason.value}`} variant="outline" className="text-[10px]">
+                              {REASON_LABELS[reason.type]}: {reason.value}
+                            </Badge>
+                          ))}
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-2 sm:flex-shrink-0 sm:ml-4">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleOpenMerge(match)}
+                          className="flex-1 sm:flex-none text-xs sm:text-sm"
+                        >
+                          <GitMerge className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                          Merge
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Merge Dialog */}
+      <Dialog open={!!mergeTarget} onOpenChange={(open) => !open && handleCloseDialog()}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Merge Families</DialogTitle>
+          </DialogHeader>
+
+          {mergeTarget && (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <div>
+                  Keep <span className="font-semibold">{mergeTarget.survivor.familyName}</span>
+                  {' '}and delete <span className="font-semibold">{mergeTarget.duplicate.familyName}</span>
+                </div>
+                <Button type="button" variant="outline" size="sm" onClick={handleSwap}>
+                  <ArrowLeftRight className="w-4 h-4 mr-1" />
+                  Swap
+                </Button>
+              </div>
+
+              {differingFields.length === 0 ? (
+                <p className="text-sm text-gray-500">The family details are the same.</p>
+              ) : (
+                <table className="w-full text-xs table-fixed">
+                  <thead>
+                    <tr className="text-left text-gray-400">
+                      <th className="w-1/4 font-normal">Field</th>
+                      <th className="font-normal">Keep</th>
+                      <th className="font-normal">Delete</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {differingFields.map((field) => {
+                      const fromDuplicate = fieldsFromDuplicate.includes(field);
+                      return (
+                        <tr key={field} className="align-top border-t border-gray-100">
+                          <td className="py-1 pr-2 font-medium text-gray-700">{FIELD_LABELS[field]}</td>
+                          {[false, true].map((duplicateSide) => (
+                            <td key={String(duplicateSide)} className="py-1 pr-2">
+                              <label className="flex items-start gap-2 cursor-pointer break-words">
+                                <input
+                                  type="radio"
+                                  name={`merge-${field}`}
+                                  checked={fromDuplicate === duplicateSide}
+                                  onChange={() => pickField(field, duplicateSide)}
+                                  className="mt-0.5"
+                                />
+                                <span className="min-w-0">
+                                  {formatValue(field, duplicateSide ? mergeTarget.duplicate : mergeTarget.survivor)}
+                                </span>
+                              </label>
+                            </td>
+                          ))}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+
+              <div className="text-xs text-gray-600 space-y-1 p-3 bg-gray-50 border rounded-lg">
+                <p>Members with the same name are kept once; other members of the deleted family are added.</p>
+                <p>Care logs, donations and event attendance move to the kept family. Family notes of both are kept.</p>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={handleCloseDialog}>
+              Cancel
+            </Button>
+            <Button onClick={() => mergeMutation.mutate()} disabled={mergeMutation.isPending}>
+              {mergeMutation.isPending ? 'Merging...' : 'Merge'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
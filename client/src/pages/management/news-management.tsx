@@ -58,7 +58,7 @@ const ANNOUNCEMENT_TYPES = [
 
 export default function NewsManagementPage() {
   const [, setLocation] = useLocation();
-  const { user } = useAuth();
+  const { hasPermission } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -68,8 +68,8 @@ export default function NewsManagementPage() {
   const [announcementToDelete, setAnnouncementToDelete] = useState<AnnouncementWithStaff | null>(null);
   const [copiedId, setCopiedId] = useState<string | null>(null);
 
-  // Check if user has admin access
-  if (user?.group !== 'ADM') {
+  // Check if user can manage announcements
+  if (!hasPermission('announcements.manage')) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
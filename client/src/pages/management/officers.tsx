@@ -0,0 +1,171 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { useAuth } from '@/hooks/use-auth';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { apiRequest } from '@/lib/queryClient';
+import { usePositions, getPositionLabel, MemberPositionHistory } from '@/components/MemberPositions';
+import { LEADERSHIP_POSITIONS, type Department, type MemberPositionWithDetails } from '@server/schema';
+import { Award, ArrowLeft } from 'lucide-react';
+import { Header } from '@/components/Header';
+
+interface OfficerGroup {
+  key: string;
+  title: string;
+  terms: MemberPositionWithDetails[];
+}
+
+// Federation officers first, then each chapter's, with positions in LEADERSHIP_POSITIONS order
+function groupOfficers(terms: MemberPositionWithDetails[]): OfficerGroup[] {
+  const groups = new Map<string, OfficerGroup>();
+  for (const term of terms) {
+    const key = term.team ? term.team.id : 'federation';
+    const title = term.team ? term.team.name : `${term.department?.name ?? ''} 연합회`;
+    if (!groups.has(key)) {
+      groups.set(key, { key, title, terms: [] });
+    }
+    groups.get(key)!.terms.push(term);
+  }
+
+  const byPosition = (a: MemberPositionWithDetails, b: MemberPositionWithDetails) =>
+    LEADERSHIP_POSITIONS.indexOf(a.position) - LEADERSHIP_POSITIONS.indexOf(b.position);
+  return Array.from(groups.values())
+    .map(group => ({ ...group, terms: [...group.terms].sort(byPosition) }))
+    .sort((a, b) => a.key === 'federation' ? -1 : b.key === 'federation' ? 1 : a.title.localeCompare(b.title));
+}
+
+export default function OfficersPage() {
+  const [, setLocation] = useLocation();
+  const { hasPermission } = useAuth();
+
+  const [departmentId, setDepartmentId] = useState('');
+  const [historyMember, setHistoryMember] = useState<MemberPositionWithDetails['member'] | null>(null);
+
+  // Check if user can view officers
+  if (!hasPermission('departments.manage')) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-red-600 text-6xl mb-4">🔒</div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Access Denied</h1>
+          <p className="text-gray-600 mb-4">You don't have permission to view officers.</p>
+          <Button onClick={() => setLocation('/')} variant="outline">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Home
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const { data: departments = [] } = useQuery<Department[]>({
+    queryKey: ['/api/departments'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/departments');
+      return response.json();
+    },
+  });
+
+  const { data: officers, isLoading } = usePositions({ departmentId, current: true }, !!departmentId);
+  const groups = groupOfficers(officers);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <div className="pt-20 py-8">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+          {/* Header */}
+          <div className="mb-6 sm:mb-8">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between space-y-4 sm:space-y-0">
+              <div>
+                <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 flex items-center">
+                  <Award className="w-6 h-6 sm:w-8 sm:h-8 mr-2 sm:mr-3 text-primary" />
+                  Officers
+                </h1>
+                <p className="text-sm sm:text-base text-gray-600 mt-1">
+                  Current federation and chapter officers. Select a member to see their position history.
+                </p>
+              </div>
+              <div className="w-full sm:w-64">
+                <Select value={departmentId} onValueChange={setDepartmentId}>
+                  <SelectTrigger data-testid="select-officers-department">
+                    <SelectValue placeholder="Select a department" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {departments.map((department) => (
+                      <SelectItem key={department.id} value={department.id}>{department.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+
+          {!departmentId ? (
+            <div className="text-center py-8 text-gray-500">
+              <Award className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+              <p>Select a department to see its officers.</p>
+            </div>
+          ) : isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+              <span className="ml-3 text-gray-600">Loading officers...</span>
+            </div>
+          ) : groups.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <Award className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+              <p>No current officers in this department.</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {groups.map((group) => (
+                <Card key={group.key}>
+                  <CardHeader>
+                    <CardTitle className="text-lg">{group.title}</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    {group.terms.map((term) => (
+                      <div key={term.id} className="flex items-center justify-between gap-2 text-sm">
+                        <span className="font-medium text-gray-700 w-24 flex-shrink-0">{getPositionLabel(term.position)}</span>
+                        <button
+                          type="button"
+                          onClick={() => setHistoryMember(term.member)}
+                          className="flex-1 text-left text-primary hover:underline truncate"
+                          title={term.family.familyName}
+                        >
+                          {term.member.koreanName || term.member.englishName}
+                        </button>
+                        <span className="text-xs text-gray-500 flex-shrink-0">since {term.startDate}</span>
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Member History Dialog */}
+      <Dialog open={!!historyMember} onOpenChange={(open) => !open && setHistoryMember(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {historyMember?.koreanName || historyMember?.englishName}
+            </DialogTitle>
+          </DialogHeader>
+          {historyMember && (
+            <MemberPositionHistory
+              memberId={historyMember.id}
+              memberName={historyMember.koreanName || historyMember.englishName}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
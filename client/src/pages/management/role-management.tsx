@@ -0,0 +1,443 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { apiRequest } from '@/lib/queryClient';
+import { insertRoleSchema, PERMISSIONS, PERMISSION_KEYS, type Role, type Permission } from '@server/schema';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { Shield, Plus, Edit, Trash2, ArrowLeft } from 'lucide-react';
+import { Header } from '@/components/Header';
+
+type RoleFormData = z.infer<typeof insertRoleSchema>;
+
+export default function RoleManagementPage() {
+  const [, setLocation] = useLocation();
+  const { hasPermission } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [showDialog, setShowDialog] = useState(false);
+  const [editingRole, setEditingRole] = useState<Role | null>(null);
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [roleToDelete, setRoleToDelete] = useState<Role | null>(null);
+
+  // Check if user can manage roles
+  if (!hasPermission('roles.manage')) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-red-600 text-6xl mb-4">🔒</div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Access Denied</h1>
+          <p className="text-gray-600 mb-4">You don't have permission to manage roles.</p>
+          <Button onClick={() => setLocation('/')} variant="outline">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Home
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const form = useForm<RoleFormData>({
+    resolver: zodResolver(insertRoleSchema),
+    defaultValues: {
+      code: '',
+      name: '',
+      description: '',
+      permissions: [],
+    },
+  });
+
+  const { data: roles = [], isLoading } = useQuery<Role[]>({
+    queryKey: ['/api/roles'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/roles');
+      return await response.json();
+    },
+  });
+
+  const invalidateRoles = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/roles'] });
+    // The current user's own permissions may have changed
+    queryClient.invalidateQueries({ queryKey: ['/api/auth/me'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: RoleFormData) => {
+      return await apiRequest('POST', '/api/roles', data);
+    },
+    onSuccess: () => {
+      invalidateRoles();
+      toast({
+        title: "Success",
+        description: "Role created successfully.",
+      });
+      handleCloseDialog();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create role.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: Partial<RoleFormData> }) => {
+      return await apiRequest('PUT', `/api/roles/${id}`, data);
+    },
+    onSuccess: () => {
+      invalidateRoles();
+      toast({
+        title: "Success",
+        description: "Role updated successfully.",
+      });
+      handleCloseDialog();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update role.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest('DELETE', `/api/roles/${id}`);
+    },
+    onSuccess: () => {
+      invalidateRoles();
+      toast({
+        title: "Success",
+        description: "Role deleted successfully.",
+      });
+      setShowDeleteDialog(false);
+      setRoleToDelete(null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete role.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAddRole = () => {
+    setEditingRole(null);
+    form.reset({
+      code: '',
+      name: '',
+      description: '',
+      permissions: [],
+    });
+    setShowDialog(true);
+  };
+
+  const handleEditRole = (role: Role) => {
+    setEditingRole(role);
+    form.reset({
+      code: role.code,
+      name: role.name,
+      description: role.description || '',
+      permissions: role.permissions || [],
+    });
+    setShowDialog(true);
+  };
+
+  const handleDeleteRole = (role: Role) => {
+    setRoleToDelete(role);
+    setShowDeleteDialog(true);
+  };
+
+  const handleCloseDialog = () => {
+    setShowDialog(false);
+    setEditingRole(null);
+    form.reset();
+  };
+
+  const onSubmit = (data: RoleFormData) => {
+    if (editingRole) {
+      // The code can't be changed once staff are assigned to it
+      const { code, ...updateData } = data;
+      updateMutation.mutate({ id: editingRole.id, data: updateData });
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  const confirmDelete = () => {
+    if (roleToDelete) {
+      deleteMutation.mutate(roleToDelete.id);
+    }
+  };
+
+  const togglePermission = (permissions: Permission[], permission: Permission, checked: boolean) =>
+    checked
+      ? PERMISSION_KEYS.filter(key => key === permission || permissions.includes(key))
+      : permissions.filter(key => key !== permission);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <div className="pt-20 py-8">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+          {/* Header */}
+          <div className="mb-6 sm:mb-8">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between space-y-4 sm:space-y-0">
+              <div>
+                <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 flex items-center">
+                  <Shield className="w-6 h-6 sm:w-8 sm:h-8 mr-2 sm:mr-3 text-primary" />
+                  Role Management
+                </h1>
+                <p className="text-sm sm:text-base text-gray-600 mt-1">
+                  Define roles and the permissions they grant
+                </p>
+              </div>
+              <Button
+                onClick={handleAddRole}
+                className="bg-primary hover:bg-primary/90 w-full sm:w-auto"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Role
+              </Button>
+            </div>
+          </div>
+
+          {/* Role List */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Shield className="w-5 h-5 mr-2" />
+                Roles ({roles.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="flex items-center justify-center py-8">
+                  <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+                  <span className="ml-3 text-gray-600">Loading roles...</span>
+                </div>
+              ) : roles.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  <Shield className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+                  <p>No roles found.</p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {roles.map((role) => (
+                    <div
+                      key={role.id}
+                      className="flex flex-col sm:flex-row sm:items-start justify-between p-4 border border-gray-200 rounded-lg hover:bg-gray-50 space-y-3 sm:space-y-0"
+                    >
+                      <div className="min-w-0 flex-1">
+                        <div className="flex flex-wrap items-center gap-2 mb-1">
+                          <h3 className="font-semibold text-gray-900 text-sm sm:text-base">
+                            {role.name}
+                          </h3>
+                          <Badge variant="secondary" className="text-xs font-mono">
+                            {role.code}
+                          </Badge>
+                          {role.isSystem && (
+                            <Badge variant="outline" className="text-xs">
+                              Built-in
+                            </Badge>
+                          )}
+                        </div>
+                        {role.description && (
+                          <p className="text-xs sm:text-sm text-gray-600 mb-2">{role.description}</p>
+                        )}
+                        <div className="flex flex-wrap gap-1">
+                          {(role.permissions || []).length === 0 ? (
+                            <span className="text-xs text-gray-400">No permissions</span>
+                          ) : (
+                            role.permissions.map((permission) => (
+                              <Badge
+                                key={permission}
+                                variant="outline"
+                                className="text-[10px] font-mono"
+                                title={PERMISSIONS[permission]}
+                              >
+                                {permission}
+                              </Badge>
+                            ))
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-2 sm:flex-shrink-0 sm:ml-4">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleEditRole(role)}
+                          className="flex-1 sm:flex-none text-xs sm:text-sm"
+                        >
+                          <Edit className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                          Edit
+                        </Button>
+                        {!role.isSystem && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleDeleteRole(role)}
+                            className="flex-1 sm:flex-none text-xs sm:text-sm text-red-600 border-red-200 hover:bg-red-50"
+                          >
+                            <Trash2 className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                            Delete
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Add/Edit Dialog */}
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editingRole ? 'Edit Role' : 'Add New Role'}
+            </DialogTitle>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="code"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Code</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="e.g. TEAM-C"
+                        {...field}
+                        disabled={!!editingRole}
+                        onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Display name" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Textarea rows={2} {...field} value={field.value || ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="permissions"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Permissions</FormLabel>
+                    <div className="space-y-2 border rounded-lg p-3">
+                      {PERMISSION_KEYS.map((permission) => (
+                        <label key={permission} className="flex items-start gap-2 text-sm cursor-pointer">
+                          <Checkbox
+                            checked={field.value.includes(permission)}
+                            onCheckedChange={(checked) =>
+                              field.onChange(togglePermission(field.value, permission, checked === true))
+                            }
+                            className="mt-0.5"
+                          />
+                          <span>
+                            <span className="font-mono text-xs">{permission}</span>
+                            <span className="block text-xs text-gray-500">{PERMISSIONS[permission]}</span>
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={handleCloseDialog}>
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={createMutation.isPending || updateMutation.isPending}
+                >
+                  {createMutation.isPending || updateMutation.isPending
+                    ? 'Saving...'
+                    : editingRole ? 'Update' : 'Create'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Role</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-gray-600">
+            Are you sure you want to delete the role <strong>{roleToDelete?.name}</strong>?
+            Roles that are still assigned to staff cannot be deleted.
+          </p>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDeleteDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={confirmDelete}
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending ? 'Deleting...' : 'Delete'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
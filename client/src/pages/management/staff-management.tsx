@@ -12,31 +12,25 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '
 import { Badge } from '@/components/ui/badge';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { apiRequest } from '@/lib/queryClient';
-import { insertStaffSchema, type Staff, type StaffLoginLogWithStaff } from '@server/schema';
+import { insertStaffSchema, type SafeStaff as Staff, type StaffLoginLogWithStaff, type StaffLockout, type Role } from '@server/schema';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm } from 'react-hook-form';
 import { z } from 'zod';
-import { Users, Plus, Edit, Trash2, Settings, ArrowLeft, History, Clock } from 'lucide-react';
+import { Users, Plus, Edit, Trash2, Settings, ArrowLeft, History, Clock, Lock, Unlock, KeyRound } from 'lucide-react';
 import { Header } from '@/components/Header';
+import { ActiveSessions } from '@/components/ActiveSessions';
 
-const staffFormSchema = insertStaffSchema.extend({
-  personalPin: z.string().length(4, "PIN must be exactly 4 digits").regex(/^\d+$/, "PIN must contain only numbers")
-});
+// Admins never choose a PIN: new staff get a temporary one from the server
+const staffFormSchema = insertStaffSchema.omit({ personalPin: true });
 
 type StaffFormData = z.infer<typeof staffFormSchema>;
 
-const STAFF_GROUPS = [
-  { value: 'ADM', label: '관리자 (Admin)' },
-  { value: 'MGM', label: '매니저 (Manager)' },
-  { value: 'TEAM-A', label: '팀 A (Team A)' },
-  { value: 'TEAM-B', label: '팀 B (Team B)' },
-];
-
 export default function StaffManagementPage() {
   const [, setLocation] = useLocation();
-  const { user } = useAuth();
+  const { user, hasPermission } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const canManageStaff = hasPermission('staff.manage');
 
   const [showDialog, setShowDialog] = useState(false);
   const [editingStaff, setEditingStaff] = useState<Staff | null>(null);
@@ -44,9 +38,11 @@ export default function StaffManagementPage() {
   const [staffToDelete, setStaffToDelete] = useState<Staff | null>(null);
   const [showLoginHistoryDialog, setShowLoginHistoryDialog] = useState(false);
   const [selectedStaffForHistory, setSelectedStaffForHistory] = useState<Staff | null>(null);
+  const [staffForTemporaryPin, setStaffForTemporaryPin] = useState<Staff | null>(null);
+  const [issuedPin, setIssuedPin] = useState<{ nickName: string; temporaryPin: string } | null>(null);
 
-  // Check if user has super admin access
-  if (user?.group !== 'ADM') {
+  // Check if user can manage staff
+  if (!canManageStaff) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
@@ -67,7 +63,6 @@ export default function StaffManagementPage() {
     defaultValues: {
       fullName: '',
       nickName: '',
-      personalPin: '',
       group: 'TEAM-A',
       displayOrder: 0,
       isActive: true,
@@ -94,7 +89,6 @@ export default function StaffManagementPage() {
     queryKey: ['staff-management'],
     queryFn: async () => {
       console.log('Fetching staff management data...');
-      console.log('User group:', user?.group, 'Expected: ADM');
       try {
         const response = await apiRequest('GET', '/api/staff/manage');
         const data = await response.json();
@@ -108,20 +102,28 @@ export default function StaffManagementPage() {
         throw err;
       }
     },
-    enabled: user?.group === 'ADM', // Only run if user is ADM
+    enabled: canManageStaff,
+  });
+
+  // Groups are the role codes defined in role management
+  const { data: roles = [] } = useQuery<Role[]>({
+    queryKey: ['/api/roles'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/roles');
+      return await response.json();
+    },
+    enabled: canManageStaff,
   });
 
   const createMutation = useMutation({
     mutationFn: async (data: StaffFormData) => {
-      return await apiRequest('POST', '/api/staff/manage', data);
+      const response = await apiRequest('POST', '/api/staff/manage', data);
+      return await response.json();
     },
-    onSuccess: () => {
+    onSuccess: (newStaff: Staff & { temporaryPin: string }) => {
       queryClient.invalidateQueries({ queryKey: ['staff-management'] });
-      toast({
-        title: "Success",
-        description: "Staff member created successfully.",
-      });
       handleCloseDialog();
+      setIssuedPin({ nickName: newStaff.nickName, temporaryPin: newStaff.temporaryPin });
     },
     onError: (error: any) => {
       toast({
@@ -175,6 +177,59 @@ export default function StaffManagementPage() {
     },
   });
 
+  // Accounts currently locked out after too many failed logins
+  const { data: lockouts = [] } = useQuery<StaffLockout[]>({
+    queryKey: ['staff-lockouts'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/staff/manage/lockouts');
+      return await response.json();
+    },
+    enabled: canManageStaff,
+    refetchInterval: 60 * 1000,
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest('POST', `/api/staff/manage/${id}/unlock`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['staff-lockouts'] });
+      toast({
+        title: "Success",
+        description: "Staff account unlocked.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to unlock staff account.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getLockout = (staffId: string) => lockouts.find(l => l.staffId === staffId);
+
+  const temporaryPinMutation = useMutation({
+    mutationFn: async (staffMember: Staff) => {
+      const response = await apiRequest('POST', `/api/staff/manage/${staffMember.id}/temporary-pin`);
+      return await response.json();
+    },
+    onSuccess: ({ temporaryPin }: { temporaryPin: string }, staffMember) => {
+      queryClient.invalidateQueries({ queryKey: ['staff-management'] });
+      queryClient.invalidateQueries({ queryKey: ['staff-lockouts'] });
+      setStaffForTemporaryPin(null);
+      setIssuedPin({ nickName: staffMember.nickName, temporaryPin });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to issue temporary PIN.",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Login history query
   const { data: loginHistory = [], isLoading: isLoadingHistory } = useQuery<StaffLoginLogWithStaff[]>({
     queryKey: ['staff-login-history', selectedStaffForHistory?.id],
@@ -191,7 +246,6 @@ export default function StaffManagementPage() {
     form.reset({
       fullName: '',
       nickName: '',
-      personalPin: '',
       group: 'TEAM-A',
       displayOrder: Math.max(0, ...staff.map(s => s.displayOrder || 0)) + 1,
       isActive: true,
@@ -204,7 +258,6 @@ export default function StaffManagementPage() {
     form.reset({
       fullName: staffMember.fullName,
       nickName: staffMember.nickName,
-      personalPin: staffMember.personalPin,
       group: staffMember.group,
       displayOrder: staffMember.displayOrder || 0,
       isActive: staffMember.isActive,
@@ -256,8 +309,8 @@ export default function StaffManagementPage() {
   };
 
   const getGroupLabel = (group: string) => {
-    const groupOption = STAFF_GROUPS.find(g => g.value === group);
-    return groupOption ? groupOption.label : group;
+    const role = roles.find(r => r.code === group);
+    return role ? role.name : group;
   };
 
   return (
@@ -308,10 +361,10 @@ export default function StaffManagementPage() {
             </CardTitle>
           </CardHeader>
           <CardContent>
-            {user?.group !== 'ADM' ? (
+            {!canManageStaff ? (
               <div className="text-center py-8 text-amber-600">
                 <div className="text-amber-600 text-4xl mb-4">⚠️</div>
-                <p>You need ADM (Admin) privileges to manage staff.</p>
+                <p>You need the staff.manage permission to manage staff.</p>
                 <p className="text-sm mt-2">Your current group: {user?.group}</p>
               </div>
             ) : isLoading ? (
@@ -360,6 +413,15 @@ export default function StaffManagementPage() {
                               Inactive
                             </Badge>
                           )}
+                          {getLockout(staffMember.id) && (
+                            <Badge variant="outline" className="text-amber-700 border-amber-300 bg-amber-50 text-xs">
+                              <Lock className="w-3 h-3 mr-1" />
+                              Locked until {new Date(getLockout(staffMember.id)!.lockedUntil).toLocaleTimeString('en-US', {
+                                hour: '2-digit',
+                                minute: '2-digit'
+                              })}
+                            </Badge>
+                          )}
                         </div>
                         <div className="text-xs sm:text-sm text-gray-600 space-y-1 sm:space-y-0">
                           <div>
@@ -392,6 +454,27 @@ export default function StaffManagementPage() {
                       </div>
                     </div>
                     <div className="flex items-center space-x-2 sm:flex-shrink-0">
+                      {getLockout(staffMember.id) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => unlockMutation.mutate(staffMember.id)}
+                          disabled={unlockMutation.isPending}
+                          className="flex-1 sm:flex-none text-xs sm:text-sm text-amber-700 border-amber-200 hover:bg-amber-50"
+                        >
+                          <Unlock className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                          Unlock
+                        </Button>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setStaffForTemporaryPin(staffMember)}
+                        className="flex-1 sm:flex-none text-xs sm:text-sm text-amber-700 border-amber-200 hover:bg-amber-50"
+                      >
+                        <KeyRound className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                        Temp PIN
+                      </Button>
                       <Button
                         variant="outline"
                         size="sm"
@@ -467,24 +550,11 @@ export default function StaffManagementPage() {
                   )}
                 />
 
-                <FormField
-                  control={form.control}
-                  name="personalPin"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>PIN (4 digits)</FormLabel>
-                      <FormControl>
-                        <Input 
-                          {...field} 
-                          type="password"
-                          maxLength={4}
-                          placeholder="1234"
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+                {!editingStaff && (
+                  <p className="text-xs text-gray-500">
+                    A temporary PIN will be generated. The staff member sets their own PIN on first login.
+                  </p>
+                )}
 
                 <FormField
                   control={form.control}
@@ -499,9 +569,9 @@ export default function StaffManagementPage() {
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
-                          {STAFF_GROUPS.map((group) => (
-                            <SelectItem key={group.value} value={group.value}>
-                              {group.label}
+                          {roles.map((role) => (
+                            <SelectItem key={role.code} value={role.code}>
+                              {role.name}
                             </SelectItem>
                           ))}
                         </SelectContent>
@@ -592,6 +662,59 @@ export default function StaffManagementPage() {
           </DialogContent>
         </Dialog>
 
+        {/* Temporary PIN Confirmation Dialog */}
+        <Dialog open={!!staffForTemporaryPin} onOpenChange={(open) => !open && setStaffForTemporaryPin(null)}>
+          <DialogContent className="max-w-md mx-4 sm:mx-auto">
+            <DialogHeader>
+              <DialogTitle className="text-lg sm:text-xl">Issue Temporary PIN</DialogTitle>
+            </DialogHeader>
+            <p className="text-gray-600 text-sm sm:text-base">
+              <span className="font-semibold">{staffForTemporaryPin?.fullName}</span>'s current PIN will stop working
+              and they will be signed out everywhere. They must choose a new PIN on their next login.
+            </p>
+            <DialogFooter className="gap-2 flex-col sm:flex-row">
+              <Button
+                variant="outline"
+                onClick={() => setStaffForTemporaryPin(null)}
+                className="w-full sm:w-auto order-2 sm:order-1"
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={() => staffForTemporaryPin && temporaryPinMutation.mutate(staffForTemporaryPin)}
+                disabled={temporaryPinMutation.isPending}
+                className="w-full sm:w-auto order-1 sm:order-2"
+              >
+                {temporaryPinMutation.isPending ? "Issuing..." : "Issue PIN"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {/* Issued Temporary PIN Dialog (shown once, never retrievable later) */}
+        <Dialog open={!!issuedPin} onOpenChange={(open) => !open && setIssuedPin(null)}>
+          <DialogContent className="max-w-sm mx-4 sm:mx-auto">
+            <DialogHeader>
+              <DialogTitle className="text-lg sm:text-xl flex items-center">
+                <KeyRound className="w-5 h-5 mr-2" />
+                Temporary PIN
+              </DialogTitle>
+            </DialogHeader>
+            <p className="text-gray-600 text-sm">
+              Give this PIN to <span className="font-semibold">{issuedPin?.nickName}</span>.
+              It will not be shown again.
+            </p>
+            <div className="text-center text-3xl font-mono font-bold tracking-[0.5em] py-4 bg-gray-50 rounded-lg">
+              {issuedPin?.temporaryPin}
+            </div>
+            <DialogFooter>
+              <Button onClick={() => setIssuedPin(null)} className="w-full sm:w-auto">
+                Done
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
         {/* Login History Dialog */}
         <Dialog open={showLoginHistoryDialog} onOpenChange={setShowLoginHistoryDialog}>
           <DialogContent className="max-w-lg mx-2 sm:mx-auto max-h-[85vh] overflow-hidden">
@@ -604,6 +727,13 @@ export default function StaffManagementPage() {
               </DialogTitle>
             </DialogHeader>
             <div className="overflow-y-auto max-h-[60vh]">
+              {selectedStaffForHistory && (
+                <div className="mb-4">
+                  <h4 className="text-sm font-medium text-gray-700 mb-2">Active Sessions</h4>
+                  <ActiveSessions staffId={selectedStaffForHistory.id} />
+                  <h4 className="text-sm font-medium text-gray-700 mt-4">Login Attempts</h4>
+                </div>
+              )}
               {isLoadingHistory ? (
                 <div className="flex items-center justify-center py-8">
                   <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
@@ -0,0 +1,314 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { apiRequest } from '@/lib/queryClient';
+import { insertTagSchema, type TagWithCount } from '@server/schema';
+import { useTags, TagBadge, TAG_COLORS } from '@/components/FamilyTags';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { Tags, Plus, Edit, Trash2, ArrowLeft } from 'lucide-react';
+import { Header } from '@/components/Header';
+
+type TagFormData = z.input<typeof insertTagSchema>;
+
+const EMPTY_TAG: TagFormData = {
+  name: '',
+  color: TAG_COLORS[5],
+};
+
+export default function TagsPage() {
+  const [, setLocation] = useLocation();
+  const { hasPermission } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [showDialog, setShowDialog] = useState(false);
+  const [editingTag, setEditingTag] = useState<TagWithCount | null>(null);
+  const [tagToDelete, setTagToDelete] = useState<TagWithCount | null>(null);
+
+  // Check if user can manage tags
+  if (!hasPermission('tags.manage')) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-red-600 text-6xl mb-4">🔒</div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Access Denied</h1>
+          <p className="text-gray-600 mb-4">You don't have permission to manage tags.</p>
+          <Button onClick={() => setLocation('/')} variant="outline">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Home
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const form = useForm<TagFormData>({
+    resolver: zodResolver(insertTagSchema),
+    defaultValues: EMPTY_TAG,
+  });
+
+  const { data: tags, isLoading } = useTags();
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: TagFormData) => {
+      if (editingTag) {
+        return await apiRequest('PUT', `/api/tags/${editingTag.id}`, data);
+      }
+      return await apiRequest('POST', '/api/tags', data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tags'] });
+      toast({
+        title: "Success",
+        description: editingTag ? "Tag updated successfully." : "Tag created successfully.",
+      });
+      handleCloseDialog();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save tag.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest('DELETE', `/api/tags/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tags'] });
+      queryClient.invalidateQueries({ queryKey: ['families'] });
+      toast({
+        title: "Success",
+        description: "Tag deleted successfully.",
+      });
+      setTagToDelete(null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete tag.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAddTag = () => {
+    setEditingTag(null);
+    form.reset(EMPTY_TAG);
+    setShowDialog(true);
+  };
+
+  const handleEditTag = (tag: TagWithCount) => {
+    setEditingTag(tag);
+    form.reset({ name: tag.name, color: tag.color });
+    setShowDialog(true);
+  };
+
+  const handleCloseDialog = () => {
+    setShowDialog(false);
+    setEditingTag(null);
+    form.reset(EMPTY_TAG);
+  };
+
+  const previewName = form.watch('name');
+  const previewColor = form.watch('color');
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <div className="pt-20 py-8">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+          {/* Header */}
+          <div className="mb-6 sm:mb-8">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between space-y-4 sm:space-y-0">
+              <div>
+                <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 flex items-center">
+                  <Tags className="w-6 h-6 sm:w-8 sm:h-8 mr-2 sm:mr-3 text-primary" />
+                  Tags
+                </h1>
+                <p className="text-sm sm:text-base text-gray-600 mt-1">
+                  Labels for grouping families, such as "needs ride" or "retreat interested"
+                </p>
+              </div>
+              <Button
+                onClick={handleAddTag}
+                className="bg-primary hover:bg-primary/90 w-full sm:w-auto"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Tag
+              </Button>
+            </div>
+          </div>
+
+          {/* Tag List */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Tags className="w-5 h-5 mr-2" />
+                Tags ({tags.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="flex items-center justify-center py-8">
+                  <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+                  <span className="ml-3 text-gray-600">Loading tags...</span>
+                </div>
+              ) : tags.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  <Tags className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+                  <p>No tags yet.</p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {tags.map((tag) => (
+                    <div
+                      key={tag.id}
+                      className="flex flex-col sm:flex-row sm:items-center justify-between p-4 border border-gray-200 rounded-lg hover:bg-gray-50 space-y-3 sm:space-y-0"
+                    >
+                      <div className="flex items-center gap-3 min-w-0 flex-1">
+                        <TagBadge tag={tag} className="text-sm" />
+                        <span className="text-sm text-gray-500">
+                          {tag.familyCount} {tag.familyCount === 1 ? 'family' : 'families'}
+                        </span>
+                      </div>
+                      <div className="flex items-center space-x-2 sm:flex-shrink-0 sm:ml-4">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleEditTag(tag)}
+                          className="flex-1 sm:flex-none text-xs sm:text-sm"
+                        >
+                          <Edit className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                          Edit
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setTagToDelete(tag)}
+                          className="flex-1 sm:flex-none text-xs sm:text-sm text-red-600 border-red-200 hover:bg-red-50"
+                        >
+                          <Trash2 className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                          Delete
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Add/Edit Dialog */}
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {editingTag ? 'Edit Tag' : 'Add Tag'}
+            </DialogTitle>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Needs ride" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="color"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Color</FormLabel>
+                    <div className="flex flex-wrap items-center gap-2">
+                      {TAG_COLORS.map((color) => (
+                        <button
+                          key={color}
+                          type="button"
+                          onClick={() => field.onChange(color)}
+                          className={`w-7 h-7 rounded-full border-2 ${field.value === color ? 'border-gray-900' : 'border-transparent'}`}
+                          style={{ backgroundColor: color }}
+                          aria-label={color}
+                        />
+                      ))}
+                      <FormControl>
+                        <Input type="color" className="w-12 h-8 p-1" {...field} />
+                      </FormControl>
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="flex items-center gap-2 text-sm text-gray-500">
+                Preview:
+                <TagBadge tag={{ name: previewName || 'Tag', color: previewColor }} />
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={handleCloseDialog}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending}>
+                  {saveMutation.isPending
+                    ? 'Saving...'
+                    : editingTag ? 'Update' : 'Create'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={!!tagToDelete} onOpenChange={(open) => !open && setTagToDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Tag</DialogTitle>
+          </DialogHeader>
+          <p className="text-gray-600 text-sm sm:text-base">
+            <span className="font-semibold">{tagToDelete?.name}</span> will be removed from{' '}
+            {tagToDelete?.familyCount ?? 0} {tagToDelete?.familyCount === 1 ? 'family' : 'families'}.
+          </p>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTagToDelete(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => tagToDelete && deleteMutation.mutate(tagToDelete.id)}
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending ? 'Deleting...' : 'Delete'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { apiRequest } from '@/lib/queryClient';
+import { Header } from '@/components/Header';
+import type { DepartmentWithTeams, VCardImportResult } from '@server/schema';
+import { Upload, Contact, AlertCircle, CheckCircle2, ArrowLeft } from 'lucide-react';
+
+const NO_TEAM = 'none';
+
+export default function VCardImportPage() {
+  const [, setLocation] = useLocation();
+  const { hasPermission } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [file, setFile] = useState<File | null>(null);
+  const [teamId, setTeamId] = useState(NO_TEAM);
+  const [uploading, setUploading] = useState(false);
+  const [result, setResult] = useState<VCardImportResult | null>(null);
+
+  const { data: departments = [] } = useQuery<DepartmentWithTeams[]>({
+    queryKey: ['/api/departments'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/departments');
+      return response.json();
+    },
+    enabled: hasPermission('families.import'),
+  });
+
+  if (!hasPermission('families.import')) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+        <Header />
+        <div className="pt-20 max-w-4xl mx-auto px-4 py-8">
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              You don't have permission to import vCard files.
+            </AlertDescription>
+          </Alert>
+        </div>
+      </div>
+    );
+  }
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0];
+    if (selectedFile) {
+      if (!/\.(vcf|vcard)$/i.test(selectedFile.name)) {
+        toast({
+          title: 'Invalid file type',
+          description: 'Please select a vCard (.vcf) file',
+          variant: 'destructive',
+        });
+        return;
+      }
+      setFile(selectedFile);
+      setResult(null);
+    }
+  };
+
+  const handleUpload = async () => {
+    if (!file) return;
+
+    setUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      if (teamId !== NO_TEAM) {
+        formData.append('teamId', teamId);
+      }
+
+      const response = await apiRequest('POST', '/api/families/vcard/import', formData);
+      const data: VCardImportResult = await response.json();
+      setResult(data);
+      queryClient.invalidateQueries({ queryKey: ['families'] });
+
+      if (data.errors.length === 0) {
+        toast({
+          title: 'Import successful',
+          description: `Successfully imported ${data.success} families`,
+        });
+      } else {
+        toast({
+          title: 'Import completed with errors',
+          description: `Imported ${data.success} families, ${data.errors.length} errors`,
+          variant: 'destructive',
+        });
+      }
+    } catch (error: any) {
+      toast({
+        title: 'Import failed',
+        description: error.message || 'An error occurred during import',
+        variant: 'destructive',
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+      <Header />
+
+      <div className="pt-20">
+        <div className="max-w-4xl mx-auto px-3 sm:px-6 lg:px-8 py-4">
+          <div className="flex items-center mb-6">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setLocation('/')}
+              className="mr-4"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back
+            </Button>
+            <h1 className="text-xl sm:text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+              vCard Import - Family Contacts
+            </h1>
+          </div>
+        </div>
+      </div>
+
+      <main className="max-w-4xl mx-auto px-3 sm:px-6 lg:px-8 py-4 sm:py-8 space-y-6">
+        {/* Upload Card */}
+        <Card className="bg-white/60 backdrop-blur-sm border-0 shadow-xl">
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Contact className="w-5 h-5 mr-2 text-purple-600" />
+              Import Contacts
+            </CardTitle>
+            <CardDescription>
+              Contacts exported from this site update the families they came from. Other contacts update the
+              family with the same name in the chosen team, or become new families there.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label>Team for new families</Label>
+              <Select value={teamId} onValueChange={setTeamId}>
+                <SelectTrigger data-testid="select-vcard-team">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_TEAM}>No team (unassigned)</SelectItem>
+                  {departments.flatMap((department) => department.teams.map((team) => (
+                    <SelectItem key={team.id} value={team.id}>{department.name} · {team.name}</SelectItem>
+                  )))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="vcard-file">Select vCard File</Label>
+              <Input
+                id="vcard-file"
+                type="file"
+                accept=".vcf,.vcard,text/vcard"
+                onChange={handleFileChange}
+                disabled={uploading}
+              />
+            </div>
+
+            {file && (
+              <div className="bg-green-50 p-3 rounded-lg flex items-center">
+                <CheckCircle2 className="w-5 h-5 text-green-600 mr-2" />
+                <span className="text-sm">
+                  Selected: <strong>{file.name}</strong> ({(file.size / 1024).toFixed(2)} KB)
+                </span>
+              </div>
+            )}
+
+            <Button
+              onClick={handleUpload}
+              disabled={!file || uploading}
+              className="w-full bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700"
+            >
+              {uploading ? (
+                <>
+                  <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
+                  Importing...
+                </>
+              ) : (
+                <>
+                  <Upload className="w-4 h-4 mr-2" />
+                  Import vCard
+                </>
+              )}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Results Card */}
+        {result && (
+          <Card className="bg-white/60 backdrop-blur-sm border-0 shadow-xl">
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                {result.errors.length === 0 ? (
+                  <>
+                    <CheckCircle2 className="w-5 h-5 mr-2 text-green-600" />
+                    Import Successful
+                  </>
+                ) : (
+                  <>
+                    <AlertCircle className="w-5 h-5 mr-2 text-yellow-600" />
+                    Import Completed with Errors
+                  </>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="bg-green-50 p-4 rounded-lg">
+                  <div className="text-2xl font-bold text-green-600">{result.created.families.length}</div>
+                  <div className="text-sm text-gray-600">Families Created</div>
+                </div>
+                <div className="bg-orange-50 p-4 rounded-lg">
+                  <div className="text-2xl font-bold text-orange-600">{result.updated.families.length}</div>
+                  <div className="text-sm text-gray-600">Families Updated</div>
+                </div>
+              </div>
+
+              {result.updated.families.length > 0 && (
+                <div className="bg-orange-50 p-3 rounded-lg">
+                  <h4 className="font-semibold mb-2 text-sm">Updated Families:</h4>
+                  <div className="flex flex-wrap gap-2">
+                    {result.updated.families.map((family, idx) => (
+                      <span key={idx} className="bg-orange-200 text-orange-800 px-2 py-1 rounded text-xs">
+                        {family}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {result.errors.length > 0 && (
+                <div className="bg-red-50 p-4 rounded-lg">
+                  <h4 className="font-semibold mb-2 text-red-800">Errors ({result.errors.length}):</h4>
+                  <div className="max-h-60 overflow-y-auto space-y-2">
+                    {result.errors.map((error, idx) => (
+                      <div key={idx} className="bg-white p-2 rounded border border-red-200 text-sm">
+                        <div className="font-semibold text-red-700">Card {error.card} ({error.name}):</div>
+                        <div className="text-gray-600">{error.error}</div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from '@/lib/queryClient';
+import type { BusinessDirectoryResult } from "@server/schema";
+import { Briefcase, Search } from "lucide-react";
+
+const ALL_CATEGORIES = "all";
+
+// Public, unauthenticated list of member businesses that opted in
+export default function BusinessDirectoryPage() {
+  const [search, setSearch] = useState("");
+  const [category, setCategory] = useState(ALL_CATEGORIES);
+
+  const { data, isLoading, error } = useQuery<BusinessDirectoryResult>({
+    queryKey: ['/api/directory', search.trim(), category],
+    queryFn: async () => {
+      const queryParams = new URLSearchParams();
+      if (search.trim()) queryParams.set('q', search.trim());
+      if (category !== ALL_CATEGORIES) queryParams.set('category', category);
+      const response = await apiRequest('GET', `/api/directory?${queryParams.toString()}`);
+      return response.json();
+    },
+    placeholderData: (previous) => previous,
+    retry: false,
+  });
+
+  const entries = data?.entries ?? [];
+  const categories = data?.categories ?? [];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="mb-6 sm:mb-8">
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 flex items-center">
+            <Briefcase className="w-6 h-6 sm:w-8 sm:h-8 mr-2 sm:mr-3 text-primary" />
+            Business Directory
+          </h1>
+          <p className="text-sm sm:text-base text-gray-600 mt-1">
+            KCBMC member businesses
+          </p>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-col sm:flex-row gap-2 mb-6">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              type="text"
+              placeholder="Search businesses"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-9"
+              data-testid="input-directory-search"
+            />
+          </div>
+          <Select value={category} onValueChange={setCategory}>
+            <SelectTrigger className="sm:w-56" data-testid="select-directory-category">
+              <SelectValue placeholder="All categories" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+              {categories.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+            <span className="ml-3 text-gray-600">Loading businesses...</span>
+          </div>
+        ) : error ? (
+          <div className="text-center py-8 text-gray-500">
+            <p>The directory is not available right now.</p>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <Briefcase className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+            <p>No businesses found.</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {entries.map((entry) => (
+              <Card key={entry.id} className="overflow-hidden">
+                {entry.photoUrl && (
+                  <img
+                    src={entry.photoUrl}
+                    alt={entry.bizName || entry.biz || "Business"}
+                    className="w-full h-40 object-cover"
+                    loading="lazy"
+                  />
+                )}
+                <CardContent className="p-4 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <h2 className="font-semibold text-gray-900">{entry.bizName || entry.biz}</h2>
+                    {entry.bizCategory && (
+                      <Badge variant="outline" className="text-[10px] shrink-0">{entry.bizCategory}</Badge>
+                    )}
+                  </div>
+                  {entry.bizName && entry.biz && (
+                    <p className="text-sm text-gray-700">{entry.biz}</p>
+                  )}
+                  {entry.bizTitle && (
+                    <p className="text-xs text-gray-500">{entry.bizTitle}</p>
+                  )}
+                  {entry.bizIntro && (
+                    <p className="text-sm text-gray-600 whitespace-pre-wrap">{entry.bizIntro}</p>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
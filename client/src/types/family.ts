@@ -1,8 +1,11 @@
+import type { LeadershipPosition } from '@server/schema';
+
 export interface FamilyFormData {
   familyName: string;
   visitedDate: string;
   registrationDate: string;
-  memberStatus: 'visit' | 'member' | 'pending';
+  weddingDate?: string;
+  memberStatus: 'visit' | 'member' | 'pending' | 'inactive';
   phoneNumber: string;
   email: string;
   address: string;
@@ -11,6 +14,7 @@ export interface FamilyFormData {
   zipCode: string;
   familyNotes: string;
   familyPicture?: string;
+  familyPictureThumbnail?: string;
   lifeGroup: string;
   supportTeamMember: string;
   husband: FamilyMemberFormData;
@@ -24,7 +28,6 @@ export interface FamilyMemberFormData {
   birthDate: string;
   phoneNumber: string;
   email: string;
-  courses: string[];
 }
 
 export interface ChildFormData extends FamilyMemberFormData {
@@ -36,6 +39,9 @@ export interface ChildFormData extends FamilyMemberFormData {
 export interface SearchFilters {
   departmentId: string;
   teamIds: string[];
+  customFields?: Record<string, string>; // custom field id -> option, or 'true'/'false' for yes/no fields
+  tagIds?: string[];
+  tagMatch?: 'any' | 'all'; // families with any of the tags, or with all of them
 }
 
 export const MEMBER_STATUS_OPTIONS = [
@@ -121,13 +127,13 @@ export const STATE_OPTIONS = [
   { value: 'YT', label: 'Yukon' }
 ];
 
-export const COURSE_OPTIONS = [
-  { value: '101', label: '지회장' },
-  { value: '102', label: '지회총무' },
-  { value: '102', label: '지회회계' },
-  
-  { value: '201', label: '연합회장' },
-  { value: '201', label: '연합회 총무' },
+// Leadership positions; chapter (지회) positions are held in a team, federation (연합회) ones in a department
+export const POSITION_OPTIONS: { value: LeadershipPosition; label: string }[] = [
+  { value: 'chapterPresident', label: '지회장' },
+  { value: 'chapterSecretary', label: '지회총무' },
+  { value: 'chapterTreasurer', label: '지회회계' },
+  { value: 'federationPresident', label: '연합회장' },
+  { value: 'federationSecretary', label: '연합회 총무' },
 ];
 
 export const GRADE_LEVEL_OPTIONS = [
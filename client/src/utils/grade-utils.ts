@@ -33,12 +33,7 @@ export function getGradeGroupFirstChar(gradeLevel: string): string {
   if (gradeGroup.includes('College')) return 'C';
 }
 
-export function generateFamilyName(husbandKoreanName: string, wifeKoreanName: string): string {
-  if (!husbandKoreanName && !wifeKoreanName) return '';
-  if (!husbandKoreanName) return wifeKoreanName;
-  if (!wifeKoreanName) return husbandKoreanName;
-  return `${husbandKoreanName}・${wifeKoreanName}`;
-}
+export { generateFamilyName } from '@server/households';
 
 export function generateFullAddress(address: string, city: string, state: string, zipCode: string): string {
   const parts = [address, city, state, zipCode].filter(Boolean);
@@ -0,0 +1,87 @@
+// Regenerates server/postalCodeCities.json, the bundled ZIP / postal code → city data used by
+// server/postalCodes.ts, from the "zipcodes" package (BSD licensed): npm run generate:postal-codes
+import fs from "fs";
+import path from "path";
+import { createRequire } from "module";
+import { CA_POSTAL_LETTER_PROVINCES } from "../server/postalCodeData";
+
+const require = createRequire(import.meta.url);
+
+type ZipcodesEntry = { zip: string; city: string; state: string };
+const usCodes: Record<string, ZipcodesEntry> = require("zipcodes/lib/codes.js").codes;
+const caCodes: Record<string, ZipcodesEntry> = require("zipcodes/lib/codesCanada.js").codes;
+
+// Words that start the part of a forward sortation area's name describing where in the city it is,
+// as in "Chilliwack West" or "Halifax Lower Harbour"
+const AREA_WORDS = new Set([
+  "north", "south", "east", "west", "central", "northeast", "northwest", "southeast", "southwest",
+  "northern", "downtown", "lower", "upper", "inner", "outer", "outskirts", "extremities", "rcm",
+  "mid-harbour", "mid-riverbank",
+]);
+
+// Areas named after a neighbourhood, office complex or government district rather than their city
+const FSA_CITY_OVERRIDES: Record<string, string> = {
+  B2V: "Dartmouth",
+  B3J: "Halifax",
+  B3M: "Halifax",
+  E2N: "Saint John",
+  E2P: "Saint John",
+  E2R: "Saint John",
+  E2S: "Saint John",
+  G1A: "Quebec City",
+  K1A: "Ottawa",
+  R3C: "Winnipeg",
+};
+
+// Montreal areas are named after boroughs and neighbourhoods; these are the island's other municipalities
+const MONTREAL_ISLAND_MUNICIPALITIES = new Set([
+  "Beaconsfield", "Dollard-Des-Ormeaux", "Dorval", "Hampstead", "Kirkland", "Mount Royal", "Pointe-Claire",
+  "Sainte-Anne-De-Bellevue", "Senneville", "Westmount",
+]);
+
+function titleCase(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/(^|[\s\-./])([a-zà-ÿ])/g, (_, separator: string, letter: string) => separator + letter.toUpperCase())
+    .replace(/\b([LD])'([a-zà-ÿ])/gi, (_, prefix: string, letter: string) => `${prefix.toUpperCase()}'${letter.toUpperCase()}`);
+}
+
+// The municipality in a forward sortation area's name, or null for names that aren't one
+function getFsaCity(fsa: string, name: string): string | null {
+  // Rural areas (second character 0) are regions rather than cities
+  if (fsa[1] === "0") return null;
+  if (FSA_CITY_OVERRIDES[fsa]) return FSA_CITY_OVERRIDES[fsa];
+  // Every M area is in the City of Toronto and every H7 area in Laval
+  if (fsa[0] === "M") return "Toronto";
+  if (fsa.startsWith("H7")) return "Laval";
+  if (name.includes("�")) return fsa[0] === "H" ? "Montreal" : null;
+
+  const words = name
+    .replace(/\(.*?\)/g, " ")
+    .replace(/-\s+/g, "-")
+    .trim()
+    .split(/\s+/);
+  const areaStart = words.findIndex((word, index) => index > 0 && AREA_WORDS.has(word.toLowerCase()));
+  const city = titleCase((areaStart === -1 ? words : words.slice(0, areaStart)).join(" "));
+  if (fsa[0] === "H" && !MONTREAL_ISLAND_MUNICIPALITIES.has(city)) return "Montreal";
+  return city || null;
+}
+
+const us = Object.values(usCodes)
+  .filter(entry => /^\d{5}$/.test(entry.zip) && entry.city && /^[A-Z]{2}$/.test(entry.state))
+  .map(entry => [entry.zip, entry.city, entry.state])
+  .sort((a, b) => a[0].localeCompare(b[0]));
+
+const ca = Object.values(caCodes)
+  .flatMap(entry => {
+    const fsa = entry.zip.toUpperCase();
+    const province = CA_POSTAL_LETTER_PROVINCES[fsa[0]];
+    const city = getFsaCity(fsa, entry.city);
+    return /^[A-Z]\d[A-Z]$/.test(fsa) && province && city ? [[fsa, city, province]] : [];
+  })
+  .sort((a, b) => a[0].localeCompare(b[0]));
+
+const outputPath = path.join(path.dirname(new URL(import.meta.url).pathname), "../server/postalCodeCities.json");
+const rows = (entries: string[][]) => entries.map(entry => `    ${JSON.stringify(entry)}`).join(",\n");
+fs.writeFileSync(outputPath, `{\n  "us": [\n${rows(us)}\n  ],\n  "ca": [\n${rows(ca)}\n  ]\n}\n`);
+console.log(`Wrote ${us.length} ZIP codes and ${ca.length} forward sortation areas to ${outputPath}`);
@@ -0,0 +1,174 @@
+// Address clean-up: USPS street suffix and unit abbreviations, consistent casing, two-letter
+// state codes and formatted ZIP / postal codes. Pure functions, so the family form runs the same pass.
+
+export type AddressParts = {
+  address: string;
+  city: string;
+  state: string;
+  zipCode: string;
+};
+
+const STREET_SUFFIXES: Record<string, string> = {
+  alley: "Aly",
+  avenue: "Ave",
+  av: "Ave",
+  boulevard: "Blvd",
+  circle: "Cir",
+  court: "Ct",
+  cove: "Cv",
+  crossing: "Xing",
+  drive: "Dr",
+  expressway: "Expy",
+  freeway: "Fwy",
+  highway: "Hwy",
+  lane: "Ln",
+  parkway: "Pkwy",
+  place: "Pl",
+  plaza: "Plz",
+  point: "Pt",
+  road: "Rd",
+  square: "Sq",
+  street: "St",
+  terrace: "Ter",
+  trail: "Trl",
+  way: "Way",
+};
+
+const DIRECTIONALS: Record<string, string> = {
+  north: "N",
+  south: "S",
+  east: "E",
+  west: "W",
+  northeast: "NE",
+  northwest: "NW",
+  southeast: "SE",
+  southwest: "SW",
+};
+
+const UNIT_DESIGNATORS: Record<string, string> = {
+  apartment: "Apt",
+  apt: "Apt",
+  suite: "Ste",
+  ste: "Ste",
+  unit: "Unit",
+  building: "Bldg",
+  bldg: "Bldg",
+  floor: "Fl",
+  fl: "Fl",
+  room: "Rm",
+  rm: "Rm",
+};
+
+const STATE_CODES: Record<string, string> = {
+  alabama: "AL", alaska: "AK", arizona: "AZ", arkansas: "AR", california: "CA", colorado: "CO",
+  connecticut: "CT", delaware: "DE", florida: "FL", georgia: "GA", hawaii: "HI", idaho: "ID",
+  illinois: "IL", indiana: "IN", iowa: "IA", kansas: "KS", kentucky: "KY", louisiana: "LA",
+  maine: "ME", maryland: "MD", massachusetts: "MA", michigan: "MI", minnesota: "MN",
+  mississippi: "MS", missouri: "MO", montana: "MT", nebraska: "NE", nevada: "NV",
+  "new hampshire": "NH", "new jersey": "NJ", "new mexico": "NM", "new york": "NY",
+  "north carolina": "NC", "north dakota": "ND", ohio: "OH", oklahoma: "OK", oregon: "OR",
+  pennsylvania: "PA", "rhode island": "RI", "south carolina": "SC", "south dakota": "SD",
+  tennessee: "TN", texas: "TX", utah: "UT", vermont: "VT", virginia: "VA", washington: "WA",
+  "west virginia": "WV", wisconsin: "WI", wyoming: "WY", "district of columbia": "DC",
+  "puerto rico": "PR", guam: "GU",
+  alberta: "AB", "british columbia": "BC", manitoba: "MB", "new brunswick": "NB",
+  "newfoundland and labrador": "NL", "nova scotia": "NS", ontario: "ON",
+  "prince edward island": "PE", quebec: "QC", "québec": "QC", saskatchewan: "SK",
+  "northwest territories": "NT", nunavut: "NU", yukon: "YT",
+};
+
+// Already-abbreviated forms map to themselves, so "st." and "ST" become "St" as well
+function withAbbreviations(words: Record<string, string>): Record<string, string> {
+  const lookup = { ...words };
+  for (const abbreviation of Object.values(words)) {
+    lookup[abbreviation.toLowerCase()] = abbreviation;
+  }
+  return lookup;
+}
+
+const SUFFIX_LOOKUP = withAbbreviations(STREET_SUFFIXES);
+const DIRECTIONAL_LOOKUP = withAbbreviations(DIRECTIONALS);
+
+// Words that stay lower case inside a city name ("Port of Spain")
+const LOWERCASE_WORDS = new Set(["of", "the", "and", "de", "la"]);
+
+function collapseSpaces(value: string): string {
+  return value.trim().replace(/\s+/g, " ");
+}
+
+function capitalize(word: string): string {
+  // Keep house numbers, unit numbers and ordinals ("12B", "1st") as typed apart from case
+  if (/\d/.test(word)) return word.toUpperCase().replace(/(\d)(ST|ND|RD|TH)\b/, (_, d, s) => d + s.toLowerCase());
+  return word
+    .toLowerCase()
+    .replace(/(^|[-'])([a-z\u00e0-\u00fe])/g, (_, sep, letter) => sep + letter.toUpperCase());
+}
+
+// "123 north main street apartment 4" → "123 N Main St Apt 4"
+export function normalizeStreet(address: string): string {
+  const tokens = collapseSpaces(address).replace(/,/g, " ").split(" ").filter(Boolean);
+  if (tokens.length === 0) return "";
+
+  const key = (token: string) => token.toLowerCase().replace(/\.$/, "");
+  const unitIndex = tokens.findIndex((token, i) => i > 0 && (key(token) in UNIT_DESIGNATORS || token.startsWith("#")));
+  const street = unitIndex >= 0 ? tokens.slice(0, unitIndex) : tokens;
+  const unit = unitIndex >= 0 ? tokens.slice(unitIndex) : [];
+
+  const normalized = street.map(token => capitalize(token.replace(/\.$/, "")));
+
+  // The last word is the suffix ("Main Street"); a word before it can't be ("Park Street" stays "Park St")
+  const last = normalized.length - 1;
+  if (last > 0 && SUFFIX_LOOKUP[key(street[last])]) {
+    normalized[last] = SUFFIX_LOOKUP[key(street[last])];
+  }
+
+  // A directional right after the house number, when a street name follows it ("123 North Main St")
+  if (normalized.length > 3 && /^\d/.test(street[0]) && DIRECTIONAL_LOOKUP[key(street[1])]) {
+    normalized[1] = DIRECTIONAL_LOOKUP[key(street[1])];
+  }
+
+  const normalizedUnit = unit.map((token, i) => {
+    if (i === 0 && UNIT_DESIGNATORS[key(token)]) return UNIT_DESIGNATORS[key(token)];
+    return token.toUpperCase();
+  });
+
+  return [...normalized, ...normalizedUnit].join(" ");
+}
+
+export function normalizeCity(city: string): string {
+  return collapseSpaces(city)
+    .split(" ")
+    .filter(Boolean)
+    .map((word, i) => (i > 0 && LOWERCASE_WORDS.has(word.toLowerCase()) ? word.toLowerCase() : capitalize(word)))
+    .join(" ");
+}
+
+// Two-letter codes stay as they are (upper-cased); full state and province names become codes
+export function normalizeState(state: string): string {
+  const value = collapseSpaces(state).replace(/\./g, "");
+  if (/^[a-z]{2}$/i.test(value)) return value.toUpperCase();
+  return STATE_CODES[value.toLowerCase()] ?? value;
+}
+
+// US "12345" or "12345-6789"; Canadian "A1A 1A1". Anything else is returned trimmed.
+export function normalizePostalCode(zipCode: string): string {
+  const value = zipCode.trim().toUpperCase();
+  const digits = value.replace(/\D/g, "");
+  if (/^\d[\d\s-]*$/.test(value) && (digits.length === 5 || digits.length === 9)) {
+    return digits.length === 5 ? digits : `${digits.slice(0, 5)}-${digits.slice(5)}`;
+  }
+  const compact = value.replace(/[\s-]/g, "");
+  if (/^[A-Z]\d[A-Z]\d[A-Z]\d$/.test(compact)) {
+    return `${compact.slice(0, 3)} ${compact.slice(3)}`;
+  }
+  return value;
+}
+
+export function normalizeAddressParts(parts: AddressParts): AddressParts {
+  return {
+    address: normalizeStreet(parts.address),
+    city: normalizeCity(parts.city),
+    state: normalizeState(parts.state),
+    zipCode: normalizePostalCode(parts.zipCode),
+  };
+}
@@ -0,0 +1,65 @@
+import { createHash, randomBytes } from "crypto";
+import type { ApiTokenScope } from "@server/schema";
+import { storage } from "./storage";
+
+// API tokens let scripts read data without a PIN login.
+// Only a sha256 hash is stored; tokens are random enough that a slow hash isn't needed.
+
+const TOKEN_PREFIX = "kcbmc_";
+const TOKEN_BYTES = 32;
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 6;
+
+// last_used_at is written at most this often per token
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function generateApiToken(): { token: string; tokenHash: string; tokenPrefix: string } {
+  const token = TOKEN_PREFIX + randomBytes(TOKEN_BYTES).toString("base64url");
+  return {
+    token,
+    tokenHash: hashApiToken(token),
+    tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+  };
+}
+
+export function getBearerToken(req: any): string | null {
+  const header = req.get?.("Authorization");
+  const match = typeof header === "string" ? header.match(/^Bearer\s+(\S+)$/i) : null;
+  return match ? match[1] : null;
+}
+
+// Lets a read-only route accept a Bearer token with the given scope in place of a session.
+// Goes before requireAuth, which rejects tokens on every route that doesn't opt in here.
+// The token is looked up on every request, so revocation takes effect immediately.
+export function allowApiToken(scope: ApiTokenScope) {
+  return async (req: any, res: any, next: any) => {
+    const bearerToken = getBearerToken(req);
+    if (!bearerToken) {
+      return next();
+    }
+
+    try {
+      const token = await storage.getApiTokenByHash(hashApiToken(bearerToken));
+      const now = new Date();
+      if (!token || token.revokedAt || token.expiresAt <= now) {
+        return res.status(401).json({ message: "Invalid or expired API token" });
+      }
+      if (req.method !== "GET" || !token.scopes.includes(scope)) {
+        return res.status(403).json({ message: "API token not allowed", required: scope });
+      }
+
+      if (!token.lastUsedAt || now.getTime() - token.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+        await storage.touchApiToken(token.id, now);
+      }
+
+      req.apiToken = token;
+      next();
+    } catch (error) {
+      console.error("API token check error:", error);
+      res.status(500).json({ message: "Failed to check API token" });
+    }
+  };
+}
@@ -0,0 +1,77 @@
+import type { AuditAction, AuditChanges, AuditEntityType } from "@server/schema";
+import { storage } from "./storage";
+
+// Bookkeeping fields that change on every write and aren't worth recording
+const BOOKKEEPING_FIELDS = ["createdAt", "updatedAt", "lastLogin"];
+const IGNORED_FIELDS = new Set(BOOKKEEPING_FIELDS);
+
+// Nested rows (e.g. family members) are compared by their values, so their ids are left out too
+const IGNORED_NESTED_FIELDS = new Set(BOOKKEEPING_FIELDS.concat(["id", "familyId"]));
+
+// Sensitive fields: the audit log records that they changed, never their values
+const REDACTED_FIELDS = new Set(["personalPin", "previousPin", "familyNotes"]);
+const REDACTED = "[redacted]";
+
+function normalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key]) => !IGNORED_NESTED_FIELDS.has(key))
+        .map(([key, nested]) => [key, normalize(nested)])
+    );
+  }
+  return value ?? null;
+}
+
+// Field-by-field before/after diff of two records; unchanged fields are left out
+export function diffForAudit(before?: object | null, after?: object | null): AuditChanges {
+  const oldRecord = (before || {}) as Record<string, unknown>;
+  const newRecord = (after || {}) as Record<string, unknown>;
+  const changes: AuditChanges = {};
+
+  const fields = new Set(Object.keys(oldRecord).concat(Object.keys(newRecord)));
+  fields.forEach(field => {
+    if (IGNORED_FIELDS.has(field)) return;
+
+    const oldValue = normalize(oldRecord[field]);
+    const newValue = normalize(newRecord[field]);
+    if (JSON.stringify(oldValue) === JSON.stringify(newValue)) return;
+
+    changes[field] = REDACTED_FIELDS.has(field)
+      ? { before: oldValue === null ? null : REDACTED, after: newValue === null ? null : REDACTED }
+      : { before: oldValue, after: newValue };
+  });
+
+  return changes;
+}
+
+// Writes an audit log entry for a change made by the signed-in staff member.
+// Failures are logged instead of thrown: the change itself has already been saved.
+export async function recordAudit(
+  req: any,
+  entityType: AuditEntityType,
+  entityId: string,
+  action: AuditAction,
+  before?: object | null,
+  after?: object | null
+): Promise<void> {
+  try {
+    const changes = diffForAudit(before, after);
+    if (action === "update" && Object.keys(changes).length === 0) {
+      return;
+    }
+
+    await storage.createAuditLogEntry({
+      staffId: req.session?.staffId ?? null,
+      entityType,
+      entityId,
+      action,
+      changes,
+    });
+  } catch (error) {
+    console.error("Audit log error:", error);
+  }
+}
@@ -0,0 +1,91 @@
+import type { FamilyWithMembers, UpcomingCelebration } from "@server/schema";
+
+// Upcoming birthdays (family_members.birth_date) and wedding anniversaries (families.wedding_date).
+// Dates are compared as calendar days in UTC, so a stored YYYY-MM-DD never shifts by a timezone.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDate(value: string): { year: number; month: number; day: number } | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+  if (!match) return null;
+  return { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+}
+
+function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+function toDateString(time: number): string {
+  return new Date(time).toISOString().split("T")[0];
+}
+
+function occurrenceIn(year: number, month: number, day: number): number {
+  // Feb 29 falls on Feb 28 outside leap years
+  const occurrenceDay = month === 2 && day === 29 && !isLeapYear(year) ? 28 : day;
+  return Date.UTC(year, month - 1, occurrenceDay);
+}
+
+// The next time the month and day come round, on or after fromTime
+function nextOccurrence(month: number, day: number, fromTime: number): { time: number; year: number } {
+  const year = new Date(fromTime).getUTCFullYear();
+  const time = occurrenceIn(year, month, day);
+  if (time >= fromTime) return { time, year };
+  return { time: occurrenceIn(year + 1, month, day), year: year + 1 };
+}
+
+// Birthdays and anniversaries falling within `days` days of `from` (YYYY-MM-DD), soonest first
+export function getUpcomingCelebrations(
+  families: FamilyWithMembers[],
+  teamNames: Map<string, string>,
+  from: string,
+  days: number
+): UpcomingCelebration[] {
+  const start = parseDate(from);
+  if (!start) return [];
+  const fromTime = Date.UTC(start.year, start.month - 1, start.day);
+  const celebrations: UpcomingCelebration[] = [];
+
+  const add = (
+    type: UpcomingCelebration["type"],
+    originalDate: string | null,
+    family: FamilyWithMembers,
+    member?: FamilyWithMembers["members"][number]
+  ) => {
+    const original = originalDate ? parseDate(originalDate) : null;
+    if (!original) return;
+
+    const occurrence = nextOccurrence(original.month, original.day, fromTime);
+    const daysUntil = Math.round((occurrence.time - fromTime) / DAY_MS);
+    const years = occurrence.year - original.year;
+    if (daysUntil >= days || years < 1) return;
+
+    celebrations.push({
+      type,
+      date: toDateString(occurrence.time),
+      originalDate: originalDate!,
+      daysUntil,
+      years,
+      familyId: family.id,
+      familyName: family.familyName,
+      memberId: member?.id ?? null,
+      memberName: member ? member.koreanName || member.englishName || null : null,
+      relationship: member?.relationship ?? null,
+      phoneNumber: member?.phoneNumber || family.phoneNumber || null,
+      teamId: family.teamId,
+      teamName: family.teamId ? teamNames.get(family.teamId) ?? null : null,
+    });
+  };
+
+  for (const family of families) {
+    add("anniversary", family.weddingDate, family);
+    for (const member of family.members) {
+      add("birthday", member.birthDate, family, member);
+    }
+  }
+
+  return celebrations.sort((a, b) =>
+    a.daysUntil - b.daysUntil ||
+    (a.teamName || "").localeCompare(b.teamName || "") ||
+    a.familyName.localeCompare(b.familyName)
+  );
+}
@@ -0,0 +1,138 @@
+import { z } from "zod";
+import type { CustomField, CustomFieldTarget, CustomFieldValue, CustomFieldValues } from "@server/schema";
+
+// Admin-defined custom fields. Values are stored by field id in the customFieldValues column of
+// families and family members. Pure functions, so the family form and dashboard use the same rules.
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isEmptyValue(value: unknown): boolean {
+  return value === undefined ||
+    value === null ||
+    (typeof value === "string" && value.trim() === "") ||
+    (Array.isArray(value) && value.length === 0);
+}
+
+function valueSchema(field: CustomField): z.ZodType<CustomFieldValue, z.ZodTypeDef, unknown> {
+  const option = z.string().refine(value => field.options.includes(value), {
+    message: `Must be one of: ${field.options.join(", ")}`,
+  });
+  switch (field.type) {
+    case "number":
+      return z.coerce.number().finite();
+    case "date":
+      return z.string().regex(DATE_PATTERN, "Expected YYYY-MM-DD");
+    case "select":
+      return option;
+    case "multiSelect":
+      return z.array(option).transform(values => Array.from(new Set(values)));
+    case "boolean":
+      return z.boolean();
+    default:
+      return z.string().trim().max(1000);
+  }
+}
+
+// Schema for the values of one family or member: required fields must be filled in, values must
+// match their field's type, and values of unknown fields (or fields since deleted) are dropped
+export function customFieldValuesSchema(fields: CustomField[], target: CustomFieldTarget) {
+  const targetFields = fields.filter(field => field.target === target);
+  return z.record(z.unknown()).default({}).transform((values, ctx) => {
+    const result: CustomFieldValues = {};
+    for (const field of targetFields) {
+      const value = values[field.id];
+      if (isEmptyValue(value)) {
+        if (field.required) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field.id], message: `${field.name} is required` });
+        }
+        continue;
+      }
+      const parsed = valueSchema(field).safeParse(value);
+      if (!parsed.success) {
+        for (const issue of parsed.error.issues) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [field.id, ...issue.path],
+            message: `${field.name}: ${issue.message}`,
+          });
+        }
+        continue;
+      }
+      result[field.id] = parsed.data;
+    }
+    return result;
+  });
+}
+
+// What's wrong with a field definition, or null: choice fields need options, and names are CSV column
+// headers so they must be unique among the target's fields
+export function getCustomFieldDefinitionError(
+  field: Pick<CustomField, "id" | "name" | "type" | "target" | "options">,
+  existingFields: CustomField[]
+): string | null {
+  if ((field.type === "select" || field.type === "multiSelect") && field.options.length === 0) {
+    return "Select fields need at least one option";
+  }
+  const name = field.name.trim().toLowerCase();
+  if (existingFields.some(other => other.id !== field.id && other.target === field.target && other.name.trim().toLowerCase() === name)) {
+    return `A ${field.target} field named "${field.name}" already exists`;
+  }
+  return null;
+}
+
+// Validated values for the create and update routes; throws a ZodError like the rest of the request
+export function parseCustomFieldValues(
+  fields: CustomField[],
+  target: CustomFieldTarget,
+  values: unknown,
+  path: (string | number)[] = ["customFieldValues"]
+): CustomFieldValues {
+  return customFieldValuesSchema(fields, target).parse(values, { path });
+}
+
+// The same for a family member. The family form always sends husband and wife, so required fields
+// only apply to members with a name.
+export function parseMemberCustomFieldValues(
+  fields: CustomField[],
+  member: { koreanName?: string | null; englishName?: string | null; customFieldValues?: unknown },
+  index: number
+): CustomFieldValues {
+  const named = !!(member.koreanName?.trim() || member.englishName?.trim());
+  return parseCustomFieldValues(
+    named ? fields : fields.map(field => ({ ...field, required: false })),
+    "member",
+    member.customFieldValues,
+    ["members", index, "customFieldValues"]
+  );
+}
+
+// A CSV cell as the field's type: "yes"/"no" for booleans, "a; b" for multi-select.
+// Cells that don't convert are returned as they are, for validation to reject.
+export function parseCustomFieldText(field: CustomField, text: string): CustomFieldValue {
+  const value = text.trim();
+  switch (field.type) {
+    case "number":
+      return value !== "" && Number.isFinite(Number(value)) ? Number(value) : value;
+    case "boolean":
+      if (/^(y|yes|true|1|o|예)$/i.test(value)) return true;
+      if (/^(n|no|false|0|x|아니오)$/i.test(value)) return false;
+      return value;
+    case "multiSelect":
+      return value.split(/[;|]/).map(item => item.trim()).filter(Boolean);
+    default:
+      return value;
+  }
+}
+
+// A stored value for display; empty when there's nothing to show
+export function formatCustomFieldValue(field: CustomField, value: CustomFieldValue | undefined): string {
+  if (isEmptyValue(value)) return "";
+  if (field.type === "boolean") return value ? "Yes" : "No";
+  if (Array.isArray(value)) return value.join(", ");
+  return String(value);
+}
+
+// Fields a dashboard filter can offer a fixed list of choices for
+export function isFilterableCustomField(field: CustomField): boolean {
+  return field.type === "select" || field.type === "multiSelect" || field.type === "boolean";
+}
@@ -0,0 +1,161 @@
+import {
+  FAMILY_MERGE_FIELDS,
+  type FamilyDuplicateReason,
+  type FamilyMember,
+  type FamilyMergeField,
+  type FamilyWithMembers,
+  type InsertFamily,
+} from "@server/schema";
+
+// Duplicate households are found by what they have in common once formatting is ignored:
+// phone numbers, emails, and adult members' Korean or English names.
+
+export function normalizePhone(phone?: string | null): string | null {
+  const digits = (phone || "").replace(/\D/g, "");
+  // US numbers are entered both with and without the leading country code
+  const local = digits.length === 11 && digits.startsWith("1") ? digits.slice(1) : digits;
+  return local.length >= 7 ? local : null;
+}
+
+export function normalizeEmail(email?: string | null): string | null {
+  const normalized = (email || "").trim().toLowerCase();
+  return normalized.includes("@") ? normalized : null;
+}
+
+export function normalizeKoreanName(name?: string | null): string | null {
+  const normalized = (name || "").replace(/\s+/g, "");
+  return normalized.length >= 2 ? normalized : null;
+}
+
+// "Kim, Min-Su" and "minsu kim" both become "kim minsu"
+export function normalizeEnglishName(name?: string | null): string | null {
+  const parts = (name || "")
+    .toLowerCase()
+    .replace(/-/g, "")
+    .split(/[^a-z]+/)
+    .filter(Boolean)
+    .sort();
+  return parts.length > 0 ? parts.join(" ") : null;
+}
+
+function getMatchKeys(family: FamilyWithMembers): FamilyDuplicateReason[] {
+  const keys: FamilyDuplicateReason[] = [];
+  const add = (type: FamilyDuplicateReason["type"], value: string | null) => {
+    if (value && !keys.some(key => key.type === type && key.value === value)) {
+      keys.push({ type, value });
+    }
+  };
+
+  add("phone", normalizePhone(family.phoneNumber));
+  add("email", normalizeEmail(family.email));
+  for (const member of family.members || []) {
+    add("phone", normalizePhone(member.phoneNumber));
+    add("email", normalizeEmail(member.email));
+    // Children's names are too often shared to say anything about the household
+    if (member.relationship !== "child") {
+      add("koreanName", normalizeKoreanName(member.koreanName));
+      add("englishName", normalizeEnglishName(member.englishName));
+    }
+  }
+
+  return keys;
+}
+
+// Pairs of families that share at least one normalized phone, email or adult name,
+// most reasons first. The older family of each pair is the suggested survivor.
+// With familyId, only pairs involving that family are returned.
+export function findDuplicateFamilies(
+  allFamilies: FamilyWithMembers[],
+  familyId?: string
+): { family: FamilyWithMembers; duplicate: FamilyWithMembers; reasons: FamilyDuplicateReason[] }[] {
+  const familiesByKey = new Map<string, FamilyWithMembers[]>();
+  const reasonsByKey = new Map<string, FamilyDuplicateReason>();
+  for (const family of allFamilies) {
+    for (const reason of getMatchKeys(family)) {
+      const key = `${reason.type}:${reason.value}`;
+      familiesByKey.set(key, [...(familiesByKey.get(key) || []), family]);
+      reasonsByKey.set(key, reason);
+    }
+  }
+
+  const pairs = new Map<string, { family: FamilyWithMembers; duplicate: FamilyWithMembers; reasons: FamilyDuplicateReason[] }>();
+  familiesByKey.forEach((matchingFamilies, key) => {
+    for (let i = 0; i < matchingFamilies.length; i++) {
+      for (let j = i + 1; j < matchingFamilies.length; j++) {
+        const [family, duplicate] = [matchingFamilies[i], matchingFamilies[j]].sort(
+          (a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0)
+        );
+        if (familyId && family.id !== familyId && duplicate.id !== familyId) continue;
+
+        const pairKey = `${family.id}|${duplicate.id}`;
+        const pair = pairs.get(pairKey) || { family, duplicate, reasons: [] };
+        pair.reasons.push(reasonsByKey.get(key)!);
+        pairs.set(pairKey, pair);
+      }
+    }
+  });
+
+  return Array.from(pairs.values()).sort((a, b) => b.reasons.length - a.reasons.length);
+}
+
+function isSamePerson(a: FamilyMember, b: FamilyMember): boolean {
+  const koreanName = normalizeKoreanName(a.koreanName);
+  const englishName = normalizeEnglishName(a.englishName);
+  return (!!koreanName && koreanName === normalizeKoreanName(b.koreanName)) ||
+    (!!englishName && englishName === normalizeEnglishName(b.englishName));
+}
+
+// Maps each duplicate member to the survivor member with the same name, if any.
+// Each survivor member is matched at most once.
+export function matchMergedMembers(survivor: FamilyWithMembers, duplicate: FamilyWithMembers): Record<string, string> {
+  const memberIdMap: Record<string, string> = {};
+  const matched = new Set<string>();
+  for (const member of duplicate.members || []) {
+    const survivorMember = (survivor.members || []).find(m => !matched.has(m.id) && isSamePerson(m, member));
+    if (survivorMember) {
+      memberIdMap[member.id] = survivorMember.id;
+      matched.add(survivorMember.id);
+    }
+  }
+  return memberIdMap;
+}
+
+function copyField<K extends FamilyMergeField>(familyData: Partial<InsertFamily>, family: FamilyWithMembers, field: K) {
+  familyData[field] = family[field];
+}
+
+// The survivor's values, except for the fields picked from the duplicate.
+// Confidential notes are never shown for picking, so both families' notes are kept.
+export function buildMergedFamilyData(
+  survivor: FamilyWithMembers,
+  duplicate: FamilyWithMembers,
+  fieldsFromDuplicate: FamilyMergeField[]
+): Partial<InsertFamily> {
+  const familyData: Partial<InsertFamily> = {};
+  for (const field of FAMILY_MERGE_FIELDS) {
+    if (fieldsFromDuplicate.includes(field)) {
+      copyField(familyData, duplicate, field);
+    }
+  }
+
+  const notes = [survivor.familyNotes, duplicate.familyNotes].filter(note => note && note.trim());
+  if (notes.length > 1) {
+    familyData.familyNotes = notes.join("\n\n");
+  } else if (notes.length === 1 && !survivor.familyNotes?.trim()) {
+    familyData.familyNotes = notes[0];
+  }
+
+  // Custom field values are combined too, the survivor's winning where both have one
+  const duplicateValues = duplicate.customFieldValues || {};
+  if (Object.keys(duplicateValues).some(fieldId => !(fieldId in (survivor.customFieldValues || {})))) {
+    familyData.customFieldValues = { ...duplicateValues, ...survivor.customFieldValues };
+  }
+
+  // The merged family keeps the tags of both
+  const tagIds = Array.from(new Set([...(survivor.tagIds || []), ...(duplicate.tagIds || [])]));
+  if (tagIds.length > (survivor.tagIds || []).length) {
+    familyData.tagIds = tagIds;
+  }
+
+  return familyData;
+}
@@ -0,0 +1,190 @@
+import type {
+  FamilyMember,
+  FamilyTextSearchField,
+  FamilyTextSearchMatch,
+  FamilyWithMembers,
+} from "@server/schema";
+
+// Free-text family search over names, phone numbers, emails and business details.
+// Pure functions with no server dependencies, so the dashboard's name filter runs the same matching.
+
+// Initial consonants of Hangul syllables, in Unicode order
+const CHOSUNG = [
+  "ㄱ", "ㄲ", "ㄴ", "ㄷ", "ㄸ", "ㄹ", "ㅁ", "ㅂ", "ㅃ", "ㅅ",
+  "ㅆ", "ㅇ", "ㅈ", "ㅉ", "ㅊ", "ㅋ", "ㅌ", "ㅍ", "ㅎ",
+];
+const HANGUL_START = 0xac00;
+const HANGUL_END = 0xd7a3;
+const SYLLABLES_PER_CHOSUNG = 21 * 28;
+
+const CHOSUNG_SET = new Set(CHOSUNG);
+
+// Minimum number of digits before a query is also tried against phone numbers
+const MIN_PHONE_DIGITS = 3;
+
+const MATCH_QUALITY = {
+  exact: 100,
+  prefix: 80,
+  substring: 60,
+} as const;
+
+// Initial consonant matches are fuzzier than spelled-out ones
+const CHOSUNG_PENALTY = 0.8;
+
+const FIELD_WEIGHTS: Record<FamilyTextSearchField, number> = {
+  familyName: 1,
+  koreanName: 0.95,
+  englishName: 0.9,
+  phoneNumber: 0.9,
+  email: 0.8,
+  bizName: 0.7,
+  biz: 0.6,
+  bizTitle: 0.6,
+  bizCategory: 0.5,
+  bizIntro: 0.4,
+};
+
+// "김민수" → "ㄱㅁㅅ"; characters other than Hangul syllables are kept as they are
+export function getChosung(text: string): string {
+  return Array.from(text, char => {
+    const code = char.charCodeAt(0);
+    if (code < HANGUL_START || code > HANGUL_END) return char;
+    return CHOSUNG[Math.floor((code - HANGUL_START) / SYLLABLES_PER_CHOSUNG)];
+  }).join("");
+}
+
+// Digits of a query that looks like a phone number, or "" when it doesn't or has too few digits
+export function getPhoneQueryDigits(query: string): string {
+  const digits = /^[\d\s\-().+]+$/.test(query) ? query.replace(/\D/g, "") : "";
+  return digits.length >= MIN_PHONE_DIGITS ? digits : "";
+}
+
+// A case-insensitive regular expression (PostgreSQL ~*) that finds a query wherever findText would,
+// used to narrow down the families before they're ranked. Initial consonants match themselves or
+// any syllable starting with them.
+export function getTextSearchRegex(query: string): string {
+  return Array.from(query, char => {
+    const chosungIndex = CHOSUNG.indexOf(char);
+    if (chosungIndex < 0) return char.replace(/[\\^$.|?*+()[\]{}]/g, "\\$&");
+    const first = HANGUL_START + chosungIndex * SYLLABLES_PER_CHOSUNG;
+    return `[${char}${String.fromCharCode(first)}-${String.fromCharCode(first + SYLLABLES_PER_CHOSUNG - 1)}]`;
+  }).join("");
+}
+
+function charMatches(queryChar: string, valueChar: string): boolean {
+  return queryChar === valueChar || (CHOSUNG_SET.has(queryChar) && getChosung(valueChar) === queryChar);
+}
+
+// Finds the query in the value; query characters that are initial consonants match any syllable
+// starting with that consonant, so "ㄱㅁㅅ", "김ㅁㅅ" and "김민수" all find "김민수"
+function findText(value: string, query: string): { start: number; end: number; score: number } | null {
+  const text = value.toLowerCase();
+  const index = text.indexOf(query);
+  if (index >= 0) {
+    const quality = text === query ? MATCH_QUALITY.exact : index === 0 ? MATCH_QUALITY.prefix : MATCH_QUALITY.substring;
+    return { start: index, end: index + query.length, score: quality };
+  }
+
+  if (!Array.from(query).some(char => CHOSUNG_SET.has(char))) return null;
+  for (let start = 0; start + query.length <= text.length; start++) {
+    let matched = true;
+    for (let i = 0; i < query.length && matched; i++) {
+      matched = charMatches(query[i], text[start + i]);
+    }
+    if (matched) {
+      const quality = query.length === text.length ? MATCH_QUALITY.exact : start === 0 ? MATCH_QUALITY.prefix : MATCH_QUALITY.substring;
+      return { start, end: start + query.length, score: quality * CHOSUNG_PENALTY };
+    }
+  }
+  return null;
+}
+
+// Compares digits only, then maps the match back onto the formatted number for highlighting
+function findDigits(value: string, digits: string): { start: number; end: number; score: number } | null {
+  const positions: number[] = [];
+  let valueDigits = "";
+  Array.from(value).forEach((char, i) => {
+    if (/\d/.test(char)) {
+      positions.push(i);
+      valueDigits += char;
+    }
+  });
+
+  const index = valueDigits.indexOf(digits);
+  if (index < 0) return null;
+  const quality = valueDigits === digits ? MATCH_QUALITY.exact : index === 0 ? MATCH_QUALITY.prefix : MATCH_QUALITY.substring;
+  return { start: positions[index], end: positions[index + digits.length - 1] + 1, score: quality };
+}
+
+export type FamilyTextMatch = {
+  score: number;
+  matches: FamilyTextSearchMatch[];
+};
+
+// Scores one family against the query; null when nothing matches.
+// The best matching field sets the score, and each further matching field adds a point.
+export function matchFamilyText(family: Omit<FamilyWithMembers, "familyNotes">, rawQuery: string): FamilyTextMatch | null {
+  const query = rawQuery.trim().toLowerCase();
+  if (!query) return null;
+
+  const queryDigits = getPhoneQueryDigits(query);
+  const matches: (FamilyTextSearchMatch & { score: number })[] = [];
+
+  const check = (field: FamilyTextSearchField, value: string | null | undefined, member?: FamilyMember) => {
+    if (!value) return;
+    const found = field === "phoneNumber"
+      ? (queryDigits ? findDigits(value, queryDigits) : null)
+      : findText(value, query);
+    if (!found) return;
+    matches.push({
+      field,
+      value,
+      start: found.start,
+      end: found.end,
+      ...(member ? { memberId: member.id } : {}),
+      score: found.score * FIELD_WEIGHTS[field],
+    });
+  };
+
+  check("familyName", family.familyName);
+  check("phoneNumber", family.phoneNumber);
+  check("email", family.email);
+  check("bizName", family.bizName);
+  check("biz", family.biz);
+  check("bizTitle", family.bizTitle);
+  check("bizCategory", family.bizCategory);
+  check("bizIntro", family.bizIntro);
+  for (const member of family.members || []) {
+    check("koreanName", member.koreanName, member);
+    check("englishName", member.englishName, member);
+    check("phoneNumber", member.phoneNumber, member);
+    check("email", member.email, member);
+  }
+
+  if (matches.length === 0) return null;
+
+  matches.sort((a, b) => b.score - a.score);
+  return {
+    score: Math.round(matches[0].score + (matches.length - 1)),
+    matches: matches.map(({ score, ...match }) => match),
+  };
+}
+
+// Matching families, best first
+export function rankFamiliesByText<T extends Omit<FamilyWithMembers, "familyNotes">>(
+  families: T[],
+  query: string,
+  limit: number
+): { family: T; score: number; matches: FamilyTextSearchMatch[] }[] {
+  const results: { family: T; score: number; matches: FamilyTextSearchMatch[] }[] = [];
+  for (const family of families) {
+    const match = matchFamilyText(family, query);
+    if (match) {
+      results.push({ family, ...match });
+    }
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || a.family.familyName.localeCompare(b.family.familyName))
+    .slice(0, limit);
+}
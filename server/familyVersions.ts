@@ -0,0 +1,92 @@
+import type { AuditChanges, FamilyMember, FamilyVersionSummary, FamilyWithMembers } from "@server/schema";
+import { diffForAudit } from "./audit";
+import { storage } from "./storage";
+
+function memberFields(member: FamilyMember) {
+  const { id, familyId, createdAt, updatedAt, ...rest } = member;
+  return rest;
+}
+
+function memberLabel(member: FamilyMember): string {
+  return `members[${member.koreanName || member.englishName}]`;
+}
+
+// Field-level diff between two family snapshots. Members are matched by id: changes to a member are
+// reported as e.g. "members[김민수].englishName", and added or removed members as "members[김민수]"
+// with the whole member on one side.
+export function diffFamilySnapshots(before: FamilyWithMembers, after: FamilyWithMembers): AuditChanges {
+  const { members: beforeMembers = [], ...beforeFamily } = before;
+  const { members: afterMembers = [], ...afterFamily } = after;
+  const changes = diffForAudit(beforeFamily, afterFamily);
+
+  const afterIds = new Set(afterMembers.map(member => member.id));
+  for (const member of beforeMembers) {
+    if (!afterIds.has(member.id)) {
+      changes[memberLabel(member)] = { before: memberFields(member), after: null };
+    }
+  }
+
+  for (const member of afterMembers) {
+    const beforeMember = beforeMembers.find(m => m.id === member.id);
+    if (!beforeMember) {
+      changes[memberLabel(member)] = { before: null, after: memberFields(member) };
+      continue;
+    }
+    const memberChanges = diffForAudit(memberFields(beforeMember), memberFields(member));
+    Object.entries(memberChanges).forEach(([field, change]) => {
+      changes[`${memberLabel(member)}.${field}`] = change;
+    });
+  }
+
+  return changes;
+}
+
+// Keeps the family's state after a save as its next version. A family saved for the first
+// time since versioning was added also keeps its prior state, so that edit can be reverted.
+// Failures are logged instead of thrown: the save itself has already happened.
+export async function recordFamilyVersion(
+  req: any,
+  family: FamilyWithMembers,
+  previous?: FamilyWithMembers | null,
+  restoredFromVersion?: number
+): Promise<void> {
+  try {
+    let latestVersion = await storage.getLatestFamilyVersionNumber(family.id);
+
+    if (previous && !restoredFromVersion && Object.keys(diffFamilySnapshots(previous, family)).length === 0) {
+      return;
+    }
+
+    if (latestVersion === 0 && previous) {
+      await storage.createFamilyVersion({
+        familyId: family.id,
+        version: 1,
+        snapshot: previous,
+        staffId: null,
+      });
+      latestVersion = 1;
+    }
+
+    await storage.createFamilyVersion({
+      familyId: family.id,
+      version: latestVersion + 1,
+      snapshot: family,
+      staffId: req.session?.staffId ?? null,
+      restoredFromVersion: restoredFromVersion ?? null,
+    });
+  } catch (error) {
+    console.error("Family version error:", error);
+  }
+}
+
+// Newest first, each with what changed since the version before it
+export async function getFamilyVersionSummaries(familyId: string): Promise<FamilyVersionSummary[]> {
+  const versions = await storage.getFamilyVersions(familyId);
+  return versions.map(({ snapshot, ...version }, i) => {
+    const olderVersion = versions[i + 1];
+    return {
+      ...version,
+      changes: olderVersion ? diffFamilySnapshots(olderVersion.snapshot, snapshot) : {},
+    };
+  });
+}
@@ -0,0 +1,59 @@
+import type { FamilyMember, FamilyRelationship } from "@server/schema";
+
+// Households are families: moving members between them keeps member ids, so attendance
+// and positions go with the member. Pure functions, shared with the family form.
+
+// "남편・아내", or whichever spouse there is
+export function generateFamilyName(husbandKoreanName: string, wifeKoreanName: string): string {
+  if (!husbandKoreanName && !wifeKoreanName) return '';
+  if (!husbandKoreanName) return wifeKoreanName;
+  if (!wifeKoreanName) return husbandKoreanName;
+  return `${husbandKoreanName}・${wifeKoreanName}`;
+}
+
+type HouseholdMember = Pick<FamilyMember, 'id' | 'koreanName' | 'relationship'>;
+
+// The family name for a household's members; without a spouse the first member's name is used,
+// and an empty household keeps its current name
+export function getHouseholdName(members: Pick<HouseholdMember, 'koreanName' | 'relationship'>[], currentName: string): string {
+  const husband = members.find(m => m.relationship === 'husband');
+  const wife = members.find(m => m.relationship === 'wife');
+  return generateFamilyName(husband?.koreanName || '', wife?.koreanName || '') ||
+    members[0]?.koreanName ||
+    currentName;
+}
+
+export type MemberMove = {
+  memberId: string;
+  relationship?: FamilyRelationship; // keeps the current relationship when not given
+};
+
+// The members of both households after a move, or an error message when the move isn't possible
+export function planMemberMove(
+  sourceMembers: HouseholdMember[],
+  targetMembers: HouseholdMember[],
+  moves: MemberMove[]
+): { error: string } | { source: HouseholdMember[]; target: HouseholdMember[] } {
+  const movedIds = new Set(moves.map(move => move.memberId));
+  if (movedIds.size !== moves.length) {
+    return { error: "A member can only be moved once" };
+  }
+
+  const moved: HouseholdMember[] = [];
+  for (const move of moves) {
+    const member = sourceMembers.find(m => m.id === move.memberId);
+    if (!member) {
+      return { error: "Member not found in this family" };
+    }
+    moved.push({ ...member, relationship: move.relationship ?? member.relationship });
+  }
+
+  const target = [...targetMembers, ...moved];
+  for (const relationship of ['husband', 'wife'] as const) {
+    if (target.filter(m => m.relationship === relationship).length > 1) {
+      return { error: `The family would have more than one ${relationship}` };
+    }
+  }
+
+  return { source: sourceMembers.filter(m => !movedIds.has(m.id)), target };
+}
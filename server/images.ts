@@ -0,0 +1,46 @@
+import sharp from "sharp";
+
+// Uploaded images are stored as renditions rather than as sent. Re-encoding drops the EXIF
+// metadata, including the GPS position phone cameras record, after applying its orientation.
+
+export const IMAGE_RENDITION_SIZES = {
+  display: 1600, // family form, expanded family card, business directory
+  thumbnail: 320, // dashboard cards, print layouts, photo galleries
+} as const;
+
+export type ImageRendition = keyof typeof IMAGE_RENDITION_SIZES;
+
+export const IMAGE_RENDITION_CONTENT_TYPE = "image/jpeg";
+
+export class InvalidImageError extends Error {
+  constructor() {
+    super("The file is not a readable image");
+    this.name = "InvalidImageError";
+    Object.setPrototypeOf(this, InvalidImageError.prototype);
+  }
+}
+
+// Longest side at most the rendition size, never enlarged. Transparent PNGs and GIFs go on white;
+// animated GIFs keep their first frame.
+async function renderImage(image: Buffer, size: number): Promise<Buffer> {
+  return sharp(image)
+    .rotate()
+    .resize({ width: size, height: size, fit: "inside", withoutEnlargement: true })
+    .flatten({ background: "#ffffff" })
+    .jpeg({ quality: 82, mozjpeg: true })
+    .toBuffer();
+}
+
+export async function createImageRenditions(image: Buffer): Promise<Record<ImageRendition, Buffer>> {
+  try {
+    await sharp(image).metadata();
+  } catch {
+    throw new InvalidImageError();
+  }
+
+  const [display, thumbnail] = await Promise.all([
+    renderImage(image, IMAGE_RENDITION_SIZES.display),
+    renderImage(image, IMAGE_RENDITION_SIZES.thumbnail),
+  ]);
+  return { display, thumbnail };
+}
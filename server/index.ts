@@ -2,6 +2,7 @@ import "dotenv/config";
 import express, { type Request, Response, NextFunction } from "express";
 import session from "express-session";
 import { registerRoutes } from "./routes";
+import { DrizzleSessionStore } from "./sessionStore";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -10,6 +11,7 @@ app.use(express.urlencoded({ extended: false }));
 
 // Configure session middleware
 app.use(session({
+  store: new DrizzleSessionStore(), // sessions survive restarts and can be revoked
   secret: process.env.SESSION_SECRET || 'fallback-secret-for-dev',
   resave: false,
   saveUninitialized: false,
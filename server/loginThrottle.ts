@@ -0,0 +1,45 @@
+import type { FailedLoginSummary } from "@server/schema";
+
+// Login brute-force protection.
+// Failed attempts are read back from staff_login_logs; once a nickname (or IP)
+// passes its threshold, every further failure doubles the wait before the next try.
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return isNaN(value) || value < 0 ? fallback : value;
+}
+
+export const loginThrottleConfig = {
+  // Failed attempts per nickname before the account is locked
+  accountThreshold: envInt("LOGIN_LOCKOUT_THRESHOLD", 5),
+  // Failed attempts per IP address (across all nicknames) before the IP is locked
+  ipThreshold: envInt("LOGIN_LOCKOUT_IP_THRESHOLD", 20),
+  // How far back failed attempts are counted
+  windowMinutes: envInt("LOGIN_LOCKOUT_WINDOW_MINUTES", 60),
+  // First lockout delay, doubled on every further failure
+  baseDelaySeconds: envInt("LOGIN_LOCKOUT_BASE_SECONDS", 30),
+  // Upper bound for a single lockout
+  maxDelayMinutes: envInt("LOGIN_LOCKOUT_MAX_MINUTES", 60),
+};
+
+// Failure reason recorded for wrong PINs; only these count toward a lockout
+export const INVALID_CREDENTIALS_REASON = "Invalid credentials";
+export const LOCKED_OUT_REASON = "Locked out";
+
+export function getLockoutWindowStart(now: Date = new Date()): Date {
+  return new Date(now.getTime() - loginThrottleConfig.windowMinutes * 60 * 1000);
+}
+
+// Returns when the next attempt is allowed, or null if not locked
+export function getLockedUntil(summary: FailedLoginSummary, threshold: number, now: Date = new Date()): Date | null {
+  if (threshold <= 0 || summary.count < threshold || !summary.lastAttemptAt) {
+    return null;
+  }
+
+  const { baseDelaySeconds, maxDelayMinutes } = loginThrottleConfig;
+  const exponent = Math.min(summary.count - threshold, 20);
+  const delayMs = Math.min(baseDelaySeconds * 1000 * 2 ** exponent, maxDelayMinutes * 60 * 1000);
+  const lockedUntil = new Date(new Date(summary.lastAttemptAt).getTime() + delayMs);
+
+  return lockedUntil > now ? lockedUntil : null;
+}
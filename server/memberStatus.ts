@@ -0,0 +1,44 @@
+import type { InsertFamily } from "@server/schema";
+import { storage } from "./storage";
+
+// Families move between 'visit', 'member' and 'inactive'; every move is kept in family_status_history.
+
+const MEMBER_STATUS = "member";
+
+// A family becoming a member is registered that day, unless a registration date was entered with the change
+export function withRegistrationDate<T extends Partial<InsertFamily>>(
+  previous: { memberStatus: string; registrationDate: string | null } | null | undefined,
+  familyData: T
+): T {
+  if (familyData.memberStatus !== MEMBER_STATUS || previous?.memberStatus === MEMBER_STATUS) {
+    return familyData;
+  }
+  if (familyData.registrationDate && familyData.registrationDate !== previous?.registrationDate) {
+    return familyData;
+  }
+  return { ...familyData, registrationDate: new Date().toISOString().split("T")[0] };
+}
+
+// Records a status transition by the signed-in staff member; fromStatus is null for a new family.
+// Failures are logged instead of thrown: the family itself has already been saved.
+export async function recordStatusChange(
+  req: any,
+  familyId: string,
+  fromStatus: string | null | undefined,
+  toStatus: string | null | undefined,
+  reason?: string | null
+): Promise<void> {
+  if (!toStatus || fromStatus === toStatus) return;
+
+  try {
+    await storage.createFamilyStatusChange({
+      familyId,
+      fromStatus: fromStatus ?? null,
+      toStatus,
+      reason: reason?.trim() || null,
+      staffId: req.session?.staffId ?? null,
+    });
+  } catch (error) {
+    console.error("Status history error:", error);
+  }
+}
@@ -0,0 +1,28 @@
+-- ===============================================
+-- API tokens
+-- Named, scoped, expiring Bearer tokens for read-only integrations
+-- (spreadsheet sync, website member directory, ...)
+-- ===============================================
+
+CREATE TABLE IF NOT EXISTS api_tokens (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  token_prefix VARCHAR(20) NOT NULL,
+  scopes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  expires_at TIMESTAMP NOT NULL,
+  last_used_at TIMESTAMP,
+  revoked_at TIMESTAMP,
+  created_by VARCHAR REFERENCES staff(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT now()
+);
+
+COMMENT ON COLUMN api_tokens.token_hash IS 'sha256 hex of the token; the token itself is only shown once, on creation';
+COMMENT ON COLUMN api_tokens.scopes IS 'Read-only scopes, e.g. ["families:read", "events:read"]';
+
+-- Existing ADM roles were seeded before this permission existed
+UPDATE roles
+SET permissions = permissions || '["apiTokens.manage"]'::jsonb, updated_at = now()
+WHERE code = 'ADM' AND NOT permissions ? 'apiTokens.manage';
+
+SELECT 'API tokens migration completed successfully!' AS status;
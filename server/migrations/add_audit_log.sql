@@ -0,0 +1,28 @@
+-- ===============================================
+-- Audit log
+-- Every create / update / delete made through the API records who made it,
+-- which entity it touched and a field-by-field before/after diff
+-- ===============================================
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  staff_id VARCHAR REFERENCES staff(id) ON DELETE SET NULL,
+  entity_type VARCHAR(50) NOT NULL,
+  entity_id VARCHAR NOT NULL,
+  action VARCHAR(20) NOT NULL,
+  changes JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN audit_log.changes IS 'Changed fields only: { field: { before, after } }; PINs and family notes are redacted';
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity_type, entity_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_staff_id ON audit_log(staff_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at DESC);
+
+-- Existing ADM roles were seeded before this permission existed
+UPDATE roles
+SET permissions = permissions || '["audit.view"]'::jsonb, updated_at = now()
+WHERE code = 'ADM' AND NOT permissions ? 'audit.view';
+
+SELECT 'Audit log migration completed successfully!' AS status;
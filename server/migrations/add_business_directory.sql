@@ -0,0 +1,10 @@
+-- ===============================================
+-- Public business directory
+-- Families are only listed, and their picture only shown,
+-- after opting in; both default to off for existing families
+-- ===============================================
+
+ALTER TABLE families ADD COLUMN IF NOT EXISTS directory_opt_in BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE families ADD COLUMN IF NOT EXISTS directory_photo_consent BOOLEAN NOT NULL DEFAULT false;
+
+SELECT 'Business directory migration completed successfully!' AS status;
@@ -0,0 +1,30 @@
+-- ===============================================
+-- Custom fields
+-- Fields admins define for families or members (text, number, date,
+-- select, multiSelect, boolean). Values are stored by field id in a
+-- custom_field_values column on families and family_members.
+-- ===============================================
+
+CREATE TABLE IF NOT EXISTS custom_fields (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(100) NOT NULL,
+  type VARCHAR(20) NOT NULL,
+  target VARCHAR(20) NOT NULL,
+  options JSONB NOT NULL DEFAULT '[]'::jsonb,
+  required BOOLEAN NOT NULL DEFAULT false,
+  display_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT now(),
+  updated_at TIMESTAMP DEFAULT now()
+);
+
+COMMENT ON COLUMN custom_fields.options IS 'Choices for select and multiSelect fields';
+
+ALTER TABLE families ADD COLUMN IF NOT EXISTS custom_field_values JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE family_members ADD COLUMN IF NOT EXISTS custom_field_values JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Existing ADM roles were seeded before this permission existed
+UPDATE roles
+SET permissions = permissions || '["customFields.manage"]'::jsonb, updated_at = now()
+WHERE code = 'ADM' AND NOT permissions ? 'customFields.manage';
+
+SELECT 'Custom fields migration completed successfully!' AS status;
@@ -0,0 +1,12 @@
+-- ===============================================
+-- Address mismatch report
+-- No new tables: ZIP codes are checked against the data bundled
+-- in server/postalCodeData.ts. Only the permission needs granting.
+-- ===============================================
+
+-- Existing ADM roles were seeded before this permission existed
+UPDATE roles
+SET permissions = permissions || '["families.addressReport"]'::jsonb, updated_at = now()
+WHERE code = 'ADM' AND NOT permissions ? 'families.addressReport';
+
+SELECT 'Family address report migration completed successfully!' AS status;
@@ -0,0 +1,12 @@
+-- ===============================================
+-- Duplicate family merge
+-- No new tables: merging moves care logs, donations and attendance
+-- onto the surviving family. Only the permission needs granting.
+-- ===============================================
+
+-- Existing ADM roles were seeded before this permission existed
+UPDATE roles
+SET permissions = permissions || '["families.merge"]'::jsonb, updated_at = now()
+WHERE code = 'ADM' AND NOT permissions ? 'families.merge';
+
+SELECT 'Family merge migration completed successfully!' AS status;
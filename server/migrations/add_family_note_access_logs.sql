@@ -0,0 +1,23 @@
+-- ===============================================
+-- Family notes access log
+-- Family notes are no longer included in family payloads; they are revealed
+-- through GET /api/families/:id/notes after a PIN verification, and every
+-- reveal is recorded here
+-- ===============================================
+
+CREATE TABLE IF NOT EXISTS family_note_access_logs (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  family_id VARCHAR NOT NULL REFERENCES families(id) ON DELETE CASCADE,
+  staff_id VARCHAR NOT NULL REFERENCES staff(id) ON DELETE CASCADE,
+  accessed_at TIMESTAMP NOT NULL DEFAULT now(),
+  ip_address VARCHAR(45)
+);
+
+CREATE INDEX IF NOT EXISTS idx_family_note_access_logs_family_id ON family_note_access_logs(family_id, accessed_at DESC);
+
+-- Existing ADM roles were seeded before this permission existed
+UPDATE roles
+SET permissions = permissions || '["familyNotes.audit"]'::jsonb, updated_at = now()
+WHERE code = 'ADM' AND NOT permissions ? 'familyNotes.audit';
+
+SELECT 'Family notes access log migration completed successfully!' AS status;
@@ -0,0 +1,36 @@
+-- ===============================================
+-- Family photo gallery
+-- Families can have several photos with captions. The primary photo is
+-- mirrored onto families.family_picture and family_picture_thumbnail.
+-- ===============================================
+
+CREATE TABLE IF NOT EXISTS family_photos (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  family_id VARCHAR NOT NULL REFERENCES families(id) ON DELETE CASCADE,
+  display_path VARCHAR(500) NOT NULL,
+  thumbnail_path VARCHAR(500) NOT NULL,
+  caption VARCHAR(255),
+  is_primary BOOLEAN NOT NULL DEFAULT false,
+  display_order INTEGER NOT NULL DEFAULT 0,
+  uploaded_by VARCHAR REFERENCES staff(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT now(),
+  updated_at TIMESTAMP DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_family_photos_family_id ON family_photos(family_id, display_order);
+
+ALTER TABLE families ADD COLUMN IF NOT EXISTS family_picture_thumbnail VARCHAR(500);
+
+-- Existing family pictures become each family's primary photo. They were stored
+-- as uploaded, so they have no thumbnail and stand in for one.
+INSERT INTO family_photos (family_id, display_path, thumbnail_path, is_primary, display_order, created_at)
+SELECT f.id, f.family_picture, f.family_picture, true, 1, COALESCE(f.updated_at, now())
+FROM families f
+WHERE COALESCE(f.family_picture, '') <> ''
+  AND NOT EXISTS (SELECT 1 FROM family_photos fp WHERE fp.family_id = f.id);
+
+UPDATE families
+SET family_picture_thumbnail = family_picture
+WHERE COALESCE(family_picture, '') <> '' AND family_picture_thumbnail IS NULL;
+
+SELECT 'Family photos migration completed successfully!' AS status;
@@ -0,0 +1,13 @@
+-- ===============================================
+-- Family picture access
+-- Family pictures were readable by the ADM role; they are now readable by
+-- any role granted familyPictures.viewAll. Pictures stored before they had
+-- access policies are given one on startup (see backfillFamilyPictureAcls).
+-- ===============================================
+
+-- Existing ADM roles were seeded before this permission existed
+UPDATE roles
+SET permissions = permissions || '["familyPictures.viewAll"]'::jsonb, updated_at = now()
+WHERE code = 'ADM' AND NOT permissions ? 'familyPictures.viewAll';
+
+SELECT 'Family picture permission migration completed successfully!' AS status;
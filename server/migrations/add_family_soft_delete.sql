@@ -0,0 +1,21 @@
+-- ===============================================
+-- Family soft delete
+-- Deleting a family archives it; its care logs, donations and attendance
+-- stay until the family is permanently deleted from Recently deleted
+-- ===============================================
+
+ALTER TABLE families
+ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS deleted_by VARCHAR REFERENCES staff(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN families.deleted_at IS 'When the family was archived; NULL for active families';
+COMMENT ON COLUMN families.deleted_by IS 'Staff member who archived the family';
+
+CREATE INDEX IF NOT EXISTS idx_families_deleted_at ON families(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Existing ADM roles were seeded before this permission existed
+UPDATE roles
+SET permissions = permissions || '["families.archive"]'::jsonb, updated_at = now()
+WHERE code = 'ADM' AND NOT permissions ? 'families.archive';
+
+SELECT 'Family soft delete migration completed successfully!' AS status;
@@ -0,0 +1,35 @@
+-- ===============================================
+-- Family status history
+-- One row per member_status transition (visit, member, inactive),
+-- with who made the change and why
+-- ===============================================
+
+CREATE TABLE IF NOT EXISTS family_status_history (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  family_id VARCHAR NOT NULL REFERENCES families(id) ON DELETE CASCADE,
+  from_status VARCHAR(50),
+  to_status VARCHAR(50) NOT NULL,
+  reason TEXT,
+  staff_id VARCHAR REFERENCES staff(id) ON DELETE SET NULL,
+  changed_at TIMESTAMP NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_family_status_history_family ON family_status_history(family_id, changed_at);
+
+COMMENT ON COLUMN family_status_history.from_status IS 'NULL for the status a family started with';
+
+-- Start every existing family's timeline at its current status
+INSERT INTO family_status_history (family_id, from_status, to_status, reason, changed_at)
+SELECT
+  f.id,
+  NULL,
+  f.member_status,
+  'Status before history was kept',
+  CASE
+    WHEN f.member_status = 'member' AND f.registration_date IS NOT NULL THEN f.registration_date::timestamp
+    ELSE coalesce(f.created_at, now())
+  END
+FROM families f
+WHERE NOT EXISTS (SELECT 1 FROM family_status_history h WHERE h.family_id = f.id);
+
+SELECT 'Family status history migration completed successfully!' AS status;
@@ -0,0 +1,25 @@
+-- ===============================================
+-- Family tags
+-- Colored tags staff put on families for ad-hoc groupings. Families
+-- keep the ids of their tags in a tag_ids column.
+-- ===============================================
+
+CREATE TABLE IF NOT EXISTS tags (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(50) NOT NULL UNIQUE,
+  color VARCHAR(7) NOT NULL,
+  created_at TIMESTAMP DEFAULT now(),
+  updated_at TIMESTAMP DEFAULT now()
+);
+
+ALTER TABLE families ADD COLUMN IF NOT EXISTS tag_ids JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Tag filters use the ? / ?| / @> operators
+CREATE INDEX IF NOT EXISTS idx_families_tag_ids ON families USING GIN (tag_ids);
+
+-- Existing ADM roles were seeded before this permission existed
+UPDATE roles
+SET permissions = permissions || '["tags.manage"]'::jsonb, updated_at = now()
+WHERE code = 'ADM' AND NOT permissions ? 'tags.manage';
+
+SELECT 'Family tags migration completed successfully!' AS status;
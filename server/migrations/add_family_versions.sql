@@ -0,0 +1,26 @@
+-- ===============================================
+-- Family versions
+-- Every save keeps a snapshot of the family and its members, so earlier
+-- values survive the delete-and-reinsert of family_members and can be restored
+-- ===============================================
+
+CREATE TABLE IF NOT EXISTS family_versions (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  family_id VARCHAR NOT NULL REFERENCES families(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  snapshot JSONB NOT NULL,
+  staff_id VARCHAR REFERENCES staff(id) ON DELETE SET NULL,
+  restored_from_version INTEGER,
+  created_at TIMESTAMP NOT NULL DEFAULT now(),
+  UNIQUE (family_id, version)
+);
+
+COMMENT ON COLUMN family_versions.snapshot IS 'The family with its members as saved, including family notes';
+COMMENT ON COLUMN family_versions.staff_id IS 'Who saved this version; NULL for the state captured before versioning existed';
+
+-- Existing ADM roles were seeded before this permission existed
+UPDATE roles
+SET permissions = permissions || '["families.restore"]'::jsonb, updated_at = now()
+WHERE code = 'ADM' AND NOT permissions ? 'families.restore';
+
+SELECT 'Family versions migration completed successfully!' AS status;
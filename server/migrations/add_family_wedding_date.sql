@@ -0,0 +1,9 @@
+-- ===============================================
+-- Family wedding date
+-- Used with family_members.birth_date for the upcoming
+-- birthdays and anniversaries list
+-- ===============================================
+
+ALTER TABLE families ADD COLUMN IF NOT EXISTS wedding_date DATE;
+
+SELECT 'Family wedding date migration completed successfully!' AS status;
@@ -0,0 +1,67 @@
+-- ===============================================
+-- Member leadership positions
+-- Replaces family_members.courses, a list of position codes without
+-- dates, with one row per term a member serves in a position.
+-- ===============================================
+
+CREATE TABLE IF NOT EXISTS member_positions (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  member_id VARCHAR NOT NULL REFERENCES family_members(id) ON DELETE CASCADE,
+  position VARCHAR(50) NOT NULL,
+  team_id VARCHAR REFERENCES teams(id) ON DELETE SET NULL,
+  department_id VARCHAR REFERENCES departments(id) ON DELETE SET NULL,
+  start_date DATE NOT NULL,
+  end_date DATE,
+  appointed_by VARCHAR(255),
+  notes TEXT,
+  created_by VARCHAR REFERENCES staff(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT now(),
+  updated_at TIMESTAMP DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_member_positions_member_id ON member_positions(member_id);
+CREATE INDEX IF NOT EXISTS idx_member_positions_team_id ON member_positions(team_id);
+CREATE INDEX IF NOT EXISTS idx_member_positions_department_id ON member_positions(department_id);
+
+-- Existing courses become running terms, held in the family's team (chapter
+-- positions) or that team's department (federation positions). The old codes
+-- were shared: 102 meant 지회총무 or 지회회계 and 201 meant 연합회장 or
+-- 연합회 총무, so those terms take the first label and say so in their notes.
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'family_members' AND column_name = 'courses'
+  ) THEN
+    INSERT INTO member_positions (member_id, position, team_id, department_id, start_date, notes)
+    SELECT
+      fm.id,
+      code_map.position,
+      CASE WHEN code_map.scope = 'team' THEN f.team_id END,
+      CASE WHEN code_map.scope = 'department' THEN t.department_id END,
+      COALESCE(f.registration_date, fm.created_at::date, CURRENT_DATE),
+      code_map.note
+    FROM family_members fm
+    JOIN families f ON f.id = fm.family_id
+    LEFT JOIN teams t ON t.id = f.team_id
+    CROSS JOIN LATERAL jsonb_array_elements_text(COALESCE(fm.courses, '[]'::jsonb)) AS course(code)
+    JOIN (VALUES
+      ('101', 'chapterPresident', 'team', 'Migrated from course 101; start date is the registration date'),
+      ('102', 'chapterSecretary', 'team', 'Migrated from course 102, which also meant 지회회계; start date is the registration date'),
+      ('201', 'federationPresident', 'department', 'Migrated from course 201, which also meant 연합회 총무; start date is the registration date')
+    ) AS code_map(code, position, scope, note) ON code_map.code = course.code
+    WHERE NOT EXISTS (
+      SELECT 1 FROM member_positions mp
+      WHERE mp.member_id = fm.id AND mp.position = code_map.position
+    );
+
+    ALTER TABLE family_members DROP COLUMN courses;
+  END IF;
+END $$;
+
+-- Existing ADM roles were seeded before this permission existed
+UPDATE roles
+SET permissions = permissions || '["positions.manage"]'::jsonb, updated_at = now()
+WHERE code = 'ADM' AND NOT permissions ? 'positions.manage';
+
+SELECT 'Member positions migration completed successfully!' AS status;
@@ -0,0 +1,23 @@
+-- ===============================================
+-- Database-backed roles and permissions
+-- staff."group" now holds a role code; what each role may do is stored
+-- in roles.permissions instead of being hard-coded in routes.
+-- Built-in roles (ADM, MGM, TEAM-A, TEAM-B) are seeded on server startup.
+-- ===============================================
+
+CREATE TABLE IF NOT EXISTS roles (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  code VARCHAR(50) NOT NULL UNIQUE,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  permissions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  is_system BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP DEFAULT now(),
+  updated_at TIMESTAMP DEFAULT now()
+);
+
+COMMENT ON COLUMN roles.code IS 'Referenced by staff.group';
+COMMENT ON COLUMN roles.permissions IS 'Permission keys, see PERMISSIONS in server/schema.ts';
+COMMENT ON COLUMN roles.is_system IS 'Built-in roles cannot be deleted';
+
+SELECT 'Roles migration completed successfully!' AS status;
@@ -0,0 +1,30 @@
+-- ===============================================
+-- Login lockout support
+-- Failed attempts are read from staff_login_logs; an admin unlock
+-- records the time after which earlier failures are ignored
+-- ===============================================
+
+ALTER TABLE staff
+ADD COLUMN IF NOT EXISTS login_lock_reset_at TIMESTAMP;
+
+COMMENT ON COLUMN staff.login_lock_reset_at IS 'Failed logins before this time are ignored for lockout, for this staff member''s account and IP (set when an admin unlocks the account)';
+
+-- Failed logins with a nickname no staff member has are logged too, with no
+-- staff_id, and counted per nickname so they lock out like real accounts
+ALTER TABLE staff_login_logs
+ALTER COLUMN staff_id DROP NOT NULL;
+
+ALTER TABLE staff_login_logs
+ADD COLUMN IF NOT EXISTS nickname VARCHAR(255);
+
+COMMENT ON COLUMN staff_login_logs.nickname IS 'The nickname tried, kept for attempts that matched no staff member';
+
+CREATE INDEX IF NOT EXISTS idx_staff_login_logs_nickname
+ON staff_login_logs(nickname, login_time)
+WHERE staff_id IS NULL;
+
+-- Lockout checks count recent failures per IP address
+CREATE INDEX IF NOT EXISTS idx_staff_login_logs_ip_address
+ON staff_login_logs(ip_address, login_time);
+
+SELECT 'Staff login lockout migration completed successfully!' AS status;
@@ -0,0 +1,25 @@
+-- ===============================================
+-- Persistent staff sessions
+-- Replaces the in-memory express-session store so sessions survive
+-- restarts and can be listed / revoked per staff member
+-- ===============================================
+
+CREATE TABLE IF NOT EXISTS staff_sessions (
+  sid VARCHAR PRIMARY KEY,
+  id VARCHAR NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+  sess JSONB NOT NULL,
+  expire TIMESTAMP NOT NULL,
+  staff_id VARCHAR REFERENCES staff(id) ON DELETE CASCADE,
+  ip_address VARCHAR(45),
+  user_agent VARCHAR(500),
+  created_at TIMESTAMP DEFAULT now(),
+  last_seen_at TIMESTAMP DEFAULT now()
+);
+
+COMMENT ON TABLE staff_sessions IS 'express-session store with staff, IP and user agent for session listing and revocation';
+COMMENT ON COLUMN staff_sessions.id IS 'Public identifier used by the API; the sid itself is never sent to clients';
+
+CREATE INDEX IF NOT EXISTS idx_staff_sessions_staff_id ON staff_sessions(staff_id);
+CREATE INDEX IF NOT EXISTS idx_staff_sessions_expire ON staff_sessions(expire);
+
+SELECT 'Staff sessions migration completed successfully!' AS status;
@@ -0,0 +1,15 @@
+-- ===============================================
+-- Temporary PINs issued by an admin
+-- Staff signed in with one must set their own PIN before doing anything else
+-- ===============================================
+
+ALTER TABLE staff
+ADD COLUMN IF NOT EXISTS must_change_pin BOOLEAN DEFAULT FALSE;
+
+ALTER TABLE staff
+ADD COLUMN IF NOT EXISTS previous_pin VARCHAR(255);
+
+COMMENT ON COLUMN staff.must_change_pin IS 'Set when an admin issues a temporary PIN; cleared when the staff member sets their own';
+COMMENT ON COLUMN staff.previous_pin IS 'scrypt hash of the PIN replaced by the last change, which may not be reused';
+
+SELECT 'Staff temporary PIN migration completed successfully!' AS status;
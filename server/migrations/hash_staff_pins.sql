@@ -0,0 +1,12 @@
+-- ===============================================
+-- Widen staff.personal_pin to hold scrypt hashes
+-- Existing plaintext PINs are hashed by the server on startup
+-- (and on each staff member's next successful login)
+-- ===============================================
+
+ALTER TABLE staff
+ALTER COLUMN personal_pin TYPE VARCHAR(255);
+
+COMMENT ON COLUMN staff.personal_pin IS 'scrypt hash of the 4-digit staff PIN (scrypt$N$r$p$salt$hash)';
+
+SELECT 'Staff PIN column migration completed successfully!' AS status;
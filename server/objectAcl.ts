@@ -1,37 +1,32 @@
 import { File } from "@google-cloud/storage";
+import type { Permission } from "@server/schema";
+import { storage } from "./storage";
+import { getStaffPermissions } from "./permissions";
 
 const ACL_POLICY_METADATA_KEY = "custom:aclPolicy";
 
 // The type of the access group.
 //
-// Can be flexibly defined according to the use case.
-//
-// Examples:
-// - USER_LIST: the users from a list stored in the database;
-// - EMAIL_DOMAIN: the users whose email is in a specific domain;
-// - GROUP_MEMBER: the users who are members of a specific group;
-// - SUBSCRIBER: the users who are subscribers of a specific service / content
-//   creator.
-export enum ObjectAccessGroupType {}
+// - TEAM_MEMBER: staff assigned to a team (teams.assigned_staff);
+// - DEPARTMENT_MEMBER: staff assigned to any team in a department;
+// - STAFF_ROLE: active staff whose group is a given role code (e.g. ADM);
+// - PERMISSION: active staff whose role grants a given permission (e.g. familyPictures.viewAll).
+export enum ObjectAccessGroupType {
+  TEAM_MEMBER = "TEAM_MEMBER",
+  DEPARTMENT_MEMBER = "DEPARTMENT_MEMBER",
+  STAFF_ROLE = "STAFF_ROLE",
+  PERMISSION = "PERMISSION",
+}
 
 // The logic user group that can access the object.
 export interface ObjectAccessGroup {
   // The type of the access group.
   type: ObjectAccessGroupType;
-  // The logic id that is enough to identify the qualified group members.
-  //
-  // It may have different format for different types. For example:
-  // - for USER_LIST, the id could be the user list db entity id, and the
-  //   user list db entity could contain a bunch of user ids. User needs
-  //   to be a member of the user list to be able to access the object.
-  // - for EMAIL_DOMAIN, the id could be the email domain, and the user needs
-  //   to have an email with the domain to be able to access the object.
-  // - for GROUP_MEMBER, the id could be the group db entity id, and the
-  //   group db entity could contain a bunch of user ids. User needs to be
-  //   a member of the group to be able to access the object.
-  // - for SUBSCRIBER, the id could be the subscriber db entity id, and the
-  //   subscriber db entity could contain a bunch of user ids. User needs to
-  //   be a subscriber to be able to access the object.
+  // The logic id that is enough to identify the qualified group members:
+  // - for TEAM_MEMBER, the team id;
+  // - for DEPARTMENT_MEMBER, the department id;
+  // - for STAFF_ROLE, the role code;
+  // - for PERMISSION, the permission name.
   id: string;
 }
 
@@ -82,21 +77,66 @@ abstract class BaseObjectAccessGroup implements ObjectAccessGroup {
   public abstract hasMember(userId: string): Promise<boolean>;
 }
 
+// Staff assigned to the team.
+class TeamMemberAccessGroup extends BaseObjectAccessGroup {
+  constructor(teamId: string) {
+    super(ObjectAccessGroupType.TEAM_MEMBER, teamId);
+  }
+
+  public async hasMember(userId: string): Promise<boolean> {
+    const teamIds = await storage.getTeamIdsForStaff(userId);
+    return teamIds.includes(this.id);
+  }
+}
+
+// Staff assigned to any team in the department.
+class DepartmentMemberAccessGroup extends BaseObjectAccessGroup {
+  constructor(departmentId: string) {
+    super(ObjectAccessGroupType.DEPARTMENT_MEMBER, departmentId);
+  }
+
+  public async hasMember(userId: string): Promise<boolean> {
+    const departmentIds = await storage.getDepartmentIdsForStaff(userId);
+    return departmentIds.includes(this.id);
+  }
+}
+
+// Active staff with the role.
+class StaffRoleAccessGroup extends BaseObjectAccessGroup {
+  constructor(roleCode: string) {
+    super(ObjectAccessGroupType.STAFF_ROLE, roleCode);
+  }
+
+  public async hasMember(userId: string): Promise<boolean> {
+    const staffMember = await storage.getStaff(userId);
+    return !!staffMember?.isActive && staffMember.group === this.id;
+  }
+}
+
+// Active staff whose role grants the permission.
+class PermissionAccessGroup extends BaseObjectAccessGroup {
+  constructor(permission: string) {
+    super(ObjectAccessGroupType.PERMISSION, permission);
+  }
+
+  public async hasMember(userId: string): Promise<boolean> {
+    const permissions = await getStaffPermissions(userId);
+    return permissions.includes(this.id as Permission);
+  }
+}
+
 function createObjectAccessGroup(
   group: ObjectAccessGroup,
 ): BaseObjectAccessGroup {
   switch (group.type) {
-    // Implement the case for each type of access group to instantiate.
-    //
-    // For example:
-    // case "USER_LIST":
-    //   return new UserListAccessGroup(group.id);
-    // case "EMAIL_DOMAIN":
-    //   return new EmailDomainAccessGroup(group.id);
-    // case "GROUP_MEMBER":
-    //   return new GroupMemberAccessGroup(group.id);
-    // case "SUBSCRIBER":
-    //   return new SubscriberAccessGroup(group.id);
+    case ObjectAccessGroupType.TEAM_MEMBER:
+      return new TeamMemberAccessGroup(group.id);
+    case ObjectAccessGroupType.DEPARTMENT_MEMBER:
+      return new DepartmentMemberAccessGroup(group.id);
+    case ObjectAccessGroupType.STAFF_ROLE:
+      return new StaffRoleAccessGroup(group.id);
+    case ObjectAccessGroupType.PERMISSION:
+      return new PermissionAccessGroup(group.id);
     default:
       throw new Error(`Unknown access group type: ${group.type}`);
   }
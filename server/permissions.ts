@@ -0,0 +1,96 @@
+import type { Permission } from "@server/schema";
+import { PERMISSION_KEYS } from "@server/schema";
+import { storage } from "./storage";
+
+// Built-in roles, created on startup if missing.
+// Their permissions mirror the old hard-coded ADM / MGM checks and can be edited afterwards.
+export const DEFAULT_ROLES: { code: string; name: string; description: string; permissions: Permission[] }[] = [
+  {
+    code: "ADM",
+    name: "관리자 (Admin)",
+    description: "Full access",
+    permissions: [...PERMISSION_KEYS],
+  },
+  {
+    code: "MGM",
+    name: "매니저 (Manager)",
+    description: "Manages families, events and the organization",
+    permissions: [
+      "families.create",
+      "families.update",
+      "families.delete",
+      "events.manage",
+      "attendance.update",
+      "departments.manage",
+      "teams.manage",
+      "donations.write",
+    ],
+  },
+  {
+    code: "TEAM-A",
+    name: "팀 A (Team A)",
+    description: "Team staff",
+    permissions: ["families.update", "donations.write"],
+  },
+  {
+    code: "TEAM-B",
+    name: "팀 B (Team B)",
+    description: "Team staff",
+    permissions: ["families.update", "donations.write"],
+  },
+];
+
+// Role permissions are cached briefly so every request doesn't hit the roles table
+const CACHE_TTL_MS = 60 * 1000;
+let roleCache: { loadedAt: number; permissionsByCode: Map<string, Permission[]> } | null = null;
+
+export function invalidatePermissionCache(): void {
+  roleCache = null;
+}
+
+export async function getPermissionsForGroup(group: string): Promise<Permission[]> {
+  if (!roleCache || Date.now() - roleCache.loadedAt > CACHE_TTL_MS) {
+    const allRoles = await storage.getRoles();
+    roleCache = {
+      loadedAt: Date.now(),
+      permissionsByCode: new Map(allRoles.map(role => [role.code, role.permissions || []])),
+    };
+  }
+  return roleCache.permissionsByCode.get(group) || [];
+}
+
+// Permissions are resolved from the staff record on every request, so role or group
+// changes take effect immediately instead of waiting for the next login
+export async function getStaffPermissions(staffId: string): Promise<Permission[]> {
+  const staffMember = await storage.getStaff(staffId);
+  if (!staffMember || !staffMember.isActive) return [];
+  return getPermissionsForGroup(staffMember.group);
+}
+
+async function loadRequestPermissions(req: any): Promise<Permission[]> {
+  if (!req.permissions) {
+    req.permissions = req.session?.staffId ? await getStaffPermissions(req.session.staffId) : [];
+  }
+  return req.permissions;
+}
+
+export async function hasPermission(req: any, permission: Permission): Promise<boolean> {
+  const permissions = await loadRequestPermissions(req);
+  return permissions.includes(permission);
+}
+
+// Allows the request through if the staff member has ANY of the given permissions
+export function requirePermission(...required: Permission[]) {
+  return async (req: any, res: any, next: any) => {
+    try {
+      const permissions = await loadRequestPermissions(req);
+      if (!required.some(permission => permissions.includes(permission))) {
+        return res.status(403).json({ message: "Permission denied", required });
+      }
+      next();
+    } catch (error) {
+      console.error("Permission check error:", error);
+      res.status(500).json({ message: "Failed to check permissions" });
+    }
+  };
+}
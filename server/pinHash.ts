@@ -0,0 +1,90 @@
+import { scrypt, randomBytes, randomInt, timingSafeEqual } from "crypto";
+
+// Staff PIN hashing helpers.
+// Hashes are stored as "scrypt$N$r$p$salt$hash" (salt and hash base64 encoded)
+// so the cost parameters can be raised later without breaking existing rows.
+
+const HASH_PREFIX = "scrypt";
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+
+// Staff PINs are always exactly 4 digits
+export const PIN_PATTERN = /^\d{4}$/;
+
+function deriveKey(pin: string, salt: Buffer, params: { N: number; r: number; p: number }): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(pin, salt, KEY_LENGTH, { ...params, maxmem: 64 * 1024 * 1024 }, (err, derivedKey) => {
+      if (err) return reject(err);
+      resolve(derivedKey);
+    });
+  });
+}
+
+export function isHashedPin(value: string | null | undefined): boolean {
+  return !!value && value.startsWith(`${HASH_PREFIX}$`);
+}
+
+export async function hashPin(pin: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const key = await deriveKey(pin, salt, SCRYPT_PARAMS);
+  const { N, r, p } = SCRYPT_PARAMS;
+  return [HASH_PREFIX, N, r, p, salt.toString("base64"), key.toString("base64")].join("$");
+}
+
+// Compares a candidate PIN against a stored value in constant time.
+// Legacy plaintext values are still accepted so they can be rehashed on login.
+export async function verifyPin(pin: string, stored: string): Promise<boolean> {
+  if (!pin || !stored) return false;
+
+  if (!isHashedPin(stored)) {
+    const candidate = Buffer.from(pin);
+    const expected = Buffer.from(stored);
+    if (candidate.length !== expected.length) {
+      // Still do a comparison so the timing doesn't reveal the stored length
+      timingSafeEqual(expected, expected);
+      return false;
+    }
+    return timingSafeEqual(candidate, expected);
+  }
+
+  const [, n, r, p, saltB64, hashB64] = stored.split("$");
+  if (!saltB64 || !hashB64) return false;
+
+  const expected = Buffer.from(hashB64, "base64");
+  const key = await deriveKey(pin, Buffer.from(saltB64, "base64"), {
+    N: parseInt(n, 10),
+    r: parseInt(r, 10),
+    p: parseInt(p, 10),
+  });
+
+  return key.length === expected.length && timingSafeEqual(key, expected);
+}
+
+// True when the stored value should be replaced with a fresh hash
+export function needsRehash(stored: string): boolean {
+  if (!isHashedPin(stored)) return true;
+  const [, n, r, p] = stored.split("$");
+  return parseInt(n, 10) !== SCRYPT_PARAMS.N
+    || parseInt(r, 10) !== SCRYPT_PARAMS.r
+    || parseInt(p, 10) !== SCRYPT_PARAMS.p;
+}
+
+// PINs that are too easy to guess: a repeated pair of digits (0000, 1212)
+// or a straight run up or down (1234, 9876)
+export function isTrivialPin(pin: string): boolean {
+  const digits = pin.split("").map(Number);
+  const steps = digits.slice(1).map((digit, i) => digit - digits[i]);
+  const isRun = steps.every(step => step === 1) || steps.every(step => step === -1);
+  const isRepeatedPair = pin.slice(0, 2) === pin.slice(2);
+  return isRun || isRepeatedPair;
+}
+
+// Random one-time PIN handed out by an admin; never a trivial one
+export function generateTemporaryPin(): string {
+  let pin: string;
+  do {
+    pin = randomInt(0, 10000).toString().padStart(4, "0");
+  } while (isTrivialPin(pin));
+  return pin;
+}
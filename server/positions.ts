@@ -0,0 +1,33 @@
+import { LEADERSHIP_POSITION_SCOPES, type InsertMemberPosition, type MemberPosition } from "@server/schema";
+
+// Leadership position terms. Chapter positions are held in a team, federation positions in a
+// department. Pure functions, so the officers page and family form use the same rules.
+
+type PositionTerm = Pick<InsertMemberPosition, "position" | "teamId" | "departmentId" | "startDate" | "endDate">;
+
+// What's wrong with a term, or null: it needs the scope its position is held in, and can't end before it starts
+export function getPositionError(term: PositionTerm): string | null {
+  const scope = LEADERSHIP_POSITION_SCOPES[term.position];
+  if (scope === "team" && !term.teamId) {
+    return "Chapter positions need a team";
+  }
+  if (scope === "department" && !term.departmentId) {
+    return "Federation positions need a department";
+  }
+  if (term.endDate && term.endDate < term.startDate) {
+    return "The end date can't be before the start date";
+  }
+  return null;
+}
+
+// The term with only the scope its position uses, so a chapter position never keeps a stray department
+export function withPositionScope<T extends PositionTerm>(term: T): T {
+  return LEADERSHIP_POSITION_SCOPES[term.position] === "team"
+    ? { ...term, departmentId: null }
+    : { ...term, teamId: null };
+}
+
+// Whether the term is running on the given day (YYYY-MM-DD)
+export function isCurrentPosition(term: Pick<MemberPosition, "startDate" | "endDate">, today: string): boolean {
+  return term.startDate <= today && (!term.endDate || term.endDate >= today);
+}
@@ -0,0 +1,69 @@
+import type { AddressMismatchIssue, PostalCodeLookup } from "@server/schema";
+import { normalizePostalCode } from "./addressNormalization";
+import { CA_POSTAL_LETTER_PROVINCES, US_ZIP3_STATE_RANGES } from "./postalCodeData";
+import postalCodeCities from "./postalCodeCities.json";
+
+// ZIP / postal code lookups against the bundled data in server/postalCodeCities.json and
+// server/postalCodeData.ts; no network calls.
+
+// ZIP code → [city, state] and forward sortation area (first three characters) → city
+const US_ZIP_CITIES = new Map(postalCodeCities.us.map(([zip, city, state]): [string, [string, string]] => [zip, [city, state]]));
+const CA_FSA_CITIES = new Map(postalCodeCities.ca.map(([fsa, city]): [string, string] => [fsa, city]));
+
+// City and state (or province) for a US ZIP or Canadian postal code; null when the code isn't valid.
+// The city is null when the code is valid but its city isn't in the bundled data (for example a new
+// ZIP code, or a rural Canadian area).
+export function lookupPostalCode(code: string): PostalCodeLookup | null {
+  const postalCode = normalizePostalCode(code);
+
+  if (/^\d{5}(-\d{4})?$/.test(postalCode)) {
+    const cityAndState = US_ZIP_CITIES.get(postalCode.slice(0, 5));
+    if (cityAndState) {
+      return { postalCode, country: "US", city: cityAndState[0], state: cityAndState[1] };
+    }
+    const zip3 = Number(postalCode.slice(0, 3));
+    const range = US_ZIP3_STATE_RANGES.find(([start, end]) => zip3 >= start && zip3 <= end);
+    if (!range) return null;
+    return { postalCode, country: "US", city: null, state: range[2] };
+  }
+
+  if (/^[A-Z]\d[A-Z] \d[A-Z]\d$/.test(postalCode)) {
+    const province = CA_POSTAL_LETTER_PROVINCES[postalCode[0]];
+    if (!province) return null;
+    return { postalCode, country: "CA", city: CA_FSA_CITIES.get(postalCode.slice(0, 3)) ?? null, state: province };
+  }
+
+  return null;
+}
+
+function cityKey(city: string): string {
+  return city
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\bst\.?\s/g, "saint ")
+    .replace(/[^a-z]/g, "");
+}
+
+// Ways the stored city, state and ZIP disagree; empty when they agree or there's nothing to check
+export function findAddressIssues(address: { city: string; state: string; zipCode: string }): {
+  issues: AddressMismatchIssue[];
+  lookup: PostalCodeLookup | null;
+} {
+  if (!address.zipCode.trim()) return { issues: [], lookup: null };
+
+  const lookup = lookupPostalCode(address.zipCode);
+  if (!lookup) return { issues: ["invalidZip"], lookup: null };
+
+  const issues: AddressMismatchIssue[] = [];
+  // Nunavut shares the X prefix with the Northwest Territories
+  const stateMatches = address.state.trim().toUpperCase() === lookup.state ||
+    (lookup.state === "NT" && address.state.trim().toUpperCase() === "NU");
+  if (!stateMatches) {
+    issues.push("state");
+  }
+  if (lookup.city && cityKey(address.city) !== cityKey(lookup.city)) {
+    issues.push("city");
+  }
+  return { issues, lookup };
+}
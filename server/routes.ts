@@ -2,7 +2,7 @@ import type { Express } from "express";
 import express from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertFamilySchema, insertFamilyMemberSchema, insertStaffSchema, insertAnnouncementSchema, insertEventSchema, insertEventAttendanceSchema, insertDepartmentSchema, insertTeamSchema, insertDonationSchema } from "@server/schema";
+import { insertFamilySchema, insertFamilyMemberSchema, familyMemberUpdateSchema, FAMILY_MERGE_FIELDS, moveFamilyMembersSchema, type InsertFamily, type MoveFamilyMembersResult, type CustomFieldTarget, type CustomFieldValues, familySearchSchema, FAMILY_TEXT_SEARCH_MAX_LIMIT, upcomingCelebrationsSchema, businessDirectorySchema, type DirectoryFamily, insertStaffSchema, insertAnnouncementSchema, insertEventSchema, insertEventAttendanceSchema, insertDepartmentSchema, insertTeamSchema, insertDonationSchema, insertRoleSchema, insertApiTokenSchema, insertCustomFieldSchema, insertTagSchema, tagCountScopeSchema, familyTagsSchema, bulkFamilyTagsSchema, type BulkFamilyTagsResult, vcardVersionSchema, vcardExportSchema, vcardImportSchema, type VCardImportResult, type VCardVersion, type FamilyWithMembers, insertMemberPositionSchema, positionSearchSchema, familyPhotoUpdateSchema, type Family, type CareLog, type Staff, type SafeStaff, type StaffLockout, type StaffSession, type StaffSessionInfo } from "@server/schema";
 import { z } from "zod";
 import multer from "multer";
 import path from "path";
@@ -12,12 +12,54 @@ import {
   ObjectStorageService,
   ObjectNotFoundError,
 } from "./objectStorage";
+import {
+  ObjectAccessGroupType,
+  ObjectPermission,
+  getObjectAclPolicy,
+  setObjectAclPolicy,
+  type ObjectAclPolicy,
+  type ObjectAclRule,
+} from "./objectAcl";
+import type { File } from "@google-cloud/storage";
+import { verifyPin, needsRehash, isTrivialPin, generateTemporaryPin, PIN_PATTERN } from "./pinHash";
+import {
+  loginThrottleConfig,
+  getLockoutWindowStart,
+  getLockedUntil,
+  INVALID_CREDENTIALS_REASON,
+  LOCKED_OUT_REASON,
+} from "./loginThrottle";
+import {
+  DEFAULT_ROLES,
+  requirePermission,
+  hasPermission,
+  getPermissionsForGroup,
+  invalidatePermissionCache,
+} from "./permissions";
+import { recordAudit } from "./audit";
+import { recordFamilyVersion, getFamilyVersionSummaries } from "./familyVersions";
+import { findDuplicateFamilies, matchMergedMembers, buildMergedFamilyData } from "./familyDuplicates";
+import { rankFamiliesByText } from "./familyTextSearch";
+import { planMemberMove, getHouseholdName } from "./households";
+import { parseCustomFieldValues, parseMemberCustomFieldValues, parseCustomFieldText, getCustomFieldDefinitionError } from "./customFields";
+import { withRegistrationDate, recordStatusChange } from "./memberStatus";
+import { getUpcomingCelebrations } from "./celebrations";
+import { getPositionError, withPositionScope } from "./positions";
+import { normalizeAddressParts } from "./addressNormalization";
+import { lookupPostalCode, findAddressIssues } from "./postalCodes";
+import { allowApiToken, generateApiToken, getBearerToken } from "./apiTokens";
+import { createImageRenditions, InvalidImageError, IMAGE_RENDITION_CONTENT_TYPE } from "./images";
+import { familiesToVCards, parseVCards, mergeVCardMembers, getVCardFamilyFields, VCARD_CONTENT_TYPE, type VCardContact } from "./vcard";
 
 // Session type for staff authentication
 declare module "express-session" {
   interface SessionData {
     staffId?: string;
     staffGroup?: string;
+    ipAddress?: string;
+    userAgent?: string;
+    familyNotesUnlockedUntil?: number; // set by /api/auth/verify-pin
+    mustChangePin?: boolean; // signed in with a temporary PIN, cleared by /api/auth/change-pin
   }
 }
 
@@ -26,8 +68,225 @@ declare global {
   namespace Express {
     interface Request {
       session: import('express-session').Session & Partial<import('express-session').SessionData>;
+      careLog?: CareLog; // set by requireCareLogOwnerOrAdmin
+    }
+  }
+}
+
+// Strip the PIN hashes before sending a staff record to the client
+function toSafeStaff({ personalPin, previousPin, ...rest }: Staff): SafeStaff {
+  return rest;
+}
+
+function toSessionInfo(session: StaffSession, currentSid: string): StaffSessionInfo {
+  return {
+    id: session.id,
+    staffId: session.staffId,
+    ipAddress: session.ipAddress,
+    userAgent: session.userAgent,
+    createdAt: session.createdAt,
+    lastSeenAt: session.lastSeenAt,
+    expire: session.expire,
+    current: session.sid === currentSid,
+  };
+}
+
+// Audit log entries for sessions signed out from the session lists
+async function recordSessionRevocations(req: any, sessions: StaffSession[]): Promise<void> {
+  for (const session of sessions) {
+    await recordAudit(req, 'session', session.id, 'delete', toSessionInfo(session, req.sessionID), null);
+  }
+}
+
+// PINs supplied through the API must be 4 raw digits (never a pre-computed hash)
+const pinSchema = z.string().regex(PIN_PATTERN, "PIN must be exactly 4 digits");
+
+// Rules for a PIN a staff member picks themselves; returns the reason it's refused, if any
+async function getNewPinError(staffMember: Staff, newPin: string): Promise<string | null> {
+  const pinResult = pinSchema.safeParse(newPin);
+  if (!pinResult.success) {
+    return pinResult.error.errors[0].message;
+  }
+  if (isTrivialPin(newPin)) {
+    return "PIN is too easy to guess";
+  }
+  if (await verifyPin(newPin, staffMember.personalPin)) {
+    return "New PIN must be different from your current PIN";
+  }
+  if (staffMember.previousPin && await verifyPin(newPin, staffMember.previousPin)) {
+    return "New PIN must be different from your previous PIN";
+  }
+  return null;
+}
+
+// How long a PIN verification keeps confidential family notes unlocked
+const FAMILY_NOTES_UNLOCK_MS = 10 * 60 * 1000; // 10 minutes
+
+// Confidential notes are only sent through GET /api/families/:id/notes
+function withoutFamilyNotes<T extends { familyNotes?: string | null }>({ familyNotes, ...rest }: T) {
+  return rest;
+}
+
+// Splits a CSV line on commas, except inside double quotes
+function splitCsvLine(line: string): string[] {
+  if (!line.includes('"')) {
+    return line.split(',').map(f => f.trim());
+  }
+
+  const result = [];
+  let current = '';
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === ',' && !inQuotes) {
+      result.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  result.push(current.trim());
+  return result;
+}
+
+// Replit Object Storage is only used in production, and only when it's configured
+function isCloudStorageEnabled(): boolean {
+  const hasReplitObjectStorage = process.env.PRIVATE_OBJECT_DIR && process.env.PUBLIC_OBJECT_SEARCH_PATHS;
+  return !!hasReplitObjectStorage && process.env.NODE_ENV === 'production';
+}
+
+// Family pictures are private to the uploader, staff on the family's team and staff with
+// familyPictures.viewAll. Re-applied whenever a family's picture or team changes, since the team is
+// part of the policy; left alone when it's already up to date. Policies only exist on Replit Object
+// Storage: pictures kept on local disk are served from /uploads to anyone, signed in or not.
+async function applyFamilyPictureAcl(
+  picturePath: string | null | undefined,
+  teamId: string | null | undefined,
+  uploaderId: string | null
+): Promise<void> {
+  if (!isCloudStorageEnabled() || !picturePath?.startsWith('/objects/')) {
+    return;
+  }
+
+  try {
+    const objectStorageService = new ObjectStorageService();
+    const objectFile = await objectStorageService.getObjectEntityFile(picturePath);
+    const existingPolicy = await getObjectAclPolicy(objectFile);
+
+    const aclRules: ObjectAclRule[] = [
+      { group: { type: ObjectAccessGroupType.PERMISSION, id: 'familyPictures.viewAll' }, permission: ObjectPermission.READ },
+    ];
+    if (teamId) {
+      aclRules.push({ group: { type: ObjectAccessGroupType.TEAM_MEMBER, id: teamId }, permission: ObjectPermission.READ });
+    }
+
+    // Pictures stored before policies were kept have no known uploader
+    const aclPolicy: ObjectAclPolicy = {
+      owner: existingPolicy?.owner ?? uploaderId ?? "",
+      visibility: "private",
+      aclRules,
+    };
+    if (JSON.stringify(existingPolicy) !== JSON.stringify(aclPolicy)) {
+      await setObjectAclPolicy(objectFile, aclPolicy);
+    }
+  } catch (error) {
+    console.error("Family picture ACL error:", error);
+  }
+}
+
+// Every rendition of every photo in the family's gallery gets the family picture policy
+async function applyFamilyPhotosAcl(family: Pick<Family, 'id' | 'teamId'>, uploaderId: string): Promise<void> {
+  if (!isCloudStorageEnabled()) {
+    return;
+  }
+  const photos = await storage.getFamilyPhotos(family.id);
+  for (const photo of photos) {
+    await applyFamilyPictureAcl(photo.displayPath, family.teamId, uploaderId);
+    if (photo.thumbnailPath !== photo.displayPath) {
+      await applyFamilyPictureAcl(photo.thumbnailPath, family.teamId, uploaderId);
+    }
+  }
+}
+
+// A picture may be given a family's policy only if the caller uploaded it or it's already one of
+// that family's pictures, so the route can't be used to take over some other team's object
+async function canAttachFamilyPicture(
+  picturePath: string,
+  family: Pick<Family, 'id' | 'familyPicture' | 'familyPictureThumbnail'>,
+  staffId: string
+): Promise<boolean> {
+  if (picturePath === family.familyPicture || picturePath === family.familyPictureThumbnail) {
+    return true;
+  }
+  const photos = await storage.getFamilyPhotos(family.id);
+  if (photos.some(photo => photo.displayPath === picturePath || photo.thumbnailPath === picturePath)) {
+    return true;
+  }
+  const objectStorageService = new ObjectStorageService();
+  const objectFile = await objectStorageService.getObjectEntityFile(picturePath);
+  const existingPolicy = await getObjectAclPolicy(objectFile);
+  return existingPolicy?.owner === staffId;
+}
+
+// Stores an image rendition and returns the path it's served from: /objects/... on Replit Object
+// Storage, /uploads/... on local disk. Stored objects are private to the uploader until they're
+// attached to a family (see applyFamilyPictureAcl).
+async function saveImage(image: Buffer, uploaderId: string): Promise<string> {
+  if (!isCloudStorageEnabled()) {
+    const filename = `${nanoid()}-${Date.now()}.jpg`;
+    const uploadDir = path.join(process.cwd(), 'uploads');
+    await fs.promises.mkdir(uploadDir, { recursive: true });
+    await fs.promises.writeFile(path.join(uploadDir, filename), image);
+    return `/uploads/${filename}`;
+  }
+
+  const objectStorageService = new ObjectStorageService();
+  const uploadURL = await objectStorageService.getObjectEntityUploadURL();
+  const uploadResponse = await fetch(uploadURL, {
+    method: 'PUT',
+    body: image,
+    headers: {
+      'Content-Type': IMAGE_RENDITION_CONTENT_TYPE,
+      'Content-Length': image.length.toString(),
+    },
+  });
+  if (!uploadResponse.ok) {
+    const errorText = await uploadResponse.text();
+    console.error('Cloud storage upload failed:', {
+      status: uploadResponse.status,
+      statusText: uploadResponse.statusText,
+      error: errorText
+    });
+    throw new Error(`Cloud storage upload failed: ${uploadResponse.status} ${uploadResponse.statusText}`);
+  }
+
+  // Remove the private object directory prefix to get just the relative path
+  const fullObjectPath = new URL(uploadURL).pathname;
+  const privateObjectDir = objectStorageService.getPrivateObjectDir();
+  let relativePath = fullObjectPath;
+  if (fullObjectPath.startsWith(privateObjectDir)) {
+    relativePath = fullObjectPath.slice(privateObjectDir.length);
+    if (relativePath.startsWith('/')) {
+      relativePath = relativePath.slice(1);
     }
   }
+  const objectPath = `/objects/${relativePath}`;
+  await setObjectAclPolicy(await objectStorageService.getObjectEntityFile(objectPath), {
+    owner: uploaderId,
+    visibility: "private",
+  });
+  return objectPath;
+}
+
+// Uploaded images are never stored as sent: only their display and thumbnail renditions are kept
+async function saveImageRenditions(image: Buffer, uploaderId: string): Promise<{ displayPath: string; thumbnailPath: string }> {
+  const renditions = await createImageRenditions(image);
+  const [displayPath, thumbnailPath] = await Promise.all([
+    saveImage(renditions.display, uploaderId),
+    saveImage(renditions.thumbnail, uploaderId),
+  ]);
+  return { displayPath, thumbnailPath };
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -40,11 +299,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.status(200).json({ status: "healthy", timestamp: new Date().toISOString() });
   });
 
+  // Make sure the built-in roles exist
+  await initializeDefaultRoles();
+
   // Initialize sample staff data
   await initializeSampleData();
 
-  // Configure multer for file uploads (local storage for development)
-  const upload = multer({
+  // Hash any PINs that are still stored as plaintext
+  await migrateStaffPins();
+
+  // Give family pictures stored before they had access policies one; runs in the background
+  // since it touches every picture
+  backfillFamilyPictureAcls();
+
+  // Configure multer for CSV file uploads
+  const csvUpload = multer({
     storage: multer.diskStorage({
       destination: (req, file, cb) => {
         const uploadDir = path.join(process.cwd(), 'uploads');
@@ -60,75 +329,129 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
     }),
     limits: {
-      fileSize: 5 * 1024 * 1024, // 5MB limit
+      fileSize: 10 * 1024 * 1024, // 10MB limit for CSV files
     },
     fileFilter: (req, file, cb) => {
-      const allowedMimes = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
-      if (allowedMimes.includes(file.mimetype)) {
+      const allowedMimes = ['text/csv', 'application/vnd.ms-excel'];
+      const isCSV = allowedMimes.includes(file.mimetype) || file.originalname.endsWith('.csv');
+      if (isCSV) {
         cb(null, true);
       } else {
-        cb(new Error('Invalid file type. Only JPEG, PNG, GIF, and WebP are allowed.'));
+        cb(new Error('Invalid file type. Only CSV files are allowed.'));
       }
     }
   });
 
-  // Configure multer for CSV file uploads
-  const csvUpload = multer({
-    storage: multer.diskStorage({
-      destination: (req, file, cb) => {
-        const uploadDir = path.join(process.cwd(), 'uploads');
-        if (!fs.existsSync(uploadDir)) {
-          fs.mkdirSync(uploadDir, { recursive: true });
-        }
-        cb(null, uploadDir);
-      },
-      filename: (req, file, cb) => {
-        const extension = path.extname(file.originalname);
-        const filename = `${nanoid()}-${Date.now()}${extension}`;
-        cb(null, filename);
-      }
-    }),
+  const vcardUpload = multer({
+    storage: multer.memoryStorage(),
     limits: {
-      fileSize: 10 * 1024 * 1024, // 10MB limit for CSV files
+      fileSize: 5 * 1024 * 1024, // 5MB limit for vCard files
     },
     fileFilter: (req, file, cb) => {
-      const allowedMimes = ['text/csv', 'application/vnd.ms-excel'];
-      const isCSV = allowedMimes.includes(file.mimetype) || file.originalname.endsWith('.csv');
-      if (isCSV) {
+      const allowedMimes = ['text/vcard', 'text/x-vcard', 'text/directory'];
+      const isVCard = allowedMimes.includes(file.mimetype) || /\.(vcf|vcard)$/i.test(file.originalname);
+      if (isVCard) {
         cb(null, true);
       } else {
-        cb(new Error('Invalid file type. Only CSV files are allowed.'));
+        cb(new Error('Invalid file type. Only vCard (.vcf) files are allowed.'));
       }
     }
   });
 
   // Auth middleware
-  const requireAuth = (req: any, res: any, next: any) => {
+  const requireSignedIn = (req: any, res: any, next: any) => {
     if (!req.session?.staffId) {
       return res.status(401).json({ message: "Unauthorized" });
     }
     next();
   };
 
-  const requireAdminAccess = (req: any, res: any, next: any) => {
-    if (!req.session?.staffGroup || !['ADM', 'MGM'].includes(req.session.staffGroup)) {
-      return res.status(403).json({ message: "Admin access required" });
+  // Staff signed in with a temporary PIN can only reach the routes that use
+  // requireSignedIn directly until they've set their own PIN. Bearer tokens are
+  // only accepted on routes that opt in with allowApiToken(scope).
+  const requireAuth = (req: any, res: any, next: any) => {
+    if (req.apiToken) {
+      return next();
     }
-    next();
+    if (getBearerToken(req)) {
+      return res.status(403).json({ message: "API tokens can't be used for this endpoint" });
+    }
+    requireSignedIn(req, res, () => {
+      if (req.session.mustChangePin) {
+        return res.status(403).json({ message: "PIN change required", mustChangePin: true });
+      }
+      next();
+    });
   };
 
-  const requireSuperAdminAccess = (req: any, res: any, next: any) => {
-    if (!req.session?.staffGroup || req.session.staffGroup !== 'ADM') {
-      return res.status(403).json({ message: "Super admin access required" });
-    }
-    next();
+  // Returns when the next login attempt is allowed for this nickname / IP, or null if not locked.
+  // Nicknames no staff member has are counted on their own, so a lockout doesn't reveal which exist.
+  const getLoginLockedUntil = async (staffMember: Staff | undefined, ipAddress: string, nickname?: string): Promise<Date | null> => {
+    const windowStart = getLockoutWindowStart();
+    const candidates: Date[] = [];
+
+    // Failures before an admin unlock don't count, including those that locked the IP
+    const since = staffMember?.loginLockResetAt && staffMember.loginLockResetAt > windowStart
+      ? staffMember.loginLockResetAt
+      : windowStart;
+
+    const ipAttempts = await storage.getFailedLoginAttemptsByIp(ipAddress, since, INVALID_CREDENTIALS_REASON);
+    const ipLockedUntil = getLockedUntil(ipAttempts, loginThrottleConfig.ipThreshold);
+    if (ipLockedUntil) candidates.push(ipLockedUntil);
+
+    const nicknameAttempts = staffMember
+      ? await storage.getFailedLoginAttempts(staffMember.id, since, INVALID_CREDENTIALS_REASON)
+      : nickname
+        ? await storage.getFailedLoginAttemptsByNickname(nickname, windowStart, INVALID_CREDENTIALS_REASON)
+        : null;
+    const nicknameLockedUntil = nicknameAttempts && getLockedUntil(nicknameAttempts, loginThrottleConfig.accountThreshold);
+    if (nicknameLockedUntil) candidates.push(nicknameLockedUntil);
+
+    if (candidates.length === 0) return null;
+    return new Date(Math.max(...candidates.map(d => d.getTime())));
+  };
+
+  const sendLockedOut = (res: any, lockedUntil: Date) => {
+    const retryAfterSeconds = Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 1000));
+    res.set('Retry-After', retryAfterSeconds.toString());
+    return res.status(429).json({
+      message: "Too many failed login attempts. Please try again later.",
+      retryAfter: lockedUntil.toISOString(),
+      retryAfterSeconds,
+    });
   };
 
-  const requireManagementAccess = (req: any, res: any, next: any) => {
-    if (!req.session?.staffGroup || !['ADM', 'MGM'].includes(req.session.staffGroup)) {
-      return res.status(403).json({ message: "Management access required" });
+  // Checks a signed-in staff member's PIN again (family notes unlock, PIN change). Failures are logged and
+  // counted like failed logins, so these checks share the login lockout. Returns null after sending the 429.
+  const checkStaffPin = async (req: any, res: any, staffMember: Staff, pin: string): Promise<boolean | null> => {
+    const ipAddress = req.ip || req.connection.remoteAddress || 'unknown';
+    const logFailure = (failureReason: string) => storage.createStaffLoginLog({
+      staffId: staffMember.id,
+      loginTime: new Date(),
+      ipAddress,
+      userAgent: req.get('User-Agent') || 'unknown',
+      success: false,
+      failureReason,
+    });
+
+    const lockedUntil = await getLoginLockedUntil(staffMember, ipAddress);
+    if (lockedUntil) {
+      await logFailure(LOCKED_OUT_REASON);
+      sendLockedOut(res, lockedUntil);
+      return null;
     }
-    next();
+
+    if (await verifyPin(pin, staffMember.personalPin)) {
+      return true;
+    }
+
+    await logFailure(INVALID_CREDENTIALS_REASON);
+    const newLockedUntil = await getLoginLockedUntil(staffMember, ipAddress);
+    if (newLockedUntil) {
+      sendLockedOut(res, newLockedUntil);
+      return null;
+    }
+    return false;
   };
 
   // Auth routes
@@ -162,18 +485,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const staff = await storage.getStaffByNickname(nickname);
+      // Failures are logged whether or not the nickname exists, and get the same responses
+      const logFailure = (failureReason: string) => storage.createStaffLoginLog({
+        staffId: staff?.id ?? null,
+        nickname: staff ? null : String(nickname),
+        loginTime,
+        ipAddress,
+        userAgent,
+        success: false,
+        failureReason,
+      });
+
+      // Refuse to check the PIN at all while the nickname or IP is locked out
+      const lockedUntil = await getLoginLockedUntil(staff, ipAddress, String(nickname));
+      if (lockedUntil) {
+        await logFailure(LOCKED_OUT_REASON);
+        return sendLockedOut(res, lockedUntil);
+      }
+
+      const pinMatches = staff ? await verifyPin(String(pin), staff.personalPin) : false;
       
-      if (!staff || staff.personalPin !== pin) {
-        // Log failed login attempt
-        if (staff) {
-          await storage.createStaffLoginLog({
-            staffId: staff.id,
-            loginTime,
-            ipAddress,
-            userAgent,
-            success: false,
-            failureReason: 'Invalid credentials',
-          });
+      if (!staff || !pinMatches) {
+        await logFailure(INVALID_CREDENTIALS_REASON);
+
+        // This failure may have tipped the nickname or IP over the threshold
+        const newLockedUntil = await getLoginLockedUntil(staff, ipAddress, String(nickname));
+        if (newLockedUntil) {
+          return sendLockedOut(res, newLockedUntil);
         }
         
         return res.status(401).json({ message: "Invalid credentials" });
@@ -188,17 +526,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
         success: true,
       });
 
-      // Update last login timestamp
-      await storage.updateStaff(staff.id, { lastLogin: loginTime });
+      // Update last login timestamp (and upgrade legacy plaintext or outdated PIN hashes)
+      await storage.updateStaff(staff.id, {
+        lastLogin: loginTime,
+        ...(needsRehash(staff.personalPin) && { personalPin: String(pin) })
+      });
 
       req.session.staffId = staff.id;
       req.session.staffGroup = staff.group;
+      req.session.ipAddress = ipAddress;
+      req.session.userAgent = userAgent.substring(0, 500);
+      req.session.mustChangePin = !!staff.mustChangePin;
 
       res.json({
         id: staff.id,
         fullName: staff.fullName,
         nickName: staff.nickName,
-        group: staff.group
+        group: staff.group,
+        mustChangePin: !!staff.mustChangePin,
+        permissions: await getPermissionsForGroup(staff.group)
       });
     } catch (error) {
       console.error("Login error:", error);
@@ -233,7 +579,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
-  app.get("/api/auth/me", requireAuth, async (req, res) => {
+  // Session routes (staff can list and revoke their own sessions)
+  app.get("/api/auth/sessions", requireAuth, async (req, res) => {
+    try {
+      const sessions = await storage.getStaffSessions(req.session.staffId!);
+      res.json(sessions.map(s => toSessionInfo(s, req.sessionID)));
+    } catch (error) {
+      console.error("Get sessions error:", error);
+      res.status(500).json({ message: "Failed to get sessions" });
+    }
+  });
+
+  // Revoke all of your sessions except the current one
+  app.delete("/api/auth/sessions", requireAuth, async (req, res) => {
+    try {
+      const revoked = await storage.deleteStaffSessions(req.session.staffId!, req.sessionID);
+      await recordSessionRevocations(req, revoked);
+      res.json({ message: "Other sessions revoked", revoked: revoked.length });
+    } catch (error) {
+      console.error("Revoke sessions error:", error);
+      res.status(500).json({ message: "Failed to revoke sessions" });
+    }
+  });
+
+  app.delete("/api/auth/sessions/:id", requireAuth, async (req, res) => {
+    try {
+      const session = await storage.getStaffSession(req.params.id);
+      if (!session || session.staffId !== req.session.staffId) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      if (session.sid === req.sessionID) {
+        // Revoking the current session is a logout; it's audited first, while the session still says who's signed in
+        await recordSessionRevocations(req, [session]);
+        return req.session.destroy((err) => {
+          if (err) {
+            console.error('Session destroy error:', err);
+            return res.status(500).json({ message: "Failed to revoke session" });
+          }
+          res.json({ message: "Session revoked" });
+        });
+      }
+
+      await storage.deleteStaffSession(session.id);
+      await recordSessionRevocations(req, [session]);
+      res.json({ message: "Session revoked" });
+    } catch (error) {
+      console.error("Revoke session error:", error);
+      res.status(500).json({ message: "Failed to revoke session" });
+    }
+  });
+
+  app.get("/api/auth/me", requireSignedIn, async (req, res) => {
     try {
       const staff = await storage.getStaff(req.session.staffId!);
       if (!staff) {
@@ -245,7 +642,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         fullName: staff.fullName,
         nickName: staff.nickName,
         group: staff.group,
-        email: staff.email
+        email: staff.email,
+        mustChangePin: !!staff.mustChangePin,
+        permissions: await getPermissionsForGroup(staff.group)
       });
     } catch (error) {
       console.error("Get staff error:", error);
@@ -256,8 +655,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // User profile update route (users can update their own profile)
   app.put("/api/auth/profile", requireAuth, async (req, res) => {
     try {
-      console.log("Profile update request body:", req.body);
-      
       // Users can only update specific fields of their own profile
       const allowedFields = {
         fullName: req.body.fullName,
@@ -265,8 +662,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         email: req.body.email,
         personalPin: req.body.personalPin
       };
-      
-      console.log("Allowed fields:", allowedFields);
 
       // Remove undefined values (but allow empty strings for email)
       const updateData = Object.fromEntries(
@@ -278,17 +673,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
         })
       );
       
-      console.log("Final update data:", updateData);
-
       if (Object.keys(updateData).length === 0) {
         return res.status(400).json({ message: "No valid fields to update" });
       }
 
+      const existingStaff = await storage.getStaff(req.session.staffId!);
+      if (!existingStaff) {
+        return res.status(404).json({ message: "Staff not found" });
+      }
+
+      if (updateData.personalPin !== undefined) {
+        const pinError = await getNewPinError(existingStaff, String(updateData.personalPin));
+        if (pinError) {
+          return res.status(400).json({ message: pinError });
+        }
+        updateData.previousPin = existingStaff.personalPin;
+      }
+
       const updatedStaff = await storage.updateStaff(req.session.staffId!, updateData);
-      console.log("Updated staff result:", updatedStaff);
       if (!updatedStaff) {
         return res.status(404).json({ message: "Staff not found" });
       }
+      await recordAudit(req, 'staff', updatedStaff.id, 'update', existingStaff, updatedStaff);
 
       // Return updated profile (excluding sensitive data)
       res.json({
@@ -307,6 +713,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Staff set their own PIN here, which is the only way out of a temporary PIN
+  app.post("/api/auth/change-pin", requireSignedIn, async (req, res) => {
+    try {
+      const { currentPin, newPin } = req.body;
+
+      if (!currentPin || !newPin) {
+        return res.status(400).json({ message: "Current PIN and new PIN are required" });
+      }
+
+      const existingStaff = await storage.getStaff(req.session.staffId!);
+      if (!existingStaff) {
+        return res.status(404).json({ message: "Staff not found" });
+      }
+
+      const pinMatches = await checkStaffPin(req, res, existingStaff, String(currentPin));
+      if (pinMatches === null) return;
+      if (!pinMatches) {
+        return res.status(400).json({ message: "Current PIN is incorrect" });
+      }
+
+      const pinError = await getNewPinError(existingStaff, String(newPin));
+      if (pinError) {
+        return res.status(400).json({ message: pinError });
+      }
+
+      const updatedStaff = await storage.updateStaff(existingStaff.id, {
+        personalPin: String(newPin),
+        previousPin: existingStaff.personalPin,
+        mustChangePin: false,
+      });
+      if (!updatedStaff) {
+        return res.status(404).json({ message: "Staff not found" });
+      }
+      await recordAudit(req, 'staff', updatedStaff.id, 'update', existingStaff, updatedStaff);
+
+      req.session.mustChangePin = false;
+      res.json({ message: "PIN changed" });
+    } catch (error) {
+      console.error("Change PIN error:", error);
+      res.status(500).json({ message: "Failed to change PIN" });
+    }
+  });
+
   // PIN verification route for viewing secure family notes
   app.post("/api/auth/verify-pin", requireAuth, async (req, res) => {
     try {
@@ -323,8 +772,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Verify the PIN matches the staff's PIN
-      if (staff.personalPin === pin) {
-        res.json({ success: true });
+      const pinMatches = await checkStaffPin(req, res, staff, String(pin));
+      if (pinMatches === null) return;
+      if (pinMatches) {
+        // A successful verification unlocks family notes for this session only
+        const unlockedUntil = Date.now() + FAMILY_NOTES_UNLOCK_MS;
+        req.session.familyNotesUnlockedUntil = unlockedUntil;
+        res.json({ success: true, unlockedUntil: new Date(unlockedUntil) });
       } else {
         res.json({ success: false, message: "Invalid PIN" });
       }
@@ -350,8 +804,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Staff management routes (ADM only)
-  app.get("/api/staff/manage", requireAuth, requireSuperAdminAccess, async (req, res) => {
+  // Staff management routes
+  app.get("/api/staff/manage", requireAuth, requirePermission('staff.manage'), async (req, res) => {
     try {
       const allStaff = await storage.getAllStaffForManagement();
       res.json(allStaff);
@@ -361,11 +815,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/staff/manage", requireAuth, requireSuperAdminAccess, async (req, res) => {
+  app.post("/api/staff/manage", requireAuth, requirePermission('staff.manage'), async (req, res) => {
     try {
-      const staffData = insertStaffSchema.parse(req.body);
-      const newStaff = await storage.createStaff(staffData);
-      res.json(newStaff);
+      // New staff always start with a temporary PIN they must change on first login
+      const staffData = insertStaffSchema.omit({ personalPin: true }).parse(req.body);
+      if (!(await storage.getRoleByCode(staffData.group))) {
+        return res.status(400).json({ message: "Unknown role" });
+      }
+      const temporaryPin = generateTemporaryPin();
+      const newStaff = await storage.createStaff({ ...staffData, personalPin: temporaryPin, mustChangePin: true });
+      await recordAudit(req, 'staff', newStaff.id, 'create', null, newStaff);
+      res.json({ ...toSafeStaff(newStaff), temporaryPin });
     } catch (error) {
       console.error("Create staff error:", error);
       if (error instanceof z.ZodError) {
@@ -378,38 +838,573 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/staff/manage/:id", requireAuth, requireSuperAdminAccess, async (req, res) => {
+  app.put("/api/staff/manage/:id", requireAuth, requirePermission('staff.manage'), async (req, res) => {
+    try {
+      // PINs can't be set here; use /api/staff/manage/:id/temporary-pin instead
+      const staffData = insertStaffSchema.omit({ personalPin: true }).partial().parse(req.body);
+      if (staffData.group && !(await storage.getRoleByCode(staffData.group))) {
+        return res.status(400).json({ message: "Unknown role" });
+      }
+      const existingStaff = await storage.getStaff(req.params.id);
+      const updatedStaff = await storage.updateStaff(req.params.id, staffData);
+      if (!updatedStaff) {
+        return res.status(404).json({ message: "Staff not found" });
+      }
+      await recordAudit(req, 'staff', updatedStaff.id, 'update', existingStaff, updatedStaff);
+
+      // Deactivated staff are signed out everywhere
+      if (staffData.isActive === false) {
+        await storage.deleteStaffSessions(updatedStaff.id);
+      }
+
+      res.json(toSafeStaff(updatedStaff));
+    } catch (error) {
+      console.error("Update staff error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error.message?.includes('unique')) {
+        return res.status(400).json({ message: "Nickname already exists" });
+      }
+      res.status(500).json({ message: "Failed to update staff" });
+    }
+  });
+
+  app.delete("/api/staff/manage/:id", requireAuth, requirePermission('staff.manage'), async (req, res) => {
+    try {
+      // Don't allow deleting yourself
+      if (req.params.id === req.session.staffId) {
+        return res.status(400).json({ message: "Cannot delete yourself" });
+      }
+      
+      const existingStaff = await storage.getStaff(req.params.id);
+      await storage.deleteStaff(req.params.id);
+      await storage.deleteStaffSessions(req.params.id);
+      if (existingStaff) {
+        await recordAudit(req, 'staff', existingStaff.id, 'delete', existingStaff, null);
+      }
+      res.json({ message: "Staff deleted successfully" });
+    } catch (error) {
+      console.error("Delete staff error:", error);
+      res.status(500).json({ message: "Failed to delete staff" });
+    }
+  });
+
+  // Staff session management
+  app.get("/api/staff/manage/:id/sessions", requireAuth, requirePermission('staff.manage'), async (req, res) => {
+    try {
+      const sessions = await storage.getStaffSessions(req.params.id);
+      res.json(sessions.map(s => toSessionInfo(s, req.sessionID)));
+    } catch (error) {
+      console.error("Get staff sessions error:", error);
+      res.status(500).json({ message: "Failed to get staff sessions" });
+    }
+  });
+
+  app.delete("/api/staff/manage/:id/sessions", requireAuth, requirePermission('staff.manage'), async (req, res) => {
+    try {
+      // Never sign the admin out of the session they're using right now
+      const revoked = await storage.deleteStaffSessions(req.params.id, req.sessionID);
+      await recordSessionRevocations(req, revoked);
+      res.json({ message: "Staff sessions revoked", revoked: revoked.length });
+    } catch (error) {
+      console.error("Revoke staff sessions error:", error);
+      res.status(500).json({ message: "Failed to revoke staff sessions" });
+    }
+  });
+
+  // Account lockout routes
+  app.get("/api/staff/manage/lockouts", requireAuth, requirePermission('staff.manage'), async (req, res) => {
+    try {
+      const [attempts, allStaff] = await Promise.all([
+        storage.getFailedLoginAttemptsByStaff(getLockoutWindowStart(), INVALID_CREDENTIALS_REASON),
+        storage.getAllStaffForManagement(),
+      ]);
+
+      const lockouts: StaffLockout[] = [];
+      for (const attempt of attempts) {
+        const lockedUntil = getLockedUntil(attempt, loginThrottleConfig.accountThreshold);
+        const staffMember = allStaff.find(s => s.id === attempt.staffId);
+        if (lockedUntil && staffMember) {
+          lockouts.push({
+            staffId: staffMember.id,
+            fullName: staffMember.fullName,
+            nickName: staffMember.nickName,
+            failedAttempts: attempt.count,
+            lockedUntil,
+          });
+        }
+      }
+
+      res.json(lockouts);
+    } catch (error) {
+      console.error("Get staff lockouts error:", error);
+      res.status(500).json({ message: "Failed to get locked accounts" });
+    }
+  });
+
+  // Lifts both the account lock and, for this staff member only, any lock on the IPs they sign in from
+  app.post("/api/staff/manage/:id/unlock", requireAuth, requirePermission('staff.manage'), async (req, res) => {
+    try {
+      const existingStaff = await storage.getStaff(req.params.id);
+      const updatedStaff = await storage.updateStaff(req.params.id, { loginLockResetAt: new Date() });
+      if (!updatedStaff) {
+        return res.status(404).json({ message: "Staff not found" });
+      }
+      await recordAudit(req, 'staff', updatedStaff.id, 'update', existingStaff, updatedStaff);
+      res.json({ message: "Staff account unlocked" });
+    } catch (error) {
+      console.error("Unlock staff error:", error);
+      res.status(500).json({ message: "Failed to unlock staff account" });
+    }
+  });
+
+  // Issue a one-time PIN for new or locked-out staff. It also clears any lockout
+  // and signs the staff member out everywhere until they've set their own PIN.
+  app.post("/api/staff/manage/:id/temporary-pin", requireAuth, requirePermission('staff.manage'), async (req, res) => {
+    try {
+      const existingStaff = await storage.getStaff(req.params.id);
+      if (!existingStaff) {
+        return res.status(404).json({ message: "Staff not found" });
+      }
+
+      const temporaryPin = generateTemporaryPin();
+      const updatedStaff = await storage.updateStaff(existingStaff.id, {
+        personalPin: temporaryPin,
+        // Issuing a second temporary PIN must not forget the staff member's own previous PIN
+        previousPin: existingStaff.mustChangePin ? existingStaff.previousPin : existingStaff.personalPin,
+        mustChangePin: true,
+        loginLockResetAt: new Date(),
+      });
+      if (!updatedStaff) {
+        return res.status(404).json({ message: "Staff not found" });
+      }
+      await storage.deleteStaffSessions(updatedStaff.id, req.sessionID);
+      await recordAudit(req, 'staff', updatedStaff.id, 'update', existingStaff, updatedStaff);
+
+      res.json({ temporaryPin });
+    } catch (error) {
+      console.error("Issue temporary PIN error:", error);
+      res.status(500).json({ message: "Failed to issue temporary PIN" });
+    }
+  });
+
+  // Role routes
+  app.get("/api/roles", requireAuth, requirePermission('roles.manage', 'staff.manage'), async (req, res) => {
+    try {
+      const allRoles = await storage.getRoles();
+      res.json(allRoles);
+    } catch (error) {
+      console.error("Get roles error:", error);
+      res.status(500).json({ message: "Failed to get roles" });
+    }
+  });
+
+  app.post("/api/roles", requireAuth, requirePermission('roles.manage'), async (req, res) => {
+    try {
+      const roleData = insertRoleSchema.parse(req.body);
+      const role = await storage.createRole(roleData);
+      invalidatePermissionCache();
+      await recordAudit(req, 'role', role.id, 'create', null, role);
+      res.json(role);
+    } catch (error: any) {
+      console.error("Create role error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error.message?.includes('unique')) {
+        return res.status(400).json({ message: "Role code already exists" });
+      }
+      res.status(500).json({ message: "Failed to create role" });
+    }
+  });
+
+  app.put("/api/roles/:id", requireAuth, requirePermission('roles.manage'), async (req, res) => {
+    try {
+      const existingRole = await storage.getRole(req.params.id);
+      if (!existingRole) {
+        return res.status(404).json({ message: "Role not found" });
+      }
+
+      // The role code is referenced by staff.group, so it can't be renamed
+      const roleData = insertRoleSchema.omit({ code: true }).partial().parse(req.body);
+
+      // Don't let admins remove their own ability to manage roles
+      const currentStaff = await storage.getStaff(req.session.staffId!);
+      if (
+        currentStaff?.group === existingRole.code &&
+        roleData.permissions &&
+        !roleData.permissions.includes('roles.manage')
+      ) {
+        return res.status(400).json({ message: "You cannot remove roles.manage from your own role" });
+      }
+
+      const role = await storage.updateRole(req.params.id, roleData);
+      invalidatePermissionCache();
+      await recordAudit(req, 'role', existingRole.id, 'update', existingRole, role);
+      res.json(role);
+    } catch (error) {
+      console.error("Update role error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update role" });
+    }
+  });
+
+  app.delete("/api/roles/:id", requireAuth, requirePermission('roles.manage'), async (req, res) => {
+    try {
+      const role = await storage.getRole(req.params.id);
+      if (!role) {
+        return res.status(404).json({ message: "Role not found" });
+      }
+      if (role.isSystem) {
+        return res.status(400).json({ message: "Built-in roles cannot be deleted" });
+      }
+      if (await storage.countStaffInRole(role.code) > 0) {
+        return res.status(400).json({ message: "Cannot delete a role that is assigned to staff" });
+      }
+
+      await storage.deleteRole(role.id);
+      invalidatePermissionCache();
+      await recordAudit(req, 'role', role.id, 'delete', role, null);
+      res.json({ message: "Role deleted successfully" });
+    } catch (error) {
+      console.error("Delete role error:", error);
+      res.status(500).json({ message: "Failed to delete role" });
+    }
+  });
+
+  // Custom field routes; every signed-in user reads the definitions to render forms and filters
+  app.get("/api/custom-fields", requireAuth, async (req, res) => {
+    try {
+      const fields = await storage.getCustomFields();
+      res.json(fields);
+    } catch (error) {
+      console.error("Get custom fields error:", error);
+      res.status(500).json({ message: "Failed to get custom fields" });
+    }
+  });
+
+  app.post("/api/custom-fields", requireAuth, requirePermission('customFields.manage'), async (req, res) => {
+    try {
+      const fieldData = insertCustomFieldSchema.parse(req.body);
+      const definitionError = getCustomFieldDefinitionError({ id: '', ...fieldData }, await storage.getCustomFields());
+      if (definitionError) {
+        return res.status(400).json({ message: definitionError });
+      }
+
+      const field = await storage.createCustomField(fieldData);
+      await recordAudit(req, 'customField', field.id, 'create', null, field);
+      res.json(field);
+    } catch (error) {
+      console.error("Create custom field error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create custom field" });
+    }
+  });
+
+  app.put("/api/custom-fields/:id", requireAuth, requirePermission('customFields.manage'), async (req, res) => {
+    try {
+      const existingField = await storage.getCustomField(req.params.id);
+      if (!existingField) {
+        return res.status(404).json({ message: "Custom field not found" });
+      }
+
+      // Stored values are shaped by the type and target, so those can't be changed
+      const fieldData = insertCustomFieldSchema.omit({ type: true, target: true }).partial().parse(req.body);
+      const definitionError = getCustomFieldDefinitionError({ ...existingField, ...fieldData }, await storage.getCustomFields());
+      if (definitionError) {
+        return res.status(400).json({ message: definitionError });
+      }
+
+      const field = await storage.updateCustomField(existingField.id, fieldData);
+      await recordAudit(req, 'customField', existingField.id, 'update', existingField, field);
+      res.json(field);
+    } catch (error) {
+      console.error("Update custom field error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update custom field" });
+    }
+  });
+
+  app.delete("/api/custom-fields/:id", requireAuth, requirePermission('customFields.manage'), async (req, res) => {
+    try {
+      const field = await storage.getCustomField(req.params.id);
+      if (!field) {
+        return res.status(404).json({ message: "Custom field not found" });
+      }
+
+      await storage.deleteCustomField(field.id);
+      await recordAudit(req, 'customField', field.id, 'delete', field, null);
+      res.json({ message: "Custom field deleted successfully" });
+    } catch (error) {
+      console.error("Delete custom field error:", error);
+      res.status(500).json({ message: "Failed to delete custom field" });
+    }
+  });
+
+  // Tag routes: staff with families.update put tags on families, tags.manage defines them
+  app.get("/api/tags", requireAuth, async (req, res) => {
+    try {
+      const scope = tagCountScopeSchema.parse(req.query);
+      const tagList = await storage.getTags(scope);
+      res.json(tagList);
+    } catch (error) {
+      console.error("Get tags error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to get tags" });
+    }
+  });
+
+  // Names are shown side by side in filters, so they must be unique regardless of case
+  const findTagNamedLike = async (name: string, exceptId?: string) => {
+    const tagList = await storage.getTags();
+    return tagList.find(tag => tag.id !== exceptId && tag.name.toLowerCase() === name.toLowerCase());
+  };
+
+  app.post("/api/tags", requireAuth, requirePermission('tags.manage'), async (req, res) => {
+    try {
+      const tagData = insertTagSchema.parse(req.body);
+      if (await findTagNamedLike(tagData.name)) {
+        return res.status(400).json({ message: `A tag named "${tagData.name}" already exists` });
+      }
+
+      const tag = await storage.createTag(tagData);
+      await recordAudit(req, 'tag', tag.id, 'create', null, tag);
+      res.json(tag);
+    } catch (error) {
+      console.error("Create tag error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create tag" });
+    }
+  });
+
+  app.put("/api/tags/:id", requireAuth, requirePermission('tags.manage'), async (req, res) => {
+    try {
+      const existingTag = await storage.getTag(req.params.id);
+      if (!existingTag) {
+        return res.status(404).json({ message: "Tag not found" });
+      }
+
+      const tagData = insertTagSchema.partial().parse(req.body);
+      if (tagData.name && await findTagNamedLike(tagData.name, existingTag.id)) {
+        return res.status(400).json({ message: `A tag named "${tagData.name}" already exists` });
+      }
+
+      const tag = await storage.updateTag(existingTag.id, tagData);
+      await recordAudit(req, 'tag', existingTag.id, 'update', existingTag, tag);
+      res.json(tag);
+    } catch (error) {
+      console.error("Update tag error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update tag" });
+    }
+  });
+
+  app.delete("/api/tags/:id", requireAuth, requirePermission('tags.manage'), async (req, res) => {
+    try {
+      const tag = await storage.getTag(req.params.id);
+      if (!tag) {
+        return res.status(404).json({ message: "Tag not found" });
+      }
+
+      await storage.deleteTag(tag.id);
+      await recordAudit(req, 'tag', tag.id, 'delete', tag, null);
+      res.json({ message: "Tag deleted successfully" });
+    } catch (error) {
+      console.error("Delete tag error:", error);
+      res.status(500).json({ message: "Failed to delete tag" });
+    }
+  });
+
+  // Add or remove one tag on many families at once, from the dashboard selection
+  app.post("/api/families/tags/bulk", requireAuth, requirePermission('families.update'), async (req, res) => {
+    try {
+      const { familyIds, tagId, action } = bulkFamilyTagsSchema.parse(req.body);
+      if (!(await storage.getTag(tagId))) {
+        return res.status(404).json({ message: "Tag not found" });
+      }
+
+      const updatedFamilies = await storage.bulkUpdateFamilyTags(familyIds, tagId, action);
+      for (const family of updatedFamilies) {
+        const before = action === 'add'
+          ? family.tagIds.filter(id => id !== tagId)
+          : [...family.tagIds, tagId];
+        await recordAudit(req, 'family', family.id, 'update', { tagIds: before }, { tagIds: family.tagIds });
+      }
+      const result: BulkFamilyTagsResult = { updated: updatedFamilies.length };
+      res.json(result);
+    } catch (error) {
+      console.error("Bulk update family tags error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update family tags" });
+    }
+  });
+
+  // Leadership position routes: a member's history, or a chapter's or federation's officers
+  app.get("/api/positions", requireAuth, async (req, res) => {
+    try {
+      const filters = positionSearchSchema.parse(req.query);
+      const positions = await storage.getPositions(filters);
+      res.json(positions);
+    } catch (error) {
+      console.error("Get positions error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to get positions" });
+    }
+  });
+
+  app.post("/api/positions", requireAuth, requirePermission('positions.manage'), async (req, res) => {
+    try {
+      const positionData = withPositionScope(insertMemberPositionSchema.parse(req.body));
+      const positionError = getPositionError(positionData);
+      if (positionError) {
+        return res.status(400).json({ message: positionError });
+      }
+      if (!(await storage.getFamilyMember(positionData.memberId))) {
+        return res.status(404).json({ message: "Family member not found" });
+      }
+
+      const position = await storage.createPosition({ ...positionData, createdBy: req.session.staffId });
+      await recordAudit(req, 'position', position.id, 'create', null, position);
+      res.json(position);
+    } catch (error) {
+      console.error("Create position error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create position" });
+    }
+  });
+
+  app.put("/api/positions/:id", requireAuth, requirePermission('positions.manage'), async (req, res) => {
+    try {
+      const existingPosition = await storage.getPosition(req.params.id);
+      if (!existingPosition) {
+        return res.status(404).json({ message: "Position not found" });
+      }
+
+      // A term stays with its member; ending it is an update with an end date
+      const updates = insertMemberPositionSchema.omit({ memberId: true }).partial().parse(req.body);
+      const positionData = withPositionScope({ ...existingPosition, ...updates });
+      const positionError = getPositionError(positionData);
+      if (positionError) {
+        return res.status(400).json({ message: positionError });
+      }
+
+      const { id, memberId, createdBy, createdAt, updatedAt, ...changes } = positionData;
+      const position = await storage.updatePosition(existingPosition.id, changes);
+      await recordAudit(req, 'position', existingPosition.id, 'update', existingPosition, position);
+      res.json(position);
+    } catch (error) {
+      console.error("Update position error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update position" });
+    }
+  });
+
+  // For terms recorded by mistake; terms that ended are kept as history by giving them an end date
+  app.delete("/api/positions/:id", requireAuth, requirePermission('positions.manage'), async (req, res) => {
+    try {
+      const position = await storage.getPosition(req.params.id);
+      if (!position) {
+        return res.status(404).json({ message: "Position not found" });
+      }
+
+      await storage.deletePosition(position.id);
+      await recordAudit(req, 'position', position.id, 'delete', position, null);
+      res.json({ message: "Position deleted successfully" });
+    } catch (error) {
+      console.error("Delete position error:", error);
+      res.status(500).json({ message: "Failed to delete position" });
+    }
+  });
+
+  // Audit log routes
+  app.get("/api/audit-log", requireAuth, requirePermission('audit.view'), async (req, res) => {
+    try {
+      const filters = {
+        entityType: req.query.entityType as string,
+        entityId: req.query.entityId as string,
+        staffId: req.query.staffId as string,
+        dateFrom: req.query.dateFrom as string,
+        dateTo: req.query.dateTo as string,
+        limit: req.query.limit ? Math.min(parseInt(req.query.limit as string) || 200, 1000) : undefined,
+      };
+
+      const entries = await storage.getAuditLogEntries(filters);
+      res.json(entries);
+    } catch (error) {
+      console.error("Get audit log error:", error);
+      res.status(500).json({ message: "Failed to get audit log" });
+    }
+  });
+
+  // API token routes (the token itself is only returned once, on creation)
+  app.get("/api/api-tokens", requireAuth, requirePermission('apiTokens.manage'), async (req, res) => {
     try {
-      const staffData = insertStaffSchema.partial().parse(req.body);
-      const updatedStaff = await storage.updateStaff(req.params.id, staffData);
-      if (!updatedStaff) {
-        return res.status(404).json({ message: "Staff not found" });
-      }
-      res.json(updatedStaff);
+      const tokens = await storage.getApiTokens();
+      res.json(tokens);
     } catch (error) {
-      console.error("Update staff error:", error);
+      console.error("Get API tokens error:", error);
+      res.status(500).json({ message: "Failed to get API tokens" });
+    }
+  });
+
+  app.post("/api/api-tokens", requireAuth, requirePermission('apiTokens.manage'), async (req, res) => {
+    try {
+      const tokenData = insertApiTokenSchema.parse(req.body);
+      const { token, tokenHash, tokenPrefix } = generateApiToken();
+      const newToken = await storage.createApiToken({
+        ...tokenData,
+        tokenHash,
+        tokenPrefix,
+        createdBy: req.session.staffId!,
+      });
+      const { tokenHash: _, ...tokenInfo } = newToken;
+      await recordAudit(req, 'apiToken', newToken.id, 'create', null, tokenInfo);
+      res.json({ ...tokenInfo, token });
+    } catch (error) {
+      console.error("Create API token error:", error);
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
       }
-      if (error.message?.includes('unique')) {
-        return res.status(400).json({ message: "Nickname already exists" });
-      }
-      res.status(500).json({ message: "Failed to update staff" });
+      res.status(500).json({ message: "Failed to create API token" });
     }
   });
 
-  app.delete("/api/staff/manage/:id", requireAuth, requireSuperAdminAccess, async (req, res) => {
+  app.delete("/api/api-tokens/:id", requireAuth, requirePermission('apiTokens.manage'), async (req, res) => {
     try {
-      // Don't allow deleting yourself
-      if (req.params.id === req.session.staffId) {
-        return res.status(400).json({ message: "Cannot delete yourself" });
+      const existingToken = await storage.getApiToken(req.params.id);
+      if (!existingToken) {
+        return res.status(404).json({ message: "API token not found" });
       }
-      
-      await storage.deleteStaff(req.params.id);
-      res.json({ message: "Staff deleted successfully" });
+      const revokedToken = await storage.revokeApiToken(req.params.id);
+      if (revokedToken) {
+        await recordAudit(req, 'apiToken', revokedToken.id, 'update',
+          { revokedAt: existingToken.revokedAt }, { revokedAt: revokedToken.revokedAt });
+      }
+      res.json({ message: "API token revoked" });
     } catch (error) {
-      console.error("Delete staff error:", error);
-      res.status(500).json({ message: "Failed to delete staff" });
+      console.error("Revoke API token error:", error);
+      res.status(500).json({ message: "Failed to revoke API token" });
     }
   });
 
@@ -417,7 +1412,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/staff/:staffId/login-logs", requireAuth, async (req, res) => {
     try {
       // Users can view their own login logs, ADM can view any staff's logs
-      if (req.session.staffId !== req.params.staffId && req.session.staffGroup !== 'ADM') {
+      if (req.session.staffId !== req.params.staffId && !(await hasPermission(req, 'staff.manage'))) {
         return res.status(403).json({ message: "Permission denied" });
       }
 
@@ -430,7 +1425,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/staff/login-logs/all", requireAuth, requireSuperAdminAccess, async (req, res) => {
+  app.get("/api/staff/login-logs/all", requireAuth, requirePermission('staff.manage'), async (req, res) => {
     try {
       const limit = parseInt(req.query.limit as string) || 100;
       const loginLogs = await storage.getAllStaffLoginLogs(limit);
@@ -441,8 +1436,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Configure multer for cloud storage uploads (memory storage)
-  const memoryUpload = multer({
+  // Images are kept in memory until their renditions are stored
+  const imageUpload = multer({
     storage: multer.memoryStorage(),
     limits: {
       fileSize: 5 * 1024 * 1024, // 5MB limit
@@ -457,144 +1452,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Hybrid file upload endpoint (supports both local dev and Replit Object Storage)
-  app.post("/api/objects/upload", requireAuth, async (req, res) => {
-    // Check if Replit Object Storage is configured
-    const hasReplitObjectStorage = process.env.PRIVATE_OBJECT_DIR && process.env.PUBLIC_OBJECT_SEARCH_PATHS;
-    const useCloudStorage = hasReplitObjectStorage && process.env.NODE_ENV === 'production';
-
-    console.log('Upload request received:', {
-      useCloudStorage,
-      hasReplitObjectStorage,
-      nodeEnv: process.env.NODE_ENV,
-      privateObjectDir: process.env.PRIVATE_OBJECT_DIR ? 'SET' : 'NOT_SET',
-      publicObjectSearchPaths: process.env.PUBLIC_OBJECT_SEARCH_PATHS ? 'SET' : 'NOT_SET'
-    });
-
-    if (useCloudStorage) {
-      console.log('Using Replit Object Storage for file upload');
-      // Use memory storage for cloud uploads
-      memoryUpload.single('file')(req, res, async (err) => {
-        if (err) {
-          console.error("Multer error for cloud storage:", err);
-          return res.status(400).json({ message: `File upload error: ${err.message}` });
-        }
-
-        try {
-          if (!req.file) {
-            console.error("No file found in request");
-            return res.status(400).json({ message: "No file uploaded" });
-          }
-
-          console.log('File received for cloud upload:', {
-            originalname: req.file.originalname,
-            mimetype: req.file.mimetype,
-            size: req.file.size
-          });
-
-          // Upload to Google Cloud Storage
-          const objectStorageService = new ObjectStorageService();
-          const uploadURL = await objectStorageService.getObjectEntityUploadURL();
-
-          console.log('Generated cloud upload URL');
-
-          // Upload file buffer to the cloud
-          const uploadResponse = await fetch(uploadURL, {
-            method: 'PUT',
-            body: req.file.buffer,
-            headers: {
-              'Content-Type': req.file.mimetype,
-              'Content-Length': req.file.size.toString(),
-            },
-          });
-
-          if (!uploadResponse.ok) {
-            const errorText = await uploadResponse.text();
-            console.error('Cloud storage upload failed:', {
-              status: uploadResponse.status,
-              statusText: uploadResponse.statusText,
-              error: errorText
-            });
-            throw new Error(`Cloud storage upload failed: ${uploadResponse.status} ${uploadResponse.statusText}`);
-          }
-
-          console.log('Successfully uploaded to Replit Object Storage');
-
-          // Extract object path from upload URL for serving
-          const fullObjectPath = new URL(uploadURL).pathname;
-          const privateObjectDir = objectStorageService.getPrivateObjectDir();
-
-          // Remove the private object directory prefix to get just the relative path
-          let relativePath = fullObjectPath;
-          if (fullObjectPath.startsWith(privateObjectDir)) {
-            relativePath = fullObjectPath.slice(privateObjectDir.length);
-            if (relativePath.startsWith('/')) {
-              relativePath = relativePath.slice(1);
-            }
-          }
-
-          const objectPath = `/objects/${relativePath}`;
-          console.log('Generated object path:', objectPath);
-
-          res.json({
-            uploadURL: objectPath,
-            objectPath: objectPath,
-            message: 'File uploaded to Replit Object Storage successfully'
-          });
-        } catch (error: any) {
-          console.error("Error uploading to Replit Object Storage:", error);
-          res.status(500).json({
-            message: `Failed to upload file to Replit Object Storage: ${error.message}`,
-            details: error.stack
-          });
-        }
-      });
-    } else {
-      console.log('Using local storage for file upload (development mode)');
-      // Use local disk storage for development
-      upload.single('file')(req, res, (err) => {
-        if (err) {
-          console.error("Multer error for local storage:", err);
-          if (err instanceof multer.MulterError) {
-            if (err.code === 'LIMIT_FILE_SIZE') {
-              return res.status(400).json({ message: "File too large. Maximum size is 5MB." });
-            }
-          }
-          return res.status(400).json({ message: `File upload error: ${err.message}` });
+  // Receives one image from the given form field. When there's no usable file the error response has
+  // already been sent and this resolves to undefined.
+  const receiveImage = (req: any, res: any, field: string) => new Promise<Express.Multer.File | undefined>((resolve) => {
+    imageUpload.single(field)(req, res, (err) => {
+      if (err) {
+        console.error("Multer error:", err);
+        if (err instanceof multer.MulterError && err.code === 'LIMIT_FILE_SIZE') {
+          res.status(400).json({ message: "File too large. Maximum size is 5MB." });
+        } else {
+          res.status(400).json({ message: `File upload error: ${err.message}` });
         }
+        return resolve(undefined);
+      }
+      if (!req.file) {
+        console.error("No file found in request");
+        res.status(400).json({ message: "No file uploaded" });
+        return resolve(undefined);
+      }
+      resolve(req.file);
+    });
+  });
 
-        try {
-          if (!req.file) {
-            console.error("No file found in request");
-            return res.status(400).json({ message: "No file uploaded" });
-          }
-
-          console.log('File received for local upload:', {
-            originalname: req.file.originalname,
-            filename: req.file.filename,
-            mimetype: req.file.mimetype,
-            size: req.file.size,
-            path: req.file.path
-          });
-
-          // Return the local file path that can be used for display
-          const filePath = `/uploads/${req.file.filename}`;
-          console.log('Generated local file path:', filePath);
+  // Image upload endpoint (Replit Object Storage in production, local disk in development)
+  app.post("/api/objects/upload", requireAuth, async (req, res) => {
+    const file = await receiveImage(req, res, 'file');
+    if (!file) return;
 
-          res.json({
-            uploadURL: filePath,
-            localPath: filePath,
-            objectPath: filePath,
-            message: 'File uploaded to local storage successfully'
-          });
-        } catch (error: any) {
-          console.error("Error uploading file locally:", error);
-          res.status(500).json({
-            message: `Failed to upload file locally: ${error.message}`,
-            details: error.stack
-          });
-        }
+    try {
+      const { displayPath, thumbnailPath } = await saveImageRenditions(file.buffer, req.session.staffId!);
+      res.json({
+        uploadURL: displayPath,
+        objectPath: displayPath,
+        thumbnailPath,
+        message: 'File uploaded successfully'
       });
+    } catch (error: any) {
+      console.error("Image upload error:", error);
+      if (error instanceof InvalidImageError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: `Failed to upload file: ${error.message}` });
     }
   });
 
@@ -607,22 +1505,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     try {
       const imageURL = req.body.imageURL;
-      console.log('Processing family image:', { imageURL });
-
-      // Check if we're using cloud storage
-      const hasReplitObjectStorage = process.env.PRIVATE_OBJECT_DIR && process.env.PUBLIC_OBJECT_SEARCH_PATHS;
-      const useCloudStorage = hasReplitObjectStorage && process.env.NODE_ENV === 'production';
+      const familyId = req.body.familyId as string | undefined;
+      console.log('Processing family image:', { imageURL, familyId });
 
-      if (useCloudStorage && imageURL.startsWith('/objects/')) {
+      if (isCloudStorageEnabled() && imageURL.startsWith('/objects/')) {
         console.log('Processing cloud storage image path');
 
-        // For cloud storage, we might want to set ACL permissions here
-        try {
-          const objectStorageService = new ObjectStorageService();
-          // Normalize the object path and potentially set ACL
-          const normalizedPath = objectStorageService.normalizeObjectEntityPath(imageURL);
+        const objectStorageService = new ObjectStorageService();
+        const normalizedPath = objectStorageService.normalizeObjectEntityPath(imageURL);
+        const thumbnailPath = req.body.thumbnailURL
+          ? objectStorageService.normalizeObjectEntityPath(req.body.thumbnailURL)
+          : undefined;
+
+        console.log('Normalized object path:', normalizedPath);
+
+        // Pictures for an existing family get the family picture policy right away, which takes
+        // the same families.update permission as saving the family. A new family's picture stays
+        // private to the uploader until the family is first saved.
+        const family = familyId ? await storage.getFamily(familyId) : undefined;
+        if (family) {
+          if (!(await hasPermission(req, 'families.update'))) {
+            return res.status(403).json({ error: "Permission denied" });
+          }
+          for (const picturePath of [normalizedPath, thumbnailPath]) {
+            if (picturePath?.startsWith('/objects/') && !(await canAttachFamilyPicture(picturePath, family, req.session.staffId!))) {
+              return res.status(403).json({ error: "Access denied" });
+            }
+          }
+        }
 
-          console.log('Normalized object path:', normalizedPath);
+        try {
+          if (family) {
+            await applyFamilyPictureAcl(normalizedPath, family.teamId, req.session.staffId!);
+            if (thumbnailPath) {
+              await applyFamilyPictureAcl(thumbnailPath, family.teamId, req.session.staffId!);
+            }
+          }
 
           res.status(200).json({
             objectPath: normalizedPath,
@@ -646,6 +1564,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
     } catch (error: any) {
       console.error("Error processing family image:", error);
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ error: "File not found" });
+      }
       res.status(500).json({
         error: "Internal server error",
         details: error.message
@@ -653,7 +1574,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Serve uploaded files from local storage
+  // Serve uploaded files from local storage. There are no access policies on local disk, so these
+  // (family pictures included) are readable without signing in; only Replit Object Storage keeps
+  // family pictures private.
   app.get("/uploads/:filename", (req, res) => {
     const filename = req.params.filename;
     const filePath = path.join(process.cwd(), 'uploads', filename);
@@ -667,13 +1590,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.sendFile(filePath);
   });
 
+  // Objects with an ACL policy (family pictures) are checked against it. Older uploads and
+  // department / team pictures have no policy and are readable by any signed-in staff.
+  const canReadObject = async (req: any, objectFile: File): Promise<boolean> => {
+    if (!req.session?.staffId) {
+      return false;
+    }
+    const objectStorageService = new ObjectStorageService();
+    return objectStorageService.canAccessObjectEntity({
+      userId: req.session.staffId,
+      objectFile,
+      requestedPermission: ObjectPermission.READ,
+    });
+  };
+
+  const sendObjectAccessDenied = (req: any, res: any) =>
+    res.status(req.session?.staffId ? 403 : 401).json({ error: "Access denied" });
+
   // Replit Object Storage route for serving uploaded files
   app.get("/objects/:objectPath(*)", async (req, res) => {
-    const hasReplitObjectStorage = process.env.PRIVATE_OBJECT_DIR && process.env.PUBLIC_OBJECT_SEARCH_PATHS;
-    const useCloudStorage = hasReplitObjectStorage && process.env.NODE_ENV === 'production';
-
-    if (!useCloudStorage) {
-      // For local development, redirect to local uploads
+    if (!isCloudStorageEnabled()) {
+      // For local development, redirect to local uploads, which aren't access controlled
       const localPath = req.params.objectPath;
       return res.redirect(`/uploads/${localPath}`);
     }
@@ -685,6 +1622,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const objectFile = await objectStorageService.getObjectEntityFile(
         req.path,
       );
+      if (!(await canReadObject(req, objectFile))) {
+        return sendObjectAccessDenied(req, res);
+      }
       objectStorageService.downloadObject(objectFile, res);
     } catch (error) {
       console.error("Error serving object:", error);
@@ -700,6 +1640,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
             const objectStorageService = new ObjectStorageService();
             const altObjectFile = await objectStorageService.getObjectEntityFile(alternativePath);
+            if (!(await canReadObject(req, altObjectFile))) {
+              return sendObjectAccessDenied(req, res);
+            }
             return objectStorageService.downloadObject(altObjectFile, res);
           }
         } catch (altError) {
@@ -713,35 +1656,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Legacy file upload route (keeping for backward compatibility)
-  app.post("/api/upload", requireAuth, (req, res) => {
-    upload.single('image')(req, res, (err) => {
-      if (err) {
-        console.error("Multer error:", err);
-        if (err instanceof multer.MulterError) {
-          if (err.code === 'LIMIT_FILE_SIZE') {
-            return res.status(400).json({ message: "File too large. Maximum size is 5MB." });
-          }
-        }
-        return res.status(400).json({ message: err.message || "Upload failed" });
-      }
-
-      try {
-        if (!req.file) {
-          console.log("No file in request");
-          return res.status(400).json({ message: "No file uploaded" });
-        }
+  app.post("/api/upload", requireAuth, async (req, res) => {
+    const file = await receiveImage(req, res, 'image');
+    if (!file) return;
 
-        console.log("File uploaded successfully:", req.file.filename);
-        const imageUrl = `/uploads/${req.file.filename}`;
-        res.json({ url: imageUrl });
-      } catch (error) {
-        console.error("Upload error:", error);
-        res.status(500).json({ message: "Failed to upload file" });
+    try {
+      const { displayPath, thumbnailPath } = await saveImageRenditions(file.buffer, req.session.staffId!);
+      res.json({ url: displayPath, thumbnailUrl: thumbnailPath });
+    } catch (error) {
+      console.error("Upload error:", error);
+      if (error instanceof InvalidImageError) {
+        return res.status(400).json({ message: error.message });
       }
-    });
+      res.status(500).json({ message: "Failed to upload file" });
+    }
   });
 
-  // Serve uploaded files statically
+  // Serve uploaded files statically, without access control (see /uploads/:filename)
   app.use('/uploads', (req, res, next) => {
     // Add CORS headers for image requests
     res.header('Cross-Origin-Resource-Policy', 'cross-origin');
@@ -752,7 +1683,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use('/uploads', express.static(uploadsDir));
 
   // Family routes
-  app.get("/api/families", requireAuth, async (req, res) => {
+  app.get("/api/families", allowApiToken('families:read'), requireAuth, async (req, res) => {
     try {
       const filters = {
         name: req.query.name as string,
@@ -761,7 +1692,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         memberStatus: req.query.memberStatus as string,
         dateFrom: req.query.dateFrom as string,
         dateTo: req.query.dateTo as string,
-        courses: req.query.courses as string,
+        positions: req.query.positions as string,
         teamId: req.query.teamId as string,
         departmentId: req.query.departmentId as string,
         unassigned: req.query.unassigned === 'true',
@@ -773,27 +1704,134 @@ export async function registerRoutes(app: Express): Promise<Server> {
       );
 
       const families = await storage.getFamilies(cleanFilters);
-      res.json(families);
+      res.json(families.map(withoutFamilyNotes));
     } catch (error) {
       console.error("Get families error:", error);
       res.status(500).json({ message: "Failed to get families" });
     }
   });
 
-  app.get("/api/families/:id", requireAuth, async (req, res) => {
+  // Paginated, sorted family search with members; see familySearchSchema for the parameters
+  app.get("/api/families/search", allowApiToken('families:read'), requireAuth, async (req, res) => {
+    try {
+      const params = familySearchSchema.parse(req.query);
+      const { families, total } = await storage.searchFamilies(params);
+      const nextOffset = params.offset + families.length;
+      res.json({
+        families: families.map(withoutFamilyNotes),
+        total,
+        limit: params.limit,
+        offset: params.offset,
+        nextOffset: nextOffset < total ? nextOffset : null,
+      });
+    } catch (error) {
+      console.error("Search families error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid search", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to search families" });
+    }
+  });
+
+  // Ranked free-text search over family and member names (including Hangul initials like "ㄱㅁㅅ"),
+  // phone digits, emails and business fields. Each result says which fields matched.
+  app.get("/api/families/text-search", allowApiToken('families:read'), requireAuth, async (req, res) => {
+    try {
+      const textSearchSchema = z.object({
+        q: z.string().trim().min(1),
+        limit: z.coerce.number().int().min(1).max(FAMILY_TEXT_SEARCH_MAX_LIMIT).default(20),
+      });
+      const { q, limit } = textSearchSchema.parse(req.query);
+
+      const candidates = await storage.getFamilyTextSearchCandidates(q);
+      const results = rankFamiliesByText(candidates.map(withoutFamilyNotes), q, limit);
+      res.json(results);
+    } catch (error) {
+      console.error("Text search families error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid search", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to search families" });
+    }
+  });
+
+  // Archived families, most recently deleted first
+  app.get("/api/families/deleted", requireAuth, requirePermission('families.archive'), async (req, res) => {
+    try {
+      const deletedFamilies = await storage.getDeletedFamilies();
+      res.json(deletedFamilies.map(withoutFamilyNotes));
+    } catch (error) {
+      console.error("Get deleted families error:", error);
+      res.status(500).json({ message: "Failed to get deleted families" });
+    }
+  });
+
+  // Likely duplicate households, optionally only those of one family
+  app.get("/api/families/duplicates", requireAuth, requirePermission('families.merge'), async (req, res) => {
+    try {
+      const allFamilies = await storage.getFamilies();
+      const matches = findDuplicateFamilies(allFamilies, req.query.familyId as string | undefined);
+      res.json(matches.map(({ family, duplicate, reasons }) => ({
+        family: withoutFamilyNotes(family),
+        duplicate: withoutFamilyNotes(duplicate),
+        reasons,
+      })));
+    } catch (error) {
+      console.error("Find duplicate families error:", error);
+      res.status(500).json({ message: "Failed to find duplicate families" });
+    }
+  });
+
+  app.get("/api/families/:id", allowApiToken('families:read'), requireAuth, async (req, res) => {
     try {
       const family = await storage.getFamily(req.params.id);
       if (!family) {
         return res.status(404).json({ message: "Family not found" });
       }
-      res.json(family);
+      res.json(withoutFamilyNotes(family));
     } catch (error) {
       console.error("Get family error:", error);
       res.status(500).json({ message: "Failed to get family" });
     }
   });
 
-  app.post("/api/families", requireAuth, requireAdminAccess, async (req, res) => {
+  // Reveal confidential family notes; requires a recent PIN verification and logs every reveal
+  app.get("/api/families/:id/notes", requireAuth, async (req, res) => {
+    try {
+      const unlockedUntil = req.session.familyNotesUnlockedUntil;
+      if (!unlockedUntil || unlockedUntil < Date.now()) {
+        return res.status(403).json({ message: "PIN verification required", pinRequired: true });
+      }
+
+      const family = await storage.getFamily(req.params.id);
+      if (!family) {
+        return res.status(404).json({ message: "Family not found" });
+      }
+
+      await storage.createFamilyNoteAccessLog({
+        familyId: family.id,
+        staffId: req.session.staffId!,
+        ipAddress: req.ip || req.connection.remoteAddress || null,
+      });
+
+      res.json({ familyNotes: family.familyNotes || "", unlockedUntil: new Date(unlockedUntil) });
+    } catch (error) {
+      console.error("Get family notes error:", error);
+      res.status(500).json({ message: "Failed to get family notes" });
+    }
+  });
+
+  app.get("/api/families/:id/notes/access-logs", requireAuth, requirePermission('familyNotes.audit'), async (req, res) => {
+    try {
+      const logs = await storage.getFamilyNoteAccessLogs(req.params.id);
+      res.json(logs);
+    } catch (error) {
+      console.error("Get family notes access logs error:", error);
+      res.status(500).json({ message: "Failed to get family notes access logs" });
+    }
+  });
+
+  app.post("/api/families", requireAuth, requirePermission('families.create'), async (req, res) => {
     try {
       // For family creation, members don't have familyId yet
       const memberSchemaForCreation = insertFamilyMemberSchema.omit({ familyId: true });
@@ -802,9 +1840,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       const { members, ...familyData } = familySchema.parse(req.body);
+
+      const customFieldDefinitions = await storage.getCustomFields();
+      familyData.customFieldValues = parseCustomFieldValues(customFieldDefinitions, 'family', familyData.customFieldValues);
+      members.forEach((member, index) => {
+        member.customFieldValues = parseMemberCustomFieldValues(customFieldDefinitions, member, index);
+      });
       
-      const family = await storage.createFamily(familyData, members);
-      res.json(family);
+      const family = await storage.createFamily(withRegistrationDate(null, familyData), members);
+      await applyFamilyPhotosAcl(family, req.session.staffId!);
+      await recordAudit(req, 'family', family.id, 'create', null, family);
+      await recordFamilyVersion(req, family);
+      await recordStatusChange(req, family.id, null, family.memberStatus);
+      res.json(withoutFamilyNotes(family));
     } catch (error) {
       console.error("Create family error:", error);
       if (error instanceof z.ZodError) {
@@ -815,7 +1863,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // CSV upload endpoint for bulk family creation
-  app.post("/api/families/upload-csv", requireAuth, requireSuperAdminAccess, csvUpload.single('file'), async (req, res) => {
+  app.post("/api/families/upload-csv", requireAuth, requirePermission('families.import'), csvUpload.single('file'), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
@@ -848,6 +1896,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const dataLines = lines.slice(1);
       console.log('Data lines to process:', dataLines.length);
 
+      // Columns after the nine fixed ones are custom fields, matched by name (family fields first)
+      const customFieldDefinitions = await storage.getCustomFields();
+      const customFieldColumns = splitCsvLine(lines[0]).slice(9).flatMap((header, offset) => {
+        const name = header.toLowerCase();
+        const field = customFieldDefinitions.find(f => f.target === 'family' && f.name.toLowerCase() === name) ??
+          customFieldDefinitions.find(f => f.target === 'member' && f.name.toLowerCase() === name);
+        return field ? [{ field, index: 9 + offset }] : [];
+      });
+
       const results = {
         success: 0,
         errors: [] as { row: number; error: string; data: any }[],
@@ -869,36 +1926,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         let fields: string[] = [];
 
         try {
-          // Parse CSV line - split by comma but respect quoted fields
-          // This regex handles: "quoted,field",unquoted,field
-          const regex = /(?:,|\n|^)("(?:(?:"")*[^"]*)*"|[^",\n]*|(?:\n|$))/g;
-          const matches = [];
-          let match;
-
-          // Simple split for basic CSV (most common case)
-          if (!line.includes('"')) {
-            fields = line.split(',').map(f => f.trim());
-          } else {
-            // Handle quoted fields
-            const result = [];
-            let current = '';
-            let inQuotes = false;
-
-            for (let j = 0; j < line.length; j++) {
-              const char = line[j];
-
-              if (char === '"') {
-                inQuotes = !inQuotes;
-              } else if (char === ',' && !inQuotes) {
-                result.push(current.trim());
-                current = '';
-              } else {
-                current += char;
-              }
-            }
-            result.push(current.trim());
-            fields = result;
-          }
+          fields = splitCsvLine(line);
 
           if (fields.length < 9) {
             throw new Error(`Invalid number of columns. Expected 9, got ${fields.length}. Line content: "${line}"`);
@@ -927,6 +1955,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
           if (!department) {
             const newDept = await storage.createDepartment({ name: departmentName });
+            await recordAudit(req, 'department', newDept.id, 'create', null, newDept);
             department = { ...newDept, teams: [] };
             results.created.departments.push(departmentName);
           }
@@ -941,6 +1970,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
               description: `Auto-created from CSV upload`,
               assignedStaff: []
             });
+            await recordAudit(req, 'team', team.id, 'create', null, team);
             results.created.teams.push(teamName);
           }
 
@@ -966,6 +1996,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
               city = addressParts[1];
             }
           }
+          const normalizedAddress = normalizeAddressParts({ address: street, city, state, zipCode });
 
           // Use the full Korean name as the family name
           const familyName = koreanName;
@@ -976,6 +2007,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
             f.familyName.toLowerCase() === familyName.toLowerCase()
           );
 
+          // Cells left empty keep the existing family's values
+          const csvCustomFieldValues: Record<CustomFieldTarget, CustomFieldValues> = { family: {}, member: {} };
+          for (const { field, index } of customFieldColumns) {
+            if (fields[index]?.trim()) {
+              csvCustomFieldValues[field.target][field.id] = parseCustomFieldText(field, fields[index]);
+            }
+          }
+          const existingHusband = existingFamily?.members.find(m => m.relationship === 'husband');
+          const familyCustomFieldValues = parseCustomFieldValues(customFieldDefinitions, 'family', {
+            ...existingFamily?.customFieldValues,
+            ...csvCustomFieldValues.family,
+          });
+          const memberCustomFieldValues = parseCustomFieldValues(customFieldDefinitions, 'member', {
+            ...existingHusband?.customFieldValues,
+            ...csvCustomFieldValues.member,
+          }, ['members', 0, 'customFieldValues']);
+
           const familyData = {
             familyName: familyName,
             fullAddress: address,
@@ -983,13 +2031,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
             memberStatus: 'member' as const,
             phoneNumber: phone,
             email: email,
-            address: street,
-            city,
-            state,
-            zipCode,
+            ...normalizedAddress,
             teamId: team.id,
             bizName: bizName,
-            bizTitle: bizTitle
+            bizTitle: bizTitle,
+            customFieldValues: familyCustomFieldValues
           };
 
           console.log('CSV Row:', rowNum, 'Parsed fields:', {
@@ -1000,48 +2046,253 @@ export async function registerRoutes(app: Express): Promise<Server> {
             bizTitleType: typeof bizTitle
           });
 
+          // The existing husband is updated in place, keeping his positions
           const members = [{
+            id: existingHusband?.id,
             relationship: 'husband' as const,
             koreanName,
             englishName: englishName || undefined,
             phoneNumber: phone || undefined,
             email: email || undefined,
-            courses: []
+            customFieldValues: memberCustomFieldValues
           }];
 
-          if (existingFamily) {
-            // Update existing family
-            await storage.updateFamily(existingFamily.id, familyData, members);
-            results.updated.families.push(familyName);
-            results.success++;
+          if (existingFamily) {
+            // Update existing family
+            const updatedFamily = await storage.updateFamily(existingFamily.id, withRegistrationDate(existingFamily, familyData), members);
+            await recordAudit(req, 'family', existingFamily.id, 'update', existingFamily, updatedFamily);
+            await recordFamilyVersion(req, updatedFamily, existingFamily);
+            await recordStatusChange(req, existingFamily.id, existingFamily.memberStatus, updatedFamily.memberStatus, 'CSV import');
+            results.updated.families.push(familyName);
+            results.success++;
+          } else {
+            // Create new family
+            const family = await storage.createFamily(withRegistrationDate(null, familyData), members);
+            await recordAudit(req, 'family', family.id, 'create', null, family);
+            await recordFamilyVersion(req, family);
+            await recordStatusChange(req, family.id, null, family.memberStatus, 'CSV import');
+            results.created.families.push(family.familyName);
+            results.success++;
+          }
+
+        } catch (error: any) {
+          results.errors.push({
+            row: rowNum,
+            error: error instanceof z.ZodError
+              ? error.errors.map(issue => issue.message).join('; ')
+              : error.message || 'Unknown error',
+            data: fields
+          });
+        }
+      }
+
+      // Clean up uploaded file
+      fs.unlinkSync(req.file.path);
+
+      res.json(results);
+    } catch (error: any) {
+      console.error("CSV upload error:", error);
+      res.status(500).json({ message: error.message || "Failed to process CSV" });
+    }
+  });
+
+  // vCard export of one family, a dashboard selection or a whole team, for staff phones
+  const sendVCards = (res: any, families: FamilyWithMembers[], version: VCardVersion, fileName: string) => {
+    res.attachment(`${fileName}.vcf`);
+    res.type(VCARD_CONTENT_TYPE);
+    res.send(familiesToVCards(families, version));
+  };
+
+  app.get("/api/families/:id/vcard", requireAuth, async (req, res) => {
+    try {
+      const { version } = vcardVersionSchema.parse(req.query);
+      const family = await storage.getFamily(req.params.id);
+      if (!family) {
+        return res.status(404).json({ message: "Family not found" });
+      }
+      sendVCards(res, [family], version, family.familyName);
+    } catch (error) {
+      console.error("Export family vCard error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to export vCard" });
+    }
+  });
+
+  app.post("/api/families/vcard", requireAuth, async (req, res) => {
+    try {
+      const { familyIds, version } = vcardExportSchema.parse(req.body);
+      const selectedIds = new Set(familyIds);
+      const families = (await storage.getFamilies()).filter(family => selectedIds.has(family.id));
+      sendVCards(res, families, version, 'families');
+    } catch (error) {
+      console.error("Export families vCard error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to export vCards" });
+    }
+  });
+
+  app.get("/api/teams/:id/vcard", requireAuth, async (req, res) => {
+    try {
+      const { version } = vcardVersionSchema.parse(req.query);
+      const team = await storage.getTeam(req.params.id);
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      const families = await storage.getFamilies({ teamId: team.id });
+      sendVCards(res, families, version, team.name);
+    } catch (error) {
+      console.error("Export team vCard error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to export vCards" });
+    }
+  });
+
+  // vCard import. Cards exported together share a family id and update that family, if it's on the
+  // team being imported into; other cards update the team's family with the same name or become a
+  // new family. Family and members go
+  // through the same validation as when saving the family form.
+  app.post("/api/families/vcard/import", requireAuth, requirePermission('families.import'), vcardUpload.single('file'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+      const { teamId } = vcardImportSchema.parse(req.body);
+      if (teamId && !(await storage.getTeam(teamId))) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+
+      const contacts = parseVCards(req.file.buffer.toString('utf-8'));
+      if (contacts.length === 0) {
+        return res.status(400).json({ message: "The file has no vCards" });
+      }
+
+      const households = new Map<string, { card: number; contact: VCardContact }[]>();
+      contacts.forEach((contact, index) => {
+        const key = contact.familyId ?? `card-${index}`;
+        households.set(key, [...(households.get(key) ?? []), { card: index + 1, contact }]);
+      });
+
+      const customFieldDefinitions = await storage.getCustomFields();
+      const teamFamilies = teamId ? await storage.getFamilies({ teamId }) : [];
+      const results: VCardImportResult = {
+        success: 0,
+        errors: [],
+        created: { families: [] },
+        updated: { families: [] },
+      };
+
+      for (const cards of Array.from(households.values())) {
+        const householdContacts = cards.map(({ contact }) => contact);
+        const { familyId, koreanName } = householdContacts[0];
+
+        try {
+          const familyFields = getVCardFamilyFields(householdContacts);
+          const addressFields = familyFields.address && {
+            ...normalizeAddressParts({
+              address: familyFields.address.street,
+              city: familyFields.address.city,
+              state: familyFields.address.state,
+              zipCode: familyFields.address.zipCode,
+            }),
+            fullAddress: [familyFields.address.street, familyFields.address.city, `${familyFields.address.state} ${familyFields.address.zipCode}`.trim()]
+              .filter(Boolean)
+              .join(', '),
+          };
+
+          // A card's family id is only trusted for families in the team being imported into
+          const cardFamily = familyId ? await storage.getFamily(familyId) : undefined;
+          const exportedFamily = cardFamily && (!teamId || cardFamily.teamId === teamId) ? cardFamily : undefined;
+          const newMembers = mergeVCardMembers([], householdContacts);
+          const existingFamily = exportedFamily ??
+            teamFamilies.find(f => f.familyName.toLowerCase() === getHouseholdName(newMembers, koreanName).toLowerCase());
+
+          if (existingFamily) {
+            const familySchema = insertFamilySchema.extend({
+              members: z.array(familyMemberUpdateSchema)
+            }).partial();
+            const mergedMembers = mergeVCardMembers(existingFamily.members, householdContacts);
+            const { members, ...familyData } = familySchema.parse({
+              // Added or renamed spouses change the family name, as they do in the family form
+              familyName: getHouseholdName(mergedMembers, existingFamily.familyName),
+              ...(familyFields.phoneNumber !== undefined && { phoneNumber: familyFields.phoneNumber }),
+              ...(familyFields.email !== undefined && { email: familyFields.email }),
+              ...(familyFields.bizName !== undefined && { bizName: familyFields.bizName }),
+              ...(familyFields.bizTitle !== undefined && { bizTitle: familyFields.bizTitle }),
+              ...addressFields,
+              members: mergedMembers,
+            });
+            members?.forEach((member, index) => {
+              member.customFieldValues = parseMemberCustomFieldValues(customFieldDefinitions, member, index);
+            });
+
+            const updatedFamily = await storage.updateFamily(existingFamily.id, withRegistrationDate(existingFamily, familyData), members ?? []);
+            await recordAudit(req, 'family', existingFamily.id, 'update', existingFamily, updatedFamily);
+            await recordFamilyVersion(req, updatedFamily, existingFamily);
+            await recordStatusChange(req, existingFamily.id, existingFamily.memberStatus, updatedFamily.memberStatus, 'vCard import');
+            results.updated.families.push(updatedFamily.familyName);
           } else {
-            // Create new family
-            const family = await storage.createFamily(familyData, members);
+            const familySchema = insertFamilySchema.extend({
+              members: z.array(familyMemberUpdateSchema.omit({ id: true }))
+            });
+            const { members, ...familyData } = familySchema.parse({
+              familyName: getHouseholdName(newMembers, koreanName),
+              visitedDate: new Date().toISOString().split('T')[0],
+              memberStatus: 'member',
+              phoneNumber: familyFields.phoneNumber ?? newMembers.find(member => member.phoneNumber)?.phoneNumber ?? "",
+              email: familyFields.email ?? newMembers.find(member => member.email)?.email,
+              address: "",
+              city: "",
+              state: "",
+              zipCode: "",
+              fullAddress: "",
+              ...addressFields,
+              bizName: familyFields.bizName,
+              bizTitle: familyFields.bizTitle,
+              teamId: teamId ?? null,
+              members: newMembers,
+            });
+            familyData.customFieldValues = parseCustomFieldValues(customFieldDefinitions, 'family', familyData.customFieldValues);
+            members.forEach((member, index) => {
+              member.customFieldValues = parseMemberCustomFieldValues(customFieldDefinitions, member, index);
+            });
+
+            const family = await storage.createFamily(withRegistrationDate(null, familyData), members);
+            await recordAudit(req, 'family', family.id, 'create', null, family);
+            await recordFamilyVersion(req, family);
+            await recordStatusChange(req, family.id, null, family.memberStatus, 'vCard import');
+            teamFamilies.push(family);
             results.created.families.push(family.familyName);
-            results.success++;
           }
-
+          results.success++;
         } catch (error: any) {
           results.errors.push({
-            row: rowNum,
-            error: error.message || 'Unknown error',
-            data: fields
+            card: cards[0].card,
+            error: error instanceof z.ZodError
+              ? error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')
+              : error.message || 'Unknown error',
+            name: koreanName,
           });
         }
       }
 
-      // Clean up uploaded file
-      fs.unlinkSync(req.file.path);
-
       res.json(results);
     } catch (error: any) {
-      console.error("CSV upload error:", error);
-      res.status(500).json({ message: error.message || "Failed to process CSV" });
+      console.error("vCard import error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message || "Failed to import vCards" });
     }
   });
 
   // Quick family member creation endpoint
-  app.post("/api/families/quick-member", requireAuth, requireAdminAccess, async (req, res) => {
+  app.post("/api/families/quick-member", requireAuth, requirePermission('families.create'), async (req, res) => {
     try {
       const quickFamilySchema = z.object({
         koreanName: z.string().min(1, "Korean name is required"),
@@ -1050,7 +2301,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         email: z.string().email().optional().or(z.literal("")),
         memberType: z.enum(["husband", "wife"]),
         teamId: z.string().min(1, "Team ID is required"),
-        familyPicture: z.string().optional()
+        familyPicture: z.string().optional(),
+        familyPictureThumbnail: z.string().optional()
       });
       
       const data = quickFamilySchema.parse(req.body);
@@ -1088,6 +2340,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         familyNotes: `Quick add from team: ${team?.name || 'Unknown'}. Created on ${new Date().toLocaleDateString()}`,
         supportTeamMember,
         familyPicture: data.familyPicture || "",
+        familyPictureThumbnail: data.familyPictureThumbnail || "",
         teamId: data.teamId, // Direct assignment to team
       };
       
@@ -1098,14 +2351,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         phoneNumber: data.phoneNumber || "",
         email: data.email || "",
         relationship: data.memberType,
-        courses: [],
       };
       
       const family = await storage.createFamily(familyData, [memberData]);
+      await applyFamilyPhotosAcl(family, req.session.staffId!);
+      await recordAudit(req, 'family', family.id, 'create', null, family);
+      await recordFamilyVersion(req, family);
+      await recordStatusChange(req, family.id, null, family.memberStatus);
       
       res.json({ 
         success: true, 
-        family,
+        family: withoutFamilyNotes(family),
         message: `${data.memberType === "husband" ? "Husband" : "Wife"} and family created successfully`
       });
     } catch (error) {
@@ -1117,30 +2373,63 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/families/:id", requireAuth, async (req, res) => {
+  const updateFamilyPictureAcl = async (
+    req: any,
+    before: Pick<Family, 'familyPicture' | 'teamId'> | undefined,
+    after: Pick<Family, 'id' | 'familyPicture' | 'teamId'> | undefined
+  ) => {
+    if (after && (after.familyPicture !== before?.familyPicture || after.teamId !== before?.teamId)) {
+      await applyFamilyPhotosAcl(after, req.session.staffId);
+    }
+  };
+
+  app.put("/api/families/:id", requireAuth, requirePermission('families.update'), async (req, res) => {
     try {
-      const { members, ...familyData } = req.body;
+      const { members, statusChangeReason, ...familyData } = req.body;
+      const existingFamily = await storage.getFamily(req.params.id);
+      if (!existingFamily) {
+        return res.status(404).json({ message: "Family not found" });
+      }
       
       // If members are provided, do a full update
       if (members && Array.isArray(members)) {
         // For full family updates, members might not have familyId (will be added by storage)
-        const memberSchemaForUpdate = insertFamilyMemberSchema.omit({ familyId: true });
         const familySchema = insertFamilySchema.extend({
-          members: z.array(memberSchemaForUpdate)
+          members: z.array(familyMemberUpdateSchema)
         }).partial();
 
         const validatedData = familySchema.parse(req.body);
         const { members: validatedMembers, ...validatedFamilyData } = validatedData;
+
+        // Members are always sent in full, so their values are always checked; the family's only when sent
+        const customFieldDefinitions = await storage.getCustomFields();
+        if (validatedFamilyData.customFieldValues !== undefined) {
+          validatedFamilyData.customFieldValues = parseCustomFieldValues(customFieldDefinitions, 'family', validatedFamilyData.customFieldValues);
+        }
+        validatedMembers?.forEach((member, index) => {
+          member.customFieldValues = parseMemberCustomFieldValues(customFieldDefinitions, member, index);
+        });
         
-        const family = await storage.updateFamily(req.params.id, validatedFamilyData, validatedMembers || []);
-        res.json(family);
+        const family = await storage.updateFamily(req.params.id, withRegistrationDate(existingFamily, validatedFamilyData), validatedMembers || []);
+        await updateFamilyPictureAcl(req, existingFamily, family);
+        await recordAudit(req, 'family', req.params.id, 'update', existingFamily, family);
+        await recordFamilyVersion(req, family, existingFamily);
+        await recordStatusChange(req, req.params.id, existingFamily.memberStatus, family.memberStatus, statusChangeReason);
+        res.json(withoutFamilyNotes(family));
       } else {
         // For partial updates (like just family notes), only update family data
         const partialFamilySchema = insertFamilySchema.partial();
         const validatedFamilyData = partialFamilySchema.parse(familyData);
+        if (validatedFamilyData.customFieldValues !== undefined) {
+          validatedFamilyData.customFieldValues = parseCustomFieldValues(await storage.getCustomFields(), 'family', validatedFamilyData.customFieldValues);
+        }
         
-        const family = await storage.updateFamilyOnly(req.params.id, validatedFamilyData);
-        res.json(family);
+        const family = await storage.updateFamilyOnly(req.params.id, withRegistrationDate(existingFamily, validatedFamilyData));
+        await updateFamilyPictureAcl(req, existingFamily, family);
+        await recordAudit(req, 'family', req.params.id, 'update', existingFamily, family);
+        await recordFamilyVersion(req, family, existingFamily);
+        await recordStatusChange(req, req.params.id, existingFamily.memberStatus, family.memberStatus, statusChangeReason);
+        res.json(withoutFamilyNotes(family));
       }
     } catch (error) {
       console.error("Update family error:", error);
@@ -1151,9 +2440,314 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/families/:id", requireAuth, requireAdminAccess, async (req, res) => {
+  // Status timeline: every move between visit, member and inactive
+  app.get("/api/families/:id/status-history", requireAuth, async (req, res) => {
+    try {
+      const history = await storage.getFamilyStatusHistory(req.params.id);
+      res.json(history);
+    } catch (error) {
+      console.error("Get family status history error:", error);
+      res.status(500).json({ message: "Failed to get family status history" });
+    }
+  });
+
+  // Family history: every saved version with what changed since the one before
+  app.get("/api/families/:id/versions", requireAuth, requirePermission('families.update', 'families.restore'), async (req, res) => {
+    try {
+      const versions = await getFamilyVersionSummaries(req.params.id);
+      res.json(versions);
+    } catch (error) {
+      console.error("Get family versions error:", error);
+      res.status(500).json({ message: "Failed to get family versions" });
+    }
+  });
+
+  // Restore a family and its members to an earlier version. The restore is saved as a new version,
+  // so it can itself be undone.
+  app.post("/api/families/:id/versions/:versionId/restore", requireAuth, requirePermission('families.restore'), async (req, res) => {
+    try {
+      const existingFamily = await storage.getFamily(req.params.id);
+      if (!existingFamily) {
+        return res.status(404).json({ message: "Family not found" });
+      }
+
+      const version = await storage.getFamilyVersion(req.params.versionId);
+      if (!version || version.familyId !== existingFamily.id) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+
+      const { members, ...snapshotFamily } = version.snapshot;
+      const familyData = insertFamilySchema.parse(snapshotFamily);
+      const memberData = z.array(familyMemberUpdateSchema).parse(members || []);
+
+      // Keep the family where it is in its team's list, and drop a team that has since been deleted
+      familyData.displayOrder = existingFamily.displayOrder;
+      if (familyData.teamId && !(await storage.getTeam(familyData.teamId))) {
+        familyData.teamId = null;
+      }
+
+      const family = await storage.updateFamily(existingFamily.id, familyData, memberData);
+      await updateFamilyPictureAcl(req, existingFamily, family);
+      await recordAudit(req, 'family', existingFamily.id, 'update', existingFamily, family);
+      await recordFamilyVersion(req, family, existingFamily, version.version);
+      await recordStatusChange(req, existingFamily.id, existingFamily.memberStatus, family.memberStatus, `Restored from version ${version.version}`);
+      res.json(withoutFamilyNotes(family));
+    } catch (error) {
+      console.error("Restore family version error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Version can't be restored", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to restore family version" });
+    }
+  });
+
+  // Merge a duplicate into this family: picked fields come from the duplicate, its care logs,
+  // donations, attendance, photos and status history move over, and the duplicate is deleted
+  app.post("/api/families/:id/merge", requireAuth, requirePermission('families.merge'), async (req, res) => {
+    try {
+      const mergeSchema = z.object({
+        duplicateId: z.string(),
+        fieldsFromDuplicate: z.array(z.enum(FAMILY_MERGE_FIELDS)).default([]),
+      });
+      const { duplicateId, fieldsFromDuplicate } = mergeSchema.parse(req.body);
+
+      if (duplicateId === req.params.id) {
+        return res.status(400).json({ message: "A family can't be merged into itself" });
+      }
+
+      const survivor = await storage.getFamily(req.params.id);
+      const duplicate = await storage.getFamily(duplicateId);
+      if (!survivor || !duplicate) {
+        return res.status(404).json({ message: "Family not found" });
+      }
+
+      const familyData = withRegistrationDate(survivor, buildMergedFamilyData(survivor, duplicate, fieldsFromDuplicate));
+      const family = await storage.mergeFamilies(survivor.id, duplicate.id, familyData, matchMergedMembers(survivor, duplicate));
+
+      // The duplicate's photos are now the survivor's, under the survivor's team
+      await applyFamilyPhotosAcl(family, req.session.staffId!);
+      await recordAudit(req, 'family', survivor.id, 'update', survivor, family);
+      await recordAudit(req, 'family', duplicate.id, 'delete', duplicate, null);
+      await recordFamilyVersion(req, family, survivor);
+      await recordStatusChange(req, survivor.id, survivor.memberStatus, family.memberStatus, `Merged with ${duplicate.familyName}`);
+      res.json(withoutFamilyNotes(family));
+    } catch (error) {
+      console.error("Merge families error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to merge families" });
+    }
+  });
+
+  // Replace a family's tags
+  app.put("/api/families/:id/tags", requireAuth, requirePermission('families.update'), async (req, res) => {
+    try {
+      const existingFamily = await storage.getFamily(req.params.id);
+      if (!existingFamily) {
+        return res.status(404).json({ message: "Family not found" });
+      }
+
+      const { tagIds } = familyTagsSchema.parse(req.body);
+      const knownTagIds = new Set((await storage.getTags()).map(tag => tag.id));
+      const unknownTagId = tagIds.find(id => !knownTagIds.has(id));
+      if (unknownTagId) {
+        return res.status(400).json({ message: `Unknown tag: ${unknownTagId}` });
+      }
+
+      const family = await storage.setFamilyTags(existingFamily.id, tagIds);
+      await recordAudit(req, 'family', existingFamily.id, 'update', { tagIds: existingFamily.tagIds }, { tagIds: family?.tagIds });
+      res.json({ tagIds: family?.tagIds ?? tagIds });
+    } catch (error) {
+      console.error("Update family tags error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update family tags" });
+    }
+  });
+
+  // Photo gallery; the primary photo is also the family picture
+  app.get("/api/families/:id/photos", requireAuth, async (req, res) => {
+    try {
+      const photos = await storage.getFamilyPhotos(req.params.id);
+      res.json(photos);
+    } catch (error) {
+      console.error("Get family photos error:", error);
+      res.status(500).json({ message: "Failed to get family photos" });
+    }
+  });
+
+  // Multipart upload: the image in "file", an optional "caption"
+  app.post("/api/families/:id/photos", requireAuth, requirePermission('families.update'), async (req, res) => {
+    try {
+      const family = await storage.getFamily(req.params.id);
+      if (!family) {
+        return res.status(404).json({ message: "Family not found" });
+      }
+
+      const file = await receiveImage(req, res, 'file');
+      if (!file) return;
+
+      const { caption } = familyPhotoUpdateSchema.pick({ caption: true }).parse(req.body);
+      const { displayPath, thumbnailPath } = await saveImageRenditions(file.buffer, req.session.staffId!);
+      const photo = await storage.createFamilyPhoto({
+        familyId: family.id,
+        displayPath,
+        thumbnailPath,
+        caption: caption || null,
+        uploadedBy: req.session.staffId,
+      });
+      await applyFamilyPhotosAcl(family, req.session.staffId!);
+      await recordAudit(req, 'familyPhoto', photo.id, 'create', null, photo);
+      res.json(photo);
+    } catch (error) {
+      console.error("Create family photo error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof InvalidImageError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to upload family photo" });
+    }
+  });
+
+  app.put("/api/families/:id/photos/:photoId", requireAuth, requirePermission('families.update'), async (req, res) => {
+    try {
+      const existingPhoto = await storage.getFamilyPhoto(req.params.photoId);
+      if (!existingPhoto || existingPhoto.familyId !== req.params.id) {
+        return res.status(404).json({ message: "Photo not found" });
+      }
+
+      const photoData = familyPhotoUpdateSchema.parse(req.body);
+      const photo = await storage.updateFamilyPhoto(existingPhoto.id, photoData);
+      await recordAudit(req, 'familyPhoto', existingPhoto.id, 'update', existingPhoto, photo);
+      res.json(photo);
+    } catch (error) {
+      console.error("Update family photo error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update family photo" });
+    }
+  });
+
+  app.delete("/api/families/:id/photos/:photoId", requireAuth, requirePermission('families.update'), async (req, res) => {
+    try {
+      const photo = await storage.getFamilyPhoto(req.params.photoId);
+      if (!photo || photo.familyId !== req.params.id) {
+        return res.status(404).json({ message: "Photo not found" });
+      }
+
+      await storage.deleteFamilyPhoto(photo.id);
+      await recordAudit(req, 'familyPhoto', photo.id, 'delete', photo, null);
+      res.json({ message: "Photo deleted successfully" });
+    } catch (error) {
+      console.error("Delete family photo error:", error);
+      res.status(500).json({ message: "Failed to delete family photo" });
+    }
+  });
+
+  // Moves members to another family or a new one (splitting or combining households). Members keep
+  // their ids and attendance; a family left without members is archived to Recently Deleted.
+  app.post("/api/families/:id/move-members", requireAuth, requirePermission('families.update'), async (req, res) => {
+    try {
+      const { members: moves, targetFamilyId, newFamily } = moveFamilyMembersSchema.parse(req.body);
+
+      if (targetFamilyId === req.params.id) {
+        return res.status(400).json({ message: "Members can't be moved into their own family" });
+      }
+      if (newFamily && !(await hasPermission(req, 'families.create'))) {
+        return res.status(403).json({ message: "Permission denied", required: ['families.create'] });
+      }
+
+      const source = await storage.getFamily(req.params.id);
+      const existingTarget = targetFamilyId ? await storage.getFamily(targetFamilyId) : undefined;
+      if (!source || (targetFamilyId && !existingTarget)) {
+        return res.status(404).json({ message: "Family not found" });
+      }
+
+      const plan = planMemberMove(source.members, existingTarget?.members ?? [], moves);
+      if ('error' in plan) {
+        return res.status(400).json({ message: plan.error });
+      }
+
+      const familyNames = {
+        source: getHouseholdName(plan.source, source.familyName),
+        target: getHouseholdName(plan.target, existingTarget?.familyName ?? ''),
+      };
+      const relationships = moves.map(move => ({
+        memberId: move.memberId,
+        relationship: plan.target.find(m => m.id === move.memberId)!.relationship,
+      }));
+
+      // A new household starts with the source family's contact details, address and team
+      const target = existingTarget
+        ? { id: existingTarget.id }
+        : {
+          family: withRegistrationDate(null, {
+            familyName: familyNames.target,
+            memberStatus: source.memberStatus,
+            visitedDate: source.visitedDate,
+            registrationDate: source.registrationDate,
+            phoneNumber: source.phoneNumber,
+            email: source.email,
+            address: source.address,
+            city: source.city,
+            state: source.state,
+            zipCode: source.zipCode,
+            fullAddress: source.fullAddress,
+            lifeGroup: source.lifeGroup,
+            supportTeamMember: source.supportTeamMember,
+            teamId: source.teamId,
+            ...newFamily,
+          } as InsertFamily),
+        };
+
+      const moved = await storage.moveFamilyMembers(source.id, target, relationships, familyNames);
+
+      await recordAudit(req, 'family', source.id, 'update', source, moved.source);
+      await recordFamilyVersion(req, moved.source, source);
+      if (existingTarget) {
+        await recordAudit(req, 'family', existingTarget.id, 'update', existingTarget, moved.target);
+        await recordFamilyVersion(req, moved.target, existingTarget);
+      } else {
+        await recordAudit(req, 'family', moved.target.id, 'create', null, moved.target);
+        await recordFamilyVersion(req, moved.target);
+        await recordStatusChange(req, moved.target.id, null, moved.target.memberStatus, `Moved from ${source.familyName}`);
+      }
+
+      let sourceFamily = moved.source;
+      if (moved.source.members.length === 0) {
+        sourceFamily = (await storage.archiveFamily(source.id, req.session.staffId!))!;
+        await recordAudit(req, 'family', source.id, 'update', moved.source, sourceFamily);
+      }
+
+      const result: MoveFamilyMembersResult = {
+        source: withoutFamilyNotes(sourceFamily),
+        target: withoutFamilyNotes(moved.target),
+        sourceArchived: !!sourceFamily.deletedAt,
+      };
+      res.json(result);
+    } catch (error) {
+      console.error("Move family members error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to move family members" });
+    }
+  });
+
+  app.delete("/api/families/:id", requireAuth, requirePermission('families.delete'), async (req, res) => {
     try {
-      await storage.deleteFamily(req.params.id);
+      // Archived rather than deleted, so care logs, donations and attendance survive a misclick
+      const existingFamily = await storage.getFamily(req.params.id);
+      if (!existingFamily) {
+        return res.status(404).json({ message: "Family not found" });
+      }
+      const archivedFamily = await storage.archiveFamily(existingFamily.id, req.session.staffId!);
+      await recordAudit(req, 'family', existingFamily.id, 'update', existingFamily, archivedFamily);
       res.json({ message: "Family deleted" });
     } catch (error) {
       console.error("Delete family error:", error);
@@ -1161,6 +2755,122 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post("/api/families/deleted/:id/restore", requireAuth, requirePermission('families.archive'), async (req, res) => {
+    try {
+      const existingFamily = await storage.getFamily(req.params.id, { includeDeleted: true });
+      if (!existingFamily?.deletedAt) {
+        return res.status(404).json({ message: "Deleted family not found" });
+      }
+      const family = await storage.restoreDeletedFamily(existingFamily.id);
+      await recordAudit(req, 'family', existingFamily.id, 'update', existingFamily, family);
+      res.json(family && withoutFamilyNotes(family));
+    } catch (error) {
+      console.error("Restore deleted family error:", error);
+      res.status(500).json({ message: "Failed to restore family" });
+    }
+  });
+
+  // Permanent delete, which also removes the family's care logs, donations and attendance.
+  // Only for archived families, and the family name must be typed in to confirm.
+  app.delete("/api/families/deleted/:id", requireAuth, requirePermission('families.archive'), async (req, res) => {
+    try {
+      const { confirmFamilyName } = z.object({ confirmFamilyName: z.string() }).parse(req.body);
+
+      const existingFamily = await storage.getFamily(req.params.id, { includeDeleted: true });
+      if (!existingFamily?.deletedAt) {
+        return res.status(404).json({ message: "Deleted family not found" });
+      }
+      if (confirmFamilyName.trim() !== existingFamily.familyName) {
+        return res.status(400).json({ message: "Family name doesn't match" });
+      }
+
+      await storage.deleteFamily(existingFamily.id);
+      await recordAudit(req, 'family', existingFamily.id, 'delete', existingFamily, null);
+      res.json({ message: "Family permanently deleted" });
+    } catch (error) {
+      console.error("Purge family error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to permanently delete family" });
+    }
+  });
+
+  // Birthdays and wedding anniversaries in the next few days, for the staff member's teams.
+  // Staff who manage teams can ask for any teams; everyone else only gets teams they're assigned to.
+  app.get("/api/celebrations/upcoming", requireAuth, async (req, res) => {
+    try {
+      const params = upcomingCelebrationsSchema.parse(req.query);
+      const ownTeamIds = await storage.getTeamIdsForStaff(req.session.staffId!);
+      let teamIds = params.teamIds ?? ownTeamIds;
+      if (!(await hasPermission(req, 'teams.manage'))) {
+        teamIds = teamIds.filter(id => ownTeamIds.includes(id));
+      }
+      if (teamIds.length === 0) {
+        return res.json([]);
+      }
+
+      const [families, teams] = await Promise.all([
+        storage.getFamilies({ teamIds }),
+        storage.getTeams(),
+      ]);
+      const teamNames = new Map(teams.map(team => [team.id, team.name]));
+      const from = params.from ?? new Date().toISOString().split('T')[0];
+      res.json(getUpcomingCelebrations(families, teamNames, from, params.days));
+    } catch (error) {
+      console.error("Get upcoming celebrations error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to get upcoming celebrations" });
+    }
+  });
+
+  // City and state for a US ZIP or Canadian postal code, from the bundled data
+  app.get("/api/postal-codes/:code", requireAuth, async (req, res) => {
+    try {
+      const lookup = lookupPostalCode(req.params.code);
+      if (!lookup) {
+        return res.status(404).json({ message: "Postal code not found" });
+      }
+      res.json(lookup);
+    } catch (error) {
+      console.error("Postal code lookup error:", error);
+      res.status(500).json({ message: "Failed to look up postal code" });
+    }
+  });
+
+  // Families whose stored city or state contradicts their ZIP code
+  app.get("/api/reports/address-mismatches", requireAuth, requirePermission('families.addressReport'), async (req, res) => {
+    try {
+      const allFamilies = await storage.getFamilies();
+      const mismatches = [];
+      for (const family of allFamilies) {
+        const { issues, lookup } = findAddressIssues(family);
+        if (issues.length > 0) {
+          mismatches.push({
+            family: {
+              id: family.id,
+              familyCode: family.familyCode,
+              familyName: family.familyName,
+              address: family.address,
+              city: family.city,
+              state: family.state,
+              zipCode: family.zipCode,
+            },
+            issues,
+            expectedCity: lookup?.city ?? null,
+            expectedState: lookup?.state ?? null,
+          });
+        }
+      }
+      res.json(mismatches);
+    } catch (error) {
+      console.error("Address mismatch report error:", error);
+      res.status(500).json({ message: "Failed to get address report" });
+    }
+  });
+
   // Update family display order within team
   app.put("/api/teams/:teamId/families/order", requireAuth, async (req, res) => {
     try {
@@ -1172,8 +2882,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       const { familyOrders } = familyOrderSchema.parse(req.body);
+      const teamFamilies = await storage.getTeamFamilies(req.params.teamId);
       await storage.updateFamilyOrder(req.params.teamId, familyOrders);
 
+      for (const { id, displayOrder } of familyOrders) {
+        const family = teamFamilies.find(f => f.id === id);
+        if (family) {
+          await recordAudit(req, 'family', id, 'update', { displayOrder: family.displayOrder }, { displayOrder });
+        }
+      }
+
       res.json({ success: true, message: "Family order updated successfully" });
     } catch (error) {
       console.error("Update family order error:", error);
@@ -1184,6 +2902,63 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Public business directory (no authentication required). Lists business fields only, for
+  // families that opted in; pictures go through the photo route so consent is checked on every request.
+  const toDirectoryEntry = (family: DirectoryFamily) => ({
+    id: family.id,
+    bizName: family.bizName,
+    biz: family.biz,
+    bizTitle: family.bizTitle,
+    bizCategory: family.bizCategory,
+    bizIntro: family.bizIntro,
+    photoUrl: family.directoryPhotoConsent && family.familyPicture ? `/api/directory/${family.id}/photo` : null,
+  });
+
+  app.get("/api/directory", async (req, res) => {
+    try {
+      const filters = businessDirectorySchema.parse(req.query);
+      const [directoryFamilies, categories] = await Promise.all([
+        storage.getDirectoryFamilies(filters),
+        storage.getDirectoryCategories(),
+      ]);
+      res.json({ entries: directoryFamilies.map(toDirectoryEntry), categories });
+    } catch (error) {
+      console.error("Get business directory error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to get business directory" });
+    }
+  });
+
+  app.get("/api/directory/:id/photo", async (req, res) => {
+    try {
+      const family = await storage.getFamily(req.params.id);
+      const picture = family?.familyPicture;
+      if (!family || !family.directoryOptIn || !family.directoryPhotoConsent || !picture) {
+        return res.status(404).json({ error: "File not found" });
+      }
+
+      if (picture.startsWith('/objects/') && isCloudStorageEnabled()) {
+        const objectStorageService = new ObjectStorageService();
+        const objectFile = await objectStorageService.getObjectEntityFile(picture);
+        return objectStorageService.downloadObject(objectFile, res);
+      }
+
+      const localPath = path.join(process.cwd(), 'uploads', path.basename(picture));
+      if (!fs.existsSync(localPath)) {
+        return res.status(404).json({ error: "File not found" });
+      }
+      res.sendFile(localPath);
+    } catch (error) {
+      console.error("Get directory photo error:", error);
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ error: "File not found" });
+      }
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   // Public announcement route (no authentication required)
   app.get("/api/announcements/public/:id", async (req, res) => {
     try {
@@ -1205,7 +2980,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Announcement routes
-  app.get("/api/announcements", requireAuth, async (req, res) => {
+  app.get("/api/announcements", allowApiToken('announcements:read'), requireAuth, async (req, res) => {
     try {
       const announcements = await storage.getAnnouncements();
       res.json(announcements);
@@ -1245,7 +3020,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/announcements/:id", requireAuth, async (req, res) => {
+  app.get("/api/announcements/:id", allowApiToken('announcements:read'), requireAuth, async (req, res) => {
     try {
       const announcement = await storage.getAnnouncement(req.params.id);
       if (!announcement) {
@@ -1258,13 +3033,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/announcements", requireAuth, requireSuperAdminAccess, async (req, res) => {
+  app.post("/api/announcements", requireAuth, requirePermission('announcements.manage'), async (req, res) => {
     try {
       const announcementData = insertAnnouncementSchema.parse({
         ...req.body,
         createdBy: req.session.staffId
       });
       const announcement = await storage.createAnnouncement(announcementData);
+      await recordAudit(req, 'announcement', announcement.id, 'create', null, announcement);
       res.json(announcement);
     } catch (error) {
       console.error("Create announcement error:", error);
@@ -1275,13 +3051,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/announcements/:id", requireAuth, requireSuperAdminAccess, async (req, res) => {
+  app.put("/api/announcements/:id", requireAuth, requirePermission('announcements.manage'), async (req, res) => {
     try {
       const announcementData = insertAnnouncementSchema.partial().parse(req.body);
+      const existingAnnouncement = await storage.getAnnouncement(req.params.id);
       const updatedAnnouncement = await storage.updateAnnouncement(req.params.id, announcementData);
-      if (!updatedAnnouncement) {
+      if (!updatedAnnouncement || !existingAnnouncement) {
         return res.status(404).json({ message: "Announcement not found" });
       }
+      const { createdByStaff, ...before } = existingAnnouncement;
+      await recordAudit(req, 'announcement', updatedAnnouncement.id, 'update', before, updatedAnnouncement);
       res.json(updatedAnnouncement);
     } catch (error) {
       console.error("Update announcement error:", error);
@@ -1292,9 +3071,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/announcements/:id", requireAuth, requireSuperAdminAccess, async (req, res) => {
+  app.delete("/api/announcements/:id", requireAuth, requirePermission('announcements.manage'), async (req, res) => {
     try {
+      const existingAnnouncement = await storage.getAnnouncement(req.params.id);
       await storage.deleteAnnouncement(req.params.id);
+      if (existingAnnouncement) {
+        const { createdByStaff, ...before } = existingAnnouncement;
+        await recordAudit(req, 'announcement', before.id, 'delete', before, null);
+      }
       res.json({ message: "Announcement deleted successfully" });
     } catch (error) {
       console.error("Delete announcement error:", error);
@@ -1338,6 +3122,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       };
 
       const careLog = await storage.createCareLog(careLogData);
+      await recordAudit(req, 'careLog', careLog.id, 'create', null, careLog);
       res.json(careLog);
     } catch (error) {
       console.error("Create care log error:", error);
@@ -1353,13 +3138,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Care log not found" });
       }
 
-      // Allow if user is ADM group or if they're the original staff member who created the log
-      if (req.session.staffGroup === 'ADM' || careLog.staffId === req.session.staffId) {
+      // Allow if user can manage all care logs or if they're the original staff member who created the log
+      if (careLog.staffId === req.session.staffId || await hasPermission(req, 'careLogs.manageAll')) {
         req.careLog = careLog; // Pass care log to next handler
         return next();
       }
 
-      return res.status(403).json({ message: "Permission denied. Only ADM group or the original staff member can modify care logs." });
+      return res.status(403).json({ message: "Permission denied. Only administrators or the original staff member can modify care logs." });
     } catch (error) {
       console.error("Care log permission check error:", error);
       res.status(500).json({ message: "Failed to check permissions" });
@@ -1379,6 +3164,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!updatedCareLog) {
         return res.status(404).json({ message: "Care log not found" });
       }
+      await recordAudit(req, 'careLog', updatedCareLog.id, 'update', req.careLog, updatedCareLog);
       res.json(updatedCareLog);
     } catch (error) {
       console.error("Update care log error:", error);
@@ -1389,6 +3175,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete("/api/care-logs/:id", requireAuth, requireCareLogOwnerOrAdmin, async (req, res) => {
     try {
       await storage.deleteCareLog(req.params.id);
+      await recordAudit(req, 'careLog', req.params.id, 'delete', req.careLog, null);
       res.json({ message: "Care log deleted" });
     } catch (error) {
       console.error("Delete care log error:", error);
@@ -1397,7 +3184,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Event routes
-  app.get("/api/events", requireAuth, async (req, res) => {
+  app.get("/api/events", allowApiToken('events:read'), requireAuth, async (req, res) => {
     try {
       const events = req.query.active === 'true' ? await storage.getActiveEvents() : await storage.getEvents();
       res.json(events);
@@ -1407,7 +3194,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/events/:id", requireAuth, async (req, res) => {
+  app.get("/api/events/:id", allowApiToken('events:read'), requireAuth, async (req, res) => {
     try {
       const event = await storage.getEvent(req.params.id);
       if (!event) {
@@ -1420,13 +3207,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/events", requireAuth, requireAdminAccess, async (req, res) => {
+  app.post("/api/events", requireAuth, requirePermission('events.manage'), async (req, res) => {
     try {
       const eventData = insertEventSchema.parse({
         ...req.body,
         createdBy: req.session.staffId
       });
       const event = await storage.createEvent(eventData);
+      await recordAudit(req, 'event', event.id, 'create', null, event);
       
       // Initialize attendance for all families
       await storage.initializeEventAttendance(event.id, req.session.staffId!);
@@ -1441,13 +3229,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/events/:id", requireAuth, requireAdminAccess, async (req, res) => {
+  app.put("/api/events/:id", requireAuth, requirePermission('events.manage'), async (req, res) => {
     try {
       const eventData = insertEventSchema.partial().parse(req.body);
+      const existingEvent = await storage.getEvent(req.params.id);
       const updatedEvent = await storage.updateEvent(req.params.id, eventData);
-      if (!updatedEvent) {
+      if (!updatedEvent || !existingEvent) {
         return res.status(404).json({ message: "Event not found" });
       }
+      const { createdByStaff, attendance, ...before } = existingEvent;
+      await recordAudit(req, 'event', updatedEvent.id, 'update', before, updatedEvent);
       res.json(updatedEvent);
     } catch (error) {
       console.error("Update event error:", error);
@@ -1458,9 +3249,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/events/:id", requireAuth, requireAdminAccess, async (req, res) => {
+  app.delete("/api/events/:id", requireAuth, requirePermission('events.manage'), async (req, res) => {
     try {
+      const existingEvent = await storage.getEvent(req.params.id);
       await storage.deleteEvent(req.params.id);
+      if (existingEvent) {
+        const { createdByStaff, attendance, ...before } = existingEvent;
+        await recordAudit(req, 'event', before.id, 'delete', before, null);
+      }
       res.json({ message: "Event deleted successfully" });
     } catch (error) {
       console.error("Delete event error:", error);
@@ -1469,10 +3265,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Event attendance routes
+  // Staff with attendance.update can edit every record; other staff can edit
+  // records for families in the teams they're assigned to (teams.assignedStaff)
+  const getAttendanceScope = async (req: any): Promise<{ all: boolean; teamIds: string[] }> => {
+    if (await hasPermission(req, 'attendance.update')) {
+      return { all: true, teamIds: [] };
+    }
+    return { all: false, teamIds: await storage.getTeamIdsForStaff(req.session.staffId) };
+  };
+
   app.get("/api/events/:eventId/attendance", requireAuth, async (req, res) => {
     try {
       const attendance = await storage.getEventAttendance(req.params.eventId);
-      res.json(attendance);
+      const scope = await getAttendanceScope(req);
+      res.json(attendance.map(record => ({
+        ...record,
+        canEdit: scope.all || (!!record.family.teamId && scope.teamIds.includes(record.family.teamId)),
+      })));
     } catch (error) {
       console.error("Get event attendance error:", error);
       res.status(500).json({ message: "Failed to get event attendance" });
@@ -1482,17 +3291,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Permission middleware for attendance updates
   const requireAttendanceUpdatePermission = async (req: any, res: any, next: any) => {
     try {
-      // ADM and MGM can update all attendance
-      if (req.session.staffGroup === 'ADM' || req.session.staffGroup === 'MGM') {
+      const scope = await getAttendanceScope(req);
+      if (scope.all) {
         return next();
       }
 
-      // For non-admin users, implement family-specific permissions
-      // This is a placeholder for when family-staff relationships are implemented
-      // For now, we'll restrict non-admin users to only view attendance
-      return res.status(403).json({ 
-        message: "Permission denied. Only administrators can update attendance records." 
-      });
+      const teamId = await storage.getAttendanceFamilyTeamId(req.params.id);
+      if (teamId === undefined) {
+        return res.status(404).json({ message: "Attendance record not found" });
+      }
+      if (!teamId || !scope.teamIds.includes(teamId)) {
+        return res.status(403).json({
+          message: "Permission denied. You can only update attendance for families in your teams."
+        });
+      }
+
+      // Team staff may only change the status, not move the record to another event or family
+      req.body = { attendanceStatus: req.body.attendanceStatus };
+      next();
     } catch (error) {
       console.error("Attendance permission check error:", error);
       res.status(500).json({ message: "Failed to check permissions" });
@@ -1506,10 +3322,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         updatedBy: req.session.staffId
       });
       
+      const existingAttendance = await storage.getEventAttendanceRecord(req.params.id);
       const updatedAttendance = await storage.updateEventAttendance(req.params.id, attendanceData);
       if (!updatedAttendance) {
         return res.status(404).json({ message: "Attendance record not found" });
       }
+      await recordAudit(req, 'attendance', updatedAttendance.id, 'update', existingAttendance, updatedAttendance);
       res.json(updatedAttendance);
     } catch (error) {
       console.error("Update attendance error:", error);
@@ -1520,8 +3338,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Department routes (ADM and MGM access)
-  app.get("/api/departments", requireAuth, requireManagementAccess, async (req, res) => {
+  // Department routes
+  app.get("/api/departments", requireAuth, requirePermission('departments.manage'), async (req, res) => {
     try {
       const departments = await storage.getDepartments();
       res.json(departments);
@@ -1531,7 +3349,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/departments/:id", requireAuth, requireManagementAccess, async (req, res) => {
+  app.get("/api/departments/:id", requireAuth, requirePermission('departments.manage'), async (req, res) => {
     try {
       const department = await storage.getDepartment(req.params.id);
       if (!department) {
@@ -1544,10 +3362,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/departments", requireAuth, requireManagementAccess, async (req, res) => {
+  app.post("/api/departments", requireAuth, requirePermission('departments.manage'), async (req, res) => {
     try {
       const departmentData = insertDepartmentSchema.parse(req.body);
       const department = await storage.createDepartment(departmentData);
+      await recordAudit(req, 'department', department.id, 'create', null, department);
       res.json(department);
     } catch (error) {
       console.error("Create department error:", error);
@@ -1561,13 +3380,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/departments/:id", requireAuth, requireManagementAccess, async (req, res) => {
+  app.put("/api/departments/:id", requireAuth, requirePermission('departments.manage'), async (req, res) => {
     try {
       const departmentData = insertDepartmentSchema.partial().parse(req.body);
+      const existingDepartment = await storage.getDepartment(req.params.id);
       const updatedDepartment = await storage.updateDepartment(req.params.id, departmentData);
-      if (!updatedDepartment) {
+      if (!updatedDepartment || !existingDepartment) {
         return res.status(404).json({ message: "Department not found" });
       }
+      const { teams, ...before } = existingDepartment;
+      await recordAudit(req, 'department', updatedDepartment.id, 'update', before, updatedDepartment);
       res.json(updatedDepartment);
     } catch (error) {
       console.error("Update department error:", error);
@@ -1581,9 +3403,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/departments/:id", requireAuth, requireManagementAccess, async (req, res) => {
+  app.delete("/api/departments/:id", requireAuth, requirePermission('departments.manage'), async (req, res) => {
     try {
+      const existingDepartment = await storage.getDepartment(req.params.id);
       await storage.deleteDepartment(req.params.id);
+      if (existingDepartment) {
+        const { teams, ...before } = existingDepartment;
+        await recordAudit(req, 'department', before.id, 'delete', before, null);
+      }
       res.json({ message: "Department deleted successfully" });
     } catch (error) {
       console.error("Delete department error:", error);
@@ -1594,8 +3421,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Team routes (ADM and MGM access)
-  app.get("/api/teams", requireAuth, requireManagementAccess, async (req, res) => {
+  // Team routes
+  app.get("/api/teams", requireAuth, requirePermission('teams.manage'), async (req, res) => {
     try {
       const departmentId = req.query.departmentId as string;
       if (departmentId) {
@@ -1611,7 +3438,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/teams/:id", requireAuth, requireManagementAccess, async (req, res) => {
+  app.get("/api/teams/:id", requireAuth, requirePermission('teams.manage'), async (req, res) => {
     try {
       const team = await storage.getTeam(req.params.id);
       if (!team) {
@@ -1624,10 +3451,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/teams", requireAuth, requireManagementAccess, async (req, res) => {
+  app.post("/api/teams", requireAuth, requirePermission('teams.manage'), async (req, res) => {
     try {
       const teamData = insertTeamSchema.parse(req.body);
       const team = await storage.createTeam(teamData);
+      await recordAudit(req, 'team', team.id, 'create', null, team);
       res.json(team);
     } catch (error) {
       console.error("Create team error:", error);
@@ -1641,13 +3469,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/teams/:id", requireAuth, requireManagementAccess, async (req, res) => {
+  app.put("/api/teams/:id", requireAuth, requirePermission('teams.manage'), async (req, res) => {
     try {
       const teamData = insertTeamSchema.partial().parse(req.body);
+      const existingTeam = await storage.getTeam(req.params.id);
       const updatedTeam = await storage.updateTeam(req.params.id, teamData);
-      if (!updatedTeam) {
+      if (!updatedTeam || !existingTeam) {
         return res.status(404).json({ message: "Team not found" });
       }
+      const { department, ...before } = existingTeam;
+      await recordAudit(req, 'team', updatedTeam.id, 'update', before, updatedTeam);
       res.json(updatedTeam);
     } catch (error) {
       console.error("Update team error:", error);
@@ -1661,9 +3492,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/teams/:id", requireAuth, requireManagementAccess, async (req, res) => {
+  app.delete("/api/teams/:id", requireAuth, requirePermission('teams.manage'), async (req, res) => {
     try {
+      const existingTeam = await storage.getTeam(req.params.id);
       await storage.deleteTeam(req.params.id);
+      if (existingTeam) {
+        const { department, ...before } = existingTeam;
+        await recordAudit(req, 'team', before.id, 'delete', before, null);
+      }
       res.json({ message: "Team deleted successfully" });
     } catch (error) {
       console.error("Delete team error:", error);
@@ -1672,7 +3508,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Donation routes
-  app.get("/api/donations", requireAuth, async (req, res) => {
+  app.get("/api/donations", allowApiToken('donations:read'), requireAuth, async (req, res) => {
     try {
       const filters = {
         familyName: req.query.familyName as string,
@@ -1699,7 +3535,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/donations/:id", requireAuth, async (req, res) => {
+  app.get("/api/donations/:id", allowApiToken('donations:read'), requireAuth, async (req, res) => {
     try {
       const donation = await storage.getDonationById(req.params.id);
       if (!donation) {
@@ -1712,7 +3548,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/donations", requireAuth, async (req, res) => {
+  app.post("/api/donations", requireAuth, requirePermission('donations.write'), async (req, res) => {
     try {
       console.log("Creating donation with data:", req.body);
       console.log("Session staff ID:", req.session.staffId);
@@ -1754,6 +3590,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const donation = await storage.createDonation(donationData);
       console.log("Donation created successfully:", donation.id);
+      await recordAudit(req, 'donation', donation.id, 'create', null, donation);
       res.status(201).json(donation);
     } catch (error) {
       console.error("Create donation error:", error);
@@ -1772,14 +3609,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/donations/:id", requireAuth, async (req, res) => {
+  app.put("/api/donations/:id", requireAuth, requirePermission('donations.write'), async (req, res) => {
     try {
       const donationData = insertDonationSchema.partial().parse(req.body);
+      const existingDonation = await storage.getDonationById(req.params.id);
       const donation = await storage.updateDonation(req.params.id, donationData);
 
-      if (!donation) {
+      if (!donation || !existingDonation) {
         return res.status(404).json({ message: "Donation not found" });
       }
+      const { family, createdByStaff, ...before } = existingDonation;
+      await recordAudit(req, 'donation', donation.id, 'update', before, donation);
 
       res.json(donation);
     } catch (error) {
@@ -1791,12 +3631,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/donations/:id", requireAuth, async (req, res) => {
+  app.delete("/api/donations/:id", requireAuth, requirePermission('donations.write'), async (req, res) => {
     try {
+      const existingDonation = await storage.getDonationById(req.params.id);
       const success = await storage.deleteDonation(req.params.id);
       if (!success) {
         return res.status(404).json({ message: "Donation not found" });
       }
+      if (existingDonation) {
+        const { family, createdByStaff, ...before } = existingDonation;
+        await recordAudit(req, 'donation', before.id, 'delete', before, null);
+      }
       res.json({ message: "Donation deleted successfully" });
     } catch (error) {
       console.error("Delete donation error:", error);
@@ -1808,6 +3653,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
   return httpServer;
 }
 
+async function initializeDefaultRoles() {
+  try {
+    for (const defaultRole of DEFAULT_ROLES) {
+      const existingRole = await storage.getRoleByCode(defaultRole.code);
+      if (!existingRole) {
+        await storage.createRole({ ...defaultRole, isSystem: true });
+        console.log(`Created default role ${defaultRole.code}`);
+      }
+    }
+  } catch (error) {
+    console.error("Failed to initialize default roles:", error);
+  }
+}
+
+async function migrateStaffPins() {
+  try {
+    const migrated = await storage.migratePlaintextPins();
+    if (migrated > 0) {
+      console.log(`Hashed ${migrated} plaintext staff PIN(s)`);
+    }
+  } catch (error) {
+    console.error("Failed to migrate staff PINs:", error);
+  }
+}
+
+async function backfillFamilyPictureAcls() {
+  if (!isCloudStorageEnabled()) {
+    return;
+  }
+  try {
+    const photos = await storage.getAllFamilyPhotos();
+    for (const photo of photos) {
+      await applyFamilyPictureAcl(photo.displayPath, photo.teamId, photo.uploadedBy);
+      if (photo.thumbnailPath !== photo.displayPath) {
+        await applyFamilyPictureAcl(photo.thumbnailPath, photo.teamId, photo.uploadedBy);
+      }
+    }
+  } catch (error) {
+    console.error("Failed to backfill family picture ACLs:", error);
+  }
+}
+
 async function initializeSampleData() {
   try {
     const existingStaff = await storage.getAllActiveStaff();
@@ -14,17 +14,76 @@ import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Named permissions that roles can grant
+export const PERMISSIONS = {
+  'staff.manage': 'Manage staff accounts, sessions, lockouts and login history',
+  'roles.manage': 'Create and edit roles and their permissions',
+  'families.create': 'Create families (including quick add)',
+  'families.update': 'Edit family details and members',
+  'families.delete': 'Delete families',
+  'families.import': 'Import families from CSV',
+  'careLogs.manageAll': "Edit or delete other staff members' care logs",
+  'announcements.manage': 'Create, edit and delete announcements',
+  'events.manage': 'Create, edit and delete events',
+  'attendance.update': 'Update attendance for any family',
+  'departments.manage': 'View and manage departments',
+  'teams.manage': 'View and manage teams',
+  'donations.write': 'Record, edit and delete donations',
+  'familyNotes.audit': 'See who revealed confidential family notes',
+  'audit.view': 'View the audit log of all changes',
+  'families.restore': 'Restore a family to an earlier version',
+  'families.merge': 'Find and merge duplicate families',
+  'families.archive': 'View, restore and permanently delete deleted families',
+  'apiTokens.manage': 'Create and revoke API tokens for integrations',
+  'families.addressReport': "List families whose city or state doesn't match their ZIP code",
+  'customFields.manage': 'Define custom fields for families and members',
+  'tags.manage': 'Create, rename, recolor and delete family tags',
+  'positions.manage': 'Appoint members to leadership positions and end their terms',
+  'familyPictures.viewAll': "See every family's pictures, not just those of families on your teams",
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const PERMISSION_KEYS = Object.keys(PERMISSIONS) as Permission[];
+
+// Read-only scopes an API token can be granted (see server/apiTokens.ts)
+export const API_TOKEN_SCOPES = {
+  'families:read': 'Read families and their members',
+  'events:read': 'Read events',
+  'donations:read': 'Read donations',
+  'announcements:read': 'Read announcements',
+} as const;
+
+export type ApiTokenScope = keyof typeof API_TOKEN_SCOPES;
+
+export const API_TOKEN_SCOPE_KEYS = Object.keys(API_TOKEN_SCOPES) as ApiTokenScope[];
+
+// Roles table (staff.group holds the role code)
+export const roles = pgTable("roles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: varchar("code", { length: 50 }).notNull().unique(), // ADM, MGM, TEAM-A, TEAM-B
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  permissions: jsonb("permissions").$type<Permission[]>().notNull().default([]),
+  isSystem: boolean("is_system").notNull().default(false), // built-in roles can't be deleted
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Staff table
 export const staff = pgTable("staff", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   fullName: varchar("full_name", { length: 255 }).notNull(),
   nickName: varchar("nick_name", { length: 100 }).notNull().unique(),
-  personalPin: varchar("personal_pin", { length: 4 }).notNull(),
-  group: varchar("group", { length: 50 }).notNull(), // ADM, MGM, TEAM-A, TEAM-B
+  personalPin: varchar("personal_pin", { length: 255 }).notNull(), // scrypt hash, see server/pinHash.ts
+  group: varchar("group", { length: 50 }).notNull(), // role code, see roles table
   email: varchar("email", { length: 255 }),
   displayOrder: integer("display_order").default(0),
   isActive: boolean("is_active").default(true),
   lastLogin: timestamp("last_login"),
+  loginLockResetAt: timestamp("login_lock_reset_at"), // failed logins before this are ignored (admin unlock)
+  mustChangePin: boolean("must_change_pin").default(false), // set when an admin issues a temporary PIN
+  previousPin: varchar("previous_pin", { length: 255 }), // scrypt hash of the PIN replaced by the last change
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -32,7 +91,8 @@ export const staff = pgTable("staff", {
 // Staff login logs table
 export const staffLoginLogs = pgTable("staff_login_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  staffId: varchar("staff_id").notNull().references(() => staff.id, { onDelete: "cascade" }),
+  staffId: varchar("staff_id").references(() => staff.id, { onDelete: "cascade" }), // null when no staff member has the nickname
+  nickname: varchar("nickname", { length: 255 }), // the nickname tried, kept for attempts that matched no staff member
   loginTime: timestamp("login_time").notNull().defaultNow(),
   ipAddress: varchar("ip_address", { length: 45 }), // IPv6 support
   userAgent: varchar("user_agent", { length: 500 }),
@@ -41,6 +101,19 @@ export const staffLoginLogs = pgTable("staff_login_logs", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Staff sessions table (express-session store, see server/sessionStore.ts)
+export const staffSessions = pgTable("staff_sessions", {
+  sid: varchar("sid").primaryKey(),
+  id: varchar("id").notNull().unique().default(sql`gen_random_uuid()`), // public id, the sid is never sent to clients
+  sess: jsonb("sess").notNull(),
+  expire: timestamp("expire").notNull(),
+  staffId: varchar("staff_id").references(() => staff.id, { onDelete: "cascade" }),
+  ipAddress: varchar("ip_address", { length: 45 }),
+  userAgent: varchar("user_agent", { length: 500 }),
+  createdAt: timestamp("created_at").defaultNow(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow(),
+});
+
 // Families table
 export const families = pgTable("families", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -48,7 +121,8 @@ export const families = pgTable("families", {
   familyName: varchar("family_name", { length: 255 }).notNull(),
   visitedDate: date("visited_date"),
   registrationDate: date("registration_date"),
-  memberStatus: varchar("member_status", { length: 50 }).notNull(), // visit, member, pending
+  weddingDate: date("wedding_date"),
+  memberStatus: varchar("member_status", { length: 50 }).notNull(), // visit, member, inactive (legacy: pending)
   phoneNumber: varchar("phone_number", { length: 20 }).notNull(),
   email: varchar("email", { length: 255 }),
   address: varchar("address", { length: 255 }).notNull(),
@@ -57,7 +131,8 @@ export const families = pgTable("families", {
   zipCode: varchar("zip_code", { length: 10 }).notNull(),
   fullAddress: varchar("full_address", { length: 500 }).notNull(),
   familyNotes: text("family_notes"),
-  familyPicture: varchar("family_picture", { length: 500 }),
+  familyPicture: varchar("family_picture", { length: 500 }), // the primary photo's display rendition
+  familyPictureThumbnail: varchar("family_picture_thumbnail", { length: 500 }), // and its thumbnail, for cards and print layouts
   lifeGroup: varchar("life_group", { length: 255 }),
   supportTeamMember: varchar("support_team_member", { length: 255 }),
   biz: varchar("biz", { length: 255 }),
@@ -65,8 +140,14 @@ export const families = pgTable("families", {
   bizCategory: varchar("biz_category", { length: 255 }),
   bizName: varchar("biz_name", { length: 255 }),
   bizIntro: text("biz_intro"),
+  directoryOptIn: boolean("directory_opt_in").notNull().default(false), // listed in the public business directory
+  directoryPhotoConsent: boolean("directory_photo_consent").notNull().default(false), // family picture shown in the directory
+  customFieldValues: jsonb("custom_field_values").$type<CustomFieldValues>().notNull().default({}), // by custom field id
+  tagIds: jsonb("tag_ids").$type<string[]>().notNull().default([]), // see the tags table
   teamId: varchar("team_id").references(() => teams.id, { onDelete: "set null" }),
   displayOrder: integer("display_order").default(0),
+  deletedAt: timestamp("deleted_at"), // set when archived; archived families are hidden until restored or purged
+  deletedBy: varchar("deleted_by").references(() => staff.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -81,15 +162,30 @@ export const familyMembers = pgTable("family_members", {
   phoneNumber: varchar("phone_number", { length: 20 }),
   email: varchar("email", { length: 255 }),
   relationship: varchar("relationship", { length: 50 }).notNull(), // husband, wife, child, other
-  courses: jsonb("courses").$type<string[]>().default([]),
   gradeLevel: varchar("grade_level", { length: 10 }), // for children
   gradeGroup: varchar("grade_group", { length: 50 }), // for children
   school: varchar("school", { length: 255 }), // for children
+  customFieldValues: jsonb("custom_field_values").$type<CustomFieldValues>().notNull().default({}), // by custom field id
   displayOrder: integer("display_order").default(0),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Family photo gallery. Uploads are stored as display and thumbnail renditions (see server/images.ts);
+// the primary photo is mirrored onto families.familyPicture and familyPictureThumbnail.
+export const familyPhotos = pgTable("family_photos", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  familyId: varchar("family_id").notNull().references(() => families.id, { onDelete: "cascade" }),
+  displayPath: varchar("display_path", { length: 500 }).notNull(),
+  thumbnailPath: varchar("thumbnail_path", { length: 500 }).notNull(),
+  caption: varchar("caption", { length: 255 }),
+  isPrimary: boolean("is_primary").notNull().default(false),
+  displayOrder: integer("display_order").notNull().default(0),
+  uploadedBy: varchar("uploaded_by").references(() => staff.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Care logs table
 export const careLogs = pgTable("care_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -103,6 +199,121 @@ export const careLogs = pgTable("care_logs", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Family notes access log (one row per reveal of confidential family notes)
+export const familyNoteAccessLogs = pgTable("family_note_access_logs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  familyId: varchar("family_id").notNull().references(() => families.id, { onDelete: "cascade" }),
+  staffId: varchar("staff_id").notNull().references(() => staff.id, { onDelete: "cascade" }),
+  accessedAt: timestamp("accessed_at").notNull().defaultNow(),
+  ipAddress: varchar("ip_address", { length: 45 }),
+});
+
+// Family member status history (one row per memberStatus transition, see server/memberStatus.ts)
+export const familyStatusHistory = pgTable("family_status_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  familyId: varchar("family_id").notNull().references(() => families.id, { onDelete: "cascade" }),
+  fromStatus: varchar("from_status", { length: 50 }), // null for the status a family was created with
+  toStatus: varchar("to_status", { length: 50 }).notNull(),
+  reason: text("reason"),
+  staffId: varchar("staff_id").references(() => staff.id, { onDelete: "set null" }),
+  changedAt: timestamp("changed_at").notNull().defaultNow(),
+});
+
+// Family versions (a snapshot of the family and its members after every save, see server/familyVersions.ts)
+export const familyVersions = pgTable("family_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  familyId: varchar("family_id").notNull().references(() => families.id, { onDelete: "cascade" }),
+  version: integer("version").notNull(), // 1, 2, 3, ... per family
+  snapshot: jsonb("snapshot").$type<FamilyWithMembers>().notNull(),
+  staffId: varchar("staff_id").references(() => staff.id, { onDelete: "set null" }),
+  restoredFromVersion: integer("restored_from_version"), // set when the save was a restore
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Audit log (one row per create/update/delete made through the API, see server/audit.ts)
+export const auditLog = pgTable("audit_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  staffId: varchar("staff_id").references(() => staff.id, { onDelete: "set null" }),
+  entityType: varchar("entity_type", { length: 50 }).notNull(), // family, donation, event, team, ...
+  entityId: varchar("entity_id").notNull(),
+  action: varchar("action", { length: 20 }).notNull(), // create, update, delete
+  changes: jsonb("changes").$type<AuditChanges>().notNull().default({}),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// API tokens for integrations (presented as "Authorization: Bearer <token>")
+export const apiTokens = pgTable("api_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name", { length: 255 }).notNull(),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(), // sha256 hex, the token itself is never stored
+  tokenPrefix: varchar("token_prefix", { length: 20 }).notNull(), // shown in the list to tell tokens apart
+  scopes: jsonb("scopes").$type<ApiTokenScope[]>().notNull().default([]),
+  expiresAt: timestamp("expires_at").notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdBy: varchar("created_by").references(() => staff.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const CUSTOM_FIELD_TYPES = ['text', 'number', 'date', 'select', 'multiSelect', 'boolean'] as const;
+export const CUSTOM_FIELD_TARGETS = ['family', 'member'] as const;
+
+// Custom fields admins define for families or members; values live in customFieldValues (see server/customFields.ts)
+export const customFields = pgTable("custom_fields", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name", { length: 100 }).notNull(),
+  type: varchar("type", { length: 20 }).notNull().$type<CustomFieldType>(),
+  target: varchar("target", { length: 20 }).notNull().$type<CustomFieldTarget>(),
+  options: jsonb("options").$type<string[]>().notNull().default([]), // choices for select and multiSelect
+  required: boolean("required").notNull().default(false),
+  displayOrder: integer("display_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Tags staff put on families for ad-hoc groupings ("needs ride", "retreat interested");
+// families keep the ids of their tags in tagIds
+export const tags = pgTable("tags", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name", { length: 50 }).notNull().unique(),
+  color: varchar("color", { length: 7 }).notNull(), // #rrggbb
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Leadership positions: chapter (team) positions and federation (department) positions
+export const LEADERSHIP_POSITIONS = [
+  'chapterPresident',
+  'chapterSecretary',
+  'chapterTreasurer',
+  'federationPresident',
+  'federationSecretary',
+] as const;
+
+export const LEADERSHIP_POSITION_SCOPES: Record<LeadershipPosition, 'team' | 'department'> = {
+  chapterPresident: 'team',
+  chapterSecretary: 'team',
+  chapterTreasurer: 'team',
+  federationPresident: 'department',
+  federationSecretary: 'department',
+};
+
+// Terms members serve in leadership positions; a term without an end date is still running
+export const memberPositions = pgTable("member_positions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  memberId: varchar("member_id").notNull().references(() => familyMembers.id, { onDelete: "cascade" }),
+  position: varchar("position", { length: 50 }).notNull().$type<LeadershipPosition>(),
+  teamId: varchar("team_id").references(() => teams.id, { onDelete: "set null" }), // chapter positions
+  departmentId: varchar("department_id").references(() => departments.id, { onDelete: "set null" }), // federation positions
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date"),
+  appointedBy: varchar("appointed_by", { length: 255 }), // who made the appointment, e.g. the federation president
+  notes: text("notes"),
+  createdBy: varchar("created_by").references(() => staff.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // News announcements table
 export const announcements = pgTable("announcements", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -162,21 +373,56 @@ export const donations = pgTable("donations", {
 // Relations
 export const familiesRelations = relations(families, ({ one, many }) => ({
   members: many(familyMembers),
+  photos: many(familyPhotos),
   careLogs: many(careLogs),
   eventAttendance: many(eventAttendance),
   donations: many(donations),
+  noteAccessLogs: many(familyNoteAccessLogs),
+  versions: many(familyVersions),
+  statusHistory: many(familyStatusHistory),
   team: one(teams, {
     fields: [families.teamId],
     references: [teams.id],
   }),
 }));
 
+export const familyPhotosRelations = relations(familyPhotos, ({ one }) => ({
+  family: one(families, {
+    fields: [familyPhotos.familyId],
+    references: [families.id],
+  }),
+  uploadedByStaff: one(staff, {
+    fields: [familyPhotos.uploadedBy],
+    references: [staff.id],
+  }),
+}));
+
 export const familyMembersRelations = relations(familyMembers, ({ one, many }) => ({
   family: one(families, {
     fields: [familyMembers.familyId],
     references: [families.id],
   }),
   eventAttendance: many(eventAttendance),
+  positions: many(memberPositions),
+}));
+
+export const memberPositionsRelations = relations(memberPositions, ({ one }) => ({
+  member: one(familyMembers, {
+    fields: [memberPositions.memberId],
+    references: [familyMembers.id],
+  }),
+  team: one(teams, {
+    fields: [memberPositions.teamId],
+    references: [teams.id],
+  }),
+  department: one(departments, {
+    fields: [memberPositions.departmentId],
+    references: [departments.id],
+  }),
+  createdByStaff: one(staff, {
+    fields: [memberPositions.createdBy],
+    references: [staff.id],
+  }),
 }));
 
 export const staffRelations = relations(staff, ({ many }) => ({
@@ -186,6 +432,12 @@ export const staffRelations = relations(staff, ({ many }) => ({
   updatedAttendance: many(eventAttendance),
   createdDonations: many(donations),
   loginLogs: many(staffLoginLogs),
+  sessions: many(staffSessions),
+  familyNoteAccessLogs: many(familyNoteAccessLogs),
+  familyVersions: many(familyVersions),
+  familyStatusChanges: many(familyStatusHistory),
+  auditLog: many(auditLog),
+  apiTokens: many(apiTokens),
 }));
 
 export const careLogsRelations = relations(careLogs, ({ one }) => ({
@@ -240,6 +492,60 @@ export const staffLoginLogsRelations = relations(staffLoginLogs, ({ one }) => ({
   }),
 }));
 
+export const familyNoteAccessLogsRelations = relations(familyNoteAccessLogs, ({ one }) => ({
+  family: one(families, {
+    fields: [familyNoteAccessLogs.familyId],
+    references: [families.id],
+  }),
+  staff: one(staff, {
+    fields: [familyNoteAccessLogs.staffId],
+    references: [staff.id],
+  }),
+}));
+
+export const familyStatusHistoryRelations = relations(familyStatusHistory, ({ one }) => ({
+  family: one(families, {
+    fields: [familyStatusHistory.familyId],
+    references: [families.id],
+  }),
+  staff: one(staff, {
+    fields: [familyStatusHistory.staffId],
+    references: [staff.id],
+  }),
+}));
+
+export const familyVersionsRelations = relations(familyVersions, ({ one }) => ({
+  family: one(families, {
+    fields: [familyVersions.familyId],
+    references: [families.id],
+  }),
+  staff: one(staff, {
+    fields: [familyVersions.staffId],
+    references: [staff.id],
+  }),
+}));
+
+export const auditLogRelations = relations(auditLog, ({ one }) => ({
+  staff: one(staff, {
+    fields: [auditLog.staffId],
+    references: [staff.id],
+  }),
+}));
+
+export const apiTokensRelations = relations(apiTokens, ({ one }) => ({
+  createdByStaff: one(staff, {
+    fields: [apiTokens.createdBy],
+    references: [staff.id],
+  }),
+}));
+
+export const staffSessionsRelations = relations(staffSessions, ({ one }) => ({
+  staff: one(staff, {
+    fields: [staffSessions.staffId],
+    references: [staff.id],
+  }),
+}));
+
 export const donationsRelations = relations(donations, ({ one }) => ({
   family: one(families, {
     fields: [donations.familyId],
@@ -252,8 +558,21 @@ export const donationsRelations = relations(donations, ({ one }) => ({
 }));
 
 // Zod schemas
+export const insertRoleSchema = createInsertSchema(roles).omit({
+  id: true,
+  isSystem: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  code: z.string().min(1).max(50).regex(/^[A-Z0-9_-]+$/, "Code must be uppercase letters, digits, - or _"),
+  permissions: z.array(z.enum(PERMISSION_KEYS as [Permission, ...Permission[]])),
+});
+
 export const insertStaffSchema = createInsertSchema(staff).omit({
   id: true,
+  loginLockResetAt: true,
+  mustChangePin: true,
+  previousPin: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -261,6 +580,8 @@ export const insertStaffSchema = createInsertSchema(staff).omit({
 export const insertFamilySchema = createInsertSchema(families).omit({
   id: true,
   familyCode: true,
+  deletedAt: true,
+  deletedBy: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -271,6 +592,18 @@ export const insertFamilyMemberSchema = createInsertSchema(familyMembers).omit({
   updatedAt: true,
 });
 
+// Members as sent with a full family update: those with the id of one of the family's members are
+// updated in place, so their attendance and positions stay with them
+export const familyMemberUpdateSchema = insertFamilyMemberSchema.omit({ familyId: true }).extend({
+  id: z.string().optional(),
+});
+
+// Caption and primary flag; the image itself is only ever replaced by uploading a new photo
+export const familyPhotoUpdateSchema = z.object({
+  caption: z.string().trim().max(255).nullable().optional(),
+  isPrimary: z.literal(true).optional(), // another photo becomes primary by being set, not by unsetting this one
+});
+
 export const insertCareLogSchema = createInsertSchema(careLogs).omit({
   id: true,
   createdAt: true,
@@ -303,6 +636,56 @@ export const insertStaffLoginLogSchema = createInsertSchema(staffLoginLogs).omit
   createdAt: true,
 });
 
+export const insertApiTokenSchema = createInsertSchema(apiTokens).pick({
+  name: true,
+  scopes: true,
+  expiresAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Name is required").max(255),
+  scopes: z.array(z.enum(API_TOKEN_SCOPE_KEYS as [ApiTokenScope, ...ApiTokenScope[]])).min(1, "Choose at least one scope"),
+  expiresAt: z.coerce.date().refine(date => date > new Date(), "Expiry date must be in the future"),
+});
+
+export const insertCustomFieldSchema = createInsertSchema(customFields).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  type: z.enum(CUSTOM_FIELD_TYPES),
+  target: z.enum(CUSTOM_FIELD_TARGETS),
+  options: z.array(z.string().trim().min(1).max(100)).default([]),
+});
+
+export const insertTagSchema = createInsertSchema(tags).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Name is required").max(50),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Color must be a hex color like #3b82f6").transform(color => color.toLowerCase()),
+});
+
+export const insertMemberPositionSchema = createInsertSchema(memberPositions).omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  position: z.enum(LEADERSHIP_POSITIONS),
+  teamId: z.string().min(1).nullable().optional(),
+  departmentId: z.string().min(1).nullable().optional(),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD"),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD").nullable().optional(),
+  appointedBy: z.string().trim().max(255).nullable().optional(),
+  notes: z.string().trim().max(1000).nullable().optional(),
+});
+
+export const insertFamilyNoteAccessLogSchema = createInsertSchema(familyNoteAccessLogs).omit({
+  id: true,
+  accessedAt: true,
+});
+
 export const insertDonationSchema = createInsertSchema(donations).omit({
   id: true,
   createdAt: true,
@@ -310,15 +693,25 @@ export const insertDonationSchema = createInsertSchema(donations).omit({
 });
 
 // Types
+export type Role = typeof roles.$inferSelect;
+export type InsertRole = z.infer<typeof insertRoleSchema>;
+
 export type Staff = typeof staff.$inferSelect;
 export type InsertStaff = z.infer<typeof insertStaffSchema>;
 
+// Staff record as returned by the API (PIN hashes are never sent to the client)
+export type SafeStaff = Omit<Staff, 'personalPin' | 'previousPin'>;
+
 export type Family = typeof families.$inferSelect;
 export type InsertFamily = z.infer<typeof insertFamilySchema>;
 
 export type FamilyMember = typeof familyMembers.$inferSelect;
 export type InsertFamilyMember = z.infer<typeof insertFamilyMemberSchema>;
 
+export type FamilyPhoto = typeof familyPhotos.$inferSelect;
+export type InsertFamilyPhoto = typeof familyPhotos.$inferInsert;
+export type FamilyPhotoUpdate = z.infer<typeof familyPhotoUpdateSchema>;
+
 export type CareLog = typeof careLogs.$inferSelect;
 export type InsertCareLog = z.infer<typeof insertCareLogSchema>;
 
@@ -326,6 +719,14 @@ export type FamilyWithMembers = Family & {
   members: FamilyMember[];
 };
 
+export type DeletedFamily = FamilyWithMembers & {
+  deletedByStaff: {
+    id: string;
+    fullName: string;
+    nickName: string;
+  } | null;
+};
+
 export type CareLogWithStaff = CareLog & {
   staff: {
     id: string;
@@ -385,6 +786,7 @@ export type EventAttendanceWithDetails = EventAttendance & {
   family: {
     id: string;
     familyName: string;
+    teamId: string | null;
   };
   familyMember?: {
     id: string;
@@ -393,6 +795,7 @@ export type EventAttendanceWithDetails = EventAttendance & {
     relationship: string;
     gradeGroup: string | null;
   };
+  canEdit?: boolean; // whether the requesting staff member may update this row
   updatedByStaff: {
     id: string;
     fullName: string;
@@ -412,6 +815,437 @@ export type StaffLoginLogWithStaff = StaffLoginLog & {
   };
 };
 
+export type FamilyNoteAccessLog = typeof familyNoteAccessLogs.$inferSelect;
+export type InsertFamilyNoteAccessLog = z.infer<typeof insertFamilyNoteAccessLogSchema>;
+
+export type FamilyNoteAccessLogWithDetails = FamilyNoteAccessLog & {
+  staff: {
+    id: string;
+    fullName: string;
+    nickName: string;
+  };
+  family: {
+    id: string;
+    familyName: string;
+  };
+};
+
+export const AUDIT_ENTITY_TYPES = [
+  'staff',
+  'role',
+  'family',
+  'careLog',
+  'announcement',
+  'event',
+  'attendance',
+  'department',
+  'team',
+  'donation',
+  'apiToken',
+  'customField',
+  'tag',
+  'position',
+  'familyPhoto',
+  'session',
+] as const;
+
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[number];
+export type AuditAction = 'create' | 'update' | 'delete';
+
+// Changed fields only, keyed by field name
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export type FamilyStatusChange = typeof familyStatusHistory.$inferSelect;
+export type InsertFamilyStatusChange = typeof familyStatusHistory.$inferInsert;
+
+export type FamilyStatusChangeWithStaff = FamilyStatusChange & {
+  staff: {
+    id: string;
+    fullName: string;
+    nickName: string;
+  } | null;
+};
+
+export type FamilyVersion = typeof familyVersions.$inferSelect;
+export type InsertFamilyVersion = typeof familyVersions.$inferInsert;
+
+// Version as listed in the family history: no snapshot (it holds the confidential notes),
+// just what changed since the previous version
+export type FamilyVersionSummary = Omit<FamilyVersion, 'snapshot'> & {
+  staff: {
+    id: string;
+    fullName: string;
+    nickName: string;
+  } | null;
+  changes: AuditChanges;
+};
+
+// Family search (GET /api/families/search). List filters take comma-separated values.
+export const FAMILY_SEARCH_SORT_FIELDS = ['displayOrder', 'familyName', 'visitedDate', 'registrationDate', 'createdAt'] as const;
+
+export type FamilySearchSortField = typeof FAMILY_SEARCH_SORT_FIELDS[number];
+
+export const FAMILY_SEARCH_MAX_LIMIT = 500;
+
+const commaSeparatedList = z.preprocess(
+  value => typeof value === 'string' ? value.split(',').map(item => item.trim()).filter(Boolean) : value,
+  z.array(z.string()).optional()
+);
+
+// A JSON-encoded query string parameter; malformed JSON fails validation like any other bad value
+const jsonQueryParam = <T extends z.ZodTypeAny>(schema: T) => z.preprocess(value => {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}, schema.optional());
+
+export const TAG_MATCH_MODES = ['any', 'all'] as const;
+
+export type TagMatchMode = typeof TAG_MATCH_MODES[number];
+
+export const familySearchSchema = z.object({
+  name: z.string().optional(),
+  lifeGroup: z.string().optional(),
+  supportTeamMember: z.string().optional(),
+  memberStatus: commaSeparatedList,
+  dateFrom: z.string().optional(),
+  dateTo: z.string().optional(),
+  positions: commaSeparatedList, // families where neither husband nor wife currently holds any of these
+  teamIds: commaSeparatedList,
+  departmentId: z.string().optional(),
+  unassigned: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  customFields: jsonQueryParam(z.record(z.string())), // {"<custom field id>": "<value>"}
+  tagIds: commaSeparatedList,
+  tagMatch: z.enum(TAG_MATCH_MODES).default('any'), // families with any of the tags, or with all of them
+  sort: z.enum(FAMILY_SEARCH_SORT_FIELDS).default('displayOrder'),
+  order: z.enum(['asc', 'desc']).default('asc'),
+  limit: z.coerce.number().int().min(1).max(FAMILY_SEARCH_MAX_LIMIT).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type FamilySearchParams = z.infer<typeof familySearchSchema>;
+
+export type FamilySearchResult = {
+  families: Omit<FamilyWithMembers, 'familyNotes'>[];
+  total: number;
+  limit: number;
+  offset: number;
+  nextOffset: number | null; // null on the last page
+};
+
+// Free-text family search (GET /api/families/text-search, see server/familyTextSearch.ts)
+export const FAMILY_TEXT_SEARCH_MAX_LIMIT = 100;
+
+export type FamilyTextSearchField =
+  | 'familyName'
+  | 'koreanName'
+  | 'englishName'
+  | 'phoneNumber'
+  | 'email'
+  | 'biz'
+  | 'bizTitle'
+  | 'bizCategory'
+  | 'bizName'
+  | 'bizIntro';
+
+// Where the query matched: value.slice(start, end) is the matched text.
+// memberId is set when the field belongs to a member rather than the family.
+export type FamilyTextSearchMatch = {
+  field: FamilyTextSearchField;
+  value: string;
+  start: number;
+  end: number;
+  memberId?: string;
+};
+
+export type FamilyTextSearchResult = {
+  family: Omit<FamilyWithMembers, 'familyNotes'>;
+  score: number;
+  matches: FamilyTextSearchMatch[]; // best match first
+};
+
+// Family fields a merge can take from either family; notes and custom field values are combined instead (see server/familyDuplicates.ts)
+export const FAMILY_MERGE_FIELDS = [
+  'familyName',
+  'visitedDate',
+  'registrationDate',
+  'weddingDate',
+  'memberStatus',
+  'phoneNumber',
+  'email',
+  'address',
+  'city',
+  'state',
+  'zipCode',
+  'fullAddress',
+  'familyPicture',
+  'lifeGroup',
+  'supportTeamMember',
+  'biz',
+  'bizTitle',
+  'bizCategory',
+  'bizName',
+  'bizIntro',
+  'teamId',
+] as const;
+
+export type FamilyMergeField = typeof FAMILY_MERGE_FIELDS[number];
+
+// Upcoming birthdays and wedding anniversaries (GET /api/celebrations/upcoming, see server/celebrations.ts)
+export const UPCOMING_CELEBRATIONS_MAX_DAYS = 366;
+
+export const upcomingCelebrationsSchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD").optional(), // defaults to today
+  days: z.coerce.number().int().min(1).max(UPCOMING_CELEBRATIONS_MAX_DAYS).default(30),
+  teamIds: commaSeparatedList, // defaults to the signed-in staff member's teams
+});
+
+export type UpcomingCelebration = {
+  type: 'birthday' | 'anniversary';
+  date: string; // this year's occurrence, YYYY-MM-DD
+  originalDate: string; // the birth or wedding date as stored
+  daysUntil: number; // 0 for today
+  years: number; // age turning, or years married
+  familyId: string;
+  familyName: string;
+  memberId: string | null; // null for anniversaries
+  memberName: string | null;
+  relationship: string | null;
+  phoneNumber: string | null;
+  teamId: string | null;
+  teamName: string | null;
+};
+
+// Public business directory (GET /api/directory). Only business fields of families that opted in;
+// never addresses, phone numbers, emails or member details.
+export const businessDirectorySchema = z.object({
+  q: z.string().trim().max(100).optional(),
+  category: z.string().trim().optional(),
+});
+
+// What the directory reads from a family; the picture is only served when consented
+export type DirectoryFamily = Pick<
+  Family,
+  'id' | 'bizName' | 'biz' | 'bizTitle' | 'bizCategory' | 'bizIntro' | 'familyPicture' | 'directoryPhotoConsent'
+>;
+
+export type BusinessDirectoryEntry = {
+  id: string;
+  bizName: string | null;
+  biz: string | null;
+  bizTitle: string | null;
+  bizCategory: string | null;
+  bizIntro: string | null;
+  photoUrl: string | null; // only when the family consented to showing its picture
+};
+
+export type BusinessDirectoryResult = {
+  entries: BusinessDirectoryEntry[];
+  categories: string[]; // every category in the directory, for filtering
+};
+
+// ZIP / postal code lookup (GET /api/postal-codes/:code, see server/postalCodes.ts)
+export type PostalCodeLookup = {
+  postalCode: string; // formatted, e.g. "75034" or "M5V 2T6"
+  country: 'US' | 'CA';
+  city: string | null; // null when the code's city isn't in the bundled data
+  state: string; // two-letter state or province code
+};
+
+export type AddressMismatchIssue = 'state' | 'city' | 'invalidZip';
+
+export type AddressMismatch = {
+  family: Pick<Family, 'id' | 'familyCode' | 'familyName' | 'address' | 'city' | 'state' | 'zipCode'>;
+  issues: AddressMismatchIssue[];
+  expectedCity: string | null;
+  expectedState: string | null;
+};
+
+// Custom fields (see server/customFields.ts)
+export type CustomFieldType = typeof CUSTOM_FIELD_TYPES[number];
+export type CustomFieldTarget = typeof CUSTOM_FIELD_TARGETS[number];
+export type CustomFieldValue = string | number | boolean | string[]; // dates are YYYY-MM-DD
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+export type CustomField = typeof customFields.$inferSelect;
+export type InsertCustomField = z.infer<typeof insertCustomFieldSchema>;
+
+// Family tags
+export type Tag = typeof tags.$inferSelect;
+export type InsertTag = z.infer<typeof insertTagSchema>;
+
+// Tag as listed in the tag manager and dashboard filters
+export type TagWithCount = Tag & {
+  familyCount: number; // active families with the tag, within the requested department or teams
+};
+
+// GET /api/tags: counts can be narrowed to the dashboard's department or teams
+export const tagCountScopeSchema = z.object({
+  teamIds: commaSeparatedList,
+  departmentId: z.string().optional(),
+});
+
+// PUT /api/families/:id/tags
+export const familyTagsSchema = z.object({
+  tagIds: z.array(z.string().min(1)).transform(ids => Array.from(new Set(ids))),
+});
+
+// POST /api/families/tags/bulk: one tag added to or removed from the selected families
+export const bulkFamilyTagsSchema = z.object({
+  familyIds: z.array(z.string().min(1)).min(1, "Select at least one family").max(FAMILY_SEARCH_MAX_LIMIT),
+  tagId: z.string().min(1),
+  action: z.enum(['add', 'remove']),
+});
+
+export type BulkFamilyTags = z.infer<typeof bulkFamilyTagsSchema>;
+
+export type BulkFamilyTagsResult = {
+  updated: number; // families whose tags actually changed
+};
+
+// vCard export and import (see server/vcard.ts)
+export const VCARD_VERSIONS = ['3.0', '4.0'] as const;
+
+export type VCardVersion = typeof VCARD_VERSIONS[number];
+
+export const vcardVersionSchema = z.object({
+  version: z.enum(VCARD_VERSIONS).default('3.0'),
+});
+
+export const vcardExportSchema = vcardVersionSchema.extend({
+  familyIds: z.array(z.string().min(1)).min(1, "Select at least one family").max(FAMILY_SEARCH_MAX_LIMIT),
+});
+
+export type VCardExport = z.infer<typeof vcardExportSchema>;
+
+// Cards without a family id that match no family in the team by name become new families in it
+export const vcardImportSchema = z.object({
+  teamId: z.string().min(1).optional(),
+});
+
+export type VCardImportResult = {
+  success: number;
+  errors: { card: number; error: string; name: string }[];
+  created: { families: string[] };
+  updated: { families: string[] };
+};
+
+// Leadership positions (see server/positions.ts)
+export type LeadershipPosition = typeof LEADERSHIP_POSITIONS[number];
+
+export type MemberPosition = typeof memberPositions.$inferSelect;
+export type InsertMemberPosition = z.infer<typeof insertMemberPositionSchema>;
+
+export type MemberPositionWithDetails = MemberPosition & {
+  member: Pick<FamilyMember, 'id' | 'koreanName' | 'englishName' | 'relationship'>;
+  family: Pick<Family, 'id' | 'familyName'>;
+  team: { id: string; name: string } | null;
+  department: { id: string; name: string } | null;
+};
+
+// GET /api/positions: a member's history, or the officers of a chapter or federation
+export const positionSearchSchema = z.object({
+  memberId: z.string().optional(),
+  familyIds: commaSeparatedList,
+  teamIds: commaSeparatedList,
+  departmentId: z.string().optional(), // its own positions and those of its chapters
+  current: z.enum(['true', 'false']).transform(value => value === 'true').optional(), // held today
+});
+
+export type PositionSearchParams = z.infer<typeof positionSearchSchema>;
+
+// Moving members to another household (POST /api/families/:id/move-members, see server/households.ts)
+export const FAMILY_RELATIONSHIPS = ['husband', 'wife', 'child', 'other'] as const;
+
+export type FamilyRelationship = typeof FAMILY_RELATIONSHIPS[number];
+
+export const moveFamilyMembersSchema = z.object({
+  members: z.array(z.object({
+    memberId: z.string().min(1),
+    relationship: z.enum(FAMILY_RELATIONSHIPS).optional(), // their relationship in the new household
+  })).min(1, "Select at least one member"),
+  // Either an existing family, or a new one that starts from the source family's address and team
+  targetFamilyId: z.string().min(1).optional(),
+  newFamily: insertFamilySchema.omit({ familyName: true }).partial().optional(),
+}).refine(data => !!data.targetFamilyId !== !!data.newFamily, {
+  message: "Choose either an existing family or a new family",
+  path: ["targetFamilyId"],
+});
+
+export type MoveFamilyMembers = z.infer<typeof moveFamilyMembersSchema>;
+
+export type MoveFamilyMembersResult = {
+  source: Omit<FamilyWithMembers, 'familyNotes'>;
+  target: Omit<FamilyWithMembers, 'familyNotes'>;
+  sourceArchived: boolean; // the source had no members left and went to Recently Deleted
+};
+
+// What two families have in common, as normalized values
+export type FamilyDuplicateReason = {
+  type: 'phone' | 'email' | 'koreanName' | 'englishName';
+  value: string;
+};
+
+// A likely duplicate pair; family is the older of the two and the suggested survivor
+export type FamilyDuplicateMatch = {
+  family: Omit<FamilyWithMembers, 'familyNotes'>;
+  duplicate: Omit<FamilyWithMembers, 'familyNotes'>;
+  reasons: FamilyDuplicateReason[];
+};
+
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type InsertAuditLogEntry = typeof auditLog.$inferInsert;
+
+export type AuditLogEntryWithStaff = AuditLogEntry & {
+  staff: {
+    id: string;
+    fullName: string;
+    nickName: string;
+  } | null;
+};
+
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
+
+// API token as listed to admins (no hash)
+export type ApiTokenInfo = Omit<ApiToken, 'tokenHash'> & {
+  createdByStaff: {
+    id: string;
+    fullName: string;
+    nickName: string;
+  } | null;
+};
+
+export type StaffSession = typeof staffSessions.$inferSelect;
+
+// Session as listed to staff (no sid or session payload)
+export type StaffSessionInfo = {
+  id: string;
+  staffId: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: Date | null;
+  lastSeenAt: Date | null;
+  expire: Date;
+  current: boolean;
+};
+
+export type FailedLoginSummary = {
+  count: number;
+  lastAttemptAt: Date | null;
+};
+
+export type StaffLockout = {
+  staffId: string;
+  fullName: string;
+  nickName: string;
+  failedAttempts: number;
+  lockedUntil: Date;
+};
+
 export type Donation = typeof donations.$inferSelect;
 export type InsertDonation = z.infer<typeof insertDonationSchema>;
 
@@ -0,0 +1,83 @@
+import session from "express-session";
+import { eq, and, gt, lt } from "drizzle-orm";
+import { db } from "./db";
+import { staffSessions } from "@server/schema";
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const PRUNE_INTERVAL_MS = 15 * 60 * 1000; // 15 minutes
+
+type StoredSessionData = session.SessionData & {
+  staffId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+};
+
+// express-session store backed by the staff_sessions table.
+// Besides the session payload, each row records the staff member, IP and user agent
+// so sessions can be listed and revoked from the app.
+export class DrizzleSessionStore extends session.Store {
+  private pruneTimer: NodeJS.Timeout;
+
+  constructor() {
+    super();
+    this.pruneTimer = setInterval(() => {
+      this.pruneExpired().catch(err => console.error("Session prune error:", err));
+    }, PRUNE_INTERVAL_MS);
+    this.pruneTimer.unref();
+  }
+
+  private getExpiry(sess: session.SessionData): Date {
+    if (sess.cookie?.expires) {
+      return new Date(sess.cookie.expires);
+    }
+    return new Date(Date.now() + (sess.cookie?.maxAge ?? DEFAULT_TTL_MS));
+  }
+
+  async pruneExpired(): Promise<void> {
+    await db.delete(staffSessions).where(lt(staffSessions.expire, new Date()));
+  }
+
+  get(sid: string, callback: (err: any, session?: session.SessionData | null) => void): void {
+    db.select({ sess: staffSessions.sess })
+      .from(staffSessions)
+      .where(and(eq(staffSessions.sid, sid), gt(staffSessions.expire, new Date())))
+      .then(([row]) => callback(null, row ? (row.sess as session.SessionData) : null))
+      .catch(err => callback(err));
+  }
+
+  set(sid: string, sess: session.SessionData, callback?: (err?: any) => void): void {
+    const data = sess as StoredSessionData;
+    const values = {
+      sess,
+      expire: this.getExpiry(sess),
+      staffId: data.staffId ?? null,
+      ipAddress: data.ipAddress ?? null,
+      userAgent: data.userAgent ?? null,
+      lastSeenAt: new Date(),
+    };
+
+    db.insert(staffSessions)
+      .values({ sid, ...values })
+      .onConflictDoUpdate({ target: staffSessions.sid, set: values })
+      .then(() => callback?.())
+      .catch(err => callback?.(err));
+  }
+
+  destroy(sid: string, callback?: (err?: any) => void): void {
+    db.delete(staffSessions)
+      .where(eq(staffSessions.sid, sid))
+      .then(() => callback?.())
+      .catch(err => callback?.(err));
+  }
+
+  touch(sid: string, sess: session.SessionData, callback?: () => void): void {
+    db.update(staffSessions)
+      .set({ expire: this.getExpiry(sess), lastSeenAt: new Date() })
+      .where(eq(staffSessions.sid, sid))
+      .then(() => callback?.())
+      .catch(err => {
+        console.error("Session touch error:", err);
+        callback?.();
+      });
+  }
+}
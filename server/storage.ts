@@ -1,22 +1,41 @@
 import {
+  roles,
   staff,
   families,
   familyMembers,
+  familyPhotos,
   careLogs,
   announcements,
   events,
   eventAttendance,
   donations,
   staffLoginLogs,
+  staffSessions,
+  familyNoteAccessLogs,
+  familyVersions,
+  familyStatusHistory,
+  auditLog,
+  apiTokens,
+  customFields,
+  tags,
+  memberPositions,
   departments,
   teams,
+  type Role,
+  type InsertRole,
   type Staff,
   type InsertStaff,
+  type SafeStaff,
   type Family,
   type InsertFamily,
   type FamilyMember,
   type InsertFamilyMember,
   type FamilyWithMembers,
+  type FamilyPhoto,
+  type InsertFamilyPhoto,
+  type FamilyPhotoUpdate,
+  type DeletedFamily,
+  type FamilySearchParams,
   type CareLog,
   type InsertCareLog,
   type CareLogWithStaff,
@@ -36,6 +55,32 @@ import {
   type StaffLoginLog,
   type InsertStaffLoginLog,
   type StaffLoginLogWithStaff,
+  type FailedLoginSummary,
+  type StaffSession,
+  type FamilyNoteAccessLog,
+  type InsertFamilyNoteAccessLog,
+  type FamilyNoteAccessLogWithDetails,
+  type FamilyStatusChange,
+  type InsertFamilyStatusChange,
+  type FamilyStatusChangeWithStaff,
+  type FamilyVersion,
+  type DirectoryFamily,
+  type InsertFamilyVersion,
+  type AuditLogEntry,
+  type InsertAuditLogEntry,
+  type AuditLogEntryWithStaff,
+  type ApiToken,
+  type ApiTokenInfo,
+  type CustomField,
+  type InsertCustomField,
+  type Tag,
+  type InsertTag,
+  type TagWithCount,
+  type TagMatchMode,
+  type MemberPosition,
+  type InsertMemberPosition,
+  type MemberPositionWithDetails,
+  type PositionSearchParams,
   type Department,
   type InsertDepartment,
   type Team,
@@ -45,7 +90,9 @@ import {
   type TeamWithFamilies
 } from "@server/schema";
 import { db } from "./db";
-import { eq, and, or, like, gte, lte, desc, isNotNull, isNull } from "drizzle-orm";
+import { hashPin, isHashedPin } from "./pinHash";
+import { getPhoneQueryDigits, getTextSearchRegex } from "./familyTextSearch";
+import { eq, and, or, like, ilike, inArray, notInArray, gt, gte, lt, lte, ne, desc, isNotNull, isNull, sql, count, max, type SQL } from "drizzle-orm";
 
 // Donation storage functions
 export async function getDonations(filters?: {
@@ -131,6 +178,7 @@ export async function getDonationById(id: string): Promise<DonationWithDetails |
       emailForThank: donations.emailForThank,
       emailForTax: donations.emailForTax,
       comment: donations.comment,
+      createdBy: donations.createdBy,
       createdAt: donations.createdAt,
       updatedAt: donations.updatedAt,
       family: {
@@ -197,18 +245,60 @@ async function generateUniqueFamilyCode(): Promise<string> {
   return `FM${nextNumber.toString().padStart(4, '0')}`;
 }
 
+// Account fields that are only ever set by the server, never through the staff forms
+type StaffAccountFields = {
+  lastLogin?: Date;
+  loginLockResetAt?: Date;
+  mustChangePin?: boolean;
+  previousPin?: string | null;
+};
+
 export interface IStorage {
+  // Role operations
+  getRoles(): Promise<Role[]>;
+  getRole(id: string): Promise<Role | undefined>;
+  getRoleByCode(code: string): Promise<Role | undefined>;
+  createRole(role: InsertRole & { isSystem?: boolean }): Promise<Role>;
+  updateRole(id: string, role: Partial<InsertRole>): Promise<Role | undefined>;
+  deleteRole(id: string): Promise<void>;
+  countStaffInRole(code: string): Promise<number>;
+
+  // Custom field operations
+  getCustomFields(): Promise<CustomField[]>;
+  getCustomField(id: string): Promise<CustomField | undefined>;
+  createCustomField(field: InsertCustomField): Promise<CustomField>;
+  updateCustomField(id: string, field: Partial<InsertCustomField>): Promise<CustomField | undefined>;
+  deleteCustomField(id: string): Promise<void>;
+
+  // Leadership position operations
+  getPositions(filters: PositionSearchParams): Promise<MemberPositionWithDetails[]>;
+  getPosition(id: string): Promise<MemberPosition | undefined>;
+  createPosition(position: InsertMemberPosition & { createdBy?: string | null }): Promise<MemberPosition>;
+  updatePosition(id: string, position: Partial<InsertMemberPosition>): Promise<MemberPosition | undefined>;
+  deletePosition(id: string): Promise<void>;
+  getFamilyMember(id: string): Promise<FamilyMember | undefined>;
+
+  // Tag operations
+  getTags(scope?: { teamIds?: string[]; departmentId?: string }): Promise<TagWithCount[]>;
+  getTag(id: string): Promise<Tag | undefined>;
+  createTag(tag: InsertTag): Promise<Tag>;
+  updateTag(id: string, tag: Partial<InsertTag>): Promise<Tag | undefined>;
+  deleteTag(id: string): Promise<void>;
+  setFamilyTags(familyId: string, tagIds: string[]): Promise<Family | undefined>;
+  bulkUpdateFamilyTags(familyIds: string[], tagId: string, action: 'add' | 'remove'): Promise<Family[]>;
+
   // Staff operations
   getStaff(id: string): Promise<Staff | undefined>;
   getStaffByNickname(nickname: string): Promise<Staff | undefined>;
   getAllActiveStaff(): Promise<Staff[]>;
-  getAllStaffForManagement(): Promise<Staff[]>;
-  createStaff(staff: InsertStaff): Promise<Staff>;
-  updateStaff(id: string, staff: Partial<InsertStaff & { lastLogin?: Date }>): Promise<Staff | undefined>;
+  getAllStaffForManagement(): Promise<SafeStaff[]>;
+  createStaff(staff: InsertStaff & { mustChangePin?: boolean }): Promise<Staff>;
+  updateStaff(id: string, staff: Partial<InsertStaff & StaffAccountFields>): Promise<Staff | undefined>;
   deleteStaff(id: string): Promise<void>;
+  migratePlaintextPins(): Promise<number>;
   
   // Family operations
-  getFamily(id: string): Promise<FamilyWithMembers | undefined>;
+  getFamily(id: string, options?: { includeDeleted?: boolean }): Promise<FamilyWithMembers | undefined>;
   getFamilies(filters?: {
     name?: string;
     lifeGroup?: string;
@@ -216,16 +306,35 @@ export interface IStorage {
     memberStatus?: string;
     dateFrom?: string;
     dateTo?: string;
-    courses?: string;
+    positions?: string;
     teamId?: string;
+    teamIds?: string[];
     departmentId?: string;
     unassigned?: boolean;
+    includeDeleted?: boolean;
   }): Promise<FamilyWithMembers[]>;
+  searchFamilies(params: FamilySearchParams): Promise<{ families: FamilyWithMembers[]; total: number }>;
+  getFamilyTextSearchCandidates(query: string): Promise<FamilyWithMembers[]>;
+  getDeletedFamilies(): Promise<DeletedFamily[]>;
   createFamily(family: InsertFamily, members: InsertFamilyMember[]): Promise<FamilyWithMembers>;
-  updateFamily(id: string, family: Partial<InsertFamily>, members: InsertFamilyMember[]): Promise<FamilyWithMembers>;
+  updateFamily(id: string, family: Partial<InsertFamily>, members: FamilyMemberUpdate[]): Promise<FamilyWithMembers>;
   updateFamilyOnly(id: string, family: Partial<InsertFamily>): Promise<FamilyWithMembers>;
   updateFamilyOrder(teamId: string, familyOrders: Array<{ id: string; displayOrder: number }>): Promise<void>;
+  archiveFamily(id: string, staffId: string): Promise<FamilyWithMembers | undefined>;
+  restoreDeletedFamily(id: string): Promise<FamilyWithMembers | undefined>;
   deleteFamily(id: string): Promise<void>;
+  mergeFamilies(survivorId: string, duplicateId: string, family: Partial<InsertFamily>, memberIdMap: Record<string, string>): Promise<FamilyWithMembers>;
+  moveFamilyMembers(sourceId: string, target: { id: string } | { family: InsertFamily }, moves: Array<{ memberId: string; relationship: string }>, familyNames: { source: string; target: string }): Promise<{ source: FamilyWithMembers; target: FamilyWithMembers }>;
+  getDirectoryFamilies(filters?: { q?: string; category?: string }): Promise<DirectoryFamily[]>;
+  getDirectoryCategories(): Promise<string[]>;
+
+  // Family photo operations
+  getFamilyPhotos(familyId: string): Promise<FamilyPhoto[]>;
+  getAllFamilyPhotos(): Promise<(FamilyPhoto & { teamId: string | null })[]>;
+  getFamilyPhoto(id: string): Promise<FamilyPhoto | undefined>;
+  createFamilyPhoto(photo: InsertFamilyPhoto): Promise<FamilyPhoto>;
+  updateFamilyPhoto(id: string, photo: FamilyPhotoUpdate): Promise<FamilyPhoto | undefined>;
+  deleteFamilyPhoto(id: string): Promise<void>;
   
   // Care log operations
   getCareLog(id: string): Promise<CareLog | undefined>;
@@ -233,6 +342,39 @@ export interface IStorage {
   createCareLog(careLog: InsertCareLog): Promise<CareLog>;
   updateCareLog(id: string, careLog: Partial<InsertCareLog>): Promise<CareLog | undefined>;
   deleteCareLog(id: string): Promise<void>;
+
+  // Family notes access log operations
+  createFamilyNoteAccessLog(log: InsertFamilyNoteAccessLog): Promise<FamilyNoteAccessLog>;
+  getFamilyNoteAccessLogs(familyId: string, limit?: number): Promise<FamilyNoteAccessLogWithDetails[]>;
+
+  // Family status history operations
+  createFamilyStatusChange(change: InsertFamilyStatusChange): Promise<FamilyStatusChange>;
+  getFamilyStatusHistory(familyId: string): Promise<FamilyStatusChangeWithStaff[]>;
+
+  // Family version operations
+  createFamilyVersion(version: InsertFamilyVersion): Promise<FamilyVersion>;
+  getFamilyVersions(familyId: string): Promise<(FamilyVersion & { staff: { id: string; fullName: string; nickName: string } | null })[]>;
+  getFamilyVersion(id: string): Promise<FamilyVersion | undefined>;
+  getLatestFamilyVersionNumber(familyId: string): Promise<number>;
+
+  // Audit log operations
+  createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry>;
+  getAuditLogEntries(filters?: {
+    entityType?: string;
+    entityId?: string;
+    staffId?: string;
+    dateFrom?: string;
+    dateTo?: string;
+    limit?: number;
+  }): Promise<AuditLogEntryWithStaff[]>;
+
+  // API token operations
+  getApiTokens(): Promise<ApiTokenInfo[]>;
+  getApiToken(id: string): Promise<ApiToken | undefined>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  createApiToken(token: typeof apiTokens.$inferInsert): Promise<ApiToken>;
+  revokeApiToken(id: string): Promise<ApiToken | undefined>;
+  touchApiToken(id: string, lastUsedAt: Date): Promise<void>;
   
   // Announcement operations
   getAnnouncement(id: string): Promise<AnnouncementWithStaff | undefined>;
@@ -254,9 +396,11 @@ export interface IStorage {
   
   // Event attendance operations
   getEventAttendance(eventId: string): Promise<EventAttendanceWithDetails[]>;
+  getEventAttendanceRecord(id: string): Promise<EventAttendance | undefined>;
   createEventAttendance(attendance: InsertEventAttendance): Promise<EventAttendance>;
   updateEventAttendance(id: string, attendance: Partial<InsertEventAttendance>): Promise<EventAttendance | undefined>;
   deleteEventAttendance(id: string): Promise<void>;
+  getAttendanceFamilyTeamId(id: string): Promise<string | null | undefined>;
   initializeEventAttendance(eventId: string, createdBy: string): Promise<void>;
 
   // Department operations
@@ -270,6 +414,8 @@ export interface IStorage {
   getTeam(id: string): Promise<TeamWithDepartment | undefined>;
   getTeams(): Promise<TeamWithDepartment[]>;
   getTeamsByDepartment(departmentId: string): Promise<Team[]>;
+  getTeamIdsForStaff(staffId: string): Promise<string[]>;
+  getDepartmentIdsForStaff(staffId: string): Promise<string[]>;
   createTeam(team: InsertTeam): Promise<Team>;
   updateTeam(id: string, team: Partial<InsertTeam>): Promise<Team | undefined>;
   deleteTeam(id: string): Promise<void>;
@@ -280,6 +426,62 @@ export interface IStorage {
   getTeamFamilies(teamId: string): Promise<FamilyWithMembers[]>;
 }
 
+type FamilyMemberUpdate = Omit<InsertFamilyMember, 'familyId'> & { id?: string };
+
+// Today as YYYY-MM-DD, for comparing with date columns
+function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// The family's picture columns mirror its primary photo
+async function mirrorPrimaryFamilyPhoto(executor: DbExecutor, familyId: string): Promise<Pick<Family, 'familyPicture' | 'familyPictureThumbnail'>> {
+  const [primaryPhoto] = await executor.select()
+    .from(familyPhotos)
+    .where(and(eq(familyPhotos.familyId, familyId), eq(familyPhotos.isPrimary, true)));
+  const picture = {
+    familyPicture: primaryPhoto?.displayPath ?? null,
+    familyPictureThumbnail: primaryPhoto?.thumbnailPath ?? null,
+  };
+  await executor.update(families).set(picture).where(eq(families.id, familyId));
+  return picture;
+}
+
+// A picture set on the family itself (quick add, API clients, restored versions, merges) becomes its
+// primary photo, joining the gallery if it isn't in it. Pictures uploaded before the gallery have no
+// thumbnail, so the picture stands in for one.
+async function setPrimaryFamilyPicture(
+  executor: DbExecutor,
+  familyId: string,
+  picturePath: string | null | undefined,
+  thumbnailPath?: string | null
+): Promise<Pick<Family, 'familyPicture' | 'familyPictureThumbnail'>> {
+  const photos = await executor.select().from(familyPhotos).where(eq(familyPhotos.familyId, familyId));
+  await executor.update(familyPhotos)
+    .set({ isPrimary: false })
+    .where(and(eq(familyPhotos.familyId, familyId), eq(familyPhotos.isPrimary, true)));
+
+  if (picturePath) {
+    const existingPhoto = photos.find(photo => photo.displayPath === picturePath);
+    if (existingPhoto) {
+      await executor.update(familyPhotos)
+        .set({ isPrimary: true, updatedAt: new Date() })
+        .where(eq(familyPhotos.id, existingPhoto.id));
+    } else {
+      await executor.insert(familyPhotos).values({
+        familyId,
+        displayPath: picturePath,
+        thumbnailPath: thumbnailPath || picturePath,
+        isPrimary: true,
+        displayOrder: Math.max(0, ...photos.map(photo => photo.displayOrder)) + 1,
+      });
+    }
+  }
+
+  return mirrorPrimaryFamilyPhoto(executor, familyId);
+}
+
 // Helper function to clean date fields - convert empty strings to null for optional fields only
 function cleanDateFields(data: any): any {
   const cleaned = { ...data };
@@ -288,11 +490,386 @@ function cleanDateFields(data: any): any {
   if (cleaned.birthDate === '') cleaned.birthDate = null;
   if (cleaned.registrationDate === '') cleaned.registrationDate = null;
   if (cleaned.visitedDate === '') cleaned.visitedDate = null;
+  if (cleaned.weddingDate === '') cleaned.weddingDate = null;
   
   return cleaned;
 }
 
+// Families listed in the public business directory
+function getDirectoryConditions(): SQL[] {
+  return [
+    eq(families.directoryOptIn, true),
+    isNull(families.deletedAt),
+    or(ne(families.bizName, ''), ne(families.biz, ''))!,
+  ];
+}
+
+type FamilyFilterConditions = Omit<FamilySearchParams, 'sort' | 'order' | 'limit' | 'offset' | 'tagMatch'> & {
+  tagMatch?: TagMatchMode;
+  includeDeleted?: boolean;
+};
+
+// A dashboard filter on a custom field: the family's own value, or any member's for member fields
+function getCustomFieldCondition(field: CustomField, value: string): SQL {
+  const matches = (values: typeof families.customFieldValues | typeof familyMembers.customFieldValues): SQL => {
+    switch (field.type) {
+      case 'boolean':
+        return value === 'true'
+          ? sql`(${values} -> ${field.id}::text) = 'true'::jsonb`
+          : sql`coalesce(${values} -> ${field.id}::text, 'false'::jsonb) = 'false'::jsonb`;
+      case 'multiSelect':
+        return sql`(${values} -> ${field.id}::text) @> ${JSON.stringify([value])}::jsonb`;
+      case 'text':
+        return sql`(${values} ->> ${field.id}::text) ilike ${`%${value}%`}`;
+      default:
+        return sql`(${values} ->> ${field.id}::text) = ${value}`;
+    }
+  };
+
+  if (field.target === 'family') {
+    return matches(families.customFieldValues);
+  }
+  return sql`exists (
+    select 1 from ${familyMembers}
+    where ${familyMembers.familyId} = ${families.id}
+      and ${matches(familyMembers.customFieldValues)}
+  )`;
+}
+
+// Terms running today
+function getCurrentPositionCondition(): SQL {
+  return and(
+    lte(memberPositions.startDate, today()),
+    or(isNull(memberPositions.endDate), gte(memberPositions.endDate, today()))
+  )!;
+}
+
+// WHERE conditions shared by getFamilies and searchFamilies; custom field filters need the field definitions
+function getFamilyConditions(filters: FamilyFilterConditions, customFieldDefinitions: CustomField[] = []): SQL[] {
+  const conditions: SQL[] = [];
+
+  if (!filters.includeDeleted) {
+    conditions.push(isNull(families.deletedAt));
+  }
+  if (filters.name) {
+    conditions.push(ilike(families.familyName, `%${filters.name}%`));
+  }
+  if (filters.lifeGroup) {
+    conditions.push(like(families.lifeGroup, `%${filters.lifeGroup}%`));
+  }
+  if (filters.supportTeamMember) {
+    conditions.push(like(families.supportTeamMember, `%${filters.supportTeamMember}%`));
+  }
+
+  const memberStatuses = (filters.memberStatus || []).filter(status => status !== 'all');
+  if (memberStatuses.length > 0) {
+    conditions.push(inArray(families.memberStatus, memberStatuses));
+  }
+
+  if (filters.dateFrom) {
+    conditions.push(gte(families.visitedDate, filters.dateFrom));
+  }
+  if (filters.dateTo) {
+    conditions.push(lte(families.visitedDate, filters.dateTo));
+  }
+
+  if (filters.teamIds && filters.teamIds.length > 0) {
+    conditions.push(inArray(families.teamId, filters.teamIds));
+  }
+  if (filters.departmentId) {
+    conditions.push(inArray(
+      families.teamId,
+      db.select({ id: teams.id }).from(teams).where(eq(teams.departmentId, filters.departmentId))
+    ));
+  }
+  if (filters.unassigned) {
+    conditions.push(isNull(families.teamId));
+  }
+
+  // Families where NEITHER husband nor wife currently holds any of the selected positions
+  if (filters.positions && filters.positions.length > 0) {
+    conditions.push(sql`not exists (
+      select 1 from ${memberPositions}
+      inner join ${familyMembers} on ${familyMembers.id} = ${memberPositions.memberId}
+      where ${familyMembers.familyId} = ${families.id}
+        and ${familyMembers.relationship} in ('husband', 'wife')
+        and ${inArray(memberPositions.position, filters.positions as MemberPosition['position'][])}
+        and ${getCurrentPositionCondition()}
+    )`);
+  }
+
+  // Families with any of the selected tags, or with all of them
+  if (filters.tagIds && filters.tagIds.length > 0) {
+    if (filters.tagMatch === 'all') {
+      conditions.push(sql`${families.tagIds} @> ${JSON.stringify(filters.tagIds)}::jsonb`);
+    } else {
+      const tagList = sql.join(filters.tagIds.map(tagId => sql`${tagId}`), sql`, `);
+      conditions.push(sql`${families.tagIds} ?| array[${tagList}]::text[]`);
+    }
+  }
+
+  for (const [fieldId, value] of Object.entries(filters.customFields || {})) {
+    const field = customFieldDefinitions.find(definition => definition.id === fieldId);
+    if (field && value !== '') {
+      conditions.push(getCustomFieldCondition(field, value));
+    }
+  }
+
+  return conditions;
+}
+
+function getFamilyOrderBy(sort: FamilySearchParams['sort'], order: FamilySearchParams['order']): SQL[] {
+  const column = {
+    displayOrder: families.displayOrder,
+    familyName: families.familyName,
+    visitedDate: families.visitedDate,
+    registrationDate: families.registrationDate,
+    createdAt: families.createdAt,
+  }[sort];
+  const direction = order === 'desc' ? sql`desc nulls last` : sql`asc nulls last`;
+  // Family name and id break ties so offset pages don't overlap
+  return [sql`${column} ${direction}`, sql`${families.familyName} asc`, sql`${families.id} asc`];
+}
+
+// Folds family rows left-joined with their members back into families, keeping row order
+function groupFamilyRows(rows: { family: Family; member: FamilyMember | null }[]): FamilyWithMembers[] {
+  const familiesById = new Map<string, FamilyWithMembers>();
+  for (const { family, member } of rows) {
+    if (!familiesById.has(family.id)) {
+      familiesById.set(family.id, { ...family, members: [] });
+    }
+    if (member) {
+      familiesById.get(family.id)!.members.push(member);
+    }
+  }
+  return Array.from(familiesById.values());
+}
+
 export class DatabaseStorage implements IStorage {
+  // Role operations
+  async getRoles(): Promise<Role[]> {
+    return await db.select().from(roles).orderBy(desc(roles.isSystem), roles.code);
+  }
+
+  async getRole(id: string): Promise<Role | undefined> {
+    const [role] = await db.select().from(roles).where(eq(roles.id, id));
+    return role || undefined;
+  }
+
+  async getRoleByCode(code: string): Promise<Role | undefined> {
+    const [role] = await db.select().from(roles).where(eq(roles.code, code));
+    return role || undefined;
+  }
+
+  async createRole(roleData: InsertRole & { isSystem?: boolean }): Promise<Role> {
+    const [newRole] = await db.insert(roles).values(roleData).returning();
+    return newRole;
+  }
+
+  async updateRole(id: string, roleData: Partial<InsertRole>): Promise<Role | undefined> {
+    const [updatedRole] = await db.update(roles)
+      .set({ ...roleData, updatedAt: new Date() })
+      .where(eq(roles.id, id))
+      .returning();
+    return updatedRole || undefined;
+  }
+
+  async deleteRole(id: string): Promise<void> {
+    await db.delete(roles).where(eq(roles.id, id));
+  }
+
+  async countStaffInRole(code: string): Promise<number> {
+    const [result] = await db.select({ count: count() }).from(staff)
+      .where(and(eq(staff.group, code), eq(staff.isActive, true)));
+    return result?.count ?? 0;
+  }
+
+  // Custom field operations
+  async getCustomFields(): Promise<CustomField[]> {
+    return await db.select().from(customFields).orderBy(customFields.target, customFields.displayOrder, customFields.name);
+  }
+
+  async getCustomField(id: string): Promise<CustomField | undefined> {
+    const [field] = await db.select().from(customFields).where(eq(customFields.id, id));
+    return field || undefined;
+  }
+
+  async createCustomField(fieldData: InsertCustomField): Promise<CustomField> {
+    const [newField] = await db.insert(customFields).values(fieldData).returning();
+    return newField;
+  }
+
+  async updateCustomField(id: string, fieldData: Partial<InsertCustomField>): Promise<CustomField | undefined> {
+    const [updatedField] = await db.update(customFields)
+      .set({ ...fieldData, updatedAt: new Date() })
+      .where(eq(customFields.id, id))
+      .returning();
+    return updatedField || undefined;
+  }
+
+  // Stored values are left in place and ignored, since families only keep values of existing fields
+  async deleteCustomField(id: string): Promise<void> {
+    await db.delete(customFields).where(eq(customFields.id, id));
+  }
+
+  // Leadership position operations
+  // Archived families' members are left out
+  async getPositions(filters: PositionSearchParams): Promise<MemberPositionWithDetails[]> {
+    const conditions: SQL[] = [isNull(families.deletedAt)];
+    if (filters.memberId) {
+      conditions.push(eq(memberPositions.memberId, filters.memberId));
+    }
+    if (filters.familyIds && filters.familyIds.length > 0) {
+      conditions.push(inArray(familyMembers.familyId, filters.familyIds));
+    }
+    if (filters.teamIds && filters.teamIds.length > 0) {
+      conditions.push(inArray(memberPositions.teamId, filters.teamIds));
+    }
+    if (filters.departmentId) {
+      conditions.push(or(
+        eq(memberPositions.departmentId, filters.departmentId),
+        inArray(memberPositions.teamId, db.select({ id: teams.id }).from(teams).where(eq(teams.departmentId, filters.departmentId)))
+      )!);
+    }
+    if (filters.current) {
+      conditions.push(getCurrentPositionCondition());
+    }
+
+    const rows = await db.select({
+      position: memberPositions,
+      member: {
+        id: familyMembers.id,
+        koreanName: familyMembers.koreanName,
+        englishName: familyMembers.englishName,
+        relationship: familyMembers.relationship,
+      },
+      family: {
+        id: families.id,
+        familyName: families.familyName,
+      },
+      team: {
+        id: teams.id,
+        name: teams.name,
+      },
+      department: {
+        id: departments.id,
+        name: departments.name,
+      },
+    })
+      .from(memberPositions)
+      .innerJoin(familyMembers, eq(familyMembers.id, memberPositions.memberId))
+      .innerJoin(families, eq(families.id, familyMembers.familyId))
+      .leftJoin(teams, eq(teams.id, memberPositions.teamId))
+      .leftJoin(departments, eq(departments.id, memberPositions.departmentId))
+      .where(and(...conditions))
+      .orderBy(desc(memberPositions.startDate), memberPositions.position);
+
+    return rows.map(row => ({
+      ...row.position,
+      member: row.member,
+      family: row.family,
+      team: row.team?.id ? row.team : null,
+      department: row.department?.id ? row.department : null,
+    }));
+  }
+
+  async getPosition(id: string): Promise<MemberPosition | undefined> {
+    const [position] = await db.select().from(memberPositions).where(eq(memberPositions.id, id));
+    return position || undefined;
+  }
+
+  async createPosition(positionData: InsertMemberPosition & { createdBy?: string | null }): Promise<MemberPosition> {
+    const [newPosition] = await db.insert(memberPositions).values(positionData).returning();
+    return newPosition;
+  }
+
+  async updatePosition(id: string, positionData: Partial<InsertMemberPosition>): Promise<MemberPosition | undefined> {
+    const [updatedPosition] = await db.update(memberPositions)
+      .set({ ...positionData, updatedAt: new Date() })
+      .where(eq(memberPositions.id, id))
+      .returning();
+    return updatedPosition || undefined;
+  }
+
+  async deletePosition(id: string): Promise<void> {
+    await db.delete(memberPositions).where(eq(memberPositions.id, id));
+  }
+
+  async getFamilyMember(id: string): Promise<FamilyMember | undefined> {
+    const [member] = await db.select().from(familyMembers).where(eq(familyMembers.id, id));
+    return member || undefined;
+  }
+
+  // Tag operations
+  async getTags(scope?: { teamIds?: string[]; departmentId?: string }): Promise<TagWithCount[]> {
+    const [allTags, counts] = await Promise.all([
+      db.select().from(tags).orderBy(tags.name),
+      db.select({
+        tagId: sql<string>`jsonb_array_elements_text(${families.tagIds})`.as('tag_id'),
+        familyCount: sql<number>`count(*)::int`,
+      })
+        .from(families)
+        .where(and(...getFamilyConditions({ teamIds: scope?.teamIds, departmentId: scope?.departmentId })))
+        .groupBy(sql`tag_id`),
+    ]);
+    const countsById = new Map(counts.map(row => [row.tagId, row.familyCount]));
+    return allTags.map(tag => ({ ...tag, familyCount: countsById.get(tag.id) ?? 0 }));
+  }
+
+  async getTag(id: string): Promise<Tag | undefined> {
+    const [tag] = await db.select().from(tags).where(eq(tags.id, id));
+    return tag || undefined;
+  }
+
+  async createTag(tagData: InsertTag): Promise<Tag> {
+    const [newTag] = await db.insert(tags).values(tagData).returning();
+    return newTag;
+  }
+
+  async updateTag(id: string, tagData: Partial<InsertTag>): Promise<Tag | undefined> {
+    const [updatedTag] = await db.update(tags)
+      .set({ ...tagData, updatedAt: new Date() })
+      .where(eq(tags.id, id))
+      .returning();
+    return updatedTag || undefined;
+  }
+
+  // Families lose the tag too, archived ones included
+  async deleteTag(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.update(families)
+        .set({ tagIds: sql`${families.tagIds} - ${id}::text` })
+        .where(sql`${families.tagIds} ? ${id}::text`);
+      await tx.delete(tags).where(eq(tags.id, id));
+    });
+  }
+
+  async setFamilyTags(familyId: string, tagIds: string[]): Promise<Family | undefined> {
+    const [updatedFamily] = await db.update(families)
+      .set({ tagIds, updatedAt: new Date() })
+      .where(eq(families.id, familyId))
+      .returning();
+    return updatedFamily || undefined;
+  }
+
+  // Only families whose tags change are updated and returned
+  async bulkUpdateFamilyTags(familyIds: string[], tagId: string, action: 'add' | 'remove'): Promise<Family[]> {
+    const hasTag = sql`${families.tagIds} ? ${tagId}::text`;
+    return await db.update(families)
+      .set({
+        tagIds: action === 'add'
+          ? sql`${families.tagIds} || jsonb_build_array(${tagId}::text)`
+          : sql`${families.tagIds} - ${tagId}::text`,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        inArray(families.id, familyIds),
+        isNull(families.deletedAt),
+        action === 'add' ? sql`not ${hasTag}` : hasTag
+      ))
+      .returning();
+  }
+
   // Staff operations
   async getStaff(id: string): Promise<Staff | undefined> {
     const [staffMember] = await db.select().from(staff).where(eq(staff.id, id));
@@ -312,24 +889,50 @@ export class DatabaseStorage implements IStorage {
       .orderBy(staff.displayOrder, staff.fullName);
   }
 
-  async getAllStaffForManagement(): Promise<Staff[]> {
-    return await db.select().from(staff)
+  async getAllStaffForManagement(): Promise<SafeStaff[]> {
+    const allStaff = await db.select().from(staff)
       .orderBy(staff.displayOrder, staff.fullName);
+    return allStaff.map(({ personalPin, previousPin, ...rest }) => rest);
   }
 
-  async createStaff(staffData: InsertStaff): Promise<Staff> {
-    const [newStaff] = await db.insert(staff).values(staffData).returning();
+  async createStaff(staffData: InsertStaff & { mustChangePin?: boolean }): Promise<Staff> {
+    const [newStaff] = await db.insert(staff).values({
+      ...staffData,
+      personalPin: await hashPin(staffData.personalPin)
+    }).returning();
     return newStaff;
   }
 
-  async updateStaff(id: string, staffData: Partial<InsertStaff & { lastLogin?: Date }>): Promise<Staff | undefined> {
+  async updateStaff(id: string, staffData: Partial<InsertStaff & StaffAccountFields>): Promise<Staff | undefined> {
+    // PINs are always hashed before they reach the database
+    const data = staffData.personalPin
+      ? { ...staffData, personalPin: await hashPin(staffData.personalPin) }
+      : staffData;
+
     const [updatedStaff] = await db.update(staff)
-      .set({ ...staffData, updatedAt: new Date() })
+      .set({ ...data, updatedAt: new Date() })
       .where(eq(staff.id, id))
       .returning();
     return updatedStaff || undefined;
   }
 
+  // One-time migration: hash any PINs still stored as plaintext
+  async migratePlaintextPins(): Promise<number> {
+    const allStaff = await db.select({ id: staff.id, personalPin: staff.personalPin }).from(staff);
+    let migrated = 0;
+
+    for (const staffMember of allStaff) {
+      if (!isHashedPin(staffMember.personalPin)) {
+        await db.update(staff)
+          .set({ personalPin: await hashPin(staffMember.personalPin) })
+          .where(eq(staff.id, staffMember.id));
+        migrated++;
+      }
+    }
+
+    return migrated;
+  }
+
   async deleteStaff(id: string): Promise<void> {
     // Soft delete by setting isActive to false
     await db.update(staff)
@@ -338,9 +941,10 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Family operations
-  async getFamily(id: string): Promise<FamilyWithMembers | undefined> {
+  // Archived families are treated as missing unless asked for
+  async getFamily(id: string, options?: { includeDeleted?: boolean }): Promise<FamilyWithMembers | undefined> {
     const [family] = await db.select().from(families).where(eq(families.id, id));
-    if (!family) return undefined;
+    if (!family || (family.deletedAt && !options?.includeDeleted)) return undefined;
 
     const members = await db.select().from(familyMembers)
       .where(eq(familyMembers.familyId, id))
@@ -356,95 +960,84 @@ export class DatabaseStorage implements IStorage {
     memberStatus?: string;
     dateFrom?: string;
     dateTo?: string;
-    courses?: string;
+    positions?: string;
     teamId?: string;
+    teamIds?: string[];
     departmentId?: string;
     unassigned?: boolean;
+    includeDeleted?: boolean;
   }): Promise<FamilyWithMembers[]> {
-    const conditions = [];
-    
-    if (filters?.name) {
-      conditions.push(like(families.familyName, `%${filters.name}%`));
-    }
-    
-    if (filters?.lifeGroup) {
-      conditions.push(like(families.lifeGroup, `%${filters.lifeGroup}%`));
-    }
-    
-    if (filters?.supportTeamMember) {
-      conditions.push(like(families.supportTeamMember, `%${filters.supportTeamMember}%`));
-    }
-    
-    if (filters?.memberStatus && filters.memberStatus !== 'all') {
-      // Handle comma-separated values as OR conditions
-      const statusValues = filters.memberStatus.split(',').map(s => s.trim());
-      if (statusValues.length === 1) {
-        conditions.push(eq(families.memberStatus, statusValues[0]));
-      } else {
-        conditions.push(or(...statusValues.map(status => eq(families.memberStatus, status))));
-      }
-    }
-    
-    if (filters?.dateFrom) {
-      conditions.push(gte(families.visitedDate, filters.dateFrom));
-    }
-    
-    if (filters?.dateTo) {
-      conditions.push(lte(families.visitedDate, filters.dateTo));
-    }
-    
-    // Team and department filters
-    if (filters?.teamId) {
-      conditions.push(eq(families.teamId, filters.teamId));
-    }
-    
-    if (filters?.unassigned) {
-      conditions.push(isNull(families.teamId));
-    }
-    
-    // Department filter - need to join with teams table
-    if (filters?.departmentId) {
-      // We'll handle this with a more complex query after basic filtering
-    }
-    
-    const familyList = conditions.length > 0
-      ? await db.select().from(families).where(and(...conditions)).orderBy(families.displayOrder, families.familyName)
-      : await db.select().from(families).orderBy(families.displayOrder, families.familyName);
-    
-    // Get members for each family
-    const familiesWithMembers: FamilyWithMembers[] = [];
-    for (const family of familyList) {
-      const members = await db.select().from(familyMembers)
-        .where(eq(familyMembers.familyId, family.id))
-        .orderBy(familyMembers.displayOrder, familyMembers.relationship);
-      
-      familiesWithMembers.push({ ...family, members });
-    }
-    
-    // Apply courses filtering - show families where NEITHER husband nor wife completed the selected course
-    if (filters?.courses) {
-      const courseList = filters.courses.split(',').map(c => c.trim());
-      
-      return familiesWithMembers.filter(family => {
-        const husband = family.members.find(m => m.relationship === 'husband');
-        const wife = family.members.find(m => m.relationship === 'wife');
-        
-        // Check if husband has completed any of the selected courses
-        const husbandCompleted = husband && husband.courses && husband.courses.length > 0 
-          ? courseList.some(course => husband.courses.includes(course))
-          : false;
-        
-        // Check if wife has completed any of the selected courses
-        const wifeCompleted = wife && wife.courses && wife.courses.length > 0
-          ? courseList.some(course => wife.courses.includes(course))
-          : false;
-        
-        // Return true if NEITHER husband nor wife has completed any of the selected courses
-        return !husbandCompleted && !wifeCompleted;
-      });
+    const conditions = getFamilyConditions({
+      ...filters,
+      memberStatus: filters?.memberStatus?.split(',').map(s => s.trim()),
+      positions: filters?.positions?.split(',').map(p => p.trim()),
+      teamIds: filters?.teamIds ?? (filters?.teamId ? [filters.teamId] : undefined),
+    });
+
+    const rows = await db.select({ family: families, member: familyMembers })
+      .from(families)
+      .leftJoin(familyMembers, eq(familyMembers.familyId, families.id))
+      .where(and(...conditions))
+      .orderBy(families.displayOrder, families.familyName, families.id, familyMembers.displayOrder, familyMembers.relationship);
+
+    return groupFamilyRows(rows);
+  }
+
+  // Families where a field searched by the ranked text search (see server/familyTextSearch.ts)
+  // contains the query, so only those are loaded and ranked
+  async getFamilyTextSearchCandidates(rawQuery: string): Promise<FamilyWithMembers[]> {
+    const query = rawQuery.trim().toLowerCase();
+    const pattern = getTextSearchRegex(query);
+    const digits = getPhoneQueryDigits(query);
+    const containsDigits = (column: typeof families.phoneNumber | typeof familyMembers.phoneNumber) =>
+      sql`regexp_replace(${column}, '[^0-9]', '', 'g') like ${`%${digits}%`}`;
+
+    const familyConditions = [
+      families.familyName, families.email, families.bizName, families.biz,
+      families.bizTitle, families.bizCategory, families.bizIntro,
+    ].map(column => sql`${column} ~* ${pattern}`);
+    const memberConditions = [familyMembers.koreanName, familyMembers.englishName, familyMembers.email]
+      .map(column => sql`${column} ~* ${pattern}`);
+    if (digits) {
+      familyConditions.push(containsDigits(families.phoneNumber));
+      memberConditions.push(containsDigits(familyMembers.phoneNumber));
     }
-    
-    return familiesWithMembers;
+    const matchingMembers = db.select({ familyId: familyMembers.familyId }).from(familyMembers).where(or(...memberConditions));
+
+    const rows = await db.select({ family: families, member: familyMembers })
+      .from(families)
+      .leftJoin(familyMembers, eq(familyMembers.familyId, families.id))
+      .where(and(isNull(families.deletedAt), or(...familyConditions, inArray(families.id, matchingMembers))))
+      .orderBy(families.displayOrder, families.familyName, families.id, familyMembers.displayOrder, familyMembers.relationship);
+
+    return groupFamilyRows(rows);
+  }
+
+  // One page of families with their members, plus the total number of matches
+  async searchFamilies(params: FamilySearchParams): Promise<{ families: FamilyWithMembers[]; total: number }> {
+    const { sort, order, limit, offset, ...filters } = params;
+    const customFieldDefinitions = filters.customFields ? await this.getCustomFields() : [];
+    const where = and(...getFamilyConditions(filters, customFieldDefinitions));
+    const orderBy = getFamilyOrderBy(sort, order);
+
+    const page = db.select({ id: families.id })
+      .from(families)
+      .where(where)
+      .orderBy(...orderBy)
+      .limit(limit)
+      .offset(offset)
+      .as('page');
+
+    const [rows, [{ total }]] = await Promise.all([
+      db.select({ family: families, member: familyMembers })
+        .from(families)
+        .innerJoin(page, eq(families.id, page.id))
+        .leftJoin(familyMembers, eq(familyMembers.familyId, families.id))
+        .orderBy(...orderBy, familyMembers.displayOrder, familyMembers.relationship),
+      db.select({ total: count() }).from(families).where(where),
+    ]);
+
+    return { families: groupFamilyRows(rows), total };
   }
 
   async createFamily(familyData: InsertFamily, members: Omit<InsertFamilyMember, 'familyId'>[]): Promise<FamilyWithMembers> {
@@ -461,51 +1054,74 @@ export class DatabaseStorage implements IStorage {
         ...cleanedMember,
         familyId: family.id,
         displayOrder: member.displayOrder ?? index + 1,
-        courses: (cleanedMember.courses as string[]) || []
       };
     });
     
     const createdMembers = await db.insert(familyMembers)
       .values(familyMembersData)
       .returning();
-    
-    return { ...family, members: createdMembers };
-  }
 
-  async updateFamily(id: string, familyData: Partial<InsertFamily>, members: Omit<InsertFamilyMember, 'familyId'>[]): Promise<FamilyWithMembers> {
-    const cleanedFamilyData = cleanDateFields(familyData);
-    const [family] = await db.update(families)
-      .set({ ...cleanedFamilyData, updatedAt: new Date() })
-      .where(eq(families.id, id))
-      .returning();
+    const picture = await setPrimaryFamilyPicture(db, family.id, family.familyPicture, family.familyPictureThumbnail);
     
-    // Delete existing members
-    await db.delete(familyMembers).where(eq(familyMembers.familyId, id));
-    
-    // Insert new members
-    const familyMembersData = members.map((member, index) => {
-      const cleanedMember = cleanDateFields(member);
-      return {
-        ...cleanedMember,
-        familyId: id,
-        displayOrder: member.displayOrder ?? index + 1,
-        courses: (cleanedMember.courses as string[]) || []
-      };
+    return { ...family, ...picture, members: createdMembers };
+  }
+
+  // Replaces the family's members. Members sent with the id of one of them are updated in place,
+  // keeping their attendance and positions; the others are deleted and the rest inserted.
+  async updateFamily(id: string, familyData: Partial<InsertFamily>, members: FamilyMemberUpdate[]): Promise<FamilyWithMembers> {
+    return await db.transaction(async (tx) => {
+      const cleanedFamilyData = cleanDateFields(familyData);
+      let [family] = await tx.update(families)
+        .set({ ...cleanedFamilyData, updatedAt: new Date() })
+        .where(eq(families.id, id))
+        .returning();
+      if (familyData.familyPicture !== undefined) {
+        family = { ...family, ...(await setPrimaryFamilyPicture(tx, id, familyData.familyPicture, familyData.familyPictureThumbnail)) };
+      }
+
+      const existingIds = new Set(
+        (await tx.select({ id: familyMembers.id }).from(familyMembers).where(eq(familyMembers.familyId, id))).map(m => m.id)
+      );
+      const keptIds = members.map(member => member.id).filter((memberId): memberId is string => !!memberId && existingIds.has(memberId));
+
+      await tx.delete(familyMembers).where(and(
+        eq(familyMembers.familyId, id),
+        keptIds.length > 0 ? notInArray(familyMembers.id, keptIds) : undefined
+      ));
+
+      const updatedMembers: FamilyMember[] = [];
+      for (let index = 0; index < members.length; index++) {
+        const { id: memberId, ...member } = members[index];
+        const memberData = {
+          ...cleanDateFields(member),
+          familyId: id,
+          displayOrder: member.displayOrder ?? index + 1,
+        };
+        if (memberId && keptIds.includes(memberId)) {
+          const [updatedMember] = await tx.update(familyMembers)
+            .set({ ...memberData, updatedAt: new Date() })
+            .where(eq(familyMembers.id, memberId))
+            .returning();
+          updatedMembers.push(updatedMember);
+        } else {
+          const [newMember] = await tx.insert(familyMembers).values(memberData).returning();
+          updatedMembers.push(newMember);
+        }
+      }
+
+      return { ...family, members: updatedMembers };
     });
-    
-    const updatedMembers = await db.insert(familyMembers)
-      .values(familyMembersData)
-      .returning();
-    
-    return { ...family, members: updatedMembers };
   }
 
   async updateFamilyOnly(id: string, familyData: Partial<InsertFamily>): Promise<FamilyWithMembers> {
     const cleanedFamilyData = cleanDateFields(familyData);
-    const [family] = await db.update(families)
+    let [family] = await db.update(families)
       .set({ ...cleanedFamilyData, updatedAt: new Date() })
       .where(eq(families.id, id))
       .returning();
+    if (familyData.familyPicture !== undefined) {
+      family = { ...family, ...(await setPrimaryFamilyPicture(db, id, familyData.familyPicture, familyData.familyPictureThumbnail)) };
+    }
     
     // Get existing members without modifying them
     const existingMembers = await db.select()
@@ -527,10 +1143,291 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getDeletedFamilies(): Promise<DeletedFamily[]> {
+    const rows = await db
+      .select({
+        family: families,
+        member: familyMembers,
+        deletedByStaff: {
+          id: staff.id,
+          fullName: staff.fullName,
+          nickName: staff.nickName,
+        },
+      })
+      .from(families)
+      .leftJoin(familyMembers, eq(familyMembers.familyId, families.id))
+      .leftJoin(staff, eq(families.deletedBy, staff.id))
+      .where(isNotNull(families.deletedAt))
+      .orderBy(desc(families.deletedAt), families.id, familyMembers.displayOrder, familyMembers.relationship);
+
+    const deletedByStaff = new Map(rows.map(row => [row.family.id, row.deletedByStaff]));
+    return groupFamilyRows(rows).map(family => {
+      const staffMember = deletedByStaff.get(family.id);
+      return { ...family, deletedByStaff: staffMember && staffMember.id ? staffMember : null };
+    });
+  }
+
+  // Soft delete: the family and everything recorded against it stays until purged with deleteFamily
+  async archiveFamily(id: string, staffId: string): Promise<FamilyWithMembers | undefined> {
+    await db.update(families)
+      .set({ deletedAt: new Date(), deletedBy: staffId })
+      .where(and(eq(families.id, id), isNull(families.deletedAt)));
+    return this.getFamily(id, { includeDeleted: true });
+  }
+
+  async restoreDeletedFamily(id: string): Promise<FamilyWithMembers | undefined> {
+    await db.update(families)
+      .set({ deletedAt: null, deletedBy: null })
+      .where(eq(families.id, id));
+    return this.getFamily(id);
+  }
+
   async deleteFamily(id: string): Promise<void> {
     await db.delete(families).where(eq(families.id, id));
   }
 
+  // Business directory: only the columns it may show, for families that opted in and have a business
+  async getDirectoryFamilies(filters?: { q?: string; category?: string }): Promise<DirectoryFamily[]> {
+    const conditions = getDirectoryConditions();
+    if (filters?.category) {
+      conditions.push(eq(families.bizCategory, filters.category));
+    }
+    if (filters?.q) {
+      const pattern = `%${filters.q}%`;
+      conditions.push(or(
+        ilike(families.bizName, pattern),
+        ilike(families.biz, pattern),
+        ilike(families.bizTitle, pattern),
+        ilike(families.bizCategory, pattern),
+        ilike(families.bizIntro, pattern),
+      )!);
+    }
+
+    return await db.select({
+      id: families.id,
+      bizName: families.bizName,
+      biz: families.biz,
+      bizTitle: families.bizTitle,
+      bizCategory: families.bizCategory,
+      bizIntro: families.bizIntro,
+      familyPicture: families.familyPicture,
+      directoryPhotoConsent: families.directoryPhotoConsent,
+    })
+      .from(families)
+      .where(and(...conditions))
+      .orderBy(families.bizName, families.biz, families.id);
+  }
+
+  async getDirectoryCategories(): Promise<string[]> {
+    const results = await db.selectDistinct({ bizCategory: families.bizCategory })
+      .from(families)
+      .where(and(...getDirectoryConditions(), ne(families.bizCategory, '')))
+      .orderBy(families.bizCategory);
+    return results.map(r => r.bizCategory!);
+  }
+
+  // Moves everything recorded against the duplicate onto the survivor, then deletes the duplicate.
+  // memberIdMap maps duplicate members to the survivor members they are the same person as;
+  // the other duplicate members are moved over, keeping their ids. The duplicate's saved versions
+  // are deleted with it rather than becoming versions the survivor could be restored to; its last
+  // state stays in the audit log.
+  async mergeFamilies(survivorId: string, duplicateId: string, familyData: Partial<InsertFamily>, memberIdMap: Record<string, string>): Promise<FamilyWithMembers> {
+    await db.transaction(async (tx) => {
+      const cleanedFamilyData = cleanDateFields(familyData);
+      await tx.update(families)
+        .set({ ...cleanedFamilyData, updatedAt: new Date() })
+        .where(eq(families.id, survivorId));
+
+      // Keep one attendance record per event and member, preferring one that has been taken
+      const survivorAttendance = await tx.select().from(eventAttendance).where(eq(eventAttendance.familyId, survivorId));
+      const duplicateAttendance = await tx.select().from(eventAttendance).where(eq(eventAttendance.familyId, duplicateId));
+      for (const record of duplicateAttendance) {
+        const familyMemberId = record.familyMemberId ? (memberIdMap[record.familyMemberId] ?? record.familyMemberId) : null;
+        const existing = survivorAttendance.find(a => a.eventId === record.eventId && a.familyMemberId === familyMemberId);
+        if (!existing) {
+          await tx.update(eventAttendance)
+            .set({ familyId: survivorId, familyMemberId, updatedAt: new Date() })
+            .where(eq(eventAttendance.id, record.id));
+          continue;
+        }
+        if (existing.attendanceStatus === 'pending' && record.attendanceStatus !== 'pending') {
+          await tx.update(eventAttendance)
+            .set({ attendanceStatus: record.attendanceStatus, updatedBy: record.updatedBy, updatedAt: new Date() })
+            .where(eq(eventAttendance.id, existing.id));
+        }
+        await tx.delete(eventAttendance).where(eq(eventAttendance.id, record.id));
+      }
+
+      const survivorMembers = await tx.select({ id: familyMembers.id }).from(familyMembers).where(eq(familyMembers.familyId, survivorId));
+      const duplicateMembers = await tx.select()
+        .from(familyMembers)
+        .where(eq(familyMembers.familyId, duplicateId))
+        .orderBy(familyMembers.displayOrder);
+      let displayOrder = survivorMembers.length;
+      for (const member of duplicateMembers) {
+        if (memberIdMap[member.id]) continue;
+        displayOrder++;
+        await tx.update(familyMembers)
+          .set({ familyId: survivorId, displayOrder, updatedAt: new Date() })
+          .where(eq(familyMembers.id, member.id));
+      }
+
+      // Positions of duplicate members who are the same person go to the survivor member
+      for (const [duplicateMemberId, survivorMemberId] of Object.entries(memberIdMap)) {
+        await tx.update(memberPositions)
+          .set({ memberId: survivorMemberId, updatedAt: new Date() })
+          .where(eq(memberPositions.memberId, duplicateMemberId));
+      }
+
+      // The duplicate's photos join the survivor's gallery; the merged picture stays primary
+      await tx.update(familyPhotos)
+        .set({ familyId: survivorId, isPrimary: false, updatedAt: new Date() })
+        .where(eq(familyPhotos.familyId, duplicateId));
+      const [survivor] = await tx.select({ familyPicture: families.familyPicture }).from(families).where(eq(families.id, survivorId));
+      await setPrimaryFamilyPicture(tx, survivorId, survivor.familyPicture);
+
+      await tx.update(careLogs).set({ familyId: survivorId }).where(eq(careLogs.familyId, duplicateId));
+      await tx.update(donations).set({ familyId: survivorId }).where(eq(donations.familyId, duplicateId));
+      await tx.update(familyNoteAccessLogs).set({ familyId: survivorId }).where(eq(familyNoteAccessLogs.familyId, duplicateId));
+      await tx.update(familyStatusHistory).set({ familyId: survivorId }).where(eq(familyStatusHistory.familyId, duplicateId));
+
+      await tx.delete(families).where(eq(families.id, duplicateId));
+    });
+
+    return (await this.getFamily(survivorId))!;
+  }
+
+  // Moves members to another family, or to a new one, keeping their ids so their attendance and
+  // positions go with them. The source is left in place even when it has no members left.
+  async moveFamilyMembers(
+    sourceId: string,
+    target: { id: string } | { family: InsertFamily },
+    moves: Array<{ memberId: string; relationship: string }>,
+    familyNames: { source: string; target: string }
+  ): Promise<{ source: FamilyWithMembers; target: FamilyWithMembers }> {
+    const familyCode = 'family' in target ? await generateUniqueFamilyCode() : null;
+
+    const targetId = await db.transaction(async (tx) => {
+      let targetId: string;
+      if ('family' in target) {
+        const [family] = await tx.insert(families)
+          .values({ ...cleanDateFields(target.family), familyName: familyNames.target, familyCode })
+          .returning();
+        targetId = family.id;
+      } else {
+        targetId = target.id;
+        await tx.update(families)
+          .set({ familyName: familyNames.target, updatedAt: new Date() })
+          .where(eq(families.id, targetId));
+      }
+
+      const targetMembers = await tx.select({ id: familyMembers.id }).from(familyMembers).where(eq(familyMembers.familyId, targetId));
+      let displayOrder = targetMembers.length;
+      for (const move of moves) {
+        displayOrder++;
+        await tx.update(familyMembers)
+          .set({ familyId: targetId, relationship: move.relationship, displayOrder, updatedAt: new Date() })
+          .where(and(eq(familyMembers.id, move.memberId), eq(familyMembers.familyId, sourceId)));
+      }
+
+      // Member attendance follows the member; family-level records stay with the source
+      await tx.update(eventAttendance)
+        .set({ familyId: targetId, updatedAt: new Date() })
+        .where(and(
+          eq(eventAttendance.familyId, sourceId),
+          inArray(eventAttendance.familyMemberId, moves.map(move => move.memberId))
+        ));
+
+      await tx.update(families)
+        .set({ familyName: familyNames.source, updatedAt: new Date() })
+        .where(eq(families.id, sourceId));
+
+      return targetId;
+    });
+
+    return {
+      source: (await this.getFamily(sourceId))!,
+      target: (await this.getFamily(targetId))!,
+    };
+  }
+
+  // Family photo operations
+  async getFamilyPhotos(familyId: string): Promise<FamilyPhoto[]> {
+    return await db.select()
+      .from(familyPhotos)
+      .where(eq(familyPhotos.familyId, familyId))
+      .orderBy(desc(familyPhotos.isPrimary), familyPhotos.displayOrder, familyPhotos.createdAt);
+  }
+
+  // Every family's photos (deleted families included), each with its family's team
+  async getAllFamilyPhotos(): Promise<(FamilyPhoto & { teamId: string | null })[]> {
+    const rows = await db.select({ photo: familyPhotos, teamId: families.teamId })
+      .from(familyPhotos)
+      .innerJoin(families, eq(familyPhotos.familyId, families.id));
+    return rows.map(({ photo, teamId }) => ({ ...photo, teamId }));
+  }
+
+  async getFamilyPhoto(id: string): Promise<FamilyPhoto | undefined> {
+    const [photo] = await db.select().from(familyPhotos).where(eq(familyPhotos.id, id));
+    return photo || undefined;
+  }
+
+  // New photos go last; a family's first photo becomes its primary photo
+  async createFamilyPhoto(photoData: InsertFamilyPhoto): Promise<FamilyPhoto> {
+    return await db.transaction(async (tx) => {
+      const photos = await tx.select().from(familyPhotos).where(eq(familyPhotos.familyId, photoData.familyId));
+      const [photo] = await tx.insert(familyPhotos).values({
+        ...photoData,
+        isPrimary: !photos.some(existing => existing.isPrimary),
+        displayOrder: Math.max(0, ...photos.map(existing => existing.displayOrder)) + 1,
+      }).returning();
+      await mirrorPrimaryFamilyPhoto(tx, photo.familyId);
+      return photo;
+    });
+  }
+
+  async updateFamilyPhoto(id: string, photoData: FamilyPhotoUpdate): Promise<FamilyPhoto | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existingPhoto] = await tx.select().from(familyPhotos).where(eq(familyPhotos.id, id));
+      if (!existingPhoto) {
+        return undefined;
+      }
+      if (photoData.isPrimary) {
+        await tx.update(familyPhotos)
+          .set({ isPrimary: false })
+          .where(and(eq(familyPhotos.familyId, existingPhoto.familyId), ne(familyPhotos.id, id)));
+      }
+      const [photo] = await tx.update(familyPhotos)
+        .set({ ...photoData, updatedAt: new Date() })
+        .where(eq(familyPhotos.id, id))
+        .returning();
+      await mirrorPrimaryFamilyPhoto(tx, photo.familyId);
+      return photo;
+    });
+  }
+
+  // Deleting the primary photo makes the next one primary. The stored renditions are left in place,
+  // like replaced family pictures, since old family versions may still point at them.
+  async deleteFamilyPhoto(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [photo] = await tx.delete(familyPhotos).where(eq(familyPhotos.id, id)).returning();
+      if (!photo) {
+        return;
+      }
+      if (photo.isPrimary) {
+        const [nextPhoto] = await tx.select({ id: familyPhotos.id })
+          .from(familyPhotos)
+          .where(eq(familyPhotos.familyId, photo.familyId))
+          .orderBy(familyPhotos.displayOrder, familyPhotos.createdAt)
+          .limit(1);
+        if (nextPhoto) {
+          await tx.update(familyPhotos).set({ isPrimary: true }).where(eq(familyPhotos.id, nextPhoto.id));
+        }
+      }
+      await mirrorPrimaryFamilyPhoto(tx, photo.familyId);
+    });
+  }
+
   // Care log operations
   async getCareLog(id: string): Promise<CareLog | undefined> {
     const [careLog] = await db.select().from(careLogs).where(eq(careLogs.id, id));
@@ -579,6 +1476,235 @@ export class DatabaseStorage implements IStorage {
     await db.delete(careLogs).where(eq(careLogs.id, id));
   }
 
+  // Family notes access log operations
+  async createFamilyNoteAccessLog(logData: InsertFamilyNoteAccessLog): Promise<FamilyNoteAccessLog> {
+    const [log] = await db.insert(familyNoteAccessLogs).values(logData).returning();
+    return log;
+  }
+
+  async getFamilyNoteAccessLogs(familyId: string, limit: number = 100): Promise<FamilyNoteAccessLogWithDetails[]> {
+    return await db
+      .select({
+        id: familyNoteAccessLogs.id,
+        familyId: familyNoteAccessLogs.familyId,
+        staffId: familyNoteAccessLogs.staffId,
+        accessedAt: familyNoteAccessLogs.accessedAt,
+        ipAddress: familyNoteAccessLogs.ipAddress,
+        staff: {
+          id: staff.id,
+          fullName: staff.fullName,
+          nickName: staff.nickName,
+        },
+        family: {
+          id: families.id,
+          familyName: families.familyName,
+        },
+      })
+      .from(familyNoteAccessLogs)
+      .innerJoin(staff, eq(familyNoteAccessLogs.staffId, staff.id))
+      .innerJoin(families, eq(familyNoteAccessLogs.familyId, families.id))
+      .where(eq(familyNoteAccessLogs.familyId, familyId))
+      .orderBy(desc(familyNoteAccessLogs.accessedAt))
+      .limit(limit);
+  }
+
+  // Family status history operations
+  async createFamilyStatusChange(change: InsertFamilyStatusChange): Promise<FamilyStatusChange> {
+    const [newChange] = await db.insert(familyStatusHistory).values(change).returning();
+    return newChange;
+  }
+
+  async getFamilyStatusHistory(familyId: string): Promise<FamilyStatusChangeWithStaff[]> {
+    const results = await db
+      .select({
+        id: familyStatusHistory.id,
+        familyId: familyStatusHistory.familyId,
+        fromStatus: familyStatusHistory.fromStatus,
+        toStatus: familyStatusHistory.toStatus,
+        reason: familyStatusHistory.reason,
+        staffId: familyStatusHistory.staffId,
+        changedAt: familyStatusHistory.changedAt,
+        staff: {
+          id: staff.id,
+          fullName: staff.fullName,
+          nickName: staff.nickName,
+        },
+      })
+      .from(familyStatusHistory)
+      .leftJoin(staff, eq(familyStatusHistory.staffId, staff.id))
+      .where(eq(familyStatusHistory.familyId, familyId))
+      .orderBy(familyStatusHistory.changedAt);
+
+    return results.map(r => ({
+      ...r,
+      staff: r.staff && r.staff.id ? r.staff : null,
+    }));
+  }
+
+  // Family version operations
+  async createFamilyVersion(version: InsertFamilyVersion): Promise<FamilyVersion> {
+    const [newVersion] = await db.insert(familyVersions).values(version).returning();
+    return newVersion;
+  }
+
+  async getFamilyVersions(familyId: string): Promise<(FamilyVersion & { staff: { id: string; fullName: string; nickName: string } | null })[]> {
+    const results = await db
+      .select({
+        id: familyVersions.id,
+        familyId: familyVersions.familyId,
+        version: familyVersions.version,
+        snapshot: familyVersions.snapshot,
+        staffId: familyVersions.staffId,
+        restoredFromVersion: familyVersions.restoredFromVersion,
+        createdAt: familyVersions.createdAt,
+        staff: {
+          id: staff.id,
+          fullName: staff.fullName,
+          nickName: staff.nickName,
+        },
+      })
+      .from(familyVersions)
+      .leftJoin(staff, eq(familyVersions.staffId, staff.id))
+      .where(eq(familyVersions.familyId, familyId))
+      .orderBy(desc(familyVersions.version));
+
+    return results.map(r => ({
+      ...r,
+      staff: r.staff && r.staff.id ? r.staff : null,
+    }));
+  }
+
+  async getFamilyVersion(id: string): Promise<FamilyVersion | undefined> {
+    const [version] = await db.select().from(familyVersions).where(eq(familyVersions.id, id));
+    return version || undefined;
+  }
+
+  async getLatestFamilyVersionNumber(familyId: string): Promise<number> {
+    const [result] = await db.select({ latest: max(familyVersions.version) })
+      .from(familyVersions)
+      .where(eq(familyVersions.familyId, familyId));
+    return result?.latest ?? 0;
+  }
+
+  // Audit log operations
+  async createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const [newEntry] = await db.insert(auditLog).values(entry).returning();
+    return newEntry;
+  }
+
+  async getAuditLogEntries(filters: {
+    entityType?: string;
+    entityId?: string;
+    staffId?: string;
+    dateFrom?: string;
+    dateTo?: string;
+    limit?: number;
+  } = {}): Promise<AuditLogEntryWithStaff[]> {
+    const conditions = [];
+    if (filters.entityType) {
+      conditions.push(eq(auditLog.entityType, filters.entityType));
+    }
+    if (filters.entityId) {
+      conditions.push(eq(auditLog.entityId, filters.entityId));
+    }
+    if (filters.staffId) {
+      conditions.push(eq(auditLog.staffId, filters.staffId));
+    }
+    if (filters.dateFrom) {
+      conditions.push(gte(auditLog.createdAt, new Date(filters.dateFrom)));
+    }
+    if (filters.dateTo) {
+      // dateTo is inclusive, so compare against the start of the following day
+      const dateTo = new Date(filters.dateTo);
+      dateTo.setDate(dateTo.getDate() + 1);
+      conditions.push(lt(auditLog.createdAt, dateTo));
+    }
+
+    const results = await db
+      .select({
+        id: auditLog.id,
+        staffId: auditLog.staffId,
+        entityType: auditLog.entityType,
+        entityId: auditLog.entityId,
+        action: auditLog.action,
+        changes: auditLog.changes,
+        createdAt: auditLog.createdAt,
+        staff: {
+          id: staff.id,
+          fullName: staff.fullName,
+          nickName: staff.nickName,
+        },
+      })
+      .from(auditLog)
+      .leftJoin(staff, eq(auditLog.staffId, staff.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(auditLog.createdAt))
+      .limit(filters.limit ?? 200);
+
+    return results.map(r => ({
+      ...r,
+      staff: r.staff && r.staff.id ? r.staff : null,
+    })) as AuditLogEntryWithStaff[];
+  }
+
+  // API token operations
+  async getApiTokens(): Promise<ApiTokenInfo[]> {
+    const results = await db
+      .select({
+        id: apiTokens.id,
+        name: apiTokens.name,
+        tokenPrefix: apiTokens.tokenPrefix,
+        scopes: apiTokens.scopes,
+        expiresAt: apiTokens.expiresAt,
+        lastUsedAt: apiTokens.lastUsedAt,
+        revokedAt: apiTokens.revokedAt,
+        createdBy: apiTokens.createdBy,
+        createdAt: apiTokens.createdAt,
+        createdByStaff: {
+          id: staff.id,
+          fullName: staff.fullName,
+          nickName: staff.nickName,
+        },
+      })
+      .from(apiTokens)
+      .leftJoin(staff, eq(apiTokens.createdBy, staff.id))
+      .orderBy(desc(apiTokens.createdAt));
+
+    return results.map(r => ({
+      ...r,
+      createdByStaff: r.createdByStaff && r.createdByStaff.id ? r.createdByStaff : null,
+    })) as ApiTokenInfo[];
+  }
+
+  async getApiToken(id: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.id, id));
+    return token || undefined;
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token || undefined;
+  }
+
+  async createApiToken(token: typeof apiTokens.$inferInsert): Promise<ApiToken> {
+    const [newToken] = await db.insert(apiTokens).values(token).returning();
+    return newToken;
+  }
+
+  async revokeApiToken(id: string): Promise<ApiToken | undefined> {
+    const [revokedToken] = await db.update(apiTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiTokens.id, id), isNull(apiTokens.revokedAt)))
+      .returning();
+    return revokedToken || undefined;
+  }
+
+  async touchApiToken(id: string, lastUsedAt: Date): Promise<void> {
+    await db.update(apiTokens)
+      .set({ lastUsedAt })
+      .where(eq(apiTokens.id, id));
+  }
+
   // Announcement operations
   async getAnnouncement(id: string): Promise<AnnouncementWithStaff | undefined> {
     const result = await db.select({
@@ -900,6 +2026,7 @@ export class DatabaseStorage implements IStorage {
         id: families.id,
         familyName: families.familyName,
         supportTeamMember: families.supportTeamMember,
+        teamId: families.teamId,
       },
       familyMember: {
         id: familyMembers.id,
@@ -933,6 +2060,11 @@ export class DatabaseStorage implements IStorage {
     return newAttendance;
   }
 
+  async getEventAttendanceRecord(id: string): Promise<EventAttendance | undefined> {
+    const [record] = await db.select().from(eventAttendance).where(eq(eventAttendance.id, id));
+    return record || undefined;
+  }
+
   async updateEventAttendance(id: string, attendanceData: Partial<InsertEventAttendance>): Promise<EventAttendance | undefined> {
     const [updatedAttendance] = await db.update(eventAttendance)
       .set({ ...attendanceData, updatedAt: new Date() })
@@ -945,12 +2077,21 @@ export class DatabaseStorage implements IStorage {
     await db.delete(eventAttendance).where(eq(eventAttendance.id, id));
   }
 
+  // Returns undefined if the attendance record doesn't exist, null if its family has no team
+  async getAttendanceFamilyTeamId(id: string): Promise<string | null | undefined> {
+    const [result] = await db.select({ teamId: families.teamId })
+      .from(eventAttendance)
+      .innerJoin(families, eq(eventAttendance.familyId, families.id))
+      .where(eq(eventAttendance.id, id));
+    return result ? result.teamId : undefined;
+  }
+
   async initializeEventAttendance(eventId: string, createdBy: string): Promise<void> {
     // Get all families with their members
     const allFamilies = await db.select({
       id: families.id,
       familyName: families.familyName,
-    }).from(families);
+    }).from(families).where(isNull(families.deletedAt));
 
     const allFamilyMembers = await db.select({
       id: familyMembers.id,
@@ -1011,6 +2152,7 @@ export class DatabaseStorage implements IStorage {
       .select({
         id: staffLoginLogs.id,
         staffId: staffLoginLogs.staffId,
+        nickname: staffLoginLogs.nickname,
         loginTime: staffLoginLogs.loginTime,
         ipAddress: staffLoginLogs.ipAddress,
         userAgent: staffLoginLogs.userAgent,
@@ -1038,6 +2180,7 @@ export class DatabaseStorage implements IStorage {
       .select({
         id: staffLoginLogs.id,
         staffId: staffLoginLogs.staffId,
+        nickname: staffLoginLogs.nickname,
         loginTime: staffLoginLogs.loginTime,
         ipAddress: staffLoginLogs.ipAddress,
         userAgent: staffLoginLogs.userAgent,
@@ -1059,19 +2202,105 @@ export class DatabaseStorage implements IStorage {
     return logs;
   }
 
-  async getFailedLoginAttempts(staffId: string, timeWindow: Date): Promise<number> {
-    const failedAttempts = await db
-      .select({ count: staffLoginLogs.id })
+  async getFailedLoginAttempts(staffId: string, timeWindow: Date, failureReason?: string): Promise<FailedLoginSummary> {
+    const [result] = await db
+      .select({ count: count(), lastAttemptAt: max(staffLoginLogs.loginTime) })
       .from(staffLoginLogs)
       .where(
         and(
           eq(staffLoginLogs.staffId, staffId),
           eq(staffLoginLogs.success, false),
-          gte(staffLoginLogs.loginTime, timeWindow)
+          gte(staffLoginLogs.loginTime, timeWindow),
+          failureReason ? eq(staffLoginLogs.failureReason, failureReason) : undefined
+        )
+      );
+
+    return { count: result?.count ?? 0, lastAttemptAt: result?.lastAttemptAt ?? null };
+  }
+
+  // Failed attempts with a nickname no staff member has, so unknown nicknames lock out like real ones
+  async getFailedLoginAttemptsByNickname(nickname: string, timeWindow: Date, failureReason?: string): Promise<FailedLoginSummary> {
+    const [result] = await db
+      .select({ count: count(), lastAttemptAt: max(staffLoginLogs.loginTime) })
+      .from(staffLoginLogs)
+      .where(
+        and(
+          isNull(staffLoginLogs.staffId),
+          eq(staffLoginLogs.nickname, nickname),
+          eq(staffLoginLogs.success, false),
+          gte(staffLoginLogs.loginTime, timeWindow),
+          failureReason ? eq(staffLoginLogs.failureReason, failureReason) : undefined
+        )
+      );
+
+    return { count: result?.count ?? 0, lastAttemptAt: result?.lastAttemptAt ?? null };
+  }
+
+  async getFailedLoginAttemptsByIp(ipAddress: string, timeWindow: Date, failureReason?: string): Promise<FailedLoginSummary> {
+    const [result] = await db
+      .select({ count: count(), lastAttemptAt: max(staffLoginLogs.loginTime) })
+      .from(staffLoginLogs)
+      .where(
+        and(
+          eq(staffLoginLogs.ipAddress, ipAddress),
+          eq(staffLoginLogs.success, false),
+          gte(staffLoginLogs.loginTime, timeWindow),
+          failureReason ? eq(staffLoginLogs.failureReason, failureReason) : undefined
         )
       );
 
-    return failedAttempts.length;
+    return { count: result?.count ?? 0, lastAttemptAt: result?.lastAttemptAt ?? null };
+  }
+
+  // Failed attempts per staff member since timeWindow, ignoring anything before an admin unlock
+  async getFailedLoginAttemptsByStaff(timeWindow: Date, failureReason?: string): Promise<(FailedLoginSummary & { staffId: string })[]> {
+    return await db
+      .select({
+        staffId: staff.id,
+        count: count(),
+        lastAttemptAt: max(staffLoginLogs.loginTime),
+      })
+      .from(staffLoginLogs)
+      .innerJoin(staff, eq(staffLoginLogs.staffId, staff.id))
+      .where(
+        and(
+          eq(staffLoginLogs.success, false),
+          gte(staffLoginLogs.loginTime, timeWindow),
+          sql`${staffLoginLogs.loginTime} > coalesce(${staff.loginLockResetAt}, ${timeWindow})`,
+          failureReason ? eq(staffLoginLogs.failureReason, failureReason) : undefined
+        )
+      )
+      .groupBy(staff.id);
+  }
+
+  // Staff session methods
+  async getStaffSessions(staffId: string): Promise<StaffSession[]> {
+    return await db.select().from(staffSessions)
+      .where(and(
+        eq(staffSessions.staffId, staffId),
+        gt(staffSessions.expire, new Date())
+      ))
+      .orderBy(desc(staffSessions.lastSeenAt));
+  }
+
+  async getStaffSession(id: string): Promise<StaffSession | undefined> {
+    const [session] = await db.select().from(staffSessions).where(eq(staffSessions.id, id));
+    return session || undefined;
+  }
+
+  async deleteStaffSession(id: string): Promise<void> {
+    await db.delete(staffSessions).where(eq(staffSessions.id, id));
+  }
+
+  // Revokes every session of a staff member, optionally keeping the caller's own session.
+  // Returns the revoked sessions.
+  async deleteStaffSessions(staffId: string, exceptSid?: string): Promise<StaffSession[]> {
+    return await db.delete(staffSessions)
+      .where(and(
+        eq(staffSessions.staffId, staffId),
+        exceptSid ? ne(staffSessions.sid, exceptSid) : undefined
+      ))
+      .returning();
   }
 
   // Department operations
@@ -1212,6 +2441,20 @@ export class DatabaseStorage implements IStorage {
     return updatedTeam || undefined;
   }
 
+  async getTeamIdsForStaff(staffId: string): Promise<string[]> {
+    const results = await db.select({ id: teams.id })
+      .from(teams)
+      .where(sql`${teams.assignedStaff} @> ${JSON.stringify([staffId])}::jsonb`);
+    return results.map(r => r.id);
+  }
+
+  async getDepartmentIdsForStaff(staffId: string): Promise<string[]> {
+    const results = await db.selectDistinct({ departmentId: teams.departmentId })
+      .from(teams)
+      .where(sql`${teams.assignedStaff} @> ${JSON.stringify([staffId])}::jsonb`);
+    return results.map(r => r.departmentId);
+  }
+
   async deleteTeam(id: string): Promise<void> {
     await db.delete(teams).where(eq(teams.id, id));
   }
@@ -1253,6 +2496,7 @@ export class DatabaseStorage implements IStorage {
         fullAddress: families.fullAddress,
         familyNotes: families.familyNotes,
         familyPicture: families.familyPicture,
+        familyPictureThumbnail: families.familyPictureThumbnail,
         lifeGroup: families.lifeGroup,
         supportTeamMember: families.supportTeamMember,
         biz: families.biz,
@@ -1261,6 +2505,8 @@ export class DatabaseStorage implements IStorage {
         bizName: families.bizName,
         bizIntro: families.bizIntro,
         teamId: families.teamId,
+        deletedAt: families.deletedAt,
+        deletedBy: families.deletedBy,
         createdAt: families.createdAt,
         updatedAt: families.updatedAt,
         members: {
@@ -1272,7 +2518,6 @@ export class DatabaseStorage implements IStorage {
           phoneNumber: familyMembers.phoneNumber,
           email: familyMembers.email,
           relationship: familyMembers.relationship,
-          courses: familyMembers.courses,
           gradeLevel: familyMembers.gradeLevel,
           gradeGroup: familyMembers.gradeGroup,
           school: familyMembers.school,
@@ -1282,7 +2527,7 @@ export class DatabaseStorage implements IStorage {
       })
       .from(families)
       .leftJoin(familyMembers, eq(families.id, familyMembers.familyId))
-      .where(eq(families.teamId, teamId))
+      .where(and(eq(families.teamId, teamId), isNull(families.deletedAt)))
       .orderBy(families.displayOrder, families.familyName);
 
     // Group family members by family
@@ -1308,6 +2553,7 @@ export class DatabaseStorage implements IStorage {
           fullAddress: row.fullAddress,
           familyNotes: row.familyNotes,
           familyPicture: row.familyPicture,
+          familyPictureThumbnail: row.familyPictureThumbnail,
           lifeGroup: row.lifeGroup,
           supportTeamMember: row.supportTeamMember,
           biz: row.biz,
@@ -1316,6 +2562,8 @@ export class DatabaseStorage implements IStorage {
           bizName: row.bizName,
           bizIntro: row.bizIntro,
           teamId: row.teamId,
+          deletedAt: row.deletedAt,
+          deletedBy: row.deletedBy,
           createdAt: row.createdAt,
           updatedAt: row.updatedAt,
           members: []
@@ -0,0 +1,358 @@
+import { FAMILY_RELATIONSHIPS, type FamilyMember, type FamilyRelationship, type FamilyWithMembers, type VCardVersion } from "@server/schema";
+
+// vCard 3.0 (RFC 2426) and 4.0 (RFC 6350) contacts for families, one per spouse and per other
+// member with their own phone or email. The family and member ids are written as X- properties so
+// an exported file imports back onto the same families. Pure functions, no database access.
+
+export const VCARD_CONTENT_TYPE = "text/vcard; charset=utf-8";
+
+const FAMILY_ID_PROPERTY = "X-FAMILY-ID";
+const RELATIONSHIP_PROPERTY = "X-FAMILY-RELATIONSHIP";
+// Phonetic (here: English) names, read by iOS and Android contacts
+const PHONETIC_GIVEN_NAME_PROPERTY = "X-PHONETIC-FIRST-NAME";
+const PHONETIC_FAMILY_NAME_PROPERTY = "X-PHONETIC-LAST-NAME";
+const MAX_LINE_OCTETS = 75;
+
+// A contact as read from a vCard file; fields the card doesn't have are undefined. Home phone and
+// email are the family's, the others the member's own.
+export type VCardContact = {
+  familyId?: string;
+  memberId?: string;
+  relationship?: FamilyRelationship;
+  koreanName: string;
+  englishName?: string;
+  phoneNumber?: string;
+  email?: string;
+  familyPhoneNumber?: string;
+  familyEmail?: string;
+  address?: { street: string; city: string; state: string; zipCode: string };
+  bizName?: string;
+  bizTitle?: string;
+};
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/\r?\n/g, "\\n")
+    .replace(/,/g, "\\,")
+    .replace(/;/g, "\\;");
+}
+
+// Lines longer than 75 octets continue on the next line after a space, never inside a character
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+// Korean names are surname first with a one-syllable surname; other names are surname last
+function splitName(name: string): { family: string; given: string } {
+  const trimmed = name.trim();
+  if (/^[가-힣]{2,4}$/.test(trimmed)) {
+    return { family: trimmed.slice(0, 1), given: trimmed.slice(1) };
+  }
+  const words = trimmed.split(/\s+/);
+  if (/^[가-힣]/.test(trimmed) && words.length > 1) {
+    return { family: words[0], given: words.slice(1).join(" ") };
+  }
+  return words.length > 1
+    ? { family: words[words.length - 1], given: words.slice(0, -1).join(" ") }
+    : { family: trimmed, given: "" };
+}
+
+type VCardMember = Pick<FamilyWithMembers['members'][number], 'id' | 'koreanName' | 'englishName' | 'phoneNumber' | 'email' | 'relationship'>;
+
+function memberToVCard(family: FamilyWithMembers, member: VCardMember | null, version: VCardVersion): string {
+  const koreanName = member?.koreanName || family.familyName;
+  const name = splitName(koreanName);
+  const type = (value: string) => version === '3.0' ? value.toUpperCase() : value;
+
+  const englishName = member?.englishName && member.englishName !== koreanName ? member.englishName : null;
+  const structuredName = (parts: { family: string; given: string }) => `${escapeText(parts.family)};${escapeText(parts.given)};;;`;
+
+  const lines = ["BEGIN:VCARD", `VERSION:${version}`];
+  if (englishName) {
+    // The English name is also given as the phonetic name, and in 4.0 as the English form of FN and N
+    const englishParts = splitName(englishName);
+    if (version === '4.0') {
+      lines.push(
+        `FN;ALTID=1;LANGUAGE=ko:${escapeText(koreanName)}`,
+        `FN;ALTID=1;LANGUAGE=en:${escapeText(englishName)}`,
+        `N;ALTID=1;LANGUAGE=ko:${structuredName(name)}`,
+        `N;ALTID=1;LANGUAGE=en:${structuredName(englishParts)}`,
+      );
+    } else {
+      lines.push(`FN:${escapeText(koreanName)}`, `N:${structuredName(name)}`);
+    }
+    lines.push(
+      `NICKNAME:${escapeText(englishName)}`,
+      `${PHONETIC_GIVEN_NAME_PROPERTY}:${escapeText(englishParts.given)}`,
+      `${PHONETIC_FAMILY_NAME_PROPERTY}:${escapeText(englishParts.family)}`,
+    );
+  } else {
+    lines.push(`FN:${escapeText(koreanName)}`, `N:${structuredName(name)}`);
+  }
+  if (member?.phoneNumber) {
+    lines.push(`TEL;TYPE=${type('cell')}:${escapeText(member.phoneNumber)}`);
+  }
+  if (family.phoneNumber && family.phoneNumber !== member?.phoneNumber) {
+    lines.push(`TEL;TYPE=${type('home')}:${escapeText(family.phoneNumber)}`);
+  }
+  if (member?.email) {
+    lines.push(`EMAIL;${version === '3.0' ? 'TYPE=INTERNET,PREF' : 'PREF=1'}:${escapeText(member.email)}`);
+  }
+  if (family.email && family.email !== member?.email) {
+    lines.push(`EMAIL;TYPE=${version === '3.0' ? 'INTERNET,HOME' : 'home'}:${escapeText(family.email)}`);
+  }
+  if (family.address || family.city || family.zipCode) {
+    const address = [family.address, family.city, family.state, family.zipCode].map(part => escapeText(part ?? ""));
+    lines.push(`ADR;TYPE=${type('home')}:;;${address.join(";")};`);
+  }
+  if (family.bizName) {
+    lines.push(`ORG:${escapeText(family.bizName)}`);
+  }
+  if (family.bizTitle) {
+    lines.push(`TITLE:${escapeText(family.bizTitle)}`);
+  }
+  if (member) {
+    lines.push(`UID:${version === '4.0' ? `urn:uuid:${member.id}` : member.id}`);
+    lines.push(`${RELATIONSHIP_PROPERTY}:${member.relationship}`);
+  }
+  lines.push(`${FAMILY_ID_PROPERTY}:${family.id}`);
+  lines.push("END:VCARD");
+
+  return lines.map(foldLine).join("\r\n");
+}
+
+// One vCard per spouse, and per other member with their own phone or email; a family
+// without such members gets a single card under the family name
+export function familiesToVCards(families: FamilyWithMembers[], version: VCardVersion): string {
+  const cards = families.flatMap(family => {
+    const contacts = family.members.filter(member =>
+      member.relationship === 'husband' || member.relationship === 'wife' || member.phoneNumber || member.email
+    );
+    return contacts.length > 0
+      ? contacts.map(member => memberToVCard(family, member, version))
+      : [memberToVCard(family, null, version)];
+  });
+  return cards.length > 0 ? `${cards.join("\r\n")}\r\n` : "";
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\,;nN])/g, (_, char: string) => char.toLowerCase() === "n" ? "\n" : char);
+}
+
+// Splits on separators that aren't escaped
+function splitUnescaped(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === "\\" && i + 1 < value.length) {
+      current += value[i] + value[i + 1];
+      i++;
+    } else if (value[i] === separator) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += value[i];
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+type VCardProperty = { name: string; types: string[]; language?: string; value: string };
+
+function parseProperty(line: string): VCardProperty | null {
+  // The value starts after the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [nameWithGroup, ...params] = line.slice(0, colon).split(";");
+  const name = nameWithGroup.split(".").pop()!.toUpperCase();
+  const types = params.flatMap(param => {
+    const [key, paramValue] = param.split("=");
+    if (paramValue === undefined) return [key.toLowerCase()]; // vCard 2.1 style bare types
+    if (key.toUpperCase() === "PREF") return ["pref"]; // vCard 4.0 marks preference as PREF=1
+    return key.toUpperCase() === "TYPE" ? paramValue.replace(/"/g, "").toLowerCase().split(",") : [];
+  });
+  const language = params.find(param => param.split("=")[0].toUpperCase() === "LANGUAGE")?.split("=")[1];
+  return { name, types, language: language?.replace(/"/g, "").toLowerCase(), value: line.slice(colon + 1) };
+}
+
+// The preferred, else cell, else first value of a property, leaving out home values when asked
+function pickProperty(properties: VCardProperty[], name: string, options?: { excludeHome?: boolean }): VCardProperty | undefined {
+  const matching = properties.filter(property =>
+    property.name === name && property.value.trim() && !(options?.excludeHome && property.types.includes("home"))
+  );
+  return matching.find(property => property.types.includes("pref")) ??
+    matching.find(property => property.types.includes("cell")) ??
+    matching[0];
+}
+
+function pickHomeProperty(properties: VCardProperty[], name: string): VCardProperty | undefined {
+  return properties.find(property => property.name === name && property.value.trim() && property.types.includes("home"));
+}
+
+function textValue(property: VCardProperty | undefined): string | undefined {
+  const value = property ? unescapeText(property.value).trim() : "";
+  return value || undefined;
+}
+
+function isEnglish(property: VCardProperty): boolean {
+  return !!property.language?.startsWith("en");
+}
+
+// "Given Family" from a structured name's parts, or "FamilyGiven" for Korean names
+function joinName(familyName: string, givenName: string): string {
+  return (/[가-힣]/.test(familyName + givenName) ? `${familyName}${givenName}` : `${givenName} ${familyName}`).trim();
+}
+
+function cardToContact(properties: VCardProperty[]): VCardContact | null {
+  // The English forms of FN and N (see memberToVCard) are the English name, not the Korean one
+  const localNames = properties.filter(property => !isEnglish(property));
+  const formattedName = textValue(pickProperty(localNames, "FN"));
+  const structuredName = pickProperty(localNames, "N");
+  const [familyName = "", givenName = ""] = structuredName
+    ? splitUnescaped(structuredName.value, ";").map(part => unescapeText(part).trim())
+    : [];
+  const koreanName = formattedName || joinName(familyName, givenName);
+  if (!koreanName) return null;
+
+  const englishFormattedName = properties.find(property => property.name === "FN" && isEnglish(property));
+  const phoneticName = joinName(
+    textValue(pickProperty(properties, PHONETIC_FAMILY_NAME_PROPERTY)) ?? "",
+    textValue(pickProperty(properties, PHONETIC_GIVEN_NAME_PROPERTY)) ?? ""
+  );
+
+  const organization = pickProperty(properties, "ORG"); // company;department;...
+  const contact: VCardContact = {
+    koreanName,
+    englishName: textValue(englishFormattedName) || phoneticName || textValue(pickProperty(properties, "NICKNAME")),
+    phoneNumber: textValue(pickProperty(properties, "TEL", { excludeHome: true }))?.replace(/^tel:/i, ""),
+    email: textValue(pickProperty(properties, "EMAIL", { excludeHome: true })),
+    familyPhoneNumber: textValue(pickHomeProperty(properties, "TEL"))?.replace(/^tel:/i, ""),
+    familyEmail: textValue(pickHomeProperty(properties, "EMAIL")),
+    bizName: organization ? unescapeText(splitUnescaped(organization.value, ";")[0]).trim() || undefined : undefined,
+    bizTitle: textValue(pickProperty(properties, "TITLE")),
+    familyId: textValue(pickProperty(properties, FAMILY_ID_PROPERTY)),
+    memberId: textValue(pickProperty(properties, "UID"))?.replace(/^urn:uuid:/i, ""),
+  };
+
+  const relationship = textValue(pickProperty(properties, RELATIONSHIP_PROPERTY));
+  if (relationship && (FAMILY_RELATIONSHIPS as readonly string[]).includes(relationship)) {
+    contact.relationship = relationship as FamilyRelationship;
+  }
+
+  const address = pickProperty(properties, "ADR");
+  if (address) {
+    const [, , street = "", city = "", state = "", zipCode = ""] = splitUnescaped(address.value, ";").map(part => unescapeText(part).trim());
+    if (street || city || zipCode) {
+      contact.address = { street, city, state, zipCode };
+    }
+  }
+
+  return contact;
+}
+
+// The contacts in a vCard file, in file order; cards without any name are skipped
+export function parseVCards(text: string): VCardContact[] {
+  const lines = text
+    .replace(/^\uFEFF/, "")
+    .split(/\r\n|\r|\n/)
+    .reduce<string[]>((unfolded, line) => {
+      if ((line.startsWith(" ") || line.startsWith("\t")) && unfolded.length > 0) {
+        unfolded[unfolded.length - 1] += line.slice(1);
+      } else if (line.trim()) {
+        unfolded.push(line);
+      }
+      return unfolded;
+    }, []);
+
+  const contacts: VCardContact[] = [];
+  let properties: VCardProperty[] | null = null;
+  for (const line of lines) {
+    const property = parseProperty(line);
+    if (!property) continue;
+    if (property.name === "BEGIN" && property.value.toUpperCase() === "VCARD") {
+      properties = [];
+    } else if (property.name === "END" && property.value.toUpperCase() === "VCARD") {
+      const contact = properties && cardToContact(properties);
+      if (contact) contacts.push(contact);
+      properties = null;
+    } else if (properties) {
+      properties.push(property);
+    }
+  }
+  return contacts;
+}
+
+export type VCardHouseholdMember = Partial<Omit<FamilyMember, 'familyId' | 'createdAt' | 'updatedAt'>> &
+  Pick<FamilyMember, 'koreanName' | 'englishName' | 'relationship'>;
+
+// A household's members after importing its cards. A card updates the member with its UID, else the
+// spouse in its relationship, else the member with its Korean name; other cards add members. Members
+// without a card are kept, and fields a card leaves out keep their values.
+export function mergeVCardMembers(members: FamilyMember[], contacts: VCardContact[]): VCardHouseholdMember[] {
+  const merged: VCardHouseholdMember[] = members.map(({ familyId, createdAt, updatedAt, ...member }) => member);
+  const matched = new Set<VCardHouseholdMember>();
+
+  for (const contact of contacts) {
+    const unmatched = merged.filter(member => !matched.has(member));
+    const existing = unmatched.find(member => !!contact.memberId && member.id === contact.memberId) ??
+      unmatched.find(member => (contact.relationship === 'husband' || contact.relationship === 'wife') && member.relationship === contact.relationship) ??
+      unmatched.find(member => member.koreanName === contact.koreanName);
+
+    const fields = {
+      koreanName: contact.koreanName,
+      ...(contact.englishName !== undefined && { englishName: contact.englishName }),
+      ...(contact.phoneNumber !== undefined && { phoneNumber: contact.phoneNumber }),
+      ...(contact.email !== undefined && { email: contact.email }),
+    };
+    if (existing) {
+      const updated = { ...existing, ...fields };
+      merged[merged.indexOf(existing)] = updated;
+      matched.add(updated);
+    } else {
+      const relationship = contact.relationship ?? (merged.some(member => member.relationship === 'husband') ? 'other' : 'husband');
+      const added = { relationship, englishName: '', ...fields };
+      merged.push(added);
+      matched.add(added);
+    }
+  }
+  return merged;
+}
+
+// Family fields from a household's cards, each from the first card that has it
+export function getVCardFamilyFields(contacts: VCardContact[]) {
+  const first = <K extends keyof VCardContact>(key: K) => contacts.find(contact => contact[key] !== undefined)?.[key];
+  return {
+    phoneNumber: first('familyPhoneNumber'),
+    email: first('familyEmail'),
+    address: first('address'),
+    bizName: first('bizName'),
+    bizTitle: first('bizTitle'),
+  };
+}